@@ -0,0 +1,14 @@
+/**
+ * 离线评测入口（npm run eval）
+ *
+ * 用 jiti 直接运行 TypeScript 源码，并按 tsconfig 的约定把 @/ 解析到 src/。
+ */
+
+import { fileURLToPath } from 'node:url'
+import { createJiti } from 'jiti'
+
+const jiti = createJiti(import.meta.url, {
+  alias: { '@': fileURLToPath(new URL('../src', import.meta.url)) },
+})
+
+await jiti.import('./eval.ts')
@@ -0,0 +1,132 @@
+/**
+ * 离线评测脚本
+ *
+ * 对评测集（src/data/eval/golden.json）运行素材生成并打分，模型响应来自录制文件
+ * src/data/eval/fixtures.json，整个过程不访问网络。
+ *
+ * 用法：
+ * - npm run eval                                   回放录制的响应，打印评测报告
+ * - npm run eval -- --record                       调用真实模型并录制响应（需要在 .env 中配置模型密钥）
+ * - npm run eval -- --prompts assets=2             指定提示词模板版本
+ * - npm run eval -- --against assets=2             再用另一组提示词版本评测一次，打印两次的对比
+ * - npm run eval -- --out report.json              保存评测报告
+ * - npm run eval -- --baseline report.json         与之前保存的报告对比（如解析逻辑修改前后）
+ *
+ * 回放时未配置豆包密钥和端点的，使用占位值（录制键不含地址和密钥）。回放时不回退到模拟数据：
+ * 没有录制过的请求记为生成失败，脚本以非零状态码退出，此时需要重新录制（提示词、模型路由或请求格式
+ * 改变后录制键都会变化）。评测时关闭模型输出缓存。
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'node:fs'
+import { parseArgs } from 'node:util'
+import { loadEnvConfig } from '@next/env'
+import type { PromptName, PromptVersions } from '@/types'
+import { setOutboundFixtures, type RecordedResponse } from '@/lib/outbound'
+import {
+  diffReports,
+  formatReport,
+  runEval,
+  type EvalCase,
+  type EvalReport,
+} from '@/services/evalHarness'
+import golden from '@/data/eval/golden.json'
+
+const FIXTURES_PATH = 'src/data/eval/fixtures.json'
+
+/**
+ * 录制文件
+ *
+ * @property description - 录制说明（录制时间、来源等）
+ * @property fixtures - 录制的响应，键为录制键
+ */
+interface FixtureFile {
+  description: string
+  fixtures: Record<string, RecordedResponse>
+}
+
+/**
+ * 解析 'assets=2,hero=1' 形式的提示词版本
+ */
+function parsePrompts(value: string | undefined): PromptVersions {
+  if (!value) return {}
+  return Object.fromEntries(
+    value
+      .split(',')
+      .map((pair) => pair.split('=').map((s) => s.trim()) as [PromptName, string])
+      .filter(([name, version]) => name && version)
+  )
+}
+
+function promptLabel(prompts: PromptVersions): string {
+  const pairs = Object.entries(prompts).map(([name, version]) => `${name}@${version}`)
+  return pairs.length > 0 ? pairs.join(',') : '默认提示词'
+}
+
+async function main() {
+  loadEnvConfig(process.cwd())
+  const { values } = parseArgs({
+    options: {
+      record: { type: 'boolean', default: false },
+      prompts: { type: 'string' },
+      against: { type: 'string' },
+      out: { type: 'string' },
+      baseline: { type: 'string' },
+    },
+  })
+
+  const mode = values.record ? 'record' : 'replay'
+  const { fixtures }: FixtureFile = existsSync(FIXTURES_PATH)
+    ? JSON.parse(readFileSync(FIXTURES_PATH, 'utf8'))
+    : { description: '', fixtures: {} }
+  const missing: string[] = []
+  process.env.GENERATION_CACHE_TTL_SECONDS = '0'
+  if (mode === 'replay') {
+    process.env.LLM_PROVIDERS ||= 'doubao'
+    process.env.DOUBAO_API_KEY ||= 'replay'
+    process.env.DOUBAO_ENDPOINT ||= 'https://replay.invalid/api/v3/chat/completions'
+  }
+  setOutboundFixtures({ mode, fixtures, missing })
+
+  const cases = golden.cases as EvalCase[]
+  const allowMock = mode === 'record'
+  const prompts = parsePrompts(values.prompts)
+  const report = await runEval(cases, { label: promptLabel(prompts), prompts, allowMock })
+  console.log(formatReport(report))
+
+  if (values.against) {
+    const against = parsePrompts(values.against)
+    const other = await runEval(cases, {
+      label: promptLabel(against),
+      prompts: against,
+      allowMock,
+    })
+    console.log(`\n${formatReport(other)}\n\n${diffReports(report, other)}`)
+  }
+  if (values.baseline) {
+    const baseline = JSON.parse(readFileSync(values.baseline, 'utf8')) as EvalReport
+    console.log(`\n${diffReports(baseline, report)}`)
+  }
+  if (values.out) {
+    writeFileSync(values.out, `${JSON.stringify(report, null, 2)}\n`)
+    console.log(`\n评测报告已保存到 ${values.out}`)
+  }
+  if (mode === 'record') {
+    const file: FixtureFile = {
+      description: `${new Date().toISOString().slice(0, 10)} 通过 npm run eval -- --record 录制`,
+      fixtures,
+    }
+    writeFileSync(FIXTURES_PATH, `${JSON.stringify(file, null, 2)}\n`)
+    console.log(`\n已录制 ${Object.keys(fixtures).length} 个响应到 ${FIXTURES_PATH}`)
+  }
+  if (missing.length > 0) {
+    console.error(
+      `\n回放失败：${new Set(missing).size} 个请求没有录制过，请运行 npm run eval -- --record 重新录制`
+    )
+    process.exitCode = 1
+  }
+}
+
+main().catch((error) => {
+  console.error('离线评测失败:', error)
+  process.exit(1)
+})
@@ -0,0 +1,20 @@
+/**
+ * 测试入口（npm test）
+ *
+ * 用 jiti 直接运行 src 下的 *.test.ts（node:test 编写），并按 tsconfig 的约定把 @/ 解析到 src/。
+ * 测试不访问网络：模型调用通过替换全局 fetch 模拟。
+ */
+
+import { readdirSync } from 'node:fs'
+import { fileURLToPath } from 'node:url'
+import { createJiti } from 'jiti'
+
+const src = fileURLToPath(new URL('../src', import.meta.url))
+const jiti = createJiti(import.meta.url, { alias: { '@': src } })
+
+const files = readdirSync(src, { recursive: true })
+  .filter((file) => file.endsWith('.test.ts'))
+  .sort()
+for (const file of files) {
+  await jiti.import(`${src}/${file}`)
+}
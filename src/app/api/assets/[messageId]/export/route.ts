@@ -0,0 +1,79 @@
+/**
+ * 视频脚本导出API路由
+ *
+ * 提供素材消息视频脚本的导出端点：
+ * - GET: 把视频分镜脚本导出为 SRT/WebVTT 字幕或 CSV 分镜表
+ *
+ * 路由路径: /api/assets/[messageId]/export
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getMessageForClient } from '@/lib/db'
+import { SCRIPT_EXPORT_FORMATS, exportScript, isScriptExportFormat } from '@/lib/scriptExport'
+import type { AssetsMeta } from '@/types'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/assets/[messageId]/export
+ *
+ * 以附件形式返回导出文件，文件名为 script-[messageId].[format]。
+ *
+ * 查询参数：
+ * - format: 'srt' | 'vtt' | 'csv' - 导出格式（必填）
+ * - candidate?: number - 可选的候选方案下标（对应 metaData.candidates），默认导出当前采用的方案
+ *
+ * @example
+ * ```typescript
+ * const response = await fetch('/api/assets/msg-123/export?format=srt', {
+ *   headers: { 'X-Client-Id': clientId }
+ * });
+ * const srt = await response.text();
+ * ```
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ messageId: string }> }
+) {
+  try {
+    const { messageId } = await params
+    const { searchParams } = new URL(req.url)
+    const format = searchParams.get('format')
+    const candidate = searchParams.get('candidate')
+    const clientId = req.headers.get('x-client-id') || null
+
+    if (!isScriptExportFormat(format)) {
+      return NextResponse.json(
+        { error: `不支持的导出格式（可选：${SCRIPT_EXPORT_FORMATS.map((f) => f.id).join('、')}）` },
+        { status: 400 }
+      )
+    }
+
+    // 客户端隔离校验
+    const message = await getMessageForClient(messageId, clientId)
+    if (!message || message.messageType !== 'generated_assets' || !message.metaData) {
+      return NextResponse.json({ error: '素材消息不存在或无权访问' }, { status: 403 })
+    }
+
+    const meta = message.metaData as AssetsMeta
+    const assets = candidate === null ? meta : meta.candidates?.[Number(candidate)]?.assets
+    if (!assets) {
+      return NextResponse.json({ error: '候选方案不存在' }, { status: 400 })
+    }
+
+    const { contentType } = SCRIPT_EXPORT_FORMATS.find((f) => f.id === format)!
+    return new Response(exportScript(assets.video_script, format), {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Disposition': `attachment; filename="script-${messageId}.${format}"`,
+      },
+    })
+  } catch (error: unknown) {
+    console.error('导出视频脚本错误:', error)
+    const msg =
+      typeof error === 'object' && error !== null && 'message' in (error as Record<string, unknown>)
+        ? String((error as { message?: string }).message)
+        : '服务器内部错误'
+    return NextResponse.json({ error: msg }, { status: 500 })
+  }
+}
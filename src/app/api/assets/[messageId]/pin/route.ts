@@ -0,0 +1,94 @@
+/**
+ * 候选方案选定API路由
+ *
+ * 提供素材消息的候选方案选定端点：
+ * - POST: 把指定的候选方案设为该消息采用的方案
+ *
+ * 路由路径: /api/assets/[messageId]/pin
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getMessageForClient, updateMessage } from '@/lib/db'
+import { pickAssets } from '@/lib/assets'
+import { checkCompliance } from '@/services/compliance'
+import type { AssetsMeta } from '@/types'
+
+export const runtime = 'nodejs'
+
+/**
+ * POST /api/assets/[messageId]/pin
+ *
+ * 选定候选方案后，消息内容与 metaData 顶层素材都会替换为该方案，
+ * 后续对话会以选定的方案作为上下文；来源信息也换成该方案的来源（提供方、模型、回退原因），
+ * 用量仍为全部候选方案的调用之和，即整条消息的消耗。
+ *
+ * 请求体：
+ * - index: number - 候选方案下标（对应 metaData.candidates）
+ *
+ * 响应：
+ * - message: Message - 更新后的消息
+ *
+ * @example
+ * ```typescript
+ * const response = await fetch('/api/assets/msg-123/pin', {
+ *   method: 'POST',
+ *   headers: { 'Content-Type': 'application/json' },
+ *   body: JSON.stringify({ index: 1 })
+ * });
+ * ```
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ messageId: string }> }
+) {
+  try {
+    const { messageId } = await params
+    const body = await req.json()
+    const index = body.index as unknown
+    const clientId = req.headers.get('x-client-id') || null
+
+    // 客户端隔离校验
+    const message = await getMessageForClient(messageId, clientId)
+    if (!message || message.messageType !== 'generated_assets' || !message.metaData) {
+      return NextResponse.json({ error: '素材消息不存在或无权访问' }, { status: 403 })
+    }
+
+    const meta = message.metaData as AssetsMeta
+    const candidates = meta.candidates ?? []
+    if (typeof index !== 'number' || !Number.isInteger(index) || !candidates[index]) {
+      return NextResponse.json({ error: '候选方案不存在' }, { status: 400 })
+    }
+
+    const { assets, compliance, brand, comparison, evidence, provenance } = candidates[index]
+    const nextMeta: AssetsMeta = {
+      ...meta,
+      ...assets,
+      selectedIndex: index,
+      pinned: true,
+      compliance: compliance ?? checkCompliance(assets),
+      brand,
+      comparison,
+      evidence,
+      // 早期数据的候选方案没有记录来源，沿用消息的来源
+      provenance: provenance
+        ? {
+            ...provenance,
+            usage: candidates.flatMap((candidate) => candidate.provenance?.usage ?? []),
+          }
+        : meta.provenance,
+    }
+    const updated = await updateMessage(messageId, {
+      content: JSON.stringify(pickAssets(assets)),
+      metaData: nextMeta,
+    })
+
+    return NextResponse.json({ message: updated })
+  } catch (error: unknown) {
+    console.error('选定候选方案错误:', error)
+    const msg =
+      typeof error === 'object' && error !== null && 'message' in (error as Record<string, unknown>)
+        ? String((error as { message?: string }).message)
+        : '服务器内部错误'
+    return NextResponse.json({ error: msg }, { status: 500 })
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * 字段重新生成API路由
+ *
+ * 提供素材消息的单字段重新生成端点：
+ * - POST: 只重新生成素材的某一个字段，其余字段保持不变
+ *
+ * 路由路径: /api/assets/[messageId]/regenerate
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  getConversation,
+  getConversationBrandGuide,
+  getMessageForClient,
+  getProductProfile,
+  listMessagesBefore,
+  updateMessage,
+} from '@/lib/db'
+import { ASSETS_SCHEMA_VERSION, isAssetField, pickAssets, sectionsOf } from '@/lib/assets'
+import { messageImages } from '@/lib/productImages'
+import { regenerateField, type GeneratedWithProvenance } from '@/services/aiService'
+import { recordTextUsage } from '@/services/usageService'
+import { checkCompliance } from '@/services/compliance'
+import { checkBrandGuide } from '@/services/brandCheck'
+import { compareClaims } from '@/services/differentiation'
+import { linkEvidence } from '@/services/reviewMining'
+import type { AssetsMeta } from '@/types'
+
+export const runtime = 'nodejs'
+
+/**
+ * POST /api/assets/[messageId]/regenerate
+ *
+ * 以生成该素材时的商品描述和图片以及会话当前的商品档案为输入，只重新生成指定字段。
+ * 新版本会成为消息当前采用的素材，并追加到 metaData.revisions 中；
+ * 首次重新生成时，原始版本会先被记录为第一条修订。
+ * 指定的扩展内容尚未生成时会补充生成，并记入 metaData.sections。
+ * 生成该素材时提供了竞品的，重新生成同样避开竞品卖点，并更新卖点对比表；
+ * 提供了买家评价的，同样以评价洞察为依据，并更新卖点的评价依据；有营销活动的，同样体现该活动。
+ * 系统提示词沿用原消息记录的提示词模板版本。
+ * 候选方案描述的是重新生成前的素材，重新生成后不再保留（消息只保留当前采用的素材及修订记录）。
+ * 真实模型全部不可用时返回502，不会用模拟数据替换字段。
+ *
+ * 请求体：
+ * - field: AssetField - 需要重新生成的字段：'title' | 'selling_points' | 'atmosphere' | 'video_script'，
+ *   或扩展内容 'seo_keywords' | 'hashtags' | 'detail_copy' | 'faq'
+ *
+ * 响应：
+ * - message: Message - 更新后的消息
+ *
+ * @example
+ * ```typescript
+ * const response = await fetch('/api/assets/msg-123/regenerate', {
+ *   method: 'POST',
+ *   headers: { 'Content-Type': 'application/json' },
+ *   body: JSON.stringify({ field: 'selling_points' })
+ * });
+ * ```
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ messageId: string }> }
+) {
+  try {
+    const { messageId } = await params
+    const body = await req.json()
+    const field = body.field as unknown
+    const clientId = req.headers.get('x-client-id') || null
+
+    if (!isAssetField(field)) {
+      return NextResponse.json({ error: '不支持的字段' }, { status: 400 })
+    }
+
+    // 客户端隔离校验
+    const message = await getMessageForClient(messageId, clientId)
+    if (!message || message.messageType !== 'generated_assets' || !message.metaData) {
+      return NextResponse.json({ error: '素材消息不存在或无权访问' }, { status: 403 })
+    }
+    const meta = message.metaData as AssetsMeta
+
+    // 找到触发这次生成的用户消息，取其商品描述和图片
+    const earlier = await listMessagesBefore(message.conversationId, message.id)
+    const source = [...earlier].reverse().find((m) => m.role === 'user')
+    const conversation = await getConversation(message.conversationId)
+    const product = await getProductProfile(message.conversationId)
+    const brandGuide = await getConversationBrandGuide(message.conversationId)
+
+    let result: GeneratedWithProvenance | null
+    try {
+      result = await regenerateField(
+        pickAssets(meta),
+        field,
+        source?.content ?? '',
+        messageImages(source?.metaData),
+        {
+          platform: conversation?.platform ?? undefined,
+          product,
+          brandGuide,
+          competitors: meta.competitors,
+          reviewInsights: meta.reviewInsights,
+          launchDate: meta.launchDate,
+          campaign: meta.campaign,
+          prompts: meta.prompts,
+          allowMock: false,
+        }
+      )
+    } catch (error) {
+      // 真实模型全部不可用
+      console.error('重新生成字段失败:', error)
+      result = null
+    }
+    if (!result) {
+      return NextResponse.json({ error: '重新生成失败，请稍后重试' }, { status: 502 })
+    }
+
+    // 记录修订：首次重新生成时先保存原始版本
+    const revisions = meta.revisions?.length
+      ? meta.revisions
+      : [
+          {
+            assets: pickAssets(meta),
+            createdAt: message.createdAt ?? Date.now(),
+            provenance: meta.provenance,
+          },
+        ]
+    const { assets, provenance } = result
+    const sections = sectionsOf(assets)
+    const nextMeta: AssetsMeta = {
+      ...meta,
+      ...assets,
+      schemaVersion: ASSETS_SCHEMA_VERSION,
+      sections: sections.length > 0 ? sections : undefined,
+      candidates: undefined,
+      selectedIndex: undefined,
+      pinned: undefined,
+      revisions: [...revisions, { assets, field, createdAt: Date.now(), provenance }],
+      compliance: checkCompliance(assets),
+      // 品牌规范问题按会话当前选用的规范重新检查
+      brand: brandGuide ? checkBrandGuide(assets, brandGuide) : undefined,
+      brandGuide: brandGuide ? { id: brandGuide.id, name: brandGuide.name } : undefined,
+      comparison: meta.competitors?.length ? compareClaims(assets, meta.competitors) : undefined,
+      evidence: meta.reviewInsights ? linkEvidence(assets, meta.reviewInsights) : undefined,
+      provenance,
+    }
+    const updated = await updateMessage(messageId, {
+      content: JSON.stringify(assets),
+      metaData: nextMeta,
+    })
+    await recordTextUsage(message.conversationId, message.id, provenance)
+
+    return NextResponse.json({ message: updated })
+  } catch (error: unknown) {
+    console.error('重新生成字段错误:', error)
+    const msg =
+      typeof error === 'object' && error !== null && 'message' in (error as Record<string, unknown>)
+        ? String((error as { message?: string }).message)
+        : '服务器内部错误'
+    return NextResponse.json({ error: msg }, { status: 500 })
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * 真实模型重试API路由
+ *
+ * 提供素材消息的重试端点：
+ * - POST: 用真实模型重新生成整条素材消息（不回退到模拟数据）
+ *
+ * 路由路径: /api/assets/[messageId]/retry
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  getConversation,
+  getConversationBrandGuide,
+  getMessageForClient,
+  getProductProfile,
+  listMessagesBefore,
+  updateMessage,
+} from '@/lib/db'
+import { pickAssets } from '@/lib/assets'
+import { messageImages } from '@/lib/productImages'
+import { generateAssets } from '@/services/aiService'
+import { recordTextUsage } from '@/services/usageService'
+import { buildHistory } from '@/services/historyBuilder'
+import type { AssetsMeta } from '@/types'
+
+export const runtime = 'nodejs'
+
+/**
+ * POST /api/assets/[messageId]/retry
+ *
+ * 以生成该素材时的对话上下文重新生成，通常用于替换模拟数据结果。
+ * 重试禁用了模拟数据回退：真实模型全部失败时返回错误，原消息保持不变；
+ * 生成多个候选方案时只保留成功的方案，全部失败才返回错误；
+ * 重试也跳过模型输出缓存，用于替换过时的缓存结果；
+ * 成功时消息内容与 metaData 整体替换为新结果
+ * （候选方案数、请求的扩展内容、对比的竞品、依据的评价洞察、营销活动和提示词模板版本与原消息一致）。
+ *
+ * 响应：
+ * - message: Message - 更新后的消息
+ *
+ * @example
+ * ```typescript
+ * const response = await fetch('/api/assets/msg-123/retry', { method: 'POST' });
+ * ```
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ messageId: string }> }
+) {
+  try {
+    const { messageId } = await params
+    const clientId = req.headers.get('x-client-id') || null
+
+    // 客户端隔离校验
+    const message = await getMessageForClient(messageId, clientId)
+    if (!message || message.messageType !== 'generated_assets') {
+      return NextResponse.json({ error: '素材消息不存在或无权访问' }, { status: 403 })
+    }
+    const previous = message.metaData as AssetsMeta | null
+
+    // 还原生成该素材时的上下文：触发生成的用户消息及其之前的对话
+    const earlier = await listMessagesBefore(message.conversationId, message.id)
+    const sourceIndex = earlier.map((m) => m.role).lastIndexOf('user')
+    if (sourceIndex < 0) {
+      return NextResponse.json({ error: '找不到对应的用户消息' }, { status: 400 })
+    }
+    const source = earlier[sourceIndex]
+    const { history, compaction } = buildHistory(earlier.slice(0, sourceIndex))
+    const conversation = await getConversation(message.conversationId)
+    const product = await getProductProfile(message.conversationId)
+    const brandGuide = await getConversationBrandGuide(message.conversationId)
+
+    const generated = await generateAssets(
+      source.content,
+      history,
+      messageImages(source.metaData),
+      {
+        platform: conversation?.platform ?? undefined,
+        product,
+        brandGuide,
+        sections: previous?.sections,
+        competitors: previous?.competitors,
+        reviewInsights: previous?.reviewInsights,
+        launchDate: previous?.launchDate,
+        campaign: previous?.campaign,
+        prompts: previous?.prompts,
+        variants: previous?.candidates?.length || 1,
+        allowMock: false,
+        noCache: true,
+      }
+    )
+    const meta = generated && compaction ? { ...generated, history: compaction } : generated
+    if (!meta) {
+      return NextResponse.json({ error: '重试失败：模型未返回有效的素材' }, { status: 502 })
+    }
+
+    const updated = await updateMessage(messageId, {
+      content: JSON.stringify(pickAssets(meta)),
+      metaData: meta,
+    })
+    await recordTextUsage(message.conversationId, message.id, meta.provenance)
+
+    return NextResponse.json({ message: updated })
+  } catch (error: unknown) {
+    console.error('重试生成错误:', error)
+    const msg =
+      typeof error === 'object' && error !== null && 'message' in (error as Record<string, unknown>)
+        ? String((error as { message?: string }).message)
+        : '服务器内部错误'
+    return NextResponse.json({ error: msg }, { status: 500 })
+  }
+}
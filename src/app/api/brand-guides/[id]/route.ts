@@ -0,0 +1,91 @@
+/**
+ * 单个品牌规范API路由
+ *
+ * 提供品牌规范的修改与删除端点（按客户端隔离）：
+ * - PUT: 修改（整体替换）品牌规范
+ * - DELETE: 删除品牌规范，选用了它的会话恢复为未选用
+ *
+ * 路由路径: /api/brand-guides/[id]
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { deleteBrandGuide, getBrandGuideForClient, updateBrandGuide } from '@/lib/db'
+import {
+  BRAND_FIELD_MAX_LENGTH,
+  BRAND_LIST_MAX_ITEMS,
+  parseBrandGuideInput,
+} from '@/lib/brandGuide'
+
+export const runtime = 'nodejs'
+
+/**
+ * PUT /api/brand-guides/[id]
+ *
+ * 修改后，选用了该规范的会话在之后的生成中使用新规范；已生成的素材不受影响。
+ *
+ * 请求体：
+ * - brandGuide: 品牌规范内容（同 POST /api/brand-guides）
+ *
+ * 响应：
+ * - brandGuide: BrandGuide - 修改后的品牌规范
+ */
+export async function PUT(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const body = await req.json()
+    const clientId = req.headers.get('x-client-id') || null
+
+    const input = parseBrandGuideInput(body.brandGuide)
+    if (!input) {
+      return NextResponse.json(
+        {
+          error: `品牌规范不合法（品牌名称必填，每项最多${BRAND_FIELD_MAX_LENGTH}字，每类用语最多${BRAND_LIST_MAX_ITEMS}条）`,
+        },
+        { status: 400 }
+      )
+    }
+
+    // 客户端隔离校验
+    if (!(await getBrandGuideForClient(id, clientId))) {
+      return NextResponse.json({ error: '品牌规范不存在或无权访问' }, { status: 403 })
+    }
+
+    const brandGuide = await updateBrandGuide(id, input)
+    return NextResponse.json({ brandGuide })
+  } catch (error: unknown) {
+    console.error('修改品牌规范错误:', error)
+    const msg =
+      typeof error === 'object' && error !== null && 'message' in (error as Record<string, unknown>)
+        ? String((error as { message?: string }).message)
+        : '服务器内部错误'
+    return NextResponse.json({ error: msg }, { status: 500 })
+  }
+}
+
+/**
+ * DELETE /api/brand-guides/[id]
+ *
+ * 响应：
+ * - ok: true
+ */
+export async function DELETE(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const clientId = req.headers.get('x-client-id') || null
+
+    // 客户端隔离校验
+    if (!(await getBrandGuideForClient(id, clientId))) {
+      return NextResponse.json({ error: '品牌规范不存在或无权访问' }, { status: 403 })
+    }
+
+    await deleteBrandGuide(id)
+    return NextResponse.json({ ok: true })
+  } catch (error: unknown) {
+    console.error('删除品牌规范错误:', error)
+    const msg =
+      typeof error === 'object' && error !== null && 'message' in (error as Record<string, unknown>)
+        ? String((error as { message?: string }).message)
+        : '服务器内部错误'
+    return NextResponse.json({ error: msg }, { status: 500 })
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * 品牌规范API路由
+ *
+ * 提供品牌规范的列表与创建端点（按客户端隔离）：
+ * - GET: 获取当前客户端的全部品牌规范
+ * - POST: 创建品牌规范
+ *
+ * 路由路径: /api/brand-guides
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createBrandGuide, listBrandGuides } from '@/lib/db'
+import {
+  BRAND_FIELD_MAX_LENGTH,
+  BRAND_LIST_MAX_ITEMS,
+  parseBrandGuideInput,
+} from '@/lib/brandGuide'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/brand-guides
+ *
+ * 响应：
+ * - brandGuides: BrandGuide[] - 当前客户端的品牌规范，按创建时间排列
+ *
+ * @example
+ * ```typescript
+ * const response = await fetch('/api/brand-guides', { headers: { 'X-Client-Id': clientId } });
+ * const { brandGuides } = await response.json();
+ * ```
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const clientId = req.headers.get('x-client-id') || ''
+    const brandGuides = clientId ? await listBrandGuides(clientId) : []
+    return NextResponse.json({ brandGuides })
+  } catch (error: unknown) {
+    console.error('获取品牌规范列表错误:', error)
+    const msg =
+      typeof error === 'object' && error !== null && 'message' in (error as Record<string, unknown>)
+        ? String((error as { message?: string }).message)
+        : '服务器内部错误'
+    return NextResponse.json({ error: msg }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/brand-guides
+ *
+ * 请求体：
+ * - brandGuide: 品牌规范内容（name 必填；tone、examples、requiredTerms、forbiddenTerms、emojiPolicy 可选）
+ *
+ * 响应：
+ * - brandGuide: BrandGuide - 创建的品牌规范
+ *
+ * @example
+ * ```typescript
+ * await fetch('/api/brand-guides', {
+ *   method: 'POST',
+ *   headers: { 'Content-Type': 'application/json', 'X-Client-Id': clientId },
+ *   body: JSON.stringify({
+ *     brandGuide: { name: '某品牌', tone: '克制、专业', forbiddenTerms: ['便宜'], emojiPolicy: 'none' }
+ *   })
+ * });
+ * ```
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json()
+    const clientId = req.headers.get('x-client-id') || ''
+
+    if (!clientId) {
+      return NextResponse.json({ error: '缺少客户端标识' }, { status: 400 })
+    }
+    const input = parseBrandGuideInput(body.brandGuide)
+    if (!input) {
+      return NextResponse.json(
+        {
+          error: `品牌规范不合法（品牌名称必填，每项最多${BRAND_FIELD_MAX_LENGTH}字，每类用语最多${BRAND_LIST_MAX_ITEMS}条）`,
+        },
+        { status: 400 }
+      )
+    }
+
+    const brandGuide = await createBrandGuide(clientId, input)
+    return NextResponse.json({ brandGuide })
+  } catch (error: unknown) {
+    console.error('创建品牌规范错误:', error)
+    const msg =
+      typeof error === 'object' && error !== null && 'message' in (error as Record<string, unknown>)
+        ? String((error as { message?: string }).message)
+        : '服务器内部错误'
+    return NextResponse.json({ error: msg }, { status: 500 })
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * 单个自定义活动API路由
+ *
+ * 提供自定义活动的修改与删除端点（按客户端隔离）：
+ * - PUT: 修改（整体替换）活动
+ * - DELETE: 删除活动
+ *
+ * 路由路径: /api/campaigns/[id]
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { deleteCampaignEvent, getCampaignEventForClient, updateCampaignEvent } from '@/lib/db'
+import {
+  CAMPAIGN_FIELD_MAX_LENGTH,
+  CAMPAIGN_LIST_MAX_ITEMS,
+  parseCampaignInput,
+} from '@/lib/campaigns'
+
+export const runtime = 'nodejs'
+
+/**
+ * PUT /api/campaigns/[id]
+ *
+ * 修改后之后的生成按新内容匹配和使用该活动；已生成的素材不受影响。
+ *
+ * 请求体：
+ * - campaign: 活动内容（同 POST /api/campaigns）
+ *
+ * 响应：
+ * - campaign: Campaign - 修改后的活动
+ */
+export async function PUT(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const body = await req.json()
+    const clientId = req.headers.get('x-client-id') || null
+
+    const input = parseCampaignInput(body.campaign)
+    if (!input) {
+      return NextResponse.json(
+        {
+          error: `活动不合法（名称和起止日期必填，每项最多${CAMPAIGN_FIELD_MAX_LENGTH}字，氛围词和标题钩子各最多${CAMPAIGN_LIST_MAX_ITEMS}条）`,
+        },
+        { status: 400 }
+      )
+    }
+
+    // 客户端隔离校验
+    if (!(await getCampaignEventForClient(id, clientId))) {
+      return NextResponse.json({ error: '活动不存在或无权访问' }, { status: 403 })
+    }
+
+    const campaign = await updateCampaignEvent(id, input)
+    return NextResponse.json({ campaign })
+  } catch (error: unknown) {
+    console.error('修改自定义活动错误:', error)
+    const msg =
+      typeof error === 'object' && error !== null && 'message' in (error as Record<string, unknown>)
+        ? String((error as { message?: string }).message)
+        : '服务器内部错误'
+    return NextResponse.json({ error: msg }, { status: 500 })
+  }
+}
+
+/**
+ * DELETE /api/campaigns/[id]
+ *
+ * 响应：
+ * - ok: true
+ */
+export async function DELETE(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const clientId = req.headers.get('x-client-id') || null
+
+    // 客户端隔离校验
+    if (!(await getCampaignEventForClient(id, clientId))) {
+      return NextResponse.json({ error: '活动不存在或无权访问' }, { status: 403 })
+    }
+
+    await deleteCampaignEvent(id)
+    return NextResponse.json({ ok: true })
+  } catch (error: unknown) {
+    console.error('删除自定义活动错误:', error)
+    const msg =
+      typeof error === 'object' && error !== null && 'message' in (error as Record<string, unknown>)
+        ? String((error as { message?: string }).message)
+        : '服务器内部错误'
+    return NextResponse.json({ error: msg }, { status: 500 })
+  }
+}
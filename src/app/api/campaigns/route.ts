@@ -0,0 +1,98 @@
+/**
+ * 店铺自定义活动API路由
+ *
+ * 提供自定义活动的列表与创建端点（按客户端隔离）：
+ * - GET: 获取当前客户端的全部自定义活动
+ * - POST: 创建自定义活动
+ *
+ * 内置大促节点（618、双11等）不经过此接口，见 @/lib/campaigns。
+ *
+ * 路由路径: /api/campaigns
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createCampaignEvent, listCampaignEvents } from '@/lib/db'
+import {
+  CAMPAIGN_FIELD_MAX_LENGTH,
+  CAMPAIGN_LIST_MAX_ITEMS,
+  parseCampaignInput,
+} from '@/lib/campaigns'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/campaigns
+ *
+ * 响应：
+ * - campaigns: Campaign[] - 当前客户端的自定义活动，按开始日期排列
+ *
+ * @example
+ * ```typescript
+ * const response = await fetch('/api/campaigns', { headers: { 'X-Client-Id': clientId } });
+ * const { campaigns } = await response.json();
+ * ```
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const clientId = req.headers.get('x-client-id') || ''
+    const campaigns = clientId ? await listCampaignEvents(clientId) : []
+    return NextResponse.json({ campaigns })
+  } catch (error: unknown) {
+    console.error('获取自定义活动列表错误:', error)
+    const msg =
+      typeof error === 'object' && error !== null && 'message' in (error as Record<string, unknown>)
+        ? String((error as { message?: string }).message)
+        : '服务器内部错误'
+    return NextResponse.json({ error: msg }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/campaigns
+ *
+ * 请求体：
+ * - campaign: 活动内容（name、start、end 必填，日期为 'YYYY-MM-DD'；atmosphere、hooks、tone、visual 可选）
+ *
+ * 响应：
+ * - campaign: Campaign - 创建的活动
+ *
+ * @example
+ * ```typescript
+ * await fetch('/api/campaigns', {
+ *   method: 'POST',
+ *   headers: { 'Content-Type': 'application/json', 'X-Client-Id': clientId },
+ *   body: JSON.stringify({
+ *     campaign: { name: '店庆', start: '2026-09-01', end: '2026-09-07', hooks: ['店庆直降'] }
+ *   })
+ * });
+ * ```
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json()
+    const clientId = req.headers.get('x-client-id') || ''
+
+    if (!clientId) {
+      return NextResponse.json({ error: '缺少客户端标识' }, { status: 400 })
+    }
+    const input = parseCampaignInput(body.campaign)
+    if (!input) {
+      return NextResponse.json(
+        {
+          error: `活动不合法（名称和起止日期必填，每项最多${CAMPAIGN_FIELD_MAX_LENGTH}字，氛围词和标题钩子各最多${CAMPAIGN_LIST_MAX_ITEMS}条）`,
+        },
+        { status: 400 }
+      )
+    }
+
+    const campaign = await createCampaignEvent(clientId, input)
+    return NextResponse.json({ campaign })
+  } catch (error: unknown) {
+    console.error('创建自定义活动错误:', error)
+    const msg =
+      typeof error === 'object' && error !== null && 'message' in (error as Record<string, unknown>)
+        ? String((error as { message?: string }).message)
+        : '服务器内部错误'
+    return NextResponse.json({ error: msg }, { status: 500 })
+  }
+}
@@ -2,32 +2,174 @@
  * 聊天API路由
  *
  * 提供聊天对话相关的API端点：
- * - POST: 发送消息并生成AI回复
+ * - POST: 发送消息并生成AI回复（支持SSE流式输出）
  * - GET: 获取指定会话的消息历史
  *
  * 路由路径: /api/chat
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { ensureConversation, addMessage, listMessages, getConversation } from '@/lib/db'
-import type { Message } from '@/types'
-import { generateAssets } from '@/services/aiService'
+import {
+  ensureConversation,
+  addMessage,
+  listMessages,
+  getConversation,
+  getConversationBrandGuide,
+  getProductProfile,
+  listCampaignEvents,
+  updateConversation,
+} from '@/lib/db'
+import type { AssetsMeta, HistoryCompaction, Message, ProductImage } from '@/types'
+import { generateAssets, MAX_VARIANTS, type GenerateAssetsOptions } from '@/services/aiService'
+import { isPlatformId } from '@/services/platforms'
+import { ASSET_SECTIONS, parseAssetSections, pickAssets } from '@/lib/assets'
+import { MAX_PRODUCT_IMAGES, parseProductImages } from '@/lib/productImages'
+import { COMPETITOR_MAX_LENGTH, MAX_COMPETITORS, parseCompetitorListings } from '@/lib/competitors'
+import { extractCompetitorClaims } from '@/services/differentiation'
+import { MAX_REVIEWS, REVIEW_MAX_LENGTH, parseReviews } from '@/lib/reviews'
+import { mineReviews } from '@/services/reviewMining'
+import { CAMPAIGN_NONE, isDateString, resolveCampaign } from '@/lib/campaigns'
+import { recordTextUsage } from '@/services/usageService'
+import { buildHistory, type BuiltHistory } from '@/services/historyBuilder'
 export const runtime = 'nodejs'
 
+/**
+ * 保存AI生成的素材消息
+ *
+ * 消息内容只保存当前采用的素材（会作为后续对话的历史发给模型），
+ * 候选方案、历史压缩情况等附加信息保存在 metaData 中；本次生成的模型用量记到该消息上。
+ *
+ * @param conversationId - 会话ID
+ * @param generated - 生成的素材元数据
+ * @param compaction - 本次生成时对话历史的压缩情况
+ * @returns 保存后的消息
+ */
+async function saveAssetsMessage(
+  conversationId: string,
+  generated: AssetsMeta | null,
+  compaction: HistoryCompaction | null
+): Promise<Message> {
+  const meta = generated && compaction ? { ...generated, history: compaction } : generated
+  const message = await addMessage({
+    conversationId,
+    role: 'assistant',
+    content: JSON.stringify(meta ? pickAssets(meta) : null), // 将素材数据序列化为JSON字符串
+    messageType: 'generated_assets',
+    metaData: meta, // 同时保存结构化数据，方便前端直接使用
+  })
+  await recordTextUsage(conversationId, message.id, meta?.provenance)
+  return message
+}
+
+/**
+ * 以SSE方式返回素材生成过程
+ *
+ * 模型输出的增量文本以 delta 事件推送，生成结束后保存AI消息并推送 done 事件。
+ * 客户端中途断开时停止推送，但生成仍会完成并保存AI消息，刷新后可以看到结果。
+ *
+ * @param conversationId - 会话ID
+ * @param text - 用户消息内容
+ * @param built - 构建好的对话历史
+ * @param images - 商品图片（按顺序）
+ * @param options - 素材生成选项
+ * @returns text/event-stream 响应
+ */
+function streamAssets(
+  conversationId: string,
+  text: string,
+  built: BuiltHistory,
+  images: ProductImage[],
+  options: GenerateAssetsOptions
+): Response {
+  const encoder = new TextEncoder()
+  // 客户端断开后流已关闭，之后的推送都忽略，避免写入失败被当作模型调用失败
+  let closed = false
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (closed) return
+        try {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+        } catch {
+          closed = true
+        }
+      }
+
+      try {
+        const meta = await generateAssets(text, built.history, images, {
+          ...options,
+          onDelta: (delta) => send('delta', { text: delta }),
+          onReset: () => send('reset', {}),
+        })
+        const message = await saveAssetsMessage(conversationId, meta, built.compaction)
+        send('done', { conversationId, message, provenance: meta?.provenance ?? null })
+      } catch (error: unknown) {
+        console.error('流式生成错误:', error)
+        const msg =
+          typeof error === 'object' &&
+          error !== null &&
+          'message' in (error as Record<string, unknown>)
+            ? String((error as { message?: string }).message)
+            : '服务器内部错误'
+        send('error', { error: msg })
+      } finally {
+        if (!closed) {
+          closed = true
+          controller.close()
+        }
+      }
+    },
+    cancel() {
+      closed = true
+    },
+  })
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  })
+}
+
 /**
  * POST /api/chat
  *
  * 处理用户发送的消息，生成AI回复并保存到数据库。
+ * 会话填写了商品档案（见 /api/conversations/[id]/product）时，每轮生成都会附带档案内容；
+ * 会话选用了品牌规范（见 /api/brand-guides）时按品牌规范生成，仍未遵守的地方记录在 metaData.brand 中。
  *
  * 请求体：
  * - conversationId?: string - 可选的会话ID，如果不提供则创建新会话
  * - text: string - 用户消息内容（必填）
  * - title?: string - 可选的会话标题（通常是商品名称）
- * - imageUrl?: string - 可选的商品图片URL
+ * - images?: ProductImage[] - 可选的商品图片列表（按顺序，最多6张），每张为 { url, role }，role 为 'main' | 'detail' | 'package'
+ * - imageUrl?: string - 可选的单张商品图片URL（旧版参数，未提供 images 时视为一张主图）
+ * - platform?: PlatformId - 可选的目标电商平台，会记录到会话上；不提供时沿用会话上次选择的平台
+ * - variants?: number - 可选的候选方案数（1-5，默认1），多个方案按评分排序后采用得分最高的
+ * - sections?: AssetSection[] - 可选的扩展内容（'seo_keywords' | 'hashtags' | 'detail_copy' | 'faq'），默认不生成
+ * - competitors?: string[] - 可选的竞品标题/卖点原文（每项一个竞品，最多5个）；提供时提取竞品卖点，
+ *   要求生成的卖点避开竞品已有的说法，卖点对比表记录在 metaData.comparison 中
+ * - reviews?: string[] - 可选的买家评价（最多500条）；提供时先挖掘好评属性与痛点作为卖点依据，
+ *   挖掘结果记录在 metaData.reviewInsights 中，每条卖点的评价依据记录在 metaData.evidence 中
+ * - launchDate?: string - 可选的上新日期 'YYYY-MM-DD'，用于匹配生效的营销活动
+ * - campaign?: string - 可选的营销活动：'auto'（默认，按上新日期匹配内置大促和店铺自定义活动）、
+ *   'none'（不参与活动）或活动ID；生效的活动记录在 metaData.campaign 中
+ * - stream?: boolean - 是否以SSE流式返回生成过程（多个方案时只推送第一个方案的生成过程）
+ * - noCache?: boolean - 是否跳过模型输出缓存（默认复用相同请求的缓存结果，命中时 provenance.cachedAt 为缓存时间）
  *
- * 响应：
+ * 响应（非流式）：
  * - conversationId: string - 会话ID
  * - message: Message - AI生成的回复消息
+ * - provenance: GenerationProvenance | null - 生成来源（提供方、模型、回退原因、耗时、token用量），同时保存在 message.metaData 中
+ *
+ * 响应（流式，Content-Type: text/event-stream）：
+ * - event: delta - 模型输出的增量文本，data为 { text: string }
+ * - event: reset - 丢弃此前收到的增量文本（模型回退或重试时）
+ * - event: done - 生成完成并已保存，data为 { conversationId, message, provenance }
+ * - event: error - 生成失败，data为 { error: string }
  *
  * @example
  * ```typescript
@@ -36,7 +178,10 @@ export const runtime = 'nodejs'
  *   headers: { 'Content-Type': 'application/json' },
  *   body: JSON.stringify({
  *     text: '为这款商品生成营销素材',
- *     imageUrl: 'https://example.com/product.jpg'
+ *     images: [
+ *       { url: 'https://example.com/front.jpg', role: 'main' },
+ *       { url: 'https://example.com/detail.jpg', role: 'detail' }
+ *     ]
  *   })
  * });
  * ```
@@ -48,13 +193,71 @@ export async function POST(req: NextRequest) {
     const conversationId = body.conversationId as string | undefined
     const text = body.text as string
     const title = body.title as string | undefined
-    const imageUrl = body.imageUrl as string | undefined
+    const images =
+      body.images !== undefined
+        ? parseProductImages(body.images)
+        : parseProductImages(body.imageUrl ? [{ url: body.imageUrl, role: 'main' }] : [])
+    const stream = body.stream === true
+    const noCache = body.noCache === true
+    const platform = body.platform as unknown
+    const variants = (body.variants ?? 1) as unknown
+    const sections = parseAssetSections(body.sections)
+    const competitors = parseCompetitorListings(body.competitors)
+    const reviews = parseReviews(body.reviews)
+    const launchDate = body.launchDate as unknown
+    const campaignChoice = body.campaign as unknown
     const clientId = req.headers.get('x-client-id') || title || null
 
     // 验证必填字段
     if (!text || typeof text !== 'string' || text.trim().length === 0) {
       return NextResponse.json({ error: '消息内容不能为空' }, { status: 400 })
     }
+    if (!images) {
+      return NextResponse.json(
+        { error: `图片列表不合法（最多${MAX_PRODUCT_IMAGES}张，每张须包含url与用途）` },
+        { status: 400 }
+      )
+    }
+    if (platform !== undefined && !isPlatformId(platform)) {
+      return NextResponse.json({ error: '不支持的平台' }, { status: 400 })
+    }
+    if (
+      typeof variants !== 'number' ||
+      !Number.isInteger(variants) ||
+      variants < 1 ||
+      variants > MAX_VARIANTS
+    ) {
+      return NextResponse.json(
+        { error: `候选方案数须为1-${MAX_VARIANTS}之间的整数` },
+        { status: 400 }
+      )
+    }
+    if (!competitors) {
+      return NextResponse.json(
+        {
+          error: `竞品信息不合法（最多${MAX_COMPETITORS}个，每个最多${COMPETITOR_MAX_LENGTH}字）`,
+        },
+        { status: 400 }
+      )
+    }
+    if (!reviews) {
+      return NextResponse.json(
+        { error: `评价不合法（最多${MAX_REVIEWS}条，每条最多${REVIEW_MAX_LENGTH}字）` },
+        { status: 400 }
+      )
+    }
+    if (launchDate !== undefined && !isDateString(launchDate)) {
+      return NextResponse.json({ error: '上新日期须为YYYY-MM-DD格式' }, { status: 400 })
+    }
+    if (campaignChoice !== undefined && typeof campaignChoice !== 'string') {
+      return NextResponse.json({ error: '营销活动不合法' }, { status: 400 })
+    }
+    if (!sections) {
+      return NextResponse.json(
+        { error: `扩展内容不合法（可选：${ASSET_SECTIONS.map((s) => s.id).join('、')}）` },
+        { status: 400 }
+      )
+    }
 
     // 校验/创建会话（按客户端隔离）
     if (conversationId) {
@@ -63,42 +266,73 @@ export async function POST(req: NextRequest) {
         return NextResponse.json({ error: '会话不存在或无权访问' }, { status: 403 })
       }
     }
-    const conv = await ensureConversation(
+    let conv = await ensureConversation(
       conversationId,
       (clientId ?? title ?? null) as string | null
     )
 
+    // 记住本会话选择的平台
+    if (isPlatformId(platform) && platform !== conv.platform) {
+      conv = await updateConversation(conv.id, { platform })
+    }
+
+    // 确定生效的营销活动（店铺自定义活动优先于内置大促）
+    const customCampaigns =
+      clientId && campaignChoice !== CAMPAIGN_NONE ? await listCampaignEvents(clientId) : []
+    const campaign = resolveCampaign(campaignChoice, launchDate, customCampaigns)
+    if (campaign === undefined) {
+      return NextResponse.json({ error: '营销活动不存在' }, { status: 400 })
+    }
+
+    // 挖掘买家评价，归纳所用的模型用量记到会话上
+    let reviewInsights: GenerateAssetsOptions['reviewInsights']
+    if (reviews.length > 0) {
+      const mined = await mineReviews(reviews)
+      await recordTextUsage(conv.id, null, mined.provenance)
+      reviewInsights = mined.insights
+    }
+    const options: GenerateAssetsOptions = {
+      platform: conv.platform ?? undefined,
+      product: await getProductProfile(conv.id),
+      brandGuide: await getConversationBrandGuide(conv.id),
+      sections,
+      competitors: extractCompetitorClaims(competitors),
+      reviewInsights,
+      launchDate,
+      campaign,
+      variants,
+      noCache,
+    }
+
     // 保存用户消息
     await addMessage({
       conversationId: conv.id,
       role: 'user',
       content: text,
-      messageType: imageUrl ? 'image_upload' : 'text',
-      metaData: imageUrl ? { imageUrl } : undefined,
+      messageType: images.length > 0 ? 'image_upload' : 'text',
+      metaData: images.length > 0 ? { images } : undefined,
     })
 
     // 获取对话历史（用于AI生成时的上下文）
-    const history = (await listMessages(conv.id)).map((m: Message) => ({
-      role: m.role,
-      content: m.content,
-    }))
+    // 本轮的用户输入由 generateAssets 追加在最后，这里不重复发送；长对话会按token预算压缩
+    const built = buildHistory((await listMessages(conv.id)).slice(0, -1))
+
+    // 流式模式：边生成边推送，完成后再保存AI消息
+    if (stream) {
+      return streamAssets(conv.id, text, built, images, options)
+    }
 
     // 调用AI服务生成素材
-    const assets = await generateAssets(text, history, imageUrl)
+    const meta = await generateAssets(text, built.history, images, options)
 
     // 保存AI生成的回复消息
-    const assistantMessage = await addMessage({
-      conversationId: conv.id,
-      role: 'assistant',
-      content: JSON.stringify(assets), // 将素材数据序列化为JSON字符串
-      messageType: 'generated_assets',
-      metaData: assets, // 同时保存结构化数据，方便前端直接使用
-    })
+    const assistantMessage = await saveAssetsMessage(conv.id, meta, built.compaction)
 
     // 返回会话ID和AI消息
     return NextResponse.json({
       conversationId: conv.id,
       message: assistantMessage,
+      provenance: meta?.provenance ?? null,
     })
   } catch (error: unknown) {
     // 错误处理
@@ -121,6 +355,8 @@ export async function POST(req: NextRequest) {
  *
  * 响应：
  * - messages: Message[] - 消息列表，按时间顺序排列
+ * - conversation: Conversation | null - 会话信息（包含记住的平台等设置）
+ * - product: ProductProfile | null - 会话的商品档案，未填写时为null
  *
  * @example
  * ```typescript
@@ -142,17 +378,19 @@ export async function GET(req: NextRequest) {
     }
 
     // 客户端隔离校验
+    const conversation = await getConversation(conversationId)
     if (clientId) {
-      const existing = await getConversation(conversationId)
-      if (!existing || existing.title !== clientId) {
+      if (!conversation || conversation.title !== clientId) {
         return NextResponse.json({ error: '无权访问该会话' }, { status: 403 })
       }
     }
     // 获取会话的所有消息
     const history = await listMessages(conversationId)
 
+    const product = conversation ? await getProductProfile(conversationId) : null
+
     // 返回消息列表
-    return NextResponse.json({ messages: history })
+    return NextResponse.json({ messages: history, conversation, product })
   } catch (error: unknown) {
     // 错误处理
     console.error('获取消息历史错误:', error)
@@ -0,0 +1,118 @@
+/**
+ * 商品档案API路由
+ *
+ * 提供会话商品档案的读写端点：
+ * - GET: 获取会话的商品档案
+ * - PUT: 保存（整体替换）会话的商品档案
+ *
+ * 路由路径: /api/conversations/[id]/product
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getConversation, getProductProfile, saveProductProfile } from '@/lib/db'
+import {
+  parseProductProfile,
+  PRODUCT_FIELD_MAX_LENGTH,
+  PRODUCT_LIST_MAX_ITEMS,
+} from '@/lib/productProfile'
+
+export const runtime = 'nodejs'
+
+/**
+ * 校验会话归属
+ *
+ * @returns 会话存在且属于该客户端时返回true
+ */
+async function canAccess(id: string, clientId: string | null): Promise<boolean> {
+  const conversation = await getConversation(id)
+  return !!conversation && (!clientId || conversation.title === clientId)
+}
+
+/**
+ * GET /api/conversations/[id]/product
+ *
+ * 响应：
+ * - product: ProductProfile | null - 商品档案，未填写时为null
+ *
+ * @example
+ * ```typescript
+ * const response = await fetch('/api/conversations/conv-123/product');
+ * const { product } = await response.json();
+ * ```
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const clientId = req.headers.get('x-client-id') || null
+
+    // 客户端隔离校验
+    if (!(await canAccess(id, clientId))) {
+      return NextResponse.json({ error: '会话不存在或无权访问' }, { status: 403 })
+    }
+
+    const product = await getProductProfile(id)
+    return NextResponse.json({ product })
+  } catch (error: unknown) {
+    console.error('获取商品档案错误:', error)
+    const msg =
+      typeof error === 'object' && error !== null && 'message' in (error as Record<string, unknown>)
+        ? String((error as { message?: string }).message)
+        : '服务器内部错误'
+    return NextResponse.json({ error: msg }, { status: 500 })
+  }
+}
+
+/**
+ * PUT /api/conversations/[id]/product
+ *
+ * 保存后，该会话之后的每轮生成（包括重试和单字段重新生成）都会把档案作为上下文发给模型。
+ *
+ * 请求体：
+ * - product: ProductProfile - 商品档案，缺少的字段视为空
+ *
+ * 响应：
+ * - product: ProductProfile - 保存后的商品档案
+ *
+ * @example
+ * ```typescript
+ * await fetch('/api/conversations/conv-123/product', {
+ *   method: 'PUT',
+ *   headers: { 'Content-Type': 'application/json' },
+ *   body: JSON.stringify({
+ *     product: { name: '保温杯', brand: '某品牌', specs: ['容量 500ml'], differentiators: ['24小时保温'] }
+ *   })
+ * });
+ * ```
+ */
+export async function PUT(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const body = await req.json()
+    const clientId = req.headers.get('x-client-id') || null
+
+    const profile = parseProductProfile(body.product)
+    if (!profile) {
+      return NextResponse.json(
+        {
+          error: `商品档案不合法（每项最多${PRODUCT_FIELD_MAX_LENGTH}字，规格参数与差异点最多${PRODUCT_LIST_MAX_ITEMS}条）`,
+        },
+        { status: 400 }
+      )
+    }
+
+    // 客户端隔离校验
+    if (!(await canAccess(id, clientId))) {
+      return NextResponse.json({ error: '会话不存在或无权访问' }, { status: 403 })
+    }
+
+    const product = await saveProductProfile(id, profile)
+    return NextResponse.json({ product })
+  } catch (error: unknown) {
+    console.error('保存商品档案错误:', error)
+    const msg =
+      typeof error === 'object' && error !== null && 'message' in (error as Record<string, unknown>)
+        ? String((error as { message?: string }).message)
+        : '服务器内部错误'
+    return NextResponse.json({ error: msg }, { status: 500 })
+  }
+}
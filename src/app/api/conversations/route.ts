@@ -1,5 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { listConversationsForClientWithMessages, ensureConversation } from '@/lib/db'
+import {
+  listConversationsForClientWithMessages,
+  ensureConversation,
+  getBrandGuideForClient,
+  getConversation,
+  updateConversation,
+} from '@/lib/db'
+import { isPlatformId } from '@/services/platforms'
 
 export const runtime = 'nodejs'
 
@@ -35,3 +42,62 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({ error: msg }, { status: 500 })
   }
 }
+
+/**
+ * PATCH /api/conversations
+ *
+ * 更新会话设置，只修改请求体中出现的字段。
+ *
+ * 请求体：
+ * - id: string - 会话ID（必填）
+ * - platform?: PlatformId - 目标电商平台
+ * - brandGuideId?: string | null - 选用的品牌规范ID，null 表示不使用品牌规范
+ */
+export async function PATCH(req: NextRequest) {
+  try {
+    const body = await req.json()
+    const id = body.id as string | undefined
+    const platform = body.platform as unknown
+    const brandGuideId = body.brandGuideId as unknown
+    const clientId = req.headers.get('x-client-id') || null
+
+    if (!id) {
+      return NextResponse.json({ error: '缺少必要参数：id' }, { status: 400 })
+    }
+    if (platform === undefined && brandGuideId === undefined) {
+      return NextResponse.json({ error: '缺少要更新的设置' }, { status: 400 })
+    }
+    if (platform !== undefined && !isPlatformId(platform)) {
+      return NextResponse.json({ error: '不支持的平台' }, { status: 400 })
+    }
+    if (brandGuideId !== undefined && brandGuideId !== null && typeof brandGuideId !== 'string') {
+      return NextResponse.json({ error: '品牌规范ID不合法' }, { status: 400 })
+    }
+
+    // 客户端隔离校验
+    const existing = await getConversation(id)
+    if (!existing || (clientId && existing.title !== clientId)) {
+      return NextResponse.json({ error: '会话不存在或无权访问' }, { status: 403 })
+    }
+
+    if (
+      typeof brandGuideId === 'string' &&
+      !(await getBrandGuideForClient(brandGuideId, clientId))
+    ) {
+      return NextResponse.json({ error: '品牌规范不存在或无权访问' }, { status: 403 })
+    }
+
+    const conversation = await updateConversation(id, {
+      ...(isPlatformId(platform) && { platform }),
+      ...(brandGuideId !== undefined && { brandGuideId: brandGuideId as string | null }),
+    })
+    return NextResponse.json({ conversation })
+  } catch (error: unknown) {
+    console.error('更新会话错误:', error)
+    const msg =
+      typeof error === 'object' && error !== null && 'message' in (error as Record<string, unknown>)
+        ? String((error as { message?: string }).message)
+        : '服务器内部错误'
+    return NextResponse.json({ error: msg }, { status: 500 })
+  }
+}
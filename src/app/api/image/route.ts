@@ -1,18 +1,92 @@
 import { NextRequest } from 'next/server'
 import { generateAtmosphereImage } from '@/services/imageService'
+import { recordImageUsage } from '@/services/usageService'
+import { renderPrompt } from '@/services/promptRegistry'
+import { getMessageForClient, setMessagePromptVersion } from '@/lib/db'
+import { OutboundError, QuotaError, TimeoutError, CircuitOpenError } from '@/lib/outbound'
+import type { AssetsMeta } from '@/types'
 
+/**
+ * 外部调用错误对应的HTTP状态码
+ */
+function statusFor(error: OutboundError): number {
+  if (error instanceof QuotaError) return 429
+  if (error instanceof TimeoutError) return 504
+  if (error instanceof CircuitOpenError) return 503
+  return 502
+}
+
+/**
+ * POST /api/image
+ *
+ * 以商品图片为底图生成电商主图。提示词由服务端按提示词模板 'hero' 渲染（见 @/services/promptRegistry）。
+ *
+ * 请求体：
+ * - imageUrl: string - 商品图片地址
+ * - title: string - 主图上的商品标题
+ * - sellingPoints?: string[] - 可选的核心卖点（取前3条）
+ * - atmosphere?: string - 可选的氛围词
+ * - size?: string - 图片尺寸（默认 '2K'）
+ * - messageId?: string - 可选的素材消息ID：用量记到该消息及其会话上；消息参与了营销活动时主图采用活动的视觉风格；
+ *   使用的模板版本记录在 metaData.prompts.hero 中，再次生成该消息的主图时沿用
+ *
+ * 响应：
+ * - url: string - 生成的主图地址
+ * - promptVersion: string - 使用的提示词模板版本
+ */
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json()
     const imageUrl = body.imageUrl as string
-    const prompt = body.prompt as string
+    const title = body.title as unknown
+    const sellingPoints = body.sellingPoints as unknown
+    const atmosphere = body.atmosphere as unknown
     const size = body.size as string | undefined
-    if (!imageUrl || !prompt)
-      return Response.json({ error: 'imageUrl and prompt required' }, { status: 400 })
-    const url = await generateAtmosphereImage({ imageUrl, prompt, size })
-    if (!url) return Response.json({ error: 'image model unavailable' }, { status: 502 })
-    return Response.json({ url })
+    const messageId = body.messageId as string | undefined
+    const clientId = req.headers.get('x-client-id') || null
+    if (!imageUrl || typeof title !== 'string' || !title.trim())
+      return Response.json({ error: 'imageUrl and title required' }, { status: 400 })
+    if (
+      (sellingPoints !== undefined &&
+        (!Array.isArray(sellingPoints) || sellingPoints.some((p) => typeof p !== 'string'))) ||
+      (atmosphere !== undefined && typeof atmosphere !== 'string')
+    ) {
+      return Response.json({ error: 'sellingPoints or atmosphere invalid' }, { status: 400 })
+    }
+
+    // 提供了素材消息时，用量记到该消息及其会话上
+    const message = messageId ? await getMessageForClient(messageId, clientId) : null
+    if (messageId && !message) {
+      return Response.json({ error: '素材消息不存在或无权访问' }, { status: 403 })
+    }
+
+    const meta = (message?.metaData ?? null) as AssetsMeta | null
+    const campaign = meta?.campaign
+    const prompt = renderPrompt(
+      'hero',
+      {
+        title: title.trim(),
+        sellingPoints: ((sellingPoints as string[] | undefined) ?? []).slice(0, 3).join('、'),
+        atmosphere: (atmosphere as string | undefined) ?? '',
+        campaign: campaign?.name ?? '',
+        campaignVisual: campaign ? campaign.visual || campaign.tone || '突出活动氛围' : '',
+      },
+      meta?.prompts?.hero
+    )
+    // 首次为该消息生成主图时记录分配到的模板版本
+    if (message && meta && meta.prompts?.hero !== prompt.version) {
+      await setMessagePromptVersion(message.id, 'hero', prompt.version)
+    }
+
+    const result = await generateAtmosphereImage({ imageUrl, prompt: prompt.text, size })
+    if (!result) return Response.json({ error: 'image model unavailable' }, { status: 502 })
+    if (message) await recordImageUsage(message.conversationId, message.id, result.model)
+    return Response.json({ url: result.url, promptVersion: prompt.version })
   } catch (error: unknown) {
+    if (error instanceof OutboundError) {
+      console.error('图片生成错误:', error)
+      return Response.json({ error: error.message }, { status: statusFor(error) })
+    }
     const msg =
       typeof error === 'object' && error !== null && 'message' in (error as Record<string, unknown>)
         ? String((error as { message?: string }).message)
@@ -0,0 +1,58 @@
+/**
+ * 用量统计API路由
+ *
+ * 提供模型调用用量与费用的查询端点：
+ * - GET: 获取当前客户端（及指定会话）的用量汇总
+ *
+ * 路由路径: /api/usage
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getConversation } from '@/lib/db'
+import { getUsageSummary } from '@/services/usageService'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/usage
+ *
+ * 查询参数：
+ * - conversationId?: string - 可选的会话ID，提供时同时返回该会话的用量
+ *
+ * 响应：
+ * - usage: UsageSummary - 用量汇总（货币单位、会话合计、客户端合计、按模型分组的明细）
+ *
+ * @example
+ * ```typescript
+ * const response = await fetch('/api/usage?conversationId=conv-123', {
+ *   headers: { 'X-Client-Id': clientId },
+ * });
+ * const { usage } = await response.json();
+ * console.log(usage.conversation.cost, usage.currency);
+ * ```
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url)
+    const conversationId = searchParams.get('conversationId') || undefined
+    const clientId = req.headers.get('x-client-id') || null
+
+    // 客户端隔离校验
+    if (conversationId) {
+      const conversation = await getConversation(conversationId)
+      if (!conversation || (clientId && conversation.title !== clientId)) {
+        return NextResponse.json({ error: '会话不存在或无权访问' }, { status: 403 })
+      }
+    }
+
+    const usage = await getUsageSummary(clientId, conversationId)
+    return NextResponse.json({ usage })
+  } catch (error: unknown) {
+    console.error('获取用量统计错误:', error)
+    const msg =
+      typeof error === 'object' && error !== null && 'message' in (error as Record<string, unknown>)
+        ? String((error as { message?: string }).message)
+        : '服务器内部错误'
+    return NextResponse.json({ error: msg }, { status: 500 })
+  }
+}
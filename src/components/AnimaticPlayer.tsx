@@ -0,0 +1,341 @@
+'use client'
+import React, { useCallback, useEffect, useRef, useState } from 'react'
+import type { StoryboardShot } from '@/types'
+import { shotIndexAt } from '@/lib/storyboard'
+
+/**
+ * AnimaticPlayer组件的属性
+ */
+interface AnimaticPlayerProps {
+  /**
+   * 时长完整的分镜（见 toStoryboard）
+   */
+  storyboard: StoryboardShot[]
+  /**
+   * 按镜头轮流使用的画面（如生成的主图和上传的商品图），加载失败的图片以纯色背景代替
+   */
+  images: string[]
+  /**
+   * 商品卖点，按镜头轮流叠加在画面上方
+   */
+  sellingPoints: string[]
+  /**
+   * 导出文件名（不含扩展名）
+   */
+  filename?: string
+}
+
+/**
+ * 画布尺寸：竖屏短视频 9:16
+ */
+const WIDTH = 540
+const HEIGHT = 960
+
+/**
+ * 非硬切转场的时长（秒），占用前一镜头的末尾
+ */
+const TRANSITION_SECONDS = 0.5
+
+/**
+ * 导出视频的帧率
+ */
+const EXPORT_FPS = 30
+
+/**
+ * 加载图片；跨域图片需允许匿名访问，否则画布被污染后无法录制
+ */
+function loadImage(url: string): Promise<HTMLImageElement | null> {
+  return new Promise((resolve) => {
+    const img = new Image()
+    img.crossOrigin = 'anonymous'
+    img.onload = () => resolve(img)
+    img.onerror = () => resolve(null)
+    img.src = url
+  })
+}
+
+/**
+ * 以"铺满"方式绘制图片，scale 大于1时从中心放大，offsetX 为水平偏移
+ */
+function drawCover(
+  ctx: CanvasRenderingContext2D,
+  img: HTMLImageElement | null,
+  scale: number,
+  offsetX = 0
+) {
+  if (!img) {
+    ctx.fillStyle = '#1e3a8a'
+    ctx.fillRect(offsetX, 0, WIDTH, HEIGHT)
+    return
+  }
+  const ratio = Math.max(WIDTH / img.width, HEIGHT / img.height) * scale
+  const w = img.width * ratio
+  const h = img.height * ratio
+  ctx.drawImage(img, offsetX + (WIDTH - w) / 2, (HEIGHT - h) / 2, w, h)
+}
+
+/**
+ * 按画布宽度折行
+ */
+function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+  const lines: string[] = []
+  let line = ''
+  for (const char of Array.from(text)) {
+    if (ctx.measureText(line + char).width > maxWidth && line) {
+      lines.push(line)
+      line = char
+    } else {
+      line += char
+    }
+  }
+  if (line) lines.push(line)
+  return lines
+}
+
+/**
+ * 绘制某一时刻的画面
+ *
+ * 镜头画面带缓慢推近效果；镜头设置了非硬切转场时，在末尾 TRANSITION_SECONDS 内过渡到下一镜头。
+ * 卖点叠加在上方，字幕（没有时取口播）叠加在下方。
+ */
+function drawFrame(
+  ctx: CanvasRenderingContext2D,
+  storyboard: StoryboardShot[],
+  images: (HTMLImageElement | null)[],
+  sellingPoints: string[],
+  seconds: number
+) {
+  const index = shotIndexAt(storyboard, seconds)
+  const shot = storyboard[index]
+  const next = storyboard[index + 1]
+  const imageAt = (i: number) => (images.length > 0 ? images[i % images.length] : null)
+  const progress = Math.min(Math.max((seconds - shot.s) / shot.duration, 0), 1)
+
+  ctx.fillStyle = '#000000'
+  ctx.fillRect(0, 0, WIDTH, HEIGHT)
+  ctx.save()
+  drawCover(ctx, imageAt(index), 1 + 0.06 * progress)
+
+  // 转场
+  const transitionStart = shot.s + shot.duration - TRANSITION_SECONDS
+  if (next && shot.transition && shot.transition !== 'cut' && seconds >= transitionStart) {
+    const p = Math.min((seconds - transitionStart) / TRANSITION_SECONDS, 1)
+    if (shot.transition === 'slide') {
+      drawCover(ctx, imageAt(index + 1), 1, WIDTH * (1 - p))
+    } else {
+      ctx.globalAlpha = p
+      drawCover(ctx, imageAt(index + 1), shot.transition === 'zoom' ? 1.3 - 0.3 * p : 1)
+    }
+  }
+  ctx.restore()
+
+  // 卖点
+  const point = sellingPoints.length > 0 ? sellingPoints[index % sellingPoints.length] : ''
+  if (point) {
+    ctx.font = 'bold 30px sans-serif'
+    const width = ctx.measureText(point).width + 40
+    ctx.fillStyle = 'rgba(37, 99, 235, 0.9)'
+    ctx.fillRect(32, 64, width, 56)
+    ctx.fillStyle = '#ffffff'
+    ctx.textAlign = 'left'
+    ctx.textBaseline = 'middle'
+    ctx.fillText(point, 52, 92)
+  }
+
+  // 字幕
+  const caption = shot.caption || shot.voiceover || ''
+  if (caption) {
+    ctx.font = 'bold 34px sans-serif'
+    const lines = wrapText(ctx, caption, WIDTH - 96)
+    const lineHeight = 48
+    const top = HEIGHT - 120 - lines.length * lineHeight
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.55)'
+    ctx.fillRect(24, top - 16, WIDTH - 48, lines.length * lineHeight + 32)
+    ctx.fillStyle = '#ffffff'
+    ctx.textAlign = 'center'
+    ctx.textBaseline = 'top'
+    lines.forEach((line, i) => ctx.fillText(line, WIDTH / 2, top + i * lineHeight))
+  }
+}
+
+/**
+ * 动态分镜预览
+ *
+ * 在浏览器本地按分镜时长依次播放画面，叠加卖点和字幕并按镜头设置转场，
+ * 用于拍摄前感受成片节奏；可通过 MediaRecorder 录制为 WebM 下载，不依赖任何外部服务。
+ *
+ * @param props - 组件属性
+ * @returns React组件
+ */
+export default function AnimaticPlayer({
+  storyboard,
+  images,
+  sellingPoints,
+  filename = 'animatic',
+}: AnimaticPlayerProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const loadedRef = useRef<(HTMLImageElement | null)[]>([])
+  const frameRef = useRef<number | null>(null)
+  const [loading, setLoading] = useState<boolean>(true)
+  const [playing, setPlaying] = useState<boolean>(false)
+  const [recording, setRecording] = useState<boolean>(false)
+  const [position, setPosition] = useState<number>(0)
+
+  const total = storyboard.reduce((sum, shot) => sum + shot.duration, 0)
+
+  const render = useCallback(
+    (seconds: number) => {
+      const ctx = canvasRef.current?.getContext('2d')
+      if (!ctx || storyboard.length === 0) return
+      drawFrame(ctx, storyboard, loadedRef.current, sellingPoints, seconds)
+    },
+    [storyboard, sellingPoints]
+  )
+
+  // 加载画面，完成后绘制第一帧
+  const imageKey = images.join('\n')
+  useEffect(() => {
+    let cancelled = false
+    Promise.all(imageKey ? imageKey.split('\n').map(loadImage) : []).then((loaded) => {
+      if (cancelled) return
+      loadedRef.current = loaded
+      setLoading(false)
+      render(0)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [imageKey, render])
+
+  // 卸载时停止播放
+  useEffect(() => {
+    return () => {
+      if (frameRef.current !== null) cancelAnimationFrame(frameRef.current)
+    }
+  }, [])
+
+  /**
+   * 从头播放一遍，播放结束时 resolve
+   */
+  const play = useCallback(() => {
+    return new Promise<void>((resolve) => {
+      if (frameRef.current !== null) cancelAnimationFrame(frameRef.current)
+      const startedAt = performance.now()
+      setPlaying(true)
+      const tick = (now: number) => {
+        const seconds = (now - startedAt) / 1000
+        if (seconds >= total) {
+          render(total - 0.001)
+          frameRef.current = null
+          setPosition(total)
+          setPlaying(false)
+          resolve()
+          return
+        }
+        render(seconds)
+        setPosition(seconds)
+        frameRef.current = requestAnimationFrame(tick)
+      }
+      frameRef.current = requestAnimationFrame(tick)
+    })
+  }, [render, total])
+
+  function stop() {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current)
+    frameRef.current = null
+    setPlaying(false)
+    setPosition(0)
+    render(0)
+  }
+
+  async function handleExport() {
+    const canvas = canvasRef.current
+    if (!canvas || typeof MediaRecorder === 'undefined' || !canvas.captureStream) {
+      alert('当前浏览器不支持录制视频')
+      return
+    }
+    const mimeType = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'].find((type) =>
+      MediaRecorder.isTypeSupported(type)
+    )
+    if (!mimeType) {
+      alert('当前浏览器不支持导出WebM')
+      return
+    }
+
+    let recorder: MediaRecorder
+    try {
+      recorder = new MediaRecorder(canvas.captureStream(EXPORT_FPS), { mimeType })
+    } catch (err) {
+      // 跨域图片未允许匿名访问时画布被污染，无法录制
+      console.error('录制视频失败:', err)
+      alert('画面中包含无法录制的图片，导出失败')
+      return
+    }
+    const chunks: Blob[] = []
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data)
+    }
+    const stopped = new Promise<void>((resolve) => {
+      recorder.onstop = () => resolve()
+    })
+
+    setRecording(true)
+    try {
+      recorder.start()
+      await play()
+      recorder.stop()
+      await stopped
+      const url = URL.createObjectURL(new Blob(chunks, { type: 'video/webm' }))
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `${filename}.webm`
+      link.click()
+      URL.revokeObjectURL(url)
+    } finally {
+      setRecording(false)
+    }
+  }
+
+  if (storyboard.length === 0) return null
+
+  return (
+    <div className="flex flex-col sm:flex-row gap-4 p-3 rounded-lg border border-gray-200 bg-gray-50">
+      <canvas
+        ref={canvasRef}
+        width={WIDTH}
+        height={HEIGHT}
+        className="w-40 sm:w-48 aspect-[9/16] rounded-md bg-black flex-shrink-0"
+      />
+      <div className="flex-1 space-y-3 text-xs text-gray-600">
+        <div>
+          动态分镜预览：按镜头时长轮流播放主图与商品图，叠加卖点与字幕，
+          {loading ? '画面加载中...' : `共${total}秒`}
+        </div>
+        <div className="h-1.5 rounded-full bg-gray-200 overflow-hidden">
+          <div
+            className="h-full bg-blue-500"
+            style={{ width: `${total > 0 ? (position / total) * 100 : 0}%` }}
+          />
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={() => (playing ? stop() : play())}
+            disabled={loading || recording}
+            className="px-3 py-1 rounded-full font-medium bg-white border border-gray-200 text-gray-600 hover:border-blue-300 hover:text-blue-700 disabled:opacity-50"
+          >
+            {playing && !recording ? '停止' : '播放'}
+          </button>
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={loading || playing || recording}
+            className="px-3 py-1 rounded-full font-medium bg-white border border-gray-200 text-gray-600 hover:border-blue-300 hover:text-blue-700 disabled:opacity-50"
+          >
+            {recording ? '录制中...' : '导出WebM'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
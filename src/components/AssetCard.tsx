@@ -4,8 +4,19 @@
  * 用于展示AI生成的电商营销素材，包括：
  * - 商品标题
  * - 营销氛围词
- * - 商品卖点列表
- * - 短视频脚本
+ * - 商品卖点列表（提供了买家评价时附带每条卖点的评价依据）
+ * - 短视频分镜（时间轴及每个镜头的景别、画面、字幕、口播、配乐和转场），可导出为字幕或分镜表，
+ *   也可以用主图和商品图预览动态分镜
+ * - 请求了扩展内容时：SEO关键词、话题标签、详情页文案、常见问答（可折叠）
+ * - 提供了竞品时：我方卖点与竞品卖点的对比表（可折叠），与竞品重复的卖点会标出
+ * - 参与营销活动时：氛围词旁标出活动，自动生成的主图采用活动的视觉风格
+ *
+ * 主图由 /api/image 按服务端的主图提示词模板生成，失败时在本地合成。
+ *
+ * 生成了多个候选方案时，可以在卡片顶部逐个翻看各方案及其评分，并选定采用的方案。
+ * 每个区域都可以单独重新生成，其余内容保持不变。
+ * 违反广告法的用语会在原文中标出，并在卡片底部列出替换建议。
+ * 结果来自模拟数据（真实模型不可用）时会醒目提示，并可一键使用真实模型重试。
  *
  * 使用示例：
  * ```tsx
@@ -14,29 +25,121 @@
  *   selling_points: ['音质清晰', '续航持久'],
  *   atmosphere: '限时特惠',
  *   video_script: [
- *     { s: 0, v: '开场特写' },
- *     { s: 2, v: '使用场景展示' }
+ *     { s: 0, duration: 2, shot: 'close_up', v: '开场特写', caption: '优质蓝牙耳机', voiceover: '' },
+ *     { s: 2, duration: 3, shot: 'medium', v: '使用场景展示', caption: '', voiceover: '通勤路上也能沉浸' }
  *   ]
  * }} />
  * ```
  */
 
 'use client'
-import React, { useState, useEffect } from 'react'
-import type { Assets } from '@/types'
+import React, { useState, useEffect, useMemo } from 'react'
+import type { AssetField, AssetSection, Assets, AssetsMeta, ComplianceIssue } from '@/types'
+import { ASSET_SECTIONS } from '@/lib/assets'
+import { shotTransitionLabel, shotTypeLabel, toStoryboard } from '@/lib/storyboard'
+import { SCRIPT_EXPORT_FORMATS, type ScriptExportFormat } from '@/lib/scriptExport'
+import { downloadFile } from '@/lib/http'
+import { campaignDateLabel } from '@/lib/campaigns'
+import AnimaticPlayer from './AnimaticPlayer'
 
 /**
  * AssetCard组件的属性
  */
 interface AssetCardProps {
   /**
-   * AI生成的素材数据
+   * AI生成的素材数据（流式生成时可能只包含部分字段），包含候选方案时可翻看各方案
    */
-  data: Assets
+  data: AssetsMeta | Partial<Assets>
   /**
    * 可选的商品图片URL，如果提供则会在卡片中显示生成的主图
    */
   imageUrl?: string | null
+  /**
+   * 素材消息ID，生成主图时用于把图片生成用量记到该消息上
+   */
+  messageId?: string
+  /**
+   * 是否正在流式生成中；生成中不会触发主图生成
+   */
+  streaming?: boolean
+  /**
+   * 选定候选方案的回调，不提供时只能翻看不能选定
+   */
+  onPin?: (index: number) => Promise<void> | void
+  /**
+   * 重新生成单个字段的回调，不提供时不显示重新生成按钮
+   */
+  onRegenerate?: (field: AssetField) => Promise<void> | void
+  /**
+   * 使用真实模型重试（不使用缓存）的回调，不提供时模拟数据提示和缓存结果旁不显示重试按钮
+   */
+  onRetry?: () => Promise<void> | void
+}
+
+/**
+ * 标出文本中的合规问题片段
+ *
+ * @param text - 字段文本
+ * @param issues - 该字段的合规问题（按位置排列）
+ * @returns 带标记的文本节点
+ */
+function highlightIssues(text: string, issues: ComplianceIssue[]): React.ReactNode {
+  if (issues.length === 0) return text
+  const nodes: React.ReactNode[] = []
+  let cursor = 0
+  issues.forEach((issue, i) => {
+    if (issue.start < cursor) return
+    nodes.push(text.slice(cursor, issue.start))
+    nodes.push(
+      <mark
+        key={i}
+        title={`${issue.category}，建议改为"${issue.suggestion}"`}
+        className="bg-transparent text-inherit underline decoration-wavy decoration-amber-500"
+      >
+        {text.slice(issue.start, issue.end)}
+      </mark>
+    )
+    cursor = issue.end
+  })
+  nodes.push(text.slice(cursor))
+  return nodes
+}
+
+/**
+ * 区域重新生成按钮
+ */
+function RegenerateButton({
+  busy,
+  disabled,
+  onClick,
+}: {
+  busy: boolean
+  disabled: boolean
+  onClick: () => void
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      disabled={disabled}
+      className="ml-auto flex items-center gap-1 text-xs text-gray-400 hover:text-blue-600 disabled:opacity-50 disabled:hover:text-gray-400"
+    >
+      <svg
+        className={`w-3.5 h-3.5 ${busy ? 'animate-spin' : ''}`}
+        fill="none"
+        stroke="currentColor"
+        viewBox="0 0 24 24"
+      >
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth={2}
+          d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+        />
+      </svg>
+      {busy ? '生成中...' : '重新生成'}
+    </button>
+  )
 }
 
 /**
@@ -47,10 +150,185 @@ interface AssetCardProps {
  * @param props - 组件属性
  * @returns React组件
  */
-export default function AssetCard({ data, imageUrl }: AssetCardProps) {
+export default function AssetCard({
+  data: meta,
+  imageUrl,
+  messageId,
+  streaming = false,
+  onPin,
+  onRegenerate,
+  onRetry,
+}: AssetCardProps) {
   const [heroUrl, setHeroUrl] = useState<string | null>(null)
   const [generating, setGenerating] = useState(false)
 
+  // 候选方案翻看：默认显示当前采用的方案
+  const candidates = ('candidates' in meta && meta.candidates) || []
+  const selectedIndex = ('selectedIndex' in meta && meta.selectedIndex) || 0
+  const [viewIndex, setViewIndex] = useState(selectedIndex)
+  const [pinning, setPinning] = useState(false)
+  const viewing = candidates[viewIndex]
+  const data: Assets | Partial<Assets> = viewing?.assets ?? meta
+
+  // 当前显示方案的广告合规问题
+  const compliance = (viewing ? viewing.compliance : 'compliance' in meta && meta.compliance) || []
+  const issuesAt = (path: string) => compliance.filter((issue) => issue.path === path)
+
+  // 当前显示方案的品牌规范问题
+  const brandGuide = 'brandGuide' in meta ? meta.brandGuide : undefined
+  const brandIssues = (viewing ? viewing.brand : 'brand' in meta && meta.brand) || []
+
+  // 当前显示方案的竞品卖点对比
+  const competitors = ('competitors' in meta && meta.competitors) || []
+  const comparison = (viewing ? viewing.comparison : 'comparison' in meta && meta.comparison) || []
+  const overlapCount = comparison.filter((row) => row.overlap).length
+
+  // 当前显示方案卖点的评价依据
+  const reviewInsights = 'reviewInsights' in meta ? meta.reviewInsights : undefined
+  const evidence = (viewing ? viewing.evidence : 'evidence' in meta && meta.evidence) || []
+  const evidenceAt = (path: string) => evidence.find((item) => item.path === path)
+
+  // 本次生成参与的营销活动
+  const campaign = 'campaign' in meta ? meta.campaign : undefined
+
+  // 生成来源：模拟数据需要醒目提示
+  const provenance = viewing?.provenance ?? ('provenance' in meta ? meta.provenance : undefined)
+  const isMock = provenance?.provider === 'mock'
+  const totalTokens = (provenance?.usage ?? []).reduce(
+    (sum, u) => sum + u.promptTokens + u.completionTokens,
+    0
+  )
+  const [retrying, setRetrying] = useState(false)
+
+  async function handleRetry() {
+    if (!onRetry) return
+    setRetrying(true)
+    try {
+      await onRetry()
+    } finally {
+      setRetrying(false)
+    }
+  }
+
+  // 选定方案后服务端返回的新下标
+  useEffect(() => {
+    setViewIndex(selectedIndex)
+  }, [selectedIndex])
+
+  async function handlePin() {
+    if (!onPin) return
+    setPinning(true)
+    try {
+      await onPin(viewIndex)
+    } finally {
+      setPinning(false)
+    }
+  }
+
+  // 单字段重新生成：只作用于当前采用的方案
+  const [regenerating, setRegenerating] = useState<AssetField | null>(null)
+  const canRegenerate = !!onRegenerate && !streaming && (!viewing || viewIndex === selectedIndex)
+  const revisionCount = ('revisions' in meta && meta.revisions?.length) || 0
+
+  async function handleRegenerate(field: AssetField) {
+    if (!onRegenerate) return
+    setRegenerating(field)
+    try {
+      await onRegenerate(field)
+    } finally {
+      setRegenerating(null)
+    }
+  }
+
+  function regenerateButton(field: AssetField) {
+    if (!canRegenerate) return null
+    return (
+      <RegenerateButton
+        busy={regenerating === field}
+        disabled={regenerating !== null}
+        onClick={() => handleRegenerate(field)}
+      />
+    )
+  }
+
+  // 流式生成时字段可能尚未到达
+  const sellingPoints = Array.isArray(data.selling_points) ? data.selling_points : []
+  const videoScript = data.video_script
+  const storyboard = useMemo(
+    () => toStoryboard(Array.isArray(videoScript) ? videoScript : []),
+    [videoScript]
+  )
+  const totalSeconds = storyboard.reduce((sum, shot) => sum + shot.duration, 0)
+
+  // 动态分镜预览
+  const [animaticOpen, setAnimaticOpen] = useState(false)
+
+  // 导出当前显示方案的视频脚本
+  const [exporting, setExporting] = useState<ScriptExportFormat | null>(null)
+
+  async function handleExport(format: ScriptExportFormat) {
+    if (!messageId) return
+    setExporting(format)
+    try {
+      const candidate = viewing ? `&candidate=${viewIndex}` : ''
+      await downloadFile(
+        `/api/assets/${messageId}/export?format=${format}${candidate}`,
+        `script-${messageId}.${format}`,
+        { 'X-Client-Id': localStorage.getItem('clientId') || '' }
+      )
+    } catch (err) {
+      console.error('导出视频脚本失败:', err)
+      alert('导出失败，请稍后重试')
+    } finally {
+      setExporting(null)
+    }
+  }
+
+  // 扩展内容：显示已生成的部分，以及请求了但未能生成的部分（可单独重新生成）
+  const requestedSections = ('sections' in meta && meta.sections) || []
+  const sections = ASSET_SECTIONS.filter(
+    (section) =>
+      Array.isArray(data[section.id]) || (!streaming && requestedSections.includes(section.id))
+  )
+
+  function renderSection(id: AssetSection) {
+    if (id === 'faq') {
+      return (data.faq ?? []).map((item, index) => (
+        <div key={index} className="p-3 rounded-lg bg-gray-50 border border-gray-200 space-y-1">
+          <div className="text-sm font-medium text-gray-800">
+            问：{highlightIssues(item.q, issuesAt(`faq[${index}].q`))}
+          </div>
+          <div className="text-sm text-gray-600">
+            答：{highlightIssues(item.a, issuesAt(`faq[${index}].a`))}
+          </div>
+        </div>
+      ))
+    }
+    if (id === 'detail_copy') {
+      return (data.detail_copy ?? []).map((text, index) => (
+        <p key={index} className="text-sm text-gray-700 leading-relaxed">
+          {highlightIssues(text, issuesAt(`detail_copy[${index}]`))}
+        </p>
+      ))
+    }
+    return (
+      <div className="flex flex-wrap gap-2">
+        {(data[id] ?? []).map((text, index) => (
+          <span
+            key={index}
+            className={`px-2.5 py-1 rounded-full text-xs font-medium border ${
+              id === 'hashtags'
+                ? 'bg-blue-50 text-blue-700 border-blue-200'
+                : 'bg-gray-50 text-gray-700 border-gray-200'
+            }`}
+          >
+            {highlightIssues(text, issuesAt(`${id}[${index}]`))}
+          </span>
+        ))}
+      </div>
+    )
+  }
+
   // 生成主图的函数
   async function composeLocal(url: string, text: string, color: string) {
     return new Promise<string>((resolve, reject) => {
@@ -86,18 +364,18 @@ export default function AssetCard({ data, imageUrl }: AssetCardProps) {
 
   // 自动生成主图
   useEffect(() => {
-    if (!imageUrl || heroUrl) return
+    if (!imageUrl || heroUrl || streaming) return
 
     async function generateHero() {
       setGenerating(true)
       // 构建完整的商品信息文本
-      const title = data.title
+      const title = data.title ?? ''
       const sellingPoints = Array.isArray(data.selling_points)
         ? data.selling_points.slice(0, 3)
         : []
       const atmosphere = data.atmosphere || ''
 
-      // 构建详细的提示词
+      // 本地合成主图时使用的主题色
       const primary =
         (typeof window !== 'undefined'
           ? getComputedStyle(document.documentElement).getPropertyValue('--primary').trim()
@@ -109,30 +387,28 @@ export default function AssetCard({ data, imageUrl }: AssetCardProps) {
       // 构建氛围词文本
       const atmosphereText = atmosphere ? `氛围标识：${atmosphere}` : ''
 
-      // 组合所有文本信息
-      const infoText = [title, pointsText, atmosphereText].filter(Boolean).join(' | ')
-
-      const prompt = `在商品图片上设计专业的电商主图，要求：
+      // 构建活动文本
+      const campaignText = campaign ? `${campaign.name}活动` : ''
 
-1. 商品标题"${title}"以大号粗体文字显示在图片左侧（垂直排列）或顶部（水平排列），字体足够大且醒目，可用饱和度高渐变色。
-
-2. ${sellingPoints.length > 0 ? `从以下核心卖点中选择2-3个最重要的添加到图片中：${sellingPoints.join('、')}。卖点文字使用中等大小粗体，配合对勾或星星图标，位置在图片右侧或底部，使用背景色块或边框突出显示。` : ''}
-
-3. ${atmosphere ? `添加"${atmosphere}"作为质量保证或特色标识，使用小号文字配合图标显示在顶部或角落。` : ''}
-
-4. 设计要求：
-   - 商品图片必须清晰完整可见，文字不能遮挡商品主体
-   - 使用饱和度高吸睛色作为边框、背景色块或装饰元素
-   - 文字颜色与背景形成强烈对比（白色、深色等）
-   - 布局平衡，留白合理，整体风格专业现代
-   - 参考专业电商主图设计，类似东方甄选等品牌风格
+      // 组合所有文本信息
+      const infoText = [title, pointsText, atmosphereText, campaignText].filter(Boolean).join(' | ')
 
-5. 确保商品主体突出，文字信息作为辅助说明，整体视觉效果吸引消费者购买。`
       try {
         const r = await fetch('/api/image', {
           method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ imageUrl, prompt, size: '2K' }),
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Client-Id': localStorage.getItem('clientId') || '',
+          },
+          // 提示词由服务端按主图模板渲染
+          body: JSON.stringify({
+            imageUrl,
+            title,
+            sellingPoints,
+            atmosphere,
+            size: '2K',
+            messageId,
+          }),
         })
         if (r.ok) {
           const d = await r.json()
@@ -150,12 +426,85 @@ export default function AssetCard({ data, imageUrl }: AssetCardProps) {
     }
 
     generateHero()
-  }, [imageUrl, data, heroUrl])
+  }, [imageUrl, messageId, data, heroUrl, streaming, campaign])
 
   return (
     <div className="card p-6 space-y-5 bg-white border-blue-200 hover:border-blue-300 transition-all duration-200">
+      {/* 模拟数据提示 */}
+      {isMock && !streaming && (
+        <div className="flex flex-wrap items-center gap-2 p-3 rounded-lg bg-rose-50 border border-rose-200">
+          <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-rose-500 text-white">
+            模拟数据
+          </span>
+          <span className="flex-1 text-xs text-rose-700">
+            以下内容不是模型生成的，仅供预览
+            {provenance?.fallbackReason && `（${provenance.fallbackReason}）`}
+          </span>
+          {onRetry && (
+            <button
+              type="button"
+              onClick={handleRetry}
+              disabled={retrying}
+              className="px-2.5 py-1 rounded-full text-xs font-medium bg-white text-rose-700 border border-rose-300 hover:bg-rose-100 disabled:opacity-50"
+            >
+              {retrying ? '重试中...' : '使用真实模型重试'}
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* 候选方案切换 */}
+      {candidates.length > 1 && viewing && (
+        <div className="flex flex-wrap items-center justify-between gap-2 pb-4 border-b border-gray-200">
+          <div className="flex items-center gap-2 text-xs text-gray-500">
+            <button
+              type="button"
+              onClick={() => setViewIndex((i) => Math.max(i - 1, 0))}
+              disabled={viewIndex === 0}
+              className="w-6 h-6 rounded-md border border-gray-200 hover:border-blue-300 disabled:opacity-40"
+              aria-label="上一个方案"
+            >
+              ‹
+            </button>
+            <span className="font-medium text-gray-700">
+              方案 {viewIndex + 1}/{candidates.length}
+            </span>
+            <button
+              type="button"
+              onClick={() => setViewIndex((i) => Math.min(i + 1, candidates.length - 1))}
+              disabled={viewIndex === candidates.length - 1}
+              className="w-6 h-6 rounded-md border border-gray-200 hover:border-blue-300 disabled:opacity-40"
+              aria-label="下一个方案"
+            >
+              ›
+            </button>
+            <span
+              title={`长度合规 ${viewing.score.length} · 关键词覆盖 ${viewing.score.keywords} · 卖点去重 ${viewing.score.uniqueness}`}
+            >
+              评分 {viewing.score.total}
+            </span>
+          </div>
+          {viewIndex === selectedIndex ? (
+            <span className="px-2.5 py-1 rounded-full text-xs font-medium bg-blue-50 text-blue-700 border border-blue-200">
+              {'pinned' in meta && meta.pinned ? '已选定' : '推荐采用'}
+            </span>
+          ) : (
+            onPin && (
+              <button
+                type="button"
+                onClick={handlePin}
+                disabled={pinning}
+                className="px-2.5 py-1 rounded-full text-xs font-medium bg-white text-gray-600 border border-gray-200 hover:border-blue-300 hover:text-blue-700 disabled:opacity-50"
+              >
+                {pinning ? '保存中...' : '采用此方案'}
+              </button>
+            )
+          )}
+        </div>
+      )}
+
       {/* 生成的主图区域 */}
-      {imageUrl && (
+      {imageUrl && !streaming && (
         <div className="border-b border-gray-200 pb-4">
           <div className="text-sm text-gray-500 mb-2 flex items-center gap-2">
             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -225,109 +574,368 @@ export default function AssetCard({ data, imageUrl }: AssetCardProps) {
             </svg>
           </div>
           <div className="flex-1">
-            <h3 className="text-xl font-bold text-gray-800 mb-1 leading-tight">{data.title}</h3>
-            <div className="flex items-center gap-2">
-              <span className="text-xs text-gray-500">氛围</span>
-              <span className="px-2.5 py-1 rounded-full text-xs font-medium bg-blue-50 text-blue-700 border border-blue-200">
-                {data.atmosphere}
-              </span>
+            <div className="flex items-start gap-2">
+              <h3 className="text-xl font-bold text-gray-800 mb-1 leading-tight">
+                {data.title
+                  ? highlightIssues(data.title, issuesAt('title'))
+                  : streaming
+                    ? '标题生成中...'
+                    : ''}
+              </h3>
+              {regenerateButton('title')}
             </div>
+            {data.atmosphere && (
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-gray-500">氛围</span>
+                <span className="px-2.5 py-1 rounded-full text-xs font-medium bg-blue-50 text-blue-700 border border-blue-200">
+                  {highlightIssues(data.atmosphere, issuesAt('atmosphere'))}
+                </span>
+                {regenerateButton('atmosphere')}
+                {campaign && (
+                  <span
+                    className="text-xs text-gray-500"
+                    title={`${campaign.start} 至 ${campaign.end}`}
+                  >
+                    {campaign.name}活动 · {campaignDateLabel(campaign)}
+                  </span>
+                )}
+              </div>
+            )}
           </div>
         </div>
       </div>
 
       {/* 卖点区域 */}
-      <div className="space-y-3">
-        <div className="flex items-center gap-2">
-          <svg
-            className="w-4 h-4 text-blue-500"
-            fill="none"
-            stroke="currentColor"
-            viewBox="0 0 24 24"
-          >
-            <path
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              strokeWidth={2}
-              d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z"
-            />
-          </svg>
-          <h4 className="text-sm font-semibold text-gray-700 uppercase tracking-wide">核心卖点</h4>
-        </div>
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
-          {data.selling_points.map((point, index) => (
-            <div
-              key={index}
-              className="flex items-center gap-2 p-3 rounded-lg bg-gray-50 border border-gray-200 hover:border-blue-300 hover:bg-blue-50 transition-all group"
+      {(!streaming || sellingPoints.length > 0) && (
+        <div className="space-y-3">
+          <div className="flex items-center gap-2">
+            <svg
+              className="w-4 h-4 text-blue-500"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
             >
-              <div className="w-1.5 h-1.5 rounded-full bg-blue-500 flex-shrink-0" />
-              <span className="text-sm text-gray-700 group-hover:text-gray-900 transition-colors">
-                {point}
-              </span>
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z"
+              />
+            </svg>
+            <h4 className="text-sm font-semibold text-gray-700 uppercase tracking-wide">
+              核心卖点
+            </h4>
+            {regenerateButton('selling_points')}
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {sellingPoints.map((point, index) => {
+              const support = evidenceAt(`selling_points[${index}]`)
+              return (
+                <div
+                  key={index}
+                  className="p-3 rounded-lg bg-gray-50 border border-gray-200 hover:border-blue-300 hover:bg-blue-50 transition-all group"
+                >
+                  <div className="flex items-center gap-2">
+                    <div className="w-1.5 h-1.5 rounded-full bg-blue-500 flex-shrink-0" />
+                    <span className="text-sm text-gray-700 group-hover:text-gray-900 transition-colors">
+                      {highlightIssues(point, issuesAt(`selling_points[${index}]`))}
+                    </span>
+                  </div>
+                  {support && (
+                    <details className="mt-2 ml-3.5 text-xs text-gray-500">
+                      <summary className="cursor-pointer select-none">
+                        {support.kind === 'praise' ? '好评依据' : '回应痛点'}：{support.attribute}
+                      </summary>
+                      <ul className="mt-1 space-y-1">
+                        {support.snippets.map((snippet, i) => (
+                          <li key={i} className="text-gray-600">
+                            「{snippet}」
+                          </li>
+                        ))}
+                      </ul>
+                    </details>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+          {reviewInsights && !streaming && (
+            <div className="text-xs text-gray-500">
+              {`依据${reviewInsights.reviewCount}条买家评价 · 好评：${
+                reviewInsights.praises.map((insight) => insight.attribute).join('、') || '无'
+              } · 痛点：${
+                reviewInsights.painPoints.map((insight) => insight.attribute).join('、') || '无'
+              } · ${evidence.length}/${sellingPoints.length}条卖点有评价依据`}
             </div>
-          ))}
+          )}
         </div>
-      </div>
+      )}
 
-      {/* 视频脚本区域 */}
-      <div className="space-y-3">
-        <div className="flex items-center gap-2">
-          <svg
-            className="w-4 h-4 text-blue-500"
-            fill="none"
-            stroke="currentColor"
-            viewBox="0 0 24 24"
-          >
-            <path
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              strokeWidth={2}
-              d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z"
-            />
-          </svg>
-          <h4 className="text-sm font-semibold text-gray-700 uppercase tracking-wide">
-            短视频脚本
-          </h4>
-        </div>
-        <div className="space-y-2">
-          {data.video_script.map((segment, index) => (
-            <div
-              key={index}
-              className="flex gap-3 items-start p-3 rounded-lg bg-gray-50 border border-gray-200 hover:bg-blue-50 hover:border-blue-300 transition-all group"
+      {/* 视频分镜区域 */}
+      {(!streaming || storyboard.length > 0) && (
+        <div className="space-y-3">
+          <div className="flex items-center gap-2">
+            <svg
+              className="w-4 h-4 text-blue-500"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
             >
-              {/* 时间标签 */}
-              <div className="flex-shrink-0 w-16 text-center">
-                <div className="px-2 py-1 rounded-md bg-blue-50 border border-blue-200">
-                  <span className="text-xs font-mono font-bold text-blue-700">{segment.s}s</span>
-                </div>
-              </div>
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z"
+              />
+            </svg>
+            <h4 className="text-sm font-semibold text-gray-700 uppercase tracking-wide">
+              短视频分镜
+            </h4>
+            {totalSeconds > 0 && <span className="text-xs text-gray-400">共{totalSeconds}秒</span>}
+            {regenerateButton('video_script')}
+          </div>
 
-              {/* 场景描述 */}
-              <div className="flex-1 pt-0.5">
-                <span className="text-sm text-gray-700 group-hover:text-gray-900 transition-colors leading-relaxed">
-                  {segment.v}
-                </span>
-              </div>
+          {/* 导出：字幕可直接导入剪映/CapCut、Premiere 等剪辑软件 */}
+          {messageId && !streaming && storyboard.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-xs text-gray-500">导出</span>
+              {SCRIPT_EXPORT_FORMATS.map((format) => (
+                <button
+                  key={format.id}
+                  type="button"
+                  onClick={() => handleExport(format.id)}
+                  disabled={exporting !== null}
+                  className="px-2.5 py-1 rounded-full text-xs font-medium bg-white text-gray-600 border border-gray-200 hover:border-blue-300 hover:text-blue-700 disabled:opacity-50"
+                >
+                  {exporting === format.id ? '导出中...' : format.label}
+                </button>
+              ))}
+              <button
+                type="button"
+                onClick={() => setAnimaticOpen((open) => !open)}
+                className={`px-2.5 py-1 rounded-full text-xs font-medium border transition-all ${
+                  animaticOpen
+                    ? 'bg-blue-50 text-blue-700 border-blue-300'
+                    : 'bg-white text-gray-600 border-gray-200 hover:border-blue-300 hover:text-blue-700'
+                }`}
+              >
+                预览动态分镜
+              </button>
+            </div>
+          )}
+          {animaticOpen && !streaming && (
+            <AnimaticPlayer
+              storyboard={storyboard}
+              images={[heroUrl, imageUrl].filter((url): url is string => !!url)}
+              sellingPoints={sellingPoints}
+              filename={messageId ? `animatic-${messageId}` : undefined}
+            />
+          )}
 
-              {/* 进度指示器 */}
-              <div className="flex-shrink-0 w-1 h-full bg-gray-200 rounded-full overflow-hidden">
+          {/* 时间轴：每个镜头的宽度与时长成正比 */}
+          {totalSeconds > 0 && (
+            <div className="flex h-8 rounded-lg overflow-hidden border border-blue-200">
+              {storyboard.map((shot, index) => (
                 <div
-                  className="w-full bg-blue-500 rounded-full transition-all"
-                  style={{ height: `${((index + 1) / data.video_script.length) * 100}%` }}
-                />
+                  key={index}
+                  style={{ flexGrow: shot.duration, flexBasis: 0 }}
+                  className={`min-w-0 flex items-center justify-center px-1 text-[11px] font-medium truncate border-r last:border-r-0 border-blue-200 ${
+                    index % 2 === 0 ? 'bg-blue-50 text-blue-700' : 'bg-blue-100 text-blue-800'
+                  }`}
+                  title={`${shot.s}-${shot.s + shot.duration}s ${shot.v}`}
+                >
+                  {index + 1}
+                  {shot.shot && ` · ${shotTypeLabel(shot.shot)}`}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            {storyboard.map((shot, index) => (
+              <div key={index}>
+                <div className="flex gap-3 items-start p-3 rounded-lg bg-gray-50 border border-gray-200 hover:bg-blue-50 hover:border-blue-300 transition-all group">
+                  {/* 时间与景别 */}
+                  <div className="flex-shrink-0 w-20 text-center space-y-1">
+                    <div className="px-2 py-1 rounded-md bg-blue-50 border border-blue-200">
+                      <span className="text-xs font-mono font-bold text-blue-700">
+                        {shot.s}-{shot.s + shot.duration}s
+                      </span>
+                    </div>
+                    {shot.shot && (
+                      <div className="text-xs text-gray-500">{shotTypeLabel(shot.shot)}</div>
+                    )}
+                  </div>
+
+                  {/* 画面、字幕、口播与配乐 */}
+                  <div className="flex-1 pt-0.5 space-y-1">
+                    <div className="text-sm text-gray-700 group-hover:text-gray-900 transition-colors leading-relaxed">
+                      {shot.v}
+                    </div>
+                    {shot.caption && (
+                      <div className="text-xs text-gray-600">
+                        <span className="text-gray-400">字幕：</span>
+                        {highlightIssues(shot.caption, issuesAt(`video_script[${index}].caption`))}
+                      </div>
+                    )}
+                    {shot.voiceover && (
+                      <div className="text-xs text-gray-600">
+                        <span className="text-gray-400">口播：</span>
+                        {highlightIssues(
+                          shot.voiceover,
+                          issuesAt(`video_script[${index}].voiceover`)
+                        )}
+                      </div>
+                    )}
+                    {shot.bgm && (
+                      <div className="text-xs text-gray-600">
+                        <span className="text-gray-400">配乐：</span>
+                        {shot.bgm}
+                      </div>
+                    )}
+                  </div>
+                </div>
+
+                {/* 转场 */}
+                {shot.transition && index < storyboard.length - 1 && (
+                  <div className="py-1 pl-8 text-[11px] text-gray-400">
+                    ↓ 转场：{shotTransitionLabel(shot.transition)}
+                  </div>
+                )}
               </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* 扩展内容区域 */}
+      {sections.map((section) => (
+        <details key={section.id} open className="group/section space-y-3">
+          <summary className="flex items-center gap-2 cursor-pointer select-none list-none">
+            <span className="text-xs text-gray-400 transition-transform group-open/section:rotate-90">
+              ▶
+            </span>
+            <h4 className="text-sm font-semibold text-gray-700 uppercase tracking-wide">
+              {section.label}
+            </h4>
+            <span className="text-xs text-gray-400">
+              {Array.isArray(data[section.id]) ? `${data[section.id]!.length}条` : '未生成'}
+            </span>
+          </summary>
+          <div className="space-y-2">
+            <div className="flex">{regenerateButton(section.id)}</div>
+            {renderSection(section.id)}
+          </div>
+        </details>
+      ))}
+
+      {/* 竞品卖点对比 */}
+      {comparison.length > 0 && (
+        <details open className="group/comparison space-y-3">
+          <summary className="flex items-center gap-2 cursor-pointer select-none list-none">
+            <span className="text-xs text-gray-400 transition-transform group-open/comparison:rotate-90">
+              ▶
+            </span>
+            <h4 className="text-sm font-semibold text-gray-700 uppercase tracking-wide">
+              竞品卖点对比
+            </h4>
+            <span className="text-xs text-gray-400">
+              {competitors.map((c) => c.name).join('、')}
+              {overlapCount > 0 ? ` · ${overlapCount}条重复` : ' · 无重复'}
+            </span>
+          </summary>
+          <div className="overflow-x-auto rounded-lg border border-gray-200">
+            <table className="w-full text-xs text-left">
+              <thead className="bg-gray-50 text-gray-500">
+                <tr>
+                  <th className="px-3 py-2 font-medium">我方卖点</th>
+                  <th className="px-3 py-2 font-medium">竞品卖点</th>
+                  <th className="px-3 py-2 font-medium text-right">相似度</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 text-gray-700">
+                {comparison.map((row, index) => (
+                  <tr key={index} className={row.overlap ? 'bg-red-50' : undefined}>
+                    <td className="px-3 py-2">
+                      {row.ours ?? <span className="text-gray-400">仅竞品</span>}
+                    </td>
+                    <td className="px-3 py-2">
+                      {row.theirs ? (
+                        <>
+                          {row.theirs}
+                          <span className="ml-1 text-gray-400">（{row.competitor}）</span>
+                        </>
+                      ) : (
+                        <span className="text-gray-400">—</span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-right whitespace-nowrap">
+                      {row.ours && row.theirs ? `${Math.round(row.similarity * 100)}%` : '—'}
+                      {row.overlap && <span className="ml-1 text-red-600 font-medium">重复</span>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </details>
+      )}
+
+      {/* 广告合规提示 */}
+      {compliance.length > 0 && (
+        <div className="p-3 rounded-lg bg-amber-50 border border-amber-200 space-y-1.5">
+          <div className="text-xs font-semibold text-amber-700">
+            广告合规提示（{compliance.length}）
+          </div>
+          {compliance.map((issue, index) => (
+            <div key={index} className="text-xs text-amber-800">
+              「{issue.span}」属于{issue.category}，建议改为「{issue.suggestion}」
             </div>
           ))}
         </div>
-      </div>
+      )}
+
+      {/* 品牌规范提示 */}
+      {brandIssues.length > 0 && (
+        <div className="p-3 rounded-lg bg-purple-50 border border-purple-200 space-y-1.5">
+          <div className="text-xs font-semibold text-purple-700">
+            品牌规范提示{brandGuide && `（${brandGuide.name}）`}：{brandIssues.length}处未遵守
+          </div>
+          {brandIssues.map((issue, index) => (
+            <div key={index} className="text-xs text-purple-800">
+              {issue.message}
+            </div>
+          ))}
+        </div>
+      )}
 
       {/* 底部装饰 */}
       <div className="pt-2 border-t border-gray-200">
         <div className="flex items-center justify-between text-xs text-gray-500">
-          <span>AI生成内容</span>
+          <span>
+            {isMock ? '模拟数据' : 'AI生成内容'}
+            {provenance &&
+              !isMock &&
+              ` · ${provenance.model ?? provenance.provider} · ${(provenance.latencyMs / 1000).toFixed(1)}s`}
+            {totalTokens > 0 && ` · ${totalTokens} tokens`}
+            {provenance?.cachedAt && ' · 缓存结果'}
+            {provenance?.cachedAt && onRetry && (
+              <button
+                type="button"
+                onClick={handleRetry}
+                disabled={retrying}
+                className="ml-1 text-blue-600 hover:text-blue-700 disabled:opacity-50"
+              >
+                {retrying ? '重新生成中...' : '不使用缓存重新生成'}
+              </button>
+            )}
+            {brandGuide && brandIssues.length === 0 && ` · 符合品牌规范（${brandGuide.name}）`}
+            {'history' in meta && meta.history && ' · 对话历史已压缩'}
+            {revisionCount > 1 && ` · 已修订${revisionCount - 1}次`}
+          </span>
           <div className="flex items-center gap-1">
             <div className="w-2 h-2 rounded-full bg-blue-500 animate-pulse" />
-            <span>已生成</span>
+            <span>{streaming ? '生成中...' : '已生成'}</span>
           </div>
         </div>
       </div>
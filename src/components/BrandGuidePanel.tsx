@@ -0,0 +1,319 @@
+'use client'
+import React, { useState } from 'react'
+import type { BrandGuide, EmojiPolicy } from '@/types'
+import { deleteJson, postJson, putJson } from '@/lib/http'
+import {
+  BRAND_FIELD_MAX_LENGTH,
+  EMOJI_POLICIES,
+  isEmojiPolicy,
+  type BrandGuideInput,
+} from '@/lib/brandGuide'
+
+/**
+ * BrandGuidePanel组件的属性
+ */
+interface BrandGuidePanelProps {
+  /**
+   * 当前客户端的全部品牌规范
+   */
+  brandGuides: BrandGuide[]
+  /**
+   * 当前会话选用的品牌规范ID
+   */
+  selectedId: string | null
+  /**
+   * 为当前会话选用品牌规范，null 表示不使用
+   */
+  onSelect: (id: string | null) => void
+  /**
+   * 品牌规范新增、修改或删除后的回调（用于重新加载列表）
+   */
+  onChanged: () => Promise<void>
+  /**
+   * 关闭面板
+   */
+  onClose: () => void
+}
+
+/**
+ * 表单状态：列表字段在表单中以多行文本编辑，每行一项
+ */
+type BrandGuideForm = {
+  name: string
+  tone: string
+  examples: string
+  requiredTerms: string
+  forbiddenTerms: string
+  emojiPolicy: EmojiPolicy
+}
+
+const EMPTY_FORM: BrandGuideForm = {
+  name: '',
+  tone: '',
+  examples: '',
+  requiredTerms: '',
+  forbiddenTerms: '',
+  emojiPolicy: 'allow',
+}
+
+function toForm(guide: BrandGuide): BrandGuideForm {
+  return {
+    name: guide.name,
+    tone: guide.tone,
+    examples: guide.examples.join('\n'),
+    requiredTerms: guide.requiredTerms.join('\n'),
+    forbiddenTerms: guide.forbiddenTerms.join('\n'),
+    emojiPolicy: guide.emojiPolicy,
+  }
+}
+
+function toLines(text: string): string[] {
+  return text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+}
+
+/**
+ * 品牌规范面板
+ *
+ * 管理当前客户端的品牌规范（语气、示例文案、必备用语、禁用语、表情符号策略），
+ * 并为当前会话选用其中一个。
+ *
+ * @param props - 组件属性
+ * @returns React组件
+ */
+export default function BrandGuidePanel({
+  brandGuides,
+  selectedId,
+  onSelect,
+  onChanged,
+  onClose,
+}: BrandGuidePanelProps) {
+  // 正在编辑的品牌规范：undefined 表示未在编辑，null 表示新建
+  const [editingId, setEditingId] = useState<string | null | undefined>(undefined)
+  const [form, setForm] = useState<BrandGuideForm>(EMPTY_FORM)
+  const [saving, setSaving] = useState<boolean>(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const headers = () => ({ 'X-Client-Id': localStorage.getItem('clientId') || '' })
+
+  const startEdit = (guide: BrandGuide | null) => {
+    setEditingId(guide ? guide.id : null)
+    setForm(guide ? toForm(guide) : EMPTY_FORM)
+    setError(null)
+  }
+
+  const update = (field: keyof BrandGuideForm, value: string) => {
+    setForm((prev) => ({ ...prev, [field]: value }))
+    setError(null)
+  }
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      setError('请填写品牌名称')
+      return
+    }
+    const brandGuide: BrandGuideInput = {
+      name: form.name,
+      tone: form.tone,
+      examples: toLines(form.examples),
+      requiredTerms: toLines(form.requiredTerms),
+      forbiddenTerms: toLines(form.forbiddenTerms),
+      emojiPolicy: form.emojiPolicy,
+    }
+    try {
+      setSaving(true)
+      if (editingId) {
+        await putJson(`/api/brand-guides/${editingId}`, { brandGuide }, headers())
+      } else {
+        const data = await postJson<{ brandGuide: BrandGuide }>(
+          '/api/brand-guides',
+          { brandGuide },
+          headers()
+        )
+        // 新建后直接为当前会话选用
+        onSelect(data.brandGuide.id)
+      }
+      await onChanged()
+      setEditingId(undefined)
+    } catch (err) {
+      console.error('保存品牌规范失败:', err)
+      setError('保存失败，请检查内容后重试')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (guide: BrandGuide) => {
+    if (!confirm(`确定删除品牌规范「${guide.name}」吗？`)) return
+    try {
+      await deleteJson(`/api/brand-guides/${guide.id}`, headers())
+      if (guide.id === selectedId) onSelect(null)
+      await onChanged()
+    } catch (err) {
+      console.error('删除品牌规范失败:', err)
+      alert('删除失败，请稍后重试')
+    }
+  }
+
+  const inputClass =
+    'w-full px-3 py-2 rounded-lg border border-gray-200 text-sm text-gray-700 focus:outline-none focus:border-blue-300'
+
+  return (
+    <div className="mb-3 p-4 rounded-lg border border-gray-200 bg-gray-50 space-y-3 animate-fade-in">
+      <div className="flex items-center justify-between">
+        <div>
+          <div className="text-sm font-semibold text-gray-700">品牌规范</div>
+          <div className="text-xs text-gray-500">
+            选用后按品牌语气生成，并检查必备用语、禁用语和表情符号
+          </div>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-1 text-gray-400 hover:text-gray-600"
+          aria-label="关闭品牌规范"
+        >
+          ×
+        </button>
+      </div>
+
+      {/* 品牌规范列表 */}
+      <div className="space-y-1">
+        {brandGuides.map((guide) => (
+          <div
+            key={guide.id}
+            className={`flex items-center gap-2 px-3 py-2 rounded-lg border text-sm ${
+              guide.id === selectedId ? 'bg-blue-50 border-blue-300' : 'bg-white border-gray-200'
+            }`}
+          >
+            <button
+              type="button"
+              onClick={() => onSelect(guide.id === selectedId ? null : guide.id)}
+              className="flex-1 text-left truncate text-gray-700"
+              title={guide.tone}
+            >
+              {guide.name}
+              {guide.id === selectedId && (
+                <span className="ml-2 text-xs text-blue-600">使用中</span>
+              )}
+            </button>
+            <button
+              type="button"
+              onClick={() => startEdit(guide)}
+              className="text-xs text-gray-500 hover:text-blue-600"
+            >
+              编辑
+            </button>
+            <button
+              type="button"
+              onClick={() => handleDelete(guide)}
+              className="text-xs text-gray-500 hover:text-red-600"
+            >
+              删除
+            </button>
+          </div>
+        ))}
+        {brandGuides.length === 0 && <div className="text-xs text-gray-500">还没有品牌规范</div>}
+      </div>
+
+      {editingId === undefined ? (
+        <button
+          type="button"
+          onClick={() => startEdit(null)}
+          className="text-xs font-medium text-blue-600 hover:text-blue-700"
+        >
+          + 新建品牌规范
+        </button>
+      ) : (
+        <div className="space-y-3 pt-3 border-t border-gray-200">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <label className="text-xs text-gray-600 space-y-1">
+              <span>品牌名称</span>
+              <input
+                value={form.name}
+                onChange={(e) => update('name', e.target.value)}
+                maxLength={BRAND_FIELD_MAX_LENGTH}
+                className={inputClass}
+              />
+            </label>
+            <label className="text-xs text-gray-600 space-y-1">
+              <span>表情符号</span>
+              <select
+                value={form.emojiPolicy}
+                onChange={(e) => {
+                  if (isEmojiPolicy(e.target.value)) update('emojiPolicy', e.target.value)
+                }}
+                className={inputClass}
+              >
+                {EMOJI_POLICIES.map((policy) => (
+                  <option key={policy.id} value={policy.id}>
+                    {policy.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <label className="block text-xs text-gray-600 space-y-1">
+            <span>语气风格</span>
+            <input
+              value={form.tone}
+              onChange={(e) => update('tone', e.target.value)}
+              maxLength={BRAND_FIELD_MAX_LENGTH}
+              placeholder="如：克制、专业，少用感叹号"
+              className={inputClass}
+            />
+          </label>
+          <label className="block text-xs text-gray-600 space-y-1">
+            <span>示例文案（每行一条）</span>
+            <textarea
+              value={form.examples}
+              onChange={(e) => update('examples', e.target.value)}
+              rows={2}
+              className={inputClass}
+            />
+          </label>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <label className="text-xs text-gray-600 space-y-1">
+              <span>必备用语（每行一个）</span>
+              <textarea
+                value={form.requiredTerms}
+                onChange={(e) => update('requiredTerms', e.target.value)}
+                rows={2}
+                className={inputClass}
+              />
+            </label>
+            <label className="text-xs text-gray-600 space-y-1">
+              <span>禁用语（每行一个）</span>
+              <textarea
+                value={form.forbiddenTerms}
+                onChange={(e) => update('forbiddenTerms', e.target.value)}
+                rows={2}
+                className={inputClass}
+              />
+            </label>
+          </div>
+          <div className="flex items-center justify-end gap-3">
+            {error && <span className="text-xs text-red-500">{error}</span>}
+            <button
+              type="button"
+              onClick={() => setEditingId(undefined)}
+              className="px-4 py-2 rounded-lg text-sm bg-white border border-gray-200 text-gray-600 hover:bg-gray-100"
+            >
+              取消
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={saving}
+              className="btn-primary px-4 py-2 rounded-lg text-sm font-semibold disabled:opacity-60"
+            >
+              {saving ? '保存中...' : '保存'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,394 @@
+'use client'
+import React, { useState } from 'react'
+import type { Campaign } from '@/types'
+import { deleteJson, postJson, putJson } from '@/lib/http'
+import {
+  CAMPAIGN_AUTO,
+  CAMPAIGN_FIELD_MAX_LENGTH,
+  CAMPAIGN_NONE,
+  builtinCampaignsFor,
+  campaignDateLabel,
+  resolveCampaign,
+  type CampaignInput,
+} from '@/lib/campaigns'
+
+/**
+ * CampaignPanel组件的属性
+ */
+interface CampaignPanelProps {
+  /**
+   * 当前客户端的自定义活动
+   */
+  campaigns: Campaign[]
+  /**
+   * 上新日期 'YYYY-MM-DD'，为空表示未指定
+   */
+  launchDate: string
+  /**
+   * 上新日期变化时的回调
+   */
+  onLaunchDateChange: (launchDate: string) => void
+  /**
+   * 活动的选择：CAMPAIGN_AUTO、CAMPAIGN_NONE 或活动ID
+   */
+  choice: string
+  /**
+   * 选择变化时的回调
+   */
+  onChoiceChange: (choice: string) => void
+  /**
+   * 自定义活动新增、修改或删除后的回调（用于重新加载列表）
+   */
+  onChanged: () => Promise<void>
+  /**
+   * 关闭面板
+   */
+  onClose: () => void
+}
+
+/**
+ * 表单状态：氛围词和标题钩子在表单中以多行文本编辑，每行一项
+ */
+type CampaignForm = {
+  name: string
+  start: string
+  end: string
+  atmosphere: string
+  hooks: string
+  tone: string
+  visual: string
+}
+
+const EMPTY_FORM: CampaignForm = {
+  name: '',
+  start: '',
+  end: '',
+  atmosphere: '',
+  hooks: '',
+  tone: '',
+  visual: '',
+}
+
+function toForm(campaign: Campaign): CampaignForm {
+  return {
+    name: campaign.name,
+    start: campaign.start,
+    end: campaign.end,
+    atmosphere: campaign.atmosphere.join('\n'),
+    hooks: campaign.hooks.join('\n'),
+    tone: campaign.tone,
+    visual: campaign.visual,
+  }
+}
+
+function toLines(text: string): string[] {
+  return text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+}
+
+/**
+ * 营销活动面板
+ *
+ * 填写上新日期后按日期自动匹配活动（店铺自定义活动优先于内置大促），也可以手动指定活动或不参与活动。
+ * 生效的活动决定素材的氛围词、标题钩子和主图视觉；这里同时管理当前客户端的自定义活动。
+ *
+ * @param props - 组件属性
+ * @returns React组件
+ */
+export default function CampaignPanel({
+  campaigns,
+  launchDate,
+  onLaunchDateChange,
+  choice,
+  onChoiceChange,
+  onChanged,
+  onClose,
+}: CampaignPanelProps) {
+  // 正在编辑的自定义活动：undefined 表示未在编辑，null 表示新建
+  const [editingId, setEditingId] = useState<string | null | undefined>(undefined)
+  const [form, setForm] = useState<CampaignForm>(EMPTY_FORM)
+  const [saving, setSaving] = useState<boolean>(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const resolved = resolveCampaign(choice, launchDate || undefined, campaigns)
+
+  const headers = () => ({ 'X-Client-Id': localStorage.getItem('clientId') || '' })
+
+  const startEdit = (campaign: Campaign | null) => {
+    setEditingId(campaign ? campaign.id : null)
+    setForm(campaign ? toForm(campaign) : EMPTY_FORM)
+    setError(null)
+  }
+
+  const update = (field: keyof CampaignForm, value: string) => {
+    setForm((prev) => ({ ...prev, [field]: value }))
+    setError(null)
+  }
+
+  const handleSave = async () => {
+    if (!form.name.trim() || !form.start || !form.end) {
+      setError('请填写活动名称和起止日期')
+      return
+    }
+    if (form.end < form.start) {
+      setError('结束日期不能早于开始日期')
+      return
+    }
+    const campaign: CampaignInput = {
+      name: form.name,
+      start: form.start,
+      end: form.end,
+      atmosphere: toLines(form.atmosphere),
+      hooks: toLines(form.hooks),
+      tone: form.tone,
+      visual: form.visual,
+    }
+    try {
+      setSaving(true)
+      if (editingId) {
+        await putJson(`/api/campaigns/${editingId}`, { campaign }, headers())
+      } else {
+        const data = await postJson<{ campaign: Campaign }>(
+          '/api/campaigns',
+          { campaign },
+          headers()
+        )
+        // 新建后直接为本次生成选用
+        onChoiceChange(data.campaign.id)
+      }
+      await onChanged()
+      setEditingId(undefined)
+    } catch (err) {
+      console.error('保存自定义活动失败:', err)
+      setError('保存失败，请检查内容后重试')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (campaign: Campaign) => {
+    if (!confirm(`确定删除活动「${campaign.name}」吗？`)) return
+    try {
+      await deleteJson(`/api/campaigns/${campaign.id}`, headers())
+      if (campaign.id === choice) onChoiceChange(CAMPAIGN_AUTO)
+      await onChanged()
+    } catch (err) {
+      console.error('删除自定义活动失败:', err)
+      alert('删除失败，请稍后重试')
+    }
+  }
+
+  const pillClass = (active: boolean) =>
+    `px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+      active
+        ? 'bg-blue-50 text-blue-700 border-blue-300'
+        : 'bg-white text-gray-600 border-gray-200 hover:border-blue-200'
+    }`
+
+  const inputClass =
+    'w-full px-3 py-2 rounded-lg border border-gray-200 text-sm text-gray-700 focus:outline-none focus:border-blue-300'
+
+  return (
+    <div className="mb-3 p-4 rounded-lg border border-gray-200 bg-gray-50 space-y-3 animate-fade-in">
+      <div className="flex items-center justify-between">
+        <div>
+          <div className="text-sm font-semibold text-gray-700">营销活动</div>
+          <div className="text-xs text-gray-500">
+            按上新日期匹配大促节点，生成时带上活动氛围词、标题钩子和主图视觉
+          </div>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-1 text-gray-400 hover:text-gray-600"
+          aria-label="关闭营销活动"
+        >
+          ×
+        </button>
+      </div>
+
+      <label className="flex items-center gap-2 text-xs text-gray-600">
+        <span>上新日期</span>
+        <input
+          type="date"
+          value={launchDate}
+          onChange={(e) => onLaunchDateChange(e.target.value)}
+          className="px-3 py-1 rounded-lg border border-gray-200 text-sm text-gray-700 focus:outline-none focus:border-blue-300"
+        />
+        <span className="text-gray-500">
+          {resolved
+            ? `生效活动：${resolved.name}（${campaignDateLabel(resolved)}）`
+            : choice === CAMPAIGN_AUTO && !launchDate
+              ? '填写上新日期后自动匹配活动'
+              : '不参与活动'}
+        </span>
+      </label>
+
+      {/* 活动选择 */}
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="button"
+          onClick={() => onChoiceChange(CAMPAIGN_AUTO)}
+          className={pillClass(choice === CAMPAIGN_AUTO)}
+        >
+          自动匹配
+        </button>
+        <button
+          type="button"
+          onClick={() => onChoiceChange(CAMPAIGN_NONE)}
+          className={pillClass(choice === CAMPAIGN_NONE)}
+        >
+          不参与
+        </button>
+        {[...builtinCampaignsFor(launchDate), ...campaigns].map((campaign) => (
+          <button
+            key={campaign.id}
+            type="button"
+            onClick={() => onChoiceChange(campaign.id)}
+            className={pillClass(choice === campaign.id)}
+            title={campaign.visual}
+          >
+            {campaign.name}
+            <span className="ml-1 text-gray-400">{campaignDateLabel(campaign)}</span>
+          </button>
+        ))}
+      </div>
+
+      {/* 自定义活动列表 */}
+      {campaigns.length > 0 && (
+        <div className="space-y-1">
+          {campaigns.map((campaign) => (
+            <div
+              key={campaign.id}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg border text-sm bg-white border-gray-200"
+            >
+              <span className="flex-1 truncate text-gray-700">
+                {campaign.name}
+                <span className="ml-2 text-xs text-gray-400">
+                  {campaign.start} 至 {campaign.end}
+                </span>
+              </span>
+              <button
+                type="button"
+                onClick={() => startEdit(campaign)}
+                className="text-xs text-gray-500 hover:text-blue-600"
+              >
+                编辑
+              </button>
+              <button
+                type="button"
+                onClick={() => handleDelete(campaign)}
+                className="text-xs text-gray-500 hover:text-red-600"
+              >
+                删除
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {editingId === undefined ? (
+        <button
+          type="button"
+          onClick={() => startEdit(null)}
+          className="text-xs font-medium text-blue-600 hover:text-blue-700"
+        >
+          + 新建店铺活动
+        </button>
+      ) : (
+        <div className="space-y-3 pt-3 border-t border-gray-200">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <label className="text-xs text-gray-600 space-y-1">
+              <span>活动名称</span>
+              <input
+                value={form.name}
+                onChange={(e) => update('name', e.target.value)}
+                maxLength={CAMPAIGN_FIELD_MAX_LENGTH}
+                placeholder="如：店庆"
+                className={inputClass}
+              />
+            </label>
+            <label className="text-xs text-gray-600 space-y-1">
+              <span>开始日期</span>
+              <input
+                type="date"
+                value={form.start}
+                onChange={(e) => update('start', e.target.value)}
+                className={inputClass}
+              />
+            </label>
+            <label className="text-xs text-gray-600 space-y-1">
+              <span>结束日期</span>
+              <input
+                type="date"
+                value={form.end}
+                onChange={(e) => update('end', e.target.value)}
+                className={inputClass}
+              />
+            </label>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <label className="text-xs text-gray-600 space-y-1">
+              <span>氛围词（每行一个）</span>
+              <textarea
+                value={form.atmosphere}
+                onChange={(e) => update('atmosphere', e.target.value)}
+                rows={2}
+                className={inputClass}
+              />
+            </label>
+            <label className="text-xs text-gray-600 space-y-1">
+              <span>标题钩子（每行一个）</span>
+              <textarea
+                value={form.hooks}
+                onChange={(e) => update('hooks', e.target.value)}
+                rows={2}
+                className={inputClass}
+              />
+            </label>
+          </div>
+          <label className="block text-xs text-gray-600 space-y-1">
+            <span>语气</span>
+            <input
+              value={form.tone}
+              onChange={(e) => update('tone', e.target.value)}
+              maxLength={CAMPAIGN_FIELD_MAX_LENGTH}
+              placeholder="如：感恩回馈、亲切"
+              className={inputClass}
+            />
+          </label>
+          <label className="block text-xs text-gray-600 space-y-1">
+            <span>主图视觉</span>
+            <input
+              value={form.visual}
+              onChange={(e) => update('visual', e.target.value)}
+              maxLength={CAMPAIGN_FIELD_MAX_LENGTH}
+              placeholder="如：蓝白配色，搭配气球与彩带"
+              className={inputClass}
+            />
+          </label>
+          <div className="flex items-center justify-end gap-3">
+            {error && <span className="text-xs text-red-500">{error}</span>}
+            <button
+              type="button"
+              onClick={() => setEditingId(undefined)}
+              className="px-4 py-2 rounded-lg text-sm bg-white border border-gray-200 text-gray-600 hover:bg-gray-100"
+            >
+              取消
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={saving}
+              className="btn-primary px-4 py-2 rounded-lg text-sm font-semibold disabled:opacity-60"
+            >
+              {saving ? '保存中...' : '保存'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
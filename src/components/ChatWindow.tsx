@@ -2,9 +2,32 @@
 import React, { useState, useRef, useEffect } from 'react'
 import Uploader from './UPloader'
 import AssetCard from './AssetCard'
+import UsagePanel from './UsagePanel'
+import ProductPanel from './ProductPanel'
+import BrandGuidePanel from './BrandGuidePanel'
+import CompetitorPanel from './CompetitorPanel'
+import ReviewPanel from './ReviewPanel'
+import CampaignPanel from './CampaignPanel'
 import { useChat } from '@/hooks/useChat'
-import type { Conversation } from '@/types'
+import type { BrandGuide, Campaign, Conversation } from '@/types'
+import { resolveCampaign } from '@/lib/campaigns'
 import { getJson } from '@/lib/http'
+import { PLATFORM_OPTIONS } from '@/services/platforms'
+import { isEmptyProductProfile } from '@/lib/productProfile'
+import { ASSET_SECTIONS } from '@/lib/assets'
+import {
+  MAX_PRODUCT_IMAGES,
+  PRODUCT_IMAGE_ROLES,
+  isProductImageRole,
+  messageImages,
+  primaryImageUrl,
+  productImageRoleLabel,
+} from '@/lib/productImages'
+
+/**
+ * 可选的候选方案数
+ */
+const VARIANT_OPTIONS = [1, 2, 3]
 
 function hasErrorField(x: unknown): x is { error?: string } {
   return typeof x === 'object' && x !== null && 'error' in (x as Record<string, unknown>)
@@ -20,9 +43,17 @@ function hasErrorField(x: unknown): x is { error?: string } {
 export default function ChatWindow() {
   // 输入框的文本内容
   const [input, setInput] = useState<string>('')
-  const [uploading, setUploading] = useState<boolean>(false)
+  // 正在上传的图片数（可同时上传多张）
+  const [uploading, setUploading] = useState<number>(0)
   const [conversations, setConversations] = useState<Conversation[]>([])
   const [sidebarOpen, setSidebarOpen] = useState<boolean>(false)
+  const [productOpen, setProductOpen] = useState<boolean>(false)
+  const [brandGuides, setBrandGuides] = useState<BrandGuide[]>([])
+  const [brandOpen, setBrandOpen] = useState<boolean>(false)
+  const [competitorOpen, setCompetitorOpen] = useState<boolean>(false)
+  const [reviewOpen, setReviewOpen] = useState<boolean>(false)
+  const [campaigns, setCampaigns] = useState<Campaign[]>([])
+  const [campaignOpen, setCampaignOpen] = useState<boolean>(false)
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const inputRef = useRef<HTMLInputElement>(null)
 
@@ -31,14 +62,45 @@ export default function ChatWindow() {
     conversationId,
     messages,
     loading,
-    imgUrl,
-    setImgUrl,
+    images,
+    addImage,
+    removeImage,
+    setImageRole,
+    moveImage,
+    platform,
+    setPlatform,
+    brandGuideId,
+    setBrandGuide,
+    product,
+    saveProduct,
+    variants,
+    setVariants,
+    sections,
+    toggleSection,
+    competitors,
+    setCompetitors,
+    reviews,
+    setReviews,
+    launchDate,
+    setLaunchDate,
+    campaignChoice,
+    setCampaignChoice,
+    pinCandidate,
+    regenerateField,
+    retryWithModel,
     send,
     lastAssets,
+    streamingAssets,
     switchConversation,
     createNewConversation,
   } = useChat()
 
+  // 已填写的竞品数（空白项不发送）
+  const competitorCount = competitors.filter((c) => c.trim()).length
+
+  // 本次生成生效的营销活动
+  const campaign = resolveCampaign(campaignChoice, launchDate || undefined, campaigns)
+
   /**
    * 加载会话列表
    */
@@ -55,10 +117,42 @@ export default function ChatWindow() {
   }
 
   /**
-   * 初始化时加载会话列表
+   * 加载品牌规范列表
+   */
+  const loadBrandGuides = async () => {
+    try {
+      const clientId = typeof window === 'undefined' ? '' : localStorage.getItem('clientId') || ''
+      const data = await getJson<{ brandGuides: BrandGuide[] }>('/api/brand-guides', {
+        'X-Client-Id': clientId,
+      })
+      setBrandGuides(data.brandGuides ?? [])
+    } catch (error) {
+      console.error('加载品牌规范失败:', error)
+    }
+  }
+
+  /**
+   * 加载自定义营销活动列表
+   */
+  const loadCampaigns = async () => {
+    try {
+      const clientId = typeof window === 'undefined' ? '' : localStorage.getItem('clientId') || ''
+      const data = await getJson<{ campaigns: Campaign[] }>('/api/campaigns', {
+        'X-Client-Id': clientId,
+      })
+      setCampaigns(data.campaigns ?? [])
+    } catch (error) {
+      console.error('加载自定义活动失败:', error)
+    }
+  }
+
+  /**
+   * 初始化时加载会话列表、品牌规范列表和自定义活动列表
    */
   useEffect(() => {
     loadConversations()
+    loadBrandGuides()
+    loadCampaigns()
   }, [])
 
   /**
@@ -74,7 +168,7 @@ export default function ChatWindow() {
    */
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
-  }, [messages])
+  }, [messages, streamingAssets])
 
   /**
    * 处理图片上传
@@ -86,7 +180,7 @@ export default function ChatWindow() {
    */
   const handleImageUpload = async (file: File) => {
     try {
-      setUploading(true)
+      setUploading((n) => n + 1)
 
       // 第一步：获取预签名URL
       const presignResponse = await fetch('/api/upload/presign', {
@@ -127,13 +221,13 @@ export default function ChatWindow() {
         throw new Error(msg)
       }
 
-      // 第三步：上传成功，保存图片URL
-      setImgUrl(presignData.publicUrl)
+      // 第三步：上传成功，加入待发送的图片列表
+      addImage(presignData.publicUrl)
     } catch (error) {
       console.error('图片上传失败:', error)
       alert('图片上传失败，请稍后重试')
     } finally {
-      setUploading(false)
+      setUploading((n) => n - 1)
     }
   }
 
@@ -235,6 +329,9 @@ export default function ChatWindow() {
               </button>
             ))}
           </div>
+          <div className="mt-4">
+            <UsagePanel conversationId={conversationId} refreshKey={messages} />
+          </div>
         </div>
       </div>
 
@@ -305,20 +402,24 @@ export default function ChatWindow() {
               </div>
             ) : (
               messages.map((message, index) => {
-                // 查找对应的用户消息中的图片URL（用于AI消息显示主图）
+                // 查找对应的用户消息中的主图URL（用于AI消息生成主图）
                 const getUserImageUrl = () => {
                   if (message.role === 'assistant' && message.messageType === 'generated_assets') {
-                    // 向前查找最近的一条用户消息
+                    // 向前查找最近的一条带图片的用户消息
                     for (let i = index - 1; i >= 0; i--) {
-                      if (messages[i].role === 'user' && messages[i].metaData?.imageUrl) {
-                        return messages[i].metaData.imageUrl
-                      }
+                      const url =
+                        messages[i].role === 'user'
+                          ? primaryImageUrl(messageImages(messages[i].metaData))
+                          : null
+                      if (url) return url
                     }
                   }
                   return null
                 }
 
                 const userImageUrl = getUserImageUrl()
+                const attachedImages =
+                  message.role === 'user' ? messageImages(message.metaData) : []
 
                 return (
                   <div key={message.id}>
@@ -357,21 +458,37 @@ export default function ChatWindow() {
 
                           {/* 如果是生成的素材消息，显示素材卡片 */}
                           {message.messageType === 'generated_assets' && message.metaData && (
-                            <AssetCard data={message.metaData} imageUrl={userImageUrl} />
+                            <AssetCard
+                              data={message.metaData}
+                              imageUrl={userImageUrl}
+                              messageId={message.id}
+                              onPin={(i) => pinCandidate(message.id, i)}
+                              onRegenerate={(field) => regenerateField(message.id, field)}
+                              onRetry={() => retryWithModel(message.id)}
+                            />
                           )}
                         </div>
                       </div>
                     </div>
 
-                    {/* 在用户消息气泡下方显示上传的图片 */}
-                    {message.role === 'user' && message.metaData?.imageUrl && (
+                    {/* 在用户消息气泡下方按顺序显示上传的图片及其用途 */}
+                    {attachedImages.length > 0 && (
                       <div className="mt-2 flex justify-end animate-fade-in">
-                        <div className="max-w-[85%] md:max-w-[75%] ml-auto">
-                          <img
-                            src={message.metaData.imageUrl}
-                            alt="上传的商品图片"
-                            className="w-full max-h-64 object-contain"
-                          />
+                        <div className="max-w-[85%] md:max-w-[75%] ml-auto flex flex-wrap justify-end gap-2">
+                          {attachedImages.map((image, i) => (
+                            <figure key={`${image.url}-${i}`} className="relative">
+                              <img
+                                src={image.url}
+                                alt={`上传的商品图片（${productImageRoleLabel(image.role)}）`}
+                                className={`object-contain ${
+                                  attachedImages.length === 1 ? 'w-full max-h-64' : 'w-28 h-28'
+                                }`}
+                              />
+                              <figcaption className="absolute bottom-1 left-1 px-1.5 py-0.5 rounded bg-black/60 text-white text-[10px]">
+                                {productImageRoleLabel(image.role)}
+                              </figcaption>
+                            </figure>
+                          ))}
                         </div>
                       </div>
                     )}
@@ -380,8 +497,20 @@ export default function ChatWindow() {
               })
             )}
 
+            {/* 流式生成中：边接收边展示部分素材 */}
+            {loading && streamingAssets && Object.keys(streamingAssets).length > 0 && (
+              <div className="message-bubble animate-fade-in flex justify-start">
+                <div className="max-w-[85%] md:max-w-[75%] message-bubble-assistant px-4 py-3">
+                  <div className="text-xs font-medium mb-2 text-blue-600">🤖 AI助手</div>
+                  <div className="text-gray-700">
+                    <AssetCard data={streamingAssets} streaming />
+                  </div>
+                </div>
+              </div>
+            )}
+
             {/* 加载状态指示器 */}
-            {loading && (
+            {loading && (!streamingAssets || Object.keys(streamingAssets).length === 0) && (
               <div className="flex justify-start animate-fade-in">
                 <div className="message-bubble-assistant px-4 py-3">
                   <div className="flex items-center gap-2 text-gray-500">
@@ -448,9 +577,163 @@ export default function ChatWindow() {
           {/* 输入区域 */}
           <div className="sticky bottom-0 bg-white border-t border-gray-200 -mx-4 px-4 py-4 md:-mx-6 md:px-6 lg:-mx-8 lg:px-8">
             <div className="max-w-5xl mx-auto">
+              {/* 商品档案表单（按会话保存） */}
+              {productOpen && (
+                <ProductPanel
+                  product={product}
+                  onSave={saveProduct}
+                  onClose={() => setProductOpen(false)}
+                />
+              )}
+              {/* 品牌规范管理与选用（按会话记住） */}
+              {brandOpen && (
+                <BrandGuidePanel
+                  brandGuides={brandGuides}
+                  selectedId={brandGuideId}
+                  onSelect={setBrandGuide}
+                  onChanged={loadBrandGuides}
+                  onClose={() => setBrandOpen(false)}
+                />
+              )}
+              {/* 竞品原文（切换会话时清空） */}
+              {competitorOpen && (
+                <CompetitorPanel
+                  competitors={competitors}
+                  onChange={setCompetitors}
+                  onClose={() => setCompetitorOpen(false)}
+                />
+              )}
+              {/* 买家评价（切换会话时清空） */}
+              {reviewOpen && (
+                <ReviewPanel
+                  reviews={reviews}
+                  onChange={setReviews}
+                  onClose={() => setReviewOpen(false)}
+                />
+              )}
+              {/* 上新日期与营销活动 */}
+              {campaignOpen && (
+                <CampaignPanel
+                  campaigns={campaigns}
+                  launchDate={launchDate}
+                  onLaunchDateChange={setLaunchDate}
+                  choice={campaignChoice}
+                  onChoiceChange={setCampaignChoice}
+                  onChanged={loadCampaigns}
+                  onClose={() => setCampaignOpen(false)}
+                />
+              )}
+              {/* 目标平台选择（按会话记住） */}
+              <div className="flex flex-wrap items-center gap-2 mb-3">
+                <span className="text-xs text-gray-500">目标平台</span>
+                {PLATFORM_OPTIONS.map((option) => (
+                  <button
+                    key={option.id}
+                    type="button"
+                    onClick={() => setPlatform(option.id)}
+                    disabled={loading}
+                    className={`px-3 py-1 rounded-full text-xs font-medium border transition-all ${
+                      platform === option.id
+                        ? 'bg-blue-50 text-blue-700 border-blue-300'
+                        : 'bg-white text-gray-600 border-gray-200 hover:border-blue-200'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+                <span className="text-xs text-gray-500 ml-2">候选方案</span>
+                {VARIANT_OPTIONS.map((n) => (
+                  <button
+                    key={n}
+                    type="button"
+                    onClick={() => setVariants(n)}
+                    disabled={loading}
+                    className={`px-3 py-1 rounded-full text-xs font-medium border transition-all ${
+                      variants === n
+                        ? 'bg-blue-50 text-blue-700 border-blue-300'
+                        : 'bg-white text-gray-600 border-gray-200 hover:border-blue-200'
+                    }`}
+                  >
+                    {n}
+                  </button>
+                ))}
+                <span className="text-xs text-gray-500 ml-2">附加内容</span>
+                {ASSET_SECTIONS.map((section) => (
+                  <button
+                    key={section.id}
+                    type="button"
+                    onClick={() => toggleSection(section.id)}
+                    disabled={loading}
+                    aria-pressed={sections.includes(section.id)}
+                    className={`px-3 py-1 rounded-full text-xs font-medium border transition-all ${
+                      sections.includes(section.id)
+                        ? 'bg-blue-50 text-blue-700 border-blue-300'
+                        : 'bg-white text-gray-600 border-gray-200 hover:border-blue-200'
+                    }`}
+                  >
+                    {section.label}
+                  </button>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => setBrandOpen((open) => !open)}
+                  className={`ml-auto px-3 py-1 rounded-full text-xs font-medium border transition-all ${
+                    brandGuideId
+                      ? 'bg-blue-50 text-blue-700 border-blue-300'
+                      : 'bg-white text-gray-600 border-gray-200 hover:border-blue-200'
+                  }`}
+                >
+                  品牌规范：
+                  {brandGuides.find((guide) => guide.id === brandGuideId)?.name ?? '未使用'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setProductOpen((open) => !open)}
+                  className={`px-3 py-1 rounded-full text-xs font-medium border transition-all ${
+                    isEmptyProductProfile(product)
+                      ? 'bg-white text-gray-600 border-gray-200 hover:border-blue-200'
+                      : 'bg-blue-50 text-blue-700 border-blue-300'
+                  }`}
+                >
+                  {isEmptyProductProfile(product) ? '填写商品档案' : '商品档案已填写'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setCompetitorOpen((open) => !open)}
+                  className={`px-3 py-1 rounded-full text-xs font-medium border transition-all ${
+                    competitorCount > 0
+                      ? 'bg-blue-50 text-blue-700 border-blue-300'
+                      : 'bg-white text-gray-600 border-gray-200 hover:border-blue-200'
+                  }`}
+                >
+                  {competitorCount > 0 ? `竞品对比：${competitorCount}个` : '添加竞品'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setReviewOpen((open) => !open)}
+                  className={`px-3 py-1 rounded-full text-xs font-medium border transition-all ${
+                    reviews.length > 0
+                      ? 'bg-blue-50 text-blue-700 border-blue-300'
+                      : 'bg-white text-gray-600 border-gray-200 hover:border-blue-200'
+                  }`}
+                >
+                  {reviews.length > 0 ? `买家评价：${reviews.length}条` : '导入买家评价'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setCampaignOpen((open) => !open)}
+                  className={`px-3 py-1 rounded-full text-xs font-medium border transition-all ${
+                    campaign
+                      ? 'bg-blue-50 text-blue-700 border-blue-300'
+                      : 'bg-white text-gray-600 border-gray-200 hover:border-blue-200'
+                  }`}
+                >
+                  {campaign ? `活动：${campaign.name}` : '活动日历'}
+                </button>
+              </div>
               <div className="flex gap-3 items-center">
                 {/* 上传按钮放在输入框左侧 */}
-                <Uploader onImage={handleImageUpload} uploading={uploading} />
+                <Uploader onImage={handleImageUpload} uploading={uploading > 0} />
                 <div className="flex-1 relative">
                   <input
                     ref={inputRef}
@@ -509,20 +792,64 @@ export default function ChatWindow() {
                   )}
                 </button>
               </div>
-              {/* 显示当前待上传的图片预览 */}
-              {imgUrl && (
-                <div className="mt-3 flex items-center gap-2 justify-end">
-                  <div className="relative w-16 h-16 rounded-lg overflow-hidden ml-auto">
-                    <img src={imgUrl} alt="待上传的图片" className="w-full h-full object-cover" />
-                    <button
-                      onClick={() => setImgUrl(null)}
-                      className="absolute top-0 right-0 w-5 h-5 bg-red-500 text-white rounded-bl-lg flex items-center justify-center text-xs hover:bg-red-600"
-                      aria-label="删除图片"
-                    >
-                      ×
-                    </button>
+              {/* 显示当前待发送的图片预览：可调整顺序、标明用途或删除 */}
+              {images.length > 0 && (
+                <div className="mt-3 space-y-2">
+                  <div className="flex flex-wrap gap-2 justify-end">
+                    {images.map((image, i) => (
+                      <div key={`${image.url}-${i}`} className="w-20 space-y-1">
+                        <div className="relative w-20 h-20 rounded-lg overflow-hidden">
+                          <img
+                            src={image.url}
+                            alt={`待发送的第${i + 1}张图片`}
+                            className="w-full h-full object-cover"
+                          />
+                          <button
+                            onClick={() => removeImage(i)}
+                            className="absolute top-0 right-0 w-5 h-5 bg-red-500 text-white rounded-bl-lg flex items-center justify-center text-xs hover:bg-red-600"
+                            aria-label="删除图片"
+                          >
+                            ×
+                          </button>
+                          <div className="absolute bottom-0 inset-x-0 flex justify-between">
+                            <button
+                              onClick={() => moveImage(i, -1)}
+                              disabled={i === 0}
+                              className="w-5 h-5 bg-black/50 text-white text-xs disabled:opacity-0"
+                              aria-label="前移"
+                            >
+                              ‹
+                            </button>
+                            <button
+                              onClick={() => moveImage(i, 1)}
+                              disabled={i === images.length - 1}
+                              className="w-5 h-5 bg-black/50 text-white text-xs disabled:opacity-0"
+                              aria-label="后移"
+                            >
+                              ›
+                            </button>
+                          </div>
+                        </div>
+                        <select
+                          value={image.role}
+                          onChange={(e) => {
+                            if (isProductImageRole(e.target.value)) setImageRole(i, e.target.value)
+                          }}
+                          className="w-full text-xs border border-gray-200 rounded px-1 py-0.5 bg-white"
+                          aria-label="图片用途"
+                        >
+                          {PRODUCT_IMAGE_ROLES.map((role) => (
+                            <option key={role.id} value={role.id}>
+                              {role.label}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    ))}
                   </div>
-                  <span className="text-xs text-gray-500">已选择图片，发送消息时将自动上传</span>
+                  <p className="text-xs text-gray-500 text-right">
+                    已选择{images.length}/{MAX_PRODUCT_IMAGES}张图片，将按顺序随消息发送给模型
+                  </p>
                 </div>
               )}
             </div>
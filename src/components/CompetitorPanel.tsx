@@ -0,0 +1,94 @@
+'use client'
+import React from 'react'
+import { COMPETITOR_MAX_LENGTH, MAX_COMPETITORS } from '@/lib/competitors'
+
+/**
+ * CompetitorPanel组件的属性
+ */
+interface CompetitorPanelProps {
+  /**
+   * 竞品标题/卖点原文，每项一个竞品
+   */
+  competitors: string[]
+  /**
+   * 竞品原文变化时的回调
+   */
+  onChange: (competitors: string[]) => void
+  /**
+   * 关闭面板
+   */
+  onClose: () => void
+}
+
+/**
+ * 竞品对比面板
+ *
+ * 粘贴竞品的标题、卖点等原文（每个竞品一栏），生成时提取竞品宣传点，
+ * 要求我方卖点避开竞品已有的说法，并在素材卡片上展示卖点对比表。
+ *
+ * @param props - 组件属性
+ * @returns React组件
+ */
+export default function CompetitorPanel({ competitors, onChange, onClose }: CompetitorPanelProps) {
+  const listings = competitors.length > 0 ? competitors : ['']
+
+  const update = (index: number, value: string) => {
+    onChange(listings.map((listing, i) => (i === index ? value : listing)))
+  }
+
+  const remove = (index: number) => {
+    onChange(listings.filter((_, i) => i !== index))
+  }
+
+  return (
+    <div className="mb-3 p-4 rounded-lg border border-gray-200 bg-gray-50 space-y-3 animate-fade-in">
+      <div className="flex items-center justify-between">
+        <div>
+          <div className="text-sm font-semibold text-gray-700">竞品对比</div>
+          <div className="text-xs text-gray-500">
+            粘贴竞品的标题或卖点，生成时会避开竞品已有的说法，最多{MAX_COMPETITORS}个
+          </div>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-1 text-gray-400 hover:text-gray-600"
+          aria-label="关闭竞品对比"
+        >
+          ×
+        </button>
+      </div>
+      {listings.map((listing, i) => (
+        <label key={i} className="block text-xs text-gray-600 space-y-1">
+          <span className="flex items-center justify-between">
+            <span>竞品{i + 1}</span>
+            <button
+              type="button"
+              onClick={() => remove(i)}
+              className="text-gray-400 hover:text-red-500"
+            >
+              移除
+            </button>
+          </span>
+          <textarea
+            value={listing}
+            onChange={(e) => update(i, e.target.value)}
+            rows={3}
+            maxLength={COMPETITOR_MAX_LENGTH}
+            placeholder={'某品牌保温杯 12小时长效保温 316不锈钢\n一键开盖，单手操作'}
+            className="w-full px-3 py-2 rounded-lg border border-gray-200 text-sm text-gray-700 focus:outline-none focus:border-blue-300"
+          />
+        </label>
+      ))}
+      {listings.length < MAX_COMPETITORS && (
+        <button
+          type="button"
+          onClick={() => onChange([...listings, ''])}
+          className="px-3 py-1 rounded-full text-xs font-medium border bg-white text-gray-600 border-gray-200 hover:border-blue-200"
+        >
+          添加竞品
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,166 @@
+'use client'
+import React, { useEffect, useState } from 'react'
+import type { ProductProfile } from '@/types'
+import {
+  EMPTY_PRODUCT_PROFILE,
+  PRODUCT_FIELD_MAX_LENGTH,
+  PRODUCT_LIST_MAX_ITEMS,
+  PRODUCT_TEXT_FIELDS,
+} from '@/lib/productProfile'
+
+/**
+ * ProductPanel组件的属性
+ */
+interface ProductPanelProps {
+  /**
+   * 当前会话的商品档案，未填写时为null
+   */
+  product: ProductProfile | null
+  /**
+   * 保存商品档案，失败时抛出错误
+   */
+  onSave: (product: ProductProfile) => Promise<void>
+  /**
+   * 关闭面板
+   */
+  onClose: () => void
+}
+
+/**
+ * 表单状态：列表字段在表单中以多行文本编辑，每行一项
+ */
+type ProductForm = Omit<ProductProfile, 'specs' | 'differentiators'> & {
+  specs: string
+  differentiators: string
+}
+
+function toForm(product: ProductProfile | null): ProductForm {
+  const p = product ?? EMPTY_PRODUCT_PROFILE
+  return { ...p, specs: p.specs.join('\n'), differentiators: p.differentiators.join('\n') }
+}
+
+function toLines(text: string): string[] {
+  return text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+}
+
+/**
+ * 商品档案面板
+ *
+ * 以表单填写会话的结构化商品信息（名称、品牌、类目、价格区间、规格参数、目标人群、核心差异点），
+ * 保存后每轮生成都会作为上下文发给模型。
+ *
+ * @param props - 组件属性
+ * @returns React组件
+ */
+export default function ProductPanel({ product, onSave, onClose }: ProductPanelProps) {
+  const [form, setForm] = useState<ProductForm>(() => toForm(product))
+  const [saving, setSaving] = useState<boolean>(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // 切换会话或保存成功后，以服务端的档案为准
+  useEffect(() => {
+    setForm(toForm(product))
+  }, [product])
+
+  const update = (field: keyof ProductForm, value: string) => {
+    setForm((prev) => ({ ...prev, [field]: value }))
+    setError(null)
+  }
+
+  const handleSave = async () => {
+    const next: ProductProfile = {
+      ...form,
+      specs: toLines(form.specs),
+      differentiators: toLines(form.differentiators),
+    }
+    if (next.specs.length > PRODUCT_LIST_MAX_ITEMS) {
+      setError(`规格参数最多${PRODUCT_LIST_MAX_ITEMS}条`)
+      return
+    }
+    if (next.differentiators.length > PRODUCT_LIST_MAX_ITEMS) {
+      setError(`核心差异点最多${PRODUCT_LIST_MAX_ITEMS}条`)
+      return
+    }
+    try {
+      setSaving(true)
+      await onSave(next)
+      onClose()
+    } catch (err) {
+      console.error('保存商品档案失败:', err)
+      setError('保存失败，请稍后重试')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const inputClass =
+    'w-full px-3 py-2 rounded-lg border border-gray-200 text-sm text-gray-700 focus:outline-none focus:border-blue-300'
+
+  return (
+    <div className="mb-3 p-4 rounded-lg border border-gray-200 bg-gray-50 space-y-3 animate-fade-in">
+      <div className="flex items-center justify-between">
+        <div>
+          <div className="text-sm font-semibold text-gray-700">商品档案</div>
+          <div className="text-xs text-gray-500">保存后每轮生成都会参考这些信息，均可留空</div>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-1 text-gray-400 hover:text-gray-600"
+          aria-label="关闭商品档案"
+        >
+          ×
+        </button>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {PRODUCT_TEXT_FIELDS.map((field) => (
+          <label key={field.id} className="text-xs text-gray-600 space-y-1">
+            <span>{field.label}</span>
+            <input
+              value={form[field.id]}
+              onChange={(e) => update(field.id, e.target.value)}
+              maxLength={PRODUCT_FIELD_MAX_LENGTH}
+              className={inputClass}
+            />
+          </label>
+        ))}
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <label className="text-xs text-gray-600 space-y-1">
+          <span>规格参数（每行一项）</span>
+          <textarea
+            value={form.specs}
+            onChange={(e) => update('specs', e.target.value)}
+            rows={3}
+            placeholder={'容量 500ml\n材质 316不锈钢'}
+            className={inputClass}
+          />
+        </label>
+        <label className="text-xs text-gray-600 space-y-1">
+          <span>核心差异点（每行一项）</span>
+          <textarea
+            value={form.differentiators}
+            onChange={(e) => update('differentiators', e.target.value)}
+            rows={3}
+            placeholder={'24小时保温\n一键开盖单手可用'}
+            className={inputClass}
+          />
+        </label>
+      </div>
+      <div className="flex items-center justify-end gap-3">
+        {error && <span className="text-xs text-red-500">{error}</span>}
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={saving}
+          className="btn-primary px-4 py-2 rounded-lg text-sm font-semibold disabled:opacity-60"
+        >
+          {saving ? '保存中...' : '保存档案'}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,141 @@
+'use client'
+import React, { useRef, useState } from 'react'
+import { MAX_REVIEWS, importReviews } from '@/lib/reviews'
+
+/**
+ * ReviewPanel组件的属性
+ */
+interface ReviewPanelProps {
+  /**
+   * 已导入的买家评价
+   */
+  reviews: string[]
+  /**
+   * 评价变化时的回调
+   */
+  onChange: (reviews: string[]) => void
+  /**
+   * 关闭面板
+   */
+  onClose: () => void
+}
+
+/**
+ * 评价文件大小上限（2MB）
+ */
+const MAX_FILE_SIZE = 2 * 1024 * 1024
+
+/**
+ * 买家评价面板
+ *
+ * 粘贴评价（每行一条）或上传CSV/TXT文件导入，多次导入会累加（最多 MAX_REVIEWS 条）。
+ * 生成时先从评价中挖掘买家称赞的属性和抱怨的痛点，作为卖点的依据，
+ * 素材卡片上的每条卖点会附带支撑它的评价原文。
+ *
+ * @param props - 组件属性
+ * @returns React组件
+ */
+export default function ReviewPanel({ reviews, onChange, onClose }: ReviewPanelProps) {
+  const fileRef = useRef<HTMLInputElement | null>(null)
+  const [text, setText] = useState<string>('')
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const append = (imported: string[]) => {
+    const next = [...reviews, ...imported].slice(0, MAX_REVIEWS)
+    onChange(next)
+    const added = next.length - reviews.length
+    setNotice(
+      added < imported.length
+        ? `已导入${added}条，超出${MAX_REVIEWS}条的部分被忽略`
+        : `已导入${added}条`
+    )
+  }
+
+  const handlePaste = () => {
+    append(importReviews(text))
+    setText('')
+  }
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+    if (file.size > MAX_FILE_SIZE) {
+      setNotice('文件不能超过2MB')
+      return
+    }
+    try {
+      append(importReviews(await file.text(), file.name))
+    } catch (err) {
+      console.error('读取评价文件失败:', err)
+      setNotice('读取文件失败，请确认为UTF-8编码的CSV或TXT文件')
+    }
+  }
+
+  return (
+    <div className="mb-3 p-4 rounded-lg border border-gray-200 bg-gray-50 space-y-3 animate-fade-in">
+      <div className="flex items-center justify-between">
+        <div>
+          <div className="text-sm font-semibold text-gray-700">买家评价</div>
+          <div className="text-xs text-gray-500">
+            生成时从评价中提炼好评与痛点作为卖点依据，最多{MAX_REVIEWS}条
+          </div>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-1 text-gray-400 hover:text-gray-600"
+          aria-label="关闭买家评价"
+        >
+          ×
+        </button>
+      </div>
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        rows={4}
+        placeholder={'每行一条评价\n保温效果很好，早上装的水晚上还烫\n盖子有点难拧'}
+        className="w-full px-3 py-2 rounded-lg border border-gray-200 text-sm text-gray-700 focus:outline-none focus:border-blue-300"
+      />
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={handlePaste}
+          disabled={!text.trim()}
+          className="px-3 py-1 rounded-full text-xs font-medium border bg-white text-gray-600 border-gray-200 hover:border-blue-200 disabled:opacity-50"
+        >
+          导入粘贴的评价
+        </button>
+        <button
+          type="button"
+          onClick={() => fileRef.current?.click()}
+          className="px-3 py-1 rounded-full text-xs font-medium border bg-white text-gray-600 border-gray-200 hover:border-blue-200"
+        >
+          上传CSV/TXT
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept=".csv,.txt,text/csv,text/plain"
+          onChange={handleFile}
+          className="hidden"
+        />
+        {reviews.length > 0 && (
+          <button
+            type="button"
+            onClick={() => {
+              onChange([])
+              setNotice(null)
+            }}
+            className="px-3 py-1 rounded-full text-xs font-medium text-gray-400 hover:text-red-500"
+          >
+            清空
+          </button>
+        )}
+        <span className="ml-auto text-xs text-gray-500">
+          {notice && `${notice} · `}共{reviews.length}条
+        </span>
+      </div>
+    </div>
+  )
+}
@@ -6,7 +6,7 @@ import React, { useRef, useState, useCallback } from 'react'
  */
 interface UploaderProps {
   /**
-   * 当用户选择文件后的回调函数
+   * 当用户选择文件后的回调函数（一次选择多个文件时按顺序逐个回调）
    *
    * @param file - 用户选择的文件对象
    */
@@ -21,7 +21,7 @@ interface UploaderProps {
 /**
  * 文件上传组件
  *
- * 提供现代化的文件上传界面，支持点击和拖拽两种方式。
+ * 提供现代化的文件上传界面，支持点击和拖拽两种方式，可一次选择多张图片。
  *
  * @param props - 组件属性
  * @returns React组件
@@ -63,11 +63,7 @@ export default function Uploader({ onImage, uploading = false }: UploaderProps)
    * 处理文件选择事件
    */
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0]
-
-    if (file) {
-      handleFile(file)
-    }
+    Array.from(event.target.files ?? []).forEach(handleFile)
 
     // 清空input的值，以便用户可以选择同一个文件再次触发onChange
     if (inputRef.current) {
@@ -124,10 +120,7 @@ export default function Uploader({ onImage, uploading = false }: UploaderProps)
       return
     }
 
-    const file = e.dataTransfer.files?.[0]
-    if (file) {
-      handleFile(file)
-    }
+    Array.from(e.dataTransfer.files ?? []).forEach(handleFile)
   }
 
   return (
@@ -189,6 +182,7 @@ export default function Uploader({ onImage, uploading = false }: UploaderProps)
         ref={inputRef}
         type="file"
         accept="image/*"
+        multiple
         className="hidden"
         onChange={handleFileChange}
         disabled={uploading}
@@ -0,0 +1,116 @@
+'use client'
+import React, { useEffect, useState } from 'react'
+import type { UsageSummary, UsageTotals } from '@/types'
+import { getJson } from '@/lib/http'
+
+/**
+ * UsagePanel组件的属性
+ */
+interface UsagePanelProps {
+  /**
+   * 当前会话ID，为空时只显示全部会话的合计
+   */
+  conversationId: string
+  /**
+   * 变化时重新加载用量（如消息列表更新后）
+   */
+  refreshKey?: unknown
+}
+
+/**
+ * 格式化费用
+ *
+ * @param cost - 费用
+ * @param currency - 货币单位
+ * @returns 如 '¥0.0123'
+ */
+function formatCost(cost: number, currency: string): string {
+  const symbol = currency === 'CNY' ? '¥' : `${currency} `
+  return `${symbol}${cost < 1 ? cost.toFixed(4) : cost.toFixed(2)}`
+}
+
+/**
+ * 格式化token数，如 12345 => '12.3k'
+ */
+function formatTokens(tokens: number): string {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens)
+}
+
+/**
+ * 单行用量合计
+ */
+function TotalsRow({
+  label,
+  totals,
+  currency,
+}: {
+  label: string
+  totals: UsageTotals
+  currency: string
+}) {
+  return (
+    <div className="flex items-baseline justify-between gap-2">
+      <span className="text-gray-600">{label}</span>
+      <span className="text-right">
+        <span className="font-semibold text-gray-800">{formatCost(totals.cost, currency)}</span>
+        <span className="block text-gray-400">
+          {formatTokens(totals.promptTokens + totals.completionTokens)} tokens
+          {totals.images > 0 && ` · ${totals.images}张图`}
+        </span>
+      </span>
+    </div>
+  )
+}
+
+/**
+ * 用量统计面板
+ *
+ * 显示在会话列表侧边栏中，展示当前会话与全部会话的模型调用用量和费用，
+ * 以及按模型分组的费用明细（前3个）。
+ *
+ * @param props - 组件属性
+ * @returns React组件
+ */
+export default function UsagePanel({ conversationId, refreshKey }: UsagePanelProps) {
+  const [usage, setUsage] = useState<UsageSummary | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    const clientId = localStorage.getItem('clientId') || ''
+    const query = conversationId ? `?conversationId=${conversationId}` : ''
+    getJson<{ usage: UsageSummary }>(`/api/usage${query}`, { 'X-Client-Id': clientId })
+      .then((data) => {
+        if (!cancelled) setUsage(data.usage)
+      })
+      .catch((error) => console.error('加载用量统计失败:', error))
+    return () => {
+      cancelled = true
+    }
+  }, [conversationId, refreshKey])
+
+  if (!usage) return null
+
+  return (
+    <div className="p-3 rounded-lg bg-white border border-gray-200 space-y-2 text-xs">
+      <div className="text-sm font-semibold text-gray-700">用量统计</div>
+      {usage.conversation && (
+        <TotalsRow label="本会话" totals={usage.conversation} currency={usage.currency} />
+      )}
+      <TotalsRow label="全部会话" totals={usage.client} currency={usage.currency} />
+      {usage.models.length > 0 && (
+        <div className="pt-2 border-t border-gray-100 space-y-1">
+          {usage.models.slice(0, 3).map((m) => (
+            <div key={`${m.kind}:${m.provider}:${m.model}`} className="flex justify-between gap-2">
+              <span className="truncate text-gray-500" title={m.model ?? m.provider}>
+                {m.model ?? m.provider}
+              </span>
+              <span className="shrink-0 text-gray-600">
+                {m.calls}次 · {formatCost(m.cost, usage.currency)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
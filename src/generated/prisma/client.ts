@@ -52,3 +52,28 @@ export type Conversation = Prisma.ConversationModel
  *
  */
 export type Message = Prisma.MessageModel
+/**
+ * Model Product
+ *
+ */
+export type Product = Prisma.ProductModel
+/**
+ * Model BrandGuide
+ *
+ */
+export type BrandGuide = Prisma.BrandGuideModel
+/**
+ * Model CampaignEvent
+ *
+ */
+export type CampaignEvent = Prisma.CampaignEventModel
+/**
+ * Model Usage
+ *
+ */
+export type Usage = Prisma.UsageModel
+/**
+ * Model GenerationCache
+ *
+ */
+export type GenerationCache = Prisma.GenerationCacheModel
@@ -19,7 +19,7 @@ const config: runtime.GetPrismaClientConfig = {
   engineVersion: 'ab635e6b9d606fa5c8fb8b1a7f909c3c3c1c98ba',
   activeProvider: 'sqlite',
   inlineSchema:
-    'datasource db {\n  provider = "sqlite"\n}\n\ngenerator client {\n  provider = "prisma-client"\n  output   = "../src/generated/prisma"\n}\n\n// 简单的会话模型\nmodel Conversation {\n  id        String    @id @default(cuid())\n  createdAt DateTime  @default(now())\n  title     String? // 商品名称作为会话标题\n  messages  Message[] // 一对多：一个会话有多条消息\n}\n\nmodel Message {\n  id             String       @id @default(cuid())\n  conversationId String\n  role           String // "user" | "assistant"\n  content        String // 文本内容\n  messageType    String // "text" | "image_upload" | "generated_assets"\n  metaData       Json? // 存储生成的 JSON 结构数据 (标题, 卖点等)\n  createdAt      DateTime     @default(now())\n  conversation   Conversation @relation(fields: [conversationId], references: [id])\n}\n',
+    'datasource db {\n  provider = "sqlite"\n}\n\ngenerator client {\n  provider = "prisma-client"\n  output   = "../src/generated/prisma"\n}\n\n// 简单的会话模型\nmodel Conversation {\n  id           String      @id @default(cuid())\n  createdAt    DateTime    @default(now())\n  title        String? // 商品名称作为会话标题\n  platform     String? // 目标电商平台："generic" | "taobao" | "jd" | "douyin" | "xiaohongshu" | "pinduoduo"\n  messages     Message[] // 一对多：一个会话有多条消息\n  usages       Usage[] // 一对多：会话内所有模型调用的用量记录\n  product      Product? // 一对一：会话对应的商品档案\n  brandGuideId String? // 会话选用的品牌规范\n  brandGuide   BrandGuide? @relation(fields: [brandGuideId], references: [id], onDelete: SetNull)\n}\n\nmodel Message {\n  id             String       @id @default(cuid())\n  conversationId String\n  role           String // "user" | "assistant"\n  content        String // 文本内容\n  messageType    String // "text" | "image_upload" | "generated_assets"\n  metaData       Json? // 存储生成的 JSON 结构数据 (标题, 卖点等)\n  createdAt      DateTime     @default(now())\n  conversation   Conversation @relation(fields: [conversationId], references: [id])\n  usages         Usage[]\n}\n\n// 商品档案：结构化的商品信息，每轮生成时作为上下文发给模型\nmodel Product {\n  id              String       @id @default(cuid())\n  conversationId  String       @unique\n  name            String       @default("") // 商品名称\n  brand           String       @default("") // 品牌\n  category        String       @default("") // 类目\n  priceRange      String       @default("") // 价格区间，如 "199-259元"\n  specs           Json // 规格参数：string[]，如 ["容量 500ml", "材质 316不锈钢"]\n  audience        String       @default("") // 目标人群\n  differentiators Json // 核心差异点：string[]\n  updatedAt       DateTime     @updatedAt\n  conversation    Conversation @relation(fields: [conversationId], references: [id])\n}\n\n// 品牌规范：按客户端保存，可在会话中选用；生成时并入系统提示词，生成后检查是否遵守\nmodel BrandGuide {\n  id             String         @id @default(cuid())\n  clientId       String // 所属客户端（与会话的 title 一致）\n  name           String // 品牌名称\n  tone           String         @default("") // 语气风格描述\n  examples       Json // 示例文案：string[]\n  requiredTerms  Json // 必须出现的用语：string[]\n  forbiddenTerms Json // 禁止使用的用语：string[]\n  emojiPolicy    String         @default("allow") // 表情符号策略："allow" | "sparing" | "none"\n  createdAt      DateTime       @default(now())\n  updatedAt      DateTime       @updatedAt\n  conversations  Conversation[]\n\n  @@index([clientId])\n}\n\n// 店铺自定义活动：按客户端保存，与内置大促一起按上新日期匹配生效的活动\nmodel CampaignEvent {\n  id         String   @id @default(cuid())\n  clientId   String // 所属客户端（与会话的 title 一致）\n  name       String // 活动名称，如 "店庆"\n  startDate  String // 开始日期 "YYYY-MM-DD"（含当天）\n  endDate    String // 结束日期 "YYYY-MM-DD"（含当天）\n  atmosphere Json // 推荐氛围词：string[]\n  hooks      Json // 标题钩子：string[]\n  tone       String   @default("") // 语气提示\n  visual     String   @default("") // 主图视觉提示（色调、元素）\n  createdAt  DateTime @default(now())\n  updatedAt  DateTime @updatedAt\n\n  @@index([clientId])\n}\n\n// 模型调用用量记录：每次文本/图片模型调用一条，费用按记录时的单价计算\nmodel Usage {\n  id               String       @id @default(cuid())\n  conversationId   String\n  messageId        String? // 对应的素材消息（消息被删除后保留记录）\n  kind             String // "text" | "image"\n  provider         String // 提供方标识，如 "doubao"、"openai"\n  model            String? // 实际使用的模型名称\n  promptTokens     Int          @default(0)\n  completionTokens Int          @default(0)\n  images           Int          @default(0) // 生成的图片张数\n  cost             Float        @default(0) // 费用（单位见价格表的 currency）\n  createdAt        DateTime     @default(now())\n  conversation     Conversation @relation(fields: [conversationId], references: [id])\n  message          Message?     @relation(fields: [messageId], references: [id], onDelete: SetNull)\n\n  @@index([conversationId])\n}\n\n// 模型输出缓存：相同的消息列表、图片、模型与提示词版本直接复用上次的输出\nmodel GenerationCache {\n  key        String   @id // 缓存键：规范化后的请求内容的SHA-256\n  text       String // 模型输出的原始文本\n  provenance Json // 生成时的来源信息\n  createdAt  DateTime @default(now())\n  expiresAt  DateTime\n\n  @@index([expiresAt])\n}\n',
   runtimeDataModel: {
     models: {},
     enums: {},
@@ -28,7 +28,7 @@ const config: runtime.GetPrismaClientConfig = {
 }
 
 config.runtimeDataModel = JSON.parse(
-  '{"models":{"Conversation":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"createdAt","kind":"scalar","type":"DateTime"},{"name":"title","kind":"scalar","type":"String"},{"name":"messages","kind":"object","type":"Message","relationName":"ConversationToMessage"}],"dbName":null},"Message":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"conversationId","kind":"scalar","type":"String"},{"name":"role","kind":"scalar","type":"String"},{"name":"content","kind":"scalar","type":"String"},{"name":"messageType","kind":"scalar","type":"String"},{"name":"metaData","kind":"scalar","type":"Json"},{"name":"createdAt","kind":"scalar","type":"DateTime"},{"name":"conversation","kind":"object","type":"Conversation","relationName":"ConversationToMessage"}],"dbName":null}},"enums":{},"types":{}}'
+  '{"models":{"Conversation":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"createdAt","kind":"scalar","type":"DateTime"},{"name":"title","kind":"scalar","type":"String"},{"name":"platform","kind":"scalar","type":"String"},{"name":"messages","kind":"object","type":"Message","relationName":"ConversationToMessage"},{"name":"usages","kind":"object","type":"Usage","relationName":"ConversationToUsage"},{"name":"product","kind":"object","type":"Product","relationName":"ConversationToProduct"},{"name":"brandGuideId","kind":"scalar","type":"String"},{"name":"brandGuide","kind":"object","type":"BrandGuide","relationName":"BrandGuideToConversation"}],"dbName":null},"Message":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"conversationId","kind":"scalar","type":"String"},{"name":"role","kind":"scalar","type":"String"},{"name":"content","kind":"scalar","type":"String"},{"name":"messageType","kind":"scalar","type":"String"},{"name":"metaData","kind":"scalar","type":"Json"},{"name":"createdAt","kind":"scalar","type":"DateTime"},{"name":"conversation","kind":"object","type":"Conversation","relationName":"ConversationToMessage"},{"name":"usages","kind":"object","type":"Usage","relationName":"MessageToUsage"}],"dbName":null},"Product":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"conversationId","kind":"scalar","type":"String"},{"name":"name","kind":"scalar","type":"String"},{"name":"brand","kind":"scalar","type":"String"},{"name":"category","kind":"scalar","type":"String"},{"name":"priceRange","kind":"scalar","type":"String"},{"name":"specs","kind":"scalar","type":"Json"},{"name":"audience","kind":"scalar","type":"String"},{"name":"differentiators","kind":"scalar","type":"Json"},{"name":"updatedAt","kind":"scalar","type":"DateTime"},{"name":"conversation","kind":"object","type":"Conversation","relationName":"ConversationToProduct"}],"dbName":null},"BrandGuide":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"clientId","kind":"scalar","type":"String"},{"name":"name","kind":"scalar","type":"String"},{"name":"tone","kind":"scalar","type":"String"},{"name":"examples","kind":"scalar","type":"Json"},{"name":"requiredTerms","kind":"scalar","type":"Json"},{"name":"forbiddenTerms","kind":"scalar","type":"Json"},{"name":"emojiPolicy","kind":"scalar","type":"String"},{"name":"createdAt","kind":"scalar","type":"DateTime"},{"name":"updatedAt","kind":"scalar","type":"DateTime"},{"name":"conversations","kind":"object","type":"Conversation","relationName":"BrandGuideToConversation"}],"dbName":null},"CampaignEvent":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"clientId","kind":"scalar","type":"String"},{"name":"name","kind":"scalar","type":"String"},{"name":"startDate","kind":"scalar","type":"String"},{"name":"endDate","kind":"scalar","type":"String"},{"name":"atmosphere","kind":"scalar","type":"Json"},{"name":"hooks","kind":"scalar","type":"Json"},{"name":"tone","kind":"scalar","type":"String"},{"name":"visual","kind":"scalar","type":"String"},{"name":"createdAt","kind":"scalar","type":"DateTime"},{"name":"updatedAt","kind":"scalar","type":"DateTime"}],"dbName":null},"Usage":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"conversationId","kind":"scalar","type":"String"},{"name":"messageId","kind":"scalar","type":"String"},{"name":"kind","kind":"scalar","type":"String"},{"name":"provider","kind":"scalar","type":"String"},{"name":"model","kind":"scalar","type":"String"},{"name":"promptTokens","kind":"scalar","type":"Int"},{"name":"completionTokens","kind":"scalar","type":"Int"},{"name":"images","kind":"scalar","type":"Int"},{"name":"cost","kind":"scalar","type":"Float"},{"name":"createdAt","kind":"scalar","type":"DateTime"},{"name":"conversation","kind":"object","type":"Conversation","relationName":"ConversationToUsage"},{"name":"message","kind":"object","type":"Message","relationName":"MessageToUsage"}],"dbName":null},"GenerationCache":{"fields":[{"name":"key","kind":"scalar","type":"String"},{"name":"text","kind":"scalar","type":"String"},{"name":"provenance","kind":"scalar","type":"Json"},{"name":"createdAt","kind":"scalar","type":"DateTime"},{"name":"expiresAt","kind":"scalar","type":"DateTime"}],"dbName":null}},"enums":{},"types":{}}'
 )
 
 async function decodeBase64AsWasm(wasmBase64: string): Promise<WebAssembly.Module> {
@@ -227,6 +227,56 @@ export interface PrismaClient<
    * ```
    */
   get message(): Prisma.MessageDelegate<ExtArgs, { omit: OmitOpts }>
+
+  /**
+   * `prisma.product`: Exposes CRUD operations for the **Product** model.
+   * Example usage:
+   * ```ts
+   * // Fetch zero or more Products
+   * const products = await prisma.product.findMany()
+   * ```
+   */
+  get product(): Prisma.ProductDelegate<ExtArgs, { omit: OmitOpts }>
+
+  /**
+   * `prisma.brandGuide`: Exposes CRUD operations for the **BrandGuide** model.
+   * Example usage:
+   * ```ts
+   * // Fetch zero or more BrandGuides
+   * const brandGuides = await prisma.brandGuide.findMany()
+   * ```
+   */
+  get brandGuide(): Prisma.BrandGuideDelegate<ExtArgs, { omit: OmitOpts }>
+
+  /**
+   * `prisma.campaignEvent`: Exposes CRUD operations for the **CampaignEvent** model.
+   * Example usage:
+   * ```ts
+   * // Fetch zero or more CampaignEvents
+   * const campaignEvents = await prisma.campaignEvent.findMany()
+   * ```
+   */
+  get campaignEvent(): Prisma.CampaignEventDelegate<ExtArgs, { omit: OmitOpts }>
+
+  /**
+   * `prisma.usage`: Exposes CRUD operations for the **Usage** model.
+   * Example usage:
+   * ```ts
+   * // Fetch zero or more Usages
+   * const usages = await prisma.usage.findMany()
+   * ```
+   */
+  get usage(): Prisma.UsageDelegate<ExtArgs, { omit: OmitOpts }>
+
+  /**
+   * `prisma.generationCache`: Exposes CRUD operations for the **GenerationCache** model.
+   * Example usage:
+   * ```ts
+   * // Fetch zero or more GenerationCaches
+   * const generationCaches = await prisma.generationCache.findMany()
+   * ```
+   */
+  get generationCache(): Prisma.GenerationCacheDelegate<ExtArgs, { omit: OmitOpts }>
 }
 
 export function getPrismaClientClass(): PrismaClientConstructor {
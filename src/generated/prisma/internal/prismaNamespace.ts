@@ -377,6 +377,11 @@ type FieldRefInputType<Model, FieldType> = Model extends never ? never : FieldRe
 export const ModelName = {
   Conversation: 'Conversation',
   Message: 'Message',
+  Product: 'Product',
+  BrandGuide: 'BrandGuide',
+  CampaignEvent: 'CampaignEvent',
+  Usage: 'Usage',
+  GenerationCache: 'GenerationCache',
 } as const
 
 export type ModelName = (typeof ModelName)[keyof typeof ModelName]
@@ -396,7 +401,14 @@ export type TypeMap<
     omit: GlobalOmitOptions
   }
   meta: {
-    modelProps: 'conversation' | 'message'
+    modelProps:
+      | 'conversation'
+      | 'message'
+      | 'product'
+      | 'brandGuide'
+      | 'campaignEvent'
+      | 'usage'
+      | 'generationCache'
     txIsolationLevel: TransactionIsolationLevel
   }
   model: {
@@ -548,6 +560,380 @@ export type TypeMap<
         }
       }
     }
+    Product: {
+      payload: Prisma.$ProductPayload<ExtArgs>
+      fields: Prisma.ProductFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ProductFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProductPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ProductFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProductPayload>
+        }
+        findFirst: {
+          args: Prisma.ProductFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProductPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ProductFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProductPayload>
+        }
+        findMany: {
+          args: Prisma.ProductFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProductPayload>[]
+        }
+        create: {
+          args: Prisma.ProductCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProductPayload>
+        }
+        createMany: {
+          args: Prisma.ProductCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ProductCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProductPayload>[]
+        }
+        delete: {
+          args: Prisma.ProductDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProductPayload>
+        }
+        update: {
+          args: Prisma.ProductUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProductPayload>
+        }
+        deleteMany: {
+          args: Prisma.ProductDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ProductUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ProductUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProductPayload>[]
+        }
+        upsert: {
+          args: Prisma.ProductUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProductPayload>
+        }
+        aggregate: {
+          args: Prisma.ProductAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateProduct>
+        }
+        groupBy: {
+          args: Prisma.ProductGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ProductGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ProductCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ProductCountAggregateOutputType> | number
+        }
+      }
+    }
+    BrandGuide: {
+      payload: Prisma.$BrandGuidePayload<ExtArgs>
+      fields: Prisma.BrandGuideFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.BrandGuideFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BrandGuidePayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.BrandGuideFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BrandGuidePayload>
+        }
+        findFirst: {
+          args: Prisma.BrandGuideFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BrandGuidePayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.BrandGuideFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BrandGuidePayload>
+        }
+        findMany: {
+          args: Prisma.BrandGuideFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BrandGuidePayload>[]
+        }
+        create: {
+          args: Prisma.BrandGuideCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BrandGuidePayload>
+        }
+        createMany: {
+          args: Prisma.BrandGuideCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.BrandGuideCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BrandGuidePayload>[]
+        }
+        delete: {
+          args: Prisma.BrandGuideDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BrandGuidePayload>
+        }
+        update: {
+          args: Prisma.BrandGuideUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BrandGuidePayload>
+        }
+        deleteMany: {
+          args: Prisma.BrandGuideDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.BrandGuideUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.BrandGuideUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BrandGuidePayload>[]
+        }
+        upsert: {
+          args: Prisma.BrandGuideUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BrandGuidePayload>
+        }
+        aggregate: {
+          args: Prisma.BrandGuideAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateBrandGuide>
+        }
+        groupBy: {
+          args: Prisma.BrandGuideGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.BrandGuideGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.BrandGuideCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.BrandGuideCountAggregateOutputType> | number
+        }
+      }
+    }
+    CampaignEvent: {
+      payload: Prisma.$CampaignEventPayload<ExtArgs>
+      fields: Prisma.CampaignEventFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.CampaignEventFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CampaignEventPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.CampaignEventFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CampaignEventPayload>
+        }
+        findFirst: {
+          args: Prisma.CampaignEventFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CampaignEventPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.CampaignEventFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CampaignEventPayload>
+        }
+        findMany: {
+          args: Prisma.CampaignEventFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CampaignEventPayload>[]
+        }
+        create: {
+          args: Prisma.CampaignEventCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CampaignEventPayload>
+        }
+        createMany: {
+          args: Prisma.CampaignEventCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.CampaignEventCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CampaignEventPayload>[]
+        }
+        delete: {
+          args: Prisma.CampaignEventDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CampaignEventPayload>
+        }
+        update: {
+          args: Prisma.CampaignEventUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CampaignEventPayload>
+        }
+        deleteMany: {
+          args: Prisma.CampaignEventDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.CampaignEventUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.CampaignEventUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CampaignEventPayload>[]
+        }
+        upsert: {
+          args: Prisma.CampaignEventUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CampaignEventPayload>
+        }
+        aggregate: {
+          args: Prisma.CampaignEventAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateCampaignEvent>
+        }
+        groupBy: {
+          args: Prisma.CampaignEventGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.CampaignEventGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.CampaignEventCountArgs<ExtArgs>
+          result:
+            | runtime.Types.Utils.Optional<Prisma.CampaignEventCountAggregateOutputType>
+            | number
+        }
+      }
+    }
+    Usage: {
+      payload: Prisma.$UsagePayload<ExtArgs>
+      fields: Prisma.UsageFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.UsageFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UsagePayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.UsageFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UsagePayload>
+        }
+        findFirst: {
+          args: Prisma.UsageFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UsagePayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.UsageFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UsagePayload>
+        }
+        findMany: {
+          args: Prisma.UsageFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UsagePayload>[]
+        }
+        create: {
+          args: Prisma.UsageCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UsagePayload>
+        }
+        createMany: {
+          args: Prisma.UsageCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.UsageCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UsagePayload>[]
+        }
+        delete: {
+          args: Prisma.UsageDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UsagePayload>
+        }
+        update: {
+          args: Prisma.UsageUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UsagePayload>
+        }
+        deleteMany: {
+          args: Prisma.UsageDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.UsageUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.UsageUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UsagePayload>[]
+        }
+        upsert: {
+          args: Prisma.UsageUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UsagePayload>
+        }
+        aggregate: {
+          args: Prisma.UsageAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateUsage>
+        }
+        groupBy: {
+          args: Prisma.UsageGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.UsageGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.UsageCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.UsageCountAggregateOutputType> | number
+        }
+      }
+    }
+    GenerationCache: {
+      payload: Prisma.$GenerationCachePayload<ExtArgs>
+      fields: Prisma.GenerationCacheFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.GenerationCacheFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GenerationCachePayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.GenerationCacheFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GenerationCachePayload>
+        }
+        findFirst: {
+          args: Prisma.GenerationCacheFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GenerationCachePayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.GenerationCacheFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GenerationCachePayload>
+        }
+        findMany: {
+          args: Prisma.GenerationCacheFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GenerationCachePayload>[]
+        }
+        create: {
+          args: Prisma.GenerationCacheCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GenerationCachePayload>
+        }
+        createMany: {
+          args: Prisma.GenerationCacheCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.GenerationCacheCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GenerationCachePayload>[]
+        }
+        delete: {
+          args: Prisma.GenerationCacheDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GenerationCachePayload>
+        }
+        update: {
+          args: Prisma.GenerationCacheUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GenerationCachePayload>
+        }
+        deleteMany: {
+          args: Prisma.GenerationCacheDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.GenerationCacheUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.GenerationCacheUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GenerationCachePayload>[]
+        }
+        upsert: {
+          args: Prisma.GenerationCacheUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GenerationCachePayload>
+        }
+        aggregate: {
+          args: Prisma.GenerationCacheAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateGenerationCache>
+        }
+        groupBy: {
+          args: Prisma.GenerationCacheGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.GenerationCacheGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.GenerationCacheCountArgs<ExtArgs>
+          result:
+            | runtime.Types.Utils.Optional<Prisma.GenerationCacheCountAggregateOutputType>
+            | number
+        }
+      }
+    }
   }
 } & {
   other: {
@@ -588,6 +974,8 @@ export const ConversationScalarFieldEnum = {
   id: 'id',
   createdAt: 'createdAt',
   title: 'title',
+  platform: 'platform',
+  brandGuideId: 'brandGuideId',
 } as const
 
 export type ConversationScalarFieldEnum =
@@ -606,6 +994,82 @@ export const MessageScalarFieldEnum = {
 export type MessageScalarFieldEnum =
   (typeof MessageScalarFieldEnum)[keyof typeof MessageScalarFieldEnum]
 
+export const ProductScalarFieldEnum = {
+  id: 'id',
+  conversationId: 'conversationId',
+  name: 'name',
+  brand: 'brand',
+  category: 'category',
+  priceRange: 'priceRange',
+  specs: 'specs',
+  audience: 'audience',
+  differentiators: 'differentiators',
+  updatedAt: 'updatedAt',
+} as const
+
+export type ProductScalarFieldEnum =
+  (typeof ProductScalarFieldEnum)[keyof typeof ProductScalarFieldEnum]
+
+export const BrandGuideScalarFieldEnum = {
+  id: 'id',
+  clientId: 'clientId',
+  name: 'name',
+  tone: 'tone',
+  examples: 'examples',
+  requiredTerms: 'requiredTerms',
+  forbiddenTerms: 'forbiddenTerms',
+  emojiPolicy: 'emojiPolicy',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+} as const
+
+export type BrandGuideScalarFieldEnum =
+  (typeof BrandGuideScalarFieldEnum)[keyof typeof BrandGuideScalarFieldEnum]
+
+export const CampaignEventScalarFieldEnum = {
+  id: 'id',
+  clientId: 'clientId',
+  name: 'name',
+  startDate: 'startDate',
+  endDate: 'endDate',
+  atmosphere: 'atmosphere',
+  hooks: 'hooks',
+  tone: 'tone',
+  visual: 'visual',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+} as const
+
+export type CampaignEventScalarFieldEnum =
+  (typeof CampaignEventScalarFieldEnum)[keyof typeof CampaignEventScalarFieldEnum]
+
+export const UsageScalarFieldEnum = {
+  id: 'id',
+  conversationId: 'conversationId',
+  messageId: 'messageId',
+  kind: 'kind',
+  provider: 'provider',
+  model: 'model',
+  promptTokens: 'promptTokens',
+  completionTokens: 'completionTokens',
+  images: 'images',
+  cost: 'cost',
+  createdAt: 'createdAt',
+} as const
+
+export type UsageScalarFieldEnum = (typeof UsageScalarFieldEnum)[keyof typeof UsageScalarFieldEnum]
+
+export const GenerationCacheScalarFieldEnum = {
+  key: 'key',
+  text: 'text',
+  provenance: 'provenance',
+  createdAt: 'createdAt',
+  expiresAt: 'expiresAt',
+} as const
+
+export type GenerationCacheScalarFieldEnum =
+  (typeof GenerationCacheScalarFieldEnum)[keyof typeof GenerationCacheScalarFieldEnum]
+
 export const SortOrder = {
   asc: 'asc',
   desc: 'desc',
@@ -621,6 +1085,12 @@ export const NullableJsonNullValueInput = {
 export type NullableJsonNullValueInput =
   (typeof NullableJsonNullValueInput)[keyof typeof NullableJsonNullValueInput]
 
+export const JsonNullValueInput = {
+  JsonNull: JsonNull,
+} as const
+
+export type JsonNullValueInput = (typeof JsonNullValueInput)[keyof typeof JsonNullValueInput]
+
 export const NullsOrder = {
   first: 'first',
   last: 'last',
@@ -672,6 +1142,11 @@ export type EnumQueryModeFieldRefInput<$PrismaModel> = FieldRefInputType<$Prisma
  */
 export type IntFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Int'>
 
+/**
+ * Reference to a field of type 'Float'
+ */
+export type FloatFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Float'>
+
 /**
  * Batch Payload for updateMany & deleteMany & createMany
  */
@@ -777,6 +1252,11 @@ export type PrismaClientOptions = (
 export type GlobalOmitConfig = {
   conversation?: Prisma.ConversationOmit
   message?: Prisma.MessageOmit
+  product?: Prisma.ProductOmit
+  brandGuide?: Prisma.BrandGuideOmit
+  campaignEvent?: Prisma.CampaignEventOmit
+  usage?: Prisma.UsageOmit
+  generationCache?: Prisma.GenerationCacheOmit
 }
 
 /* Types for Logging */
@@ -50,6 +50,11 @@ export const AnyNull = runtime.AnyNull
 export const ModelName = {
   Conversation: 'Conversation',
   Message: 'Message',
+  Product: 'Product',
+  BrandGuide: 'BrandGuide',
+  CampaignEvent: 'CampaignEvent',
+  Usage: 'Usage',
+  GenerationCache: 'GenerationCache',
 } as const
 
 export type ModelName = (typeof ModelName)[keyof typeof ModelName]
@@ -69,6 +74,8 @@ export const ConversationScalarFieldEnum = {
   id: 'id',
   createdAt: 'createdAt',
   title: 'title',
+  platform: 'platform',
+  brandGuideId: 'brandGuideId',
 } as const
 
 export type ConversationScalarFieldEnum =
@@ -87,6 +94,82 @@ export const MessageScalarFieldEnum = {
 export type MessageScalarFieldEnum =
   (typeof MessageScalarFieldEnum)[keyof typeof MessageScalarFieldEnum]
 
+export const ProductScalarFieldEnum = {
+  id: 'id',
+  conversationId: 'conversationId',
+  name: 'name',
+  brand: 'brand',
+  category: 'category',
+  priceRange: 'priceRange',
+  specs: 'specs',
+  audience: 'audience',
+  differentiators: 'differentiators',
+  updatedAt: 'updatedAt',
+} as const
+
+export type ProductScalarFieldEnum =
+  (typeof ProductScalarFieldEnum)[keyof typeof ProductScalarFieldEnum]
+
+export const BrandGuideScalarFieldEnum = {
+  id: 'id',
+  clientId: 'clientId',
+  name: 'name',
+  tone: 'tone',
+  examples: 'examples',
+  requiredTerms: 'requiredTerms',
+  forbiddenTerms: 'forbiddenTerms',
+  emojiPolicy: 'emojiPolicy',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+} as const
+
+export type BrandGuideScalarFieldEnum =
+  (typeof BrandGuideScalarFieldEnum)[keyof typeof BrandGuideScalarFieldEnum]
+
+export const CampaignEventScalarFieldEnum = {
+  id: 'id',
+  clientId: 'clientId',
+  name: 'name',
+  startDate: 'startDate',
+  endDate: 'endDate',
+  atmosphere: 'atmosphere',
+  hooks: 'hooks',
+  tone: 'tone',
+  visual: 'visual',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+} as const
+
+export type CampaignEventScalarFieldEnum =
+  (typeof CampaignEventScalarFieldEnum)[keyof typeof CampaignEventScalarFieldEnum]
+
+export const UsageScalarFieldEnum = {
+  id: 'id',
+  conversationId: 'conversationId',
+  messageId: 'messageId',
+  kind: 'kind',
+  provider: 'provider',
+  model: 'model',
+  promptTokens: 'promptTokens',
+  completionTokens: 'completionTokens',
+  images: 'images',
+  cost: 'cost',
+  createdAt: 'createdAt',
+} as const
+
+export type UsageScalarFieldEnum = (typeof UsageScalarFieldEnum)[keyof typeof UsageScalarFieldEnum]
+
+export const GenerationCacheScalarFieldEnum = {
+  key: 'key',
+  text: 'text',
+  provenance: 'provenance',
+  createdAt: 'createdAt',
+  expiresAt: 'expiresAt',
+} as const
+
+export type GenerationCacheScalarFieldEnum =
+  (typeof GenerationCacheScalarFieldEnum)[keyof typeof GenerationCacheScalarFieldEnum]
+
 export const SortOrder = {
   asc: 'asc',
   desc: 'desc',
@@ -102,6 +185,12 @@ export const NullableJsonNullValueInput = {
 export type NullableJsonNullValueInput =
   (typeof NullableJsonNullValueInput)[keyof typeof NullableJsonNullValueInput]
 
+export const JsonNullValueInput = {
+  JsonNull: 'JsonNull',
+} as const
+
+export type JsonNullValueInput = (typeof JsonNullValueInput)[keyof typeof JsonNullValueInput]
+
 export const NullsOrder = {
   first: 'first',
   last: 'last',
@@ -9,4 +9,9 @@
  */
 export type * from './models/Conversation'
 export type * from './models/Message'
+export type * from './models/Product'
+export type * from './models/BrandGuide'
+export type * from './models/CampaignEvent'
+export type * from './models/Usage'
+export type * from './models/GenerationCache'
 export type * from './commonInputTypes'
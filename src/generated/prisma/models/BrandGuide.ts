@@ -0,0 +1,1730 @@
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck
+/*
+ * This file exports the `BrandGuide` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from '@prisma/client/runtime/client'
+import type * as $Enums from '../enums'
+import type * as Prisma from '../internal/prismaNamespace'
+
+/**
+ * Model BrandGuide
+ *
+ */
+export type BrandGuideModel = runtime.Types.Result.DefaultSelection<Prisma.$BrandGuidePayload>
+
+export type AggregateBrandGuide = {
+  _count: BrandGuideCountAggregateOutputType | null
+  _min: BrandGuideMinAggregateOutputType | null
+  _max: BrandGuideMaxAggregateOutputType | null
+}
+
+export type BrandGuideMinAggregateOutputType = {
+  id: string | null
+  clientId: string | null
+  name: string | null
+  tone: string | null
+  emojiPolicy: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type BrandGuideMaxAggregateOutputType = {
+  id: string | null
+  clientId: string | null
+  name: string | null
+  tone: string | null
+  emojiPolicy: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type BrandGuideCountAggregateOutputType = {
+  id: number
+  clientId: number
+  name: number
+  tone: number
+  examples: number
+  requiredTerms: number
+  forbiddenTerms: number
+  emojiPolicy: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+export type BrandGuideMinAggregateInputType = {
+  id?: true
+  clientId?: true
+  name?: true
+  tone?: true
+  emojiPolicy?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type BrandGuideMaxAggregateInputType = {
+  id?: true
+  clientId?: true
+  name?: true
+  tone?: true
+  emojiPolicy?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type BrandGuideCountAggregateInputType = {
+  id?: true
+  clientId?: true
+  name?: true
+  tone?: true
+  examples?: true
+  requiredTerms?: true
+  forbiddenTerms?: true
+  emojiPolicy?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type BrandGuideAggregateArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Filter which BrandGuide to aggregate.
+   */
+  where?: Prisma.BrandGuideWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of BrandGuides to fetch.
+   */
+  orderBy?: Prisma.BrandGuideOrderByWithRelationInput | Prisma.BrandGuideOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the start position
+   */
+  cursor?: Prisma.BrandGuideWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` BrandGuides from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` BrandGuides.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Count returned BrandGuides
+   **/
+  _count?: true | BrandGuideCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Select which fields to find the minimum value
+   **/
+  _min?: BrandGuideMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Select which fields to find the maximum value
+   **/
+  _max?: BrandGuideMaxAggregateInputType
+}
+
+export type GetBrandGuideAggregateType<T extends BrandGuideAggregateArgs> = {
+  [P in keyof T & keyof AggregateBrandGuide]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateBrandGuide[P]>
+    : Prisma.GetScalarType<T[P], AggregateBrandGuide[P]>
+}
+
+export type BrandGuideGroupByArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  where?: Prisma.BrandGuideWhereInput
+  orderBy?:
+    | Prisma.BrandGuideOrderByWithAggregationInput
+    | Prisma.BrandGuideOrderByWithAggregationInput[]
+  by: Prisma.BrandGuideScalarFieldEnum[] | Prisma.BrandGuideScalarFieldEnum
+  having?: Prisma.BrandGuideScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: BrandGuideCountAggregateInputType | true
+  _min?: BrandGuideMinAggregateInputType
+  _max?: BrandGuideMaxAggregateInputType
+}
+
+export type BrandGuideGroupByOutputType = {
+  id: string
+  clientId: string
+  name: string
+  tone: string
+  examples: runtime.JsonValue
+  requiredTerms: runtime.JsonValue
+  forbiddenTerms: runtime.JsonValue
+  emojiPolicy: string
+  createdAt: Date
+  updatedAt: Date
+  _count: BrandGuideCountAggregateOutputType | null
+  _min: BrandGuideMinAggregateOutputType | null
+  _max: BrandGuideMaxAggregateOutputType | null
+}
+
+type GetBrandGuideGroupByPayload<T extends BrandGuideGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<BrandGuideGroupByOutputType, T['by']> & {
+      [P in keyof T & keyof BrandGuideGroupByOutputType]: P extends '_count'
+        ? T[P] extends boolean
+          ? number
+          : Prisma.GetScalarType<T[P], BrandGuideGroupByOutputType[P]>
+        : Prisma.GetScalarType<T[P], BrandGuideGroupByOutputType[P]>
+    }
+  >
+>
+
+export type BrandGuideWhereInput = {
+  AND?: Prisma.BrandGuideWhereInput | Prisma.BrandGuideWhereInput[]
+  OR?: Prisma.BrandGuideWhereInput[]
+  NOT?: Prisma.BrandGuideWhereInput | Prisma.BrandGuideWhereInput[]
+  id?: Prisma.StringFilter<'BrandGuide'> | string
+  clientId?: Prisma.StringFilter<'BrandGuide'> | string
+  name?: Prisma.StringFilter<'BrandGuide'> | string
+  tone?: Prisma.StringFilter<'BrandGuide'> | string
+  examples?: Prisma.JsonFilter<'BrandGuide'>
+  requiredTerms?: Prisma.JsonFilter<'BrandGuide'>
+  forbiddenTerms?: Prisma.JsonFilter<'BrandGuide'>
+  emojiPolicy?: Prisma.StringFilter<'BrandGuide'> | string
+  createdAt?: Prisma.DateTimeFilter<'BrandGuide'> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<'BrandGuide'> | Date | string
+  conversations?: Prisma.ConversationListRelationFilter
+}
+
+export type BrandGuideOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  clientId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  tone?: Prisma.SortOrder
+  examples?: Prisma.SortOrder
+  requiredTerms?: Prisma.SortOrder
+  forbiddenTerms?: Prisma.SortOrder
+  emojiPolicy?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  conversations?: Prisma.ConversationOrderByRelationAggregateInput
+}
+
+export type BrandGuideWhereUniqueInput = Prisma.AtLeast<
+  {
+    id?: string
+    AND?: Prisma.BrandGuideWhereInput | Prisma.BrandGuideWhereInput[]
+    OR?: Prisma.BrandGuideWhereInput[]
+    NOT?: Prisma.BrandGuideWhereInput | Prisma.BrandGuideWhereInput[]
+    clientId?: Prisma.StringFilter<'BrandGuide'> | string
+    name?: Prisma.StringFilter<'BrandGuide'> | string
+    tone?: Prisma.StringFilter<'BrandGuide'> | string
+    examples?: Prisma.JsonFilter<'BrandGuide'>
+    requiredTerms?: Prisma.JsonFilter<'BrandGuide'>
+    forbiddenTerms?: Prisma.JsonFilter<'BrandGuide'>
+    emojiPolicy?: Prisma.StringFilter<'BrandGuide'> | string
+    createdAt?: Prisma.DateTimeFilter<'BrandGuide'> | Date | string
+    updatedAt?: Prisma.DateTimeFilter<'BrandGuide'> | Date | string
+    conversations?: Prisma.ConversationListRelationFilter
+  },
+  'id'
+>
+
+export type BrandGuideOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  clientId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  tone?: Prisma.SortOrder
+  examples?: Prisma.SortOrder
+  requiredTerms?: Prisma.SortOrder
+  forbiddenTerms?: Prisma.SortOrder
+  emojiPolicy?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.BrandGuideCountOrderByAggregateInput
+  _max?: Prisma.BrandGuideMaxOrderByAggregateInput
+  _min?: Prisma.BrandGuideMinOrderByAggregateInput
+}
+
+export type BrandGuideScalarWhereWithAggregatesInput = {
+  AND?:
+    | Prisma.BrandGuideScalarWhereWithAggregatesInput
+    | Prisma.BrandGuideScalarWhereWithAggregatesInput[]
+  OR?: Prisma.BrandGuideScalarWhereWithAggregatesInput[]
+  NOT?:
+    | Prisma.BrandGuideScalarWhereWithAggregatesInput
+    | Prisma.BrandGuideScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<'BrandGuide'> | string
+  clientId?: Prisma.StringWithAggregatesFilter<'BrandGuide'> | string
+  name?: Prisma.StringWithAggregatesFilter<'BrandGuide'> | string
+  tone?: Prisma.StringWithAggregatesFilter<'BrandGuide'> | string
+  examples?: Prisma.JsonWithAggregatesFilter<'BrandGuide'>
+  requiredTerms?: Prisma.JsonWithAggregatesFilter<'BrandGuide'>
+  forbiddenTerms?: Prisma.JsonWithAggregatesFilter<'BrandGuide'>
+  emojiPolicy?: Prisma.StringWithAggregatesFilter<'BrandGuide'> | string
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<'BrandGuide'> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<'BrandGuide'> | Date | string
+}
+
+export type BrandGuideCreateInput = {
+  id?: string
+  clientId: string
+  name: string
+  tone?: string
+  examples: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  requiredTerms: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  forbiddenTerms: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  emojiPolicy?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  conversations?: Prisma.ConversationCreateNestedManyWithoutBrandGuideInput
+}
+
+export type BrandGuideUncheckedCreateInput = {
+  id?: string
+  clientId: string
+  name: string
+  tone?: string
+  examples: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  requiredTerms: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  forbiddenTerms: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  emojiPolicy?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  conversations?: Prisma.ConversationUncheckedCreateNestedManyWithoutBrandGuideInput
+}
+
+export type BrandGuideUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clientId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  tone?: Prisma.StringFieldUpdateOperationsInput | string
+  examples?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  requiredTerms?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  forbiddenTerms?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  emojiPolicy?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  conversations?: Prisma.ConversationUpdateManyWithoutBrandGuideNestedInput
+}
+
+export type BrandGuideUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clientId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  tone?: Prisma.StringFieldUpdateOperationsInput | string
+  examples?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  requiredTerms?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  forbiddenTerms?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  emojiPolicy?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  conversations?: Prisma.ConversationUncheckedUpdateManyWithoutBrandGuideNestedInput
+}
+
+export type BrandGuideCreateManyInput = {
+  id?: string
+  clientId: string
+  name: string
+  tone?: string
+  examples: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  requiredTerms: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  forbiddenTerms: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  emojiPolicy?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type BrandGuideUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clientId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  tone?: Prisma.StringFieldUpdateOperationsInput | string
+  examples?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  requiredTerms?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  forbiddenTerms?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  emojiPolicy?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BrandGuideUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clientId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  tone?: Prisma.StringFieldUpdateOperationsInput | string
+  examples?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  requiredTerms?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  forbiddenTerms?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  emojiPolicy?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BrandGuideNullableScalarRelationFilter = {
+  is?: Prisma.BrandGuideWhereInput | null
+  isNot?: Prisma.BrandGuideWhereInput | null
+}
+
+export type BrandGuideCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  clientId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  tone?: Prisma.SortOrder
+  examples?: Prisma.SortOrder
+  requiredTerms?: Prisma.SortOrder
+  forbiddenTerms?: Prisma.SortOrder
+  emojiPolicy?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type BrandGuideMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  clientId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  tone?: Prisma.SortOrder
+  emojiPolicy?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type BrandGuideMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  clientId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  tone?: Prisma.SortOrder
+  emojiPolicy?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type BrandGuideCreateNestedOneWithoutConversationsInput = {
+  create?: Prisma.XOR<
+    Prisma.BrandGuideCreateWithoutConversationsInput,
+    Prisma.BrandGuideUncheckedCreateWithoutConversationsInput
+  >
+  connectOrCreate?: Prisma.BrandGuideCreateOrConnectWithoutConversationsInput
+  connect?: Prisma.BrandGuideWhereUniqueInput
+}
+
+export type BrandGuideUpdateOneWithoutConversationsNestedInput = {
+  create?: Prisma.XOR<
+    Prisma.BrandGuideCreateWithoutConversationsInput,
+    Prisma.BrandGuideUncheckedCreateWithoutConversationsInput
+  >
+  connectOrCreate?: Prisma.BrandGuideCreateOrConnectWithoutConversationsInput
+  upsert?: Prisma.BrandGuideUpsertWithoutConversationsInput
+  disconnect?: Prisma.BrandGuideWhereInput | boolean
+  delete?: Prisma.BrandGuideWhereInput | boolean
+  connect?: Prisma.BrandGuideWhereUniqueInput
+  update?: Prisma.XOR<
+    Prisma.XOR<
+      Prisma.BrandGuideUpdateToOneWithWhereWithoutConversationsInput,
+      Prisma.BrandGuideUpdateWithoutConversationsInput
+    >,
+    Prisma.BrandGuideUncheckedUpdateWithoutConversationsInput
+  >
+}
+
+export type BrandGuideCreateWithoutConversationsInput = {
+  id?: string
+  clientId: string
+  name: string
+  tone?: string
+  examples: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  requiredTerms: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  forbiddenTerms: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  emojiPolicy?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type BrandGuideUncheckedCreateWithoutConversationsInput = {
+  id?: string
+  clientId: string
+  name: string
+  tone?: string
+  examples: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  requiredTerms: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  forbiddenTerms: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  emojiPolicy?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type BrandGuideCreateOrConnectWithoutConversationsInput = {
+  where: Prisma.BrandGuideWhereUniqueInput
+  create: Prisma.XOR<
+    Prisma.BrandGuideCreateWithoutConversationsInput,
+    Prisma.BrandGuideUncheckedCreateWithoutConversationsInput
+  >
+}
+
+export type BrandGuideUpsertWithoutConversationsInput = {
+  update: Prisma.XOR<
+    Prisma.BrandGuideUpdateWithoutConversationsInput,
+    Prisma.BrandGuideUncheckedUpdateWithoutConversationsInput
+  >
+  create: Prisma.XOR<
+    Prisma.BrandGuideCreateWithoutConversationsInput,
+    Prisma.BrandGuideUncheckedCreateWithoutConversationsInput
+  >
+  where?: Prisma.BrandGuideWhereInput
+}
+
+export type BrandGuideUpdateToOneWithWhereWithoutConversationsInput = {
+  where?: Prisma.BrandGuideWhereInput
+  data: Prisma.XOR<
+    Prisma.BrandGuideUpdateWithoutConversationsInput,
+    Prisma.BrandGuideUncheckedUpdateWithoutConversationsInput
+  >
+}
+
+export type BrandGuideUpdateWithoutConversationsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clientId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  tone?: Prisma.StringFieldUpdateOperationsInput | string
+  examples?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  requiredTerms?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  forbiddenTerms?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  emojiPolicy?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BrandGuideUncheckedUpdateWithoutConversationsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clientId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  tone?: Prisma.StringFieldUpdateOperationsInput | string
+  examples?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  requiredTerms?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  forbiddenTerms?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  emojiPolicy?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+/**
+ * Count Type BrandGuideCountOutputType
+ */
+
+export type BrandGuideCountOutputType = {
+  conversations: number
+}
+
+export type BrandGuideCountOutputTypeSelect<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  conversations?: boolean | BrandGuideCountOutputTypeCountConversationsArgs
+}
+
+/**
+ * BrandGuideCountOutputType without action
+ */
+export type BrandGuideCountOutputTypeDefaultArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the BrandGuideCountOutputType
+   */
+  select?: Prisma.BrandGuideCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * BrandGuideCountOutputType without action
+ */
+export type BrandGuideCountOutputTypeCountConversationsArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  where?: Prisma.ConversationWhereInput
+}
+
+export type BrandGuideSelect<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = runtime.Types.Extensions.GetSelect<
+  {
+    id?: boolean
+    clientId?: boolean
+    name?: boolean
+    tone?: boolean
+    examples?: boolean
+    requiredTerms?: boolean
+    forbiddenTerms?: boolean
+    emojiPolicy?: boolean
+    createdAt?: boolean
+    updatedAt?: boolean
+    conversations?: boolean | Prisma.BrandGuide$conversationsArgs<ExtArgs>
+    _count?: boolean | Prisma.BrandGuideCountOutputTypeDefaultArgs<ExtArgs>
+  },
+  ExtArgs['result']['brandGuide']
+>
+
+export type BrandGuideSelectCreateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = runtime.Types.Extensions.GetSelect<
+  {
+    id?: boolean
+    clientId?: boolean
+    name?: boolean
+    tone?: boolean
+    examples?: boolean
+    requiredTerms?: boolean
+    forbiddenTerms?: boolean
+    emojiPolicy?: boolean
+    createdAt?: boolean
+    updatedAt?: boolean
+  },
+  ExtArgs['result']['brandGuide']
+>
+
+export type BrandGuideSelectUpdateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = runtime.Types.Extensions.GetSelect<
+  {
+    id?: boolean
+    clientId?: boolean
+    name?: boolean
+    tone?: boolean
+    examples?: boolean
+    requiredTerms?: boolean
+    forbiddenTerms?: boolean
+    emojiPolicy?: boolean
+    createdAt?: boolean
+    updatedAt?: boolean
+  },
+  ExtArgs['result']['brandGuide']
+>
+
+export type BrandGuideSelectScalar = {
+  id?: boolean
+  clientId?: boolean
+  name?: boolean
+  tone?: boolean
+  examples?: boolean
+  requiredTerms?: boolean
+  forbiddenTerms?: boolean
+  emojiPolicy?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type BrandGuideOmit<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = runtime.Types.Extensions.GetOmit<
+  | 'id'
+  | 'clientId'
+  | 'name'
+  | 'tone'
+  | 'examples'
+  | 'requiredTerms'
+  | 'forbiddenTerms'
+  | 'emojiPolicy'
+  | 'createdAt'
+  | 'updatedAt',
+  ExtArgs['result']['brandGuide']
+>
+export type BrandGuideInclude<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  conversations?: boolean | Prisma.BrandGuide$conversationsArgs<ExtArgs>
+  _count?: boolean | Prisma.BrandGuideCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type BrandGuideIncludeCreateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {}
+export type BrandGuideIncludeUpdateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {}
+
+export type $BrandGuidePayload<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  name: 'BrandGuide'
+  objects: {
+    conversations: Prisma.$ConversationPayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<
+    {
+      id: string
+      clientId: string
+      name: string
+      tone: string
+      examples: runtime.JsonValue
+      requiredTerms: runtime.JsonValue
+      forbiddenTerms: runtime.JsonValue
+      emojiPolicy: string
+      createdAt: Date
+      updatedAt: Date
+    },
+    ExtArgs['result']['brandGuide']
+  >
+  composites: {}
+}
+
+export type BrandGuideGetPayload<S extends boolean | null | undefined | BrandGuideDefaultArgs> =
+  runtime.Types.Result.GetResult<Prisma.$BrandGuidePayload, S>
+
+export type BrandGuideCountArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = Omit<BrandGuideFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+  select?: BrandGuideCountAggregateInputType | true
+}
+
+export interface BrandGuideDelegate<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+  GlobalOmitOptions = {},
+> {
+  [K: symbol]: {
+    types: Prisma.TypeMap<ExtArgs>['model']['BrandGuide']
+    meta: { name: 'BrandGuide' }
+  }
+  /**
+   * Find zero or one BrandGuide that matches the filter.
+   * @param {BrandGuideFindUniqueArgs} args - Arguments to find a BrandGuide
+   * @example
+   * // Get one BrandGuide
+   * const brandGuide = await prisma.brandGuide.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends BrandGuideFindUniqueArgs>(
+    args: Prisma.SelectSubset<T, BrandGuideFindUniqueArgs<ExtArgs>>
+  ): Prisma.Prisma__BrandGuideClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$BrandGuidePayload<ExtArgs>,
+      T,
+      'findUnique',
+      GlobalOmitOptions
+    > | null,
+    null,
+    ExtArgs,
+    GlobalOmitOptions
+  >
+
+  /**
+   * Find one BrandGuide that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {BrandGuideFindUniqueOrThrowArgs} args - Arguments to find a BrandGuide
+   * @example
+   * // Get one BrandGuide
+   * const brandGuide = await prisma.brandGuide.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends BrandGuideFindUniqueOrThrowArgs>(
+    args: Prisma.SelectSubset<T, BrandGuideFindUniqueOrThrowArgs<ExtArgs>>
+  ): Prisma.Prisma__BrandGuideClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$BrandGuidePayload<ExtArgs>,
+      T,
+      'findUniqueOrThrow',
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >
+
+  /**
+   * Find the first BrandGuide that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BrandGuideFindFirstArgs} args - Arguments to find a BrandGuide
+   * @example
+   * // Get one BrandGuide
+   * const brandGuide = await prisma.brandGuide.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends BrandGuideFindFirstArgs>(
+    args?: Prisma.SelectSubset<T, BrandGuideFindFirstArgs<ExtArgs>>
+  ): Prisma.Prisma__BrandGuideClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$BrandGuidePayload<ExtArgs>,
+      T,
+      'findFirst',
+      GlobalOmitOptions
+    > | null,
+    null,
+    ExtArgs,
+    GlobalOmitOptions
+  >
+
+  /**
+   * Find the first BrandGuide that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BrandGuideFindFirstOrThrowArgs} args - Arguments to find a BrandGuide
+   * @example
+   * // Get one BrandGuide
+   * const brandGuide = await prisma.brandGuide.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends BrandGuideFindFirstOrThrowArgs>(
+    args?: Prisma.SelectSubset<T, BrandGuideFindFirstOrThrowArgs<ExtArgs>>
+  ): Prisma.Prisma__BrandGuideClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$BrandGuidePayload<ExtArgs>,
+      T,
+      'findFirstOrThrow',
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >
+
+  /**
+   * Find zero or more BrandGuides that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BrandGuideFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all BrandGuides
+   * const brandGuides = await prisma.brandGuide.findMany()
+   *
+   * // Get first 10 BrandGuides
+   * const brandGuides = await prisma.brandGuide.findMany({ take: 10 })
+   *
+   * // Only select the `id`
+   * const brandGuideWithIdOnly = await prisma.brandGuide.findMany({ select: { id: true } })
+   *
+   */
+  findMany<T extends BrandGuideFindManyArgs>(
+    args?: Prisma.SelectSubset<T, BrandGuideFindManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    runtime.Types.Result.GetResult<
+      Prisma.$BrandGuidePayload<ExtArgs>,
+      T,
+      'findMany',
+      GlobalOmitOptions
+    >
+  >
+
+  /**
+   * Create a BrandGuide.
+   * @param {BrandGuideCreateArgs} args - Arguments to create a BrandGuide.
+   * @example
+   * // Create one BrandGuide
+   * const BrandGuide = await prisma.brandGuide.create({
+   *   data: {
+   *     // ... data to create a BrandGuide
+   *   }
+   * })
+   *
+   */
+  create<T extends BrandGuideCreateArgs>(
+    args: Prisma.SelectSubset<T, BrandGuideCreateArgs<ExtArgs>>
+  ): Prisma.Prisma__BrandGuideClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$BrandGuidePayload<ExtArgs>,
+      T,
+      'create',
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >
+
+  /**
+   * Create many BrandGuides.
+   * @param {BrandGuideCreateManyArgs} args - Arguments to create many BrandGuides.
+   * @example
+   * // Create many BrandGuides
+   * const brandGuide = await prisma.brandGuide.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *
+   */
+  createMany<T extends BrandGuideCreateManyArgs>(
+    args?: Prisma.SelectSubset<T, BrandGuideCreateManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many BrandGuides and returns the data saved in the database.
+   * @param {BrandGuideCreateManyAndReturnArgs} args - Arguments to create many BrandGuides.
+   * @example
+   * // Create many BrandGuides
+   * const brandGuide = await prisma.brandGuide.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *
+   * // Create many BrandGuides and only return the `id`
+   * const brandGuideWithIdOnly = await prisma.brandGuide.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   *
+   */
+  createManyAndReturn<T extends BrandGuideCreateManyAndReturnArgs>(
+    args?: Prisma.SelectSubset<T, BrandGuideCreateManyAndReturnArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    runtime.Types.Result.GetResult<
+      Prisma.$BrandGuidePayload<ExtArgs>,
+      T,
+      'createManyAndReturn',
+      GlobalOmitOptions
+    >
+  >
+
+  /**
+   * Delete a BrandGuide.
+   * @param {BrandGuideDeleteArgs} args - Arguments to delete one BrandGuide.
+   * @example
+   * // Delete one BrandGuide
+   * const BrandGuide = await prisma.brandGuide.delete({
+   *   where: {
+   *     // ... filter to delete one BrandGuide
+   *   }
+   * })
+   *
+   */
+  delete<T extends BrandGuideDeleteArgs>(
+    args: Prisma.SelectSubset<T, BrandGuideDeleteArgs<ExtArgs>>
+  ): Prisma.Prisma__BrandGuideClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$BrandGuidePayload<ExtArgs>,
+      T,
+      'delete',
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >
+
+  /**
+   * Update one BrandGuide.
+   * @param {BrandGuideUpdateArgs} args - Arguments to update one BrandGuide.
+   * @example
+   * // Update one BrandGuide
+   * const brandGuide = await prisma.brandGuide.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   *
+   */
+  update<T extends BrandGuideUpdateArgs>(
+    args: Prisma.SelectSubset<T, BrandGuideUpdateArgs<ExtArgs>>
+  ): Prisma.Prisma__BrandGuideClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$BrandGuidePayload<ExtArgs>,
+      T,
+      'update',
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >
+
+  /**
+   * Delete zero or more BrandGuides.
+   * @param {BrandGuideDeleteManyArgs} args - Arguments to filter BrandGuides to delete.
+   * @example
+   * // Delete a few BrandGuides
+   * const { count } = await prisma.brandGuide.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   *
+   */
+  deleteMany<T extends BrandGuideDeleteManyArgs>(
+    args?: Prisma.SelectSubset<T, BrandGuideDeleteManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more BrandGuides.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BrandGuideUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many BrandGuides
+   * const brandGuide = await prisma.brandGuide.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   *
+   */
+  updateMany<T extends BrandGuideUpdateManyArgs>(
+    args: Prisma.SelectSubset<T, BrandGuideUpdateManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more BrandGuides and returns the data updated in the database.
+   * @param {BrandGuideUpdateManyAndReturnArgs} args - Arguments to update many BrandGuides.
+   * @example
+   * // Update many BrandGuides
+   * const brandGuide = await prisma.brandGuide.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *
+   * // Update zero or more BrandGuides and only return the `id`
+   * const brandGuideWithIdOnly = await prisma.brandGuide.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   *
+   */
+  updateManyAndReturn<T extends BrandGuideUpdateManyAndReturnArgs>(
+    args: Prisma.SelectSubset<T, BrandGuideUpdateManyAndReturnArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    runtime.Types.Result.GetResult<
+      Prisma.$BrandGuidePayload<ExtArgs>,
+      T,
+      'updateManyAndReturn',
+      GlobalOmitOptions
+    >
+  >
+
+  /**
+   * Create or update one BrandGuide.
+   * @param {BrandGuideUpsertArgs} args - Arguments to update or create a BrandGuide.
+   * @example
+   * // Update or create a BrandGuide
+   * const brandGuide = await prisma.brandGuide.upsert({
+   *   create: {
+   *     // ... data to create a BrandGuide
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the BrandGuide we want to update
+   *   }
+   * })
+   */
+  upsert<T extends BrandGuideUpsertArgs>(
+    args: Prisma.SelectSubset<T, BrandGuideUpsertArgs<ExtArgs>>
+  ): Prisma.Prisma__BrandGuideClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$BrandGuidePayload<ExtArgs>,
+      T,
+      'upsert',
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >
+
+  /**
+   * Count the number of BrandGuides.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BrandGuideCountArgs} args - Arguments to filter BrandGuides to count.
+   * @example
+   * // Count the number of BrandGuides
+   * const count = await prisma.brandGuide.count({
+   *   where: {
+   *     // ... the filter for the BrandGuides we want to count
+   *   }
+   * })
+   **/
+  count<T extends BrandGuideCountArgs>(
+    args?: Prisma.Subset<T, BrandGuideCountArgs>
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], BrandGuideCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a BrandGuide.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BrandGuideAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+   **/
+  aggregate<T extends BrandGuideAggregateArgs>(
+    args: Prisma.Subset<T, BrandGuideAggregateArgs>
+  ): Prisma.PrismaPromise<GetBrandGuideAggregateType<T>>
+
+  /**
+   * Group by BrandGuide.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BrandGuideGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   *
+   **/
+  groupBy<
+    T extends BrandGuideGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: BrandGuideGroupByArgs['orderBy'] }
+      : { orderBy?: BrandGuideGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<
+      Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>
+    >,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+      ? `Error: "by" must not be empty.`
+      : HavingValid extends Prisma.False
+        ? {
+            [P in HavingFields]: P extends ByFields
+              ? never
+              : P extends string
+                ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+                : [Error, 'Field ', P, ` in "having" needs to be provided in "by"`]
+          }[HavingFields]
+        : 'take' extends Prisma.Keys<T>
+          ? 'orderBy' extends Prisma.Keys<T>
+            ? ByValid extends Prisma.True
+              ? {}
+              : {
+                  [P in OrderFields]: P extends ByFields
+                    ? never
+                    : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+                }[OrderFields]
+            : 'Error: If you provide "take", you also need to provide "orderBy"'
+          : 'skip' extends Prisma.Keys<T>
+            ? 'orderBy' extends Prisma.Keys<T>
+              ? ByValid extends Prisma.True
+                ? {}
+                : {
+                    [P in OrderFields]: P extends ByFields
+                      ? never
+                      : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+                  }[OrderFields]
+              : 'Error: If you provide "skip", you also need to provide "orderBy"'
+            : ByValid extends Prisma.True
+              ? {}
+              : {
+                  [P in OrderFields]: P extends ByFields
+                    ? never
+                    : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+                }[OrderFields],
+  >(
+    args: Prisma.SubsetIntersection<T, BrandGuideGroupByArgs, OrderByArg> & InputErrors
+  ): {} extends InputErrors ? GetBrandGuideGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+  /**
+   * Fields of the BrandGuide model
+   */
+  readonly fields: BrandGuideFieldRefs
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for BrandGuide.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__BrandGuideClient<
+  T,
+  Null = never,
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+  GlobalOmitOptions = {},
+> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: 'PrismaPromise'
+  conversations<T extends Prisma.BrandGuide$conversationsArgs<ExtArgs> = {}>(
+    args?: Prisma.Subset<T, Prisma.BrandGuide$conversationsArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    | runtime.Types.Result.GetResult<
+        Prisma.$ConversationPayload<ExtArgs>,
+        T,
+        'findMany',
+        GlobalOmitOptions
+      >
+    | Null
+  >
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(
+    onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null
+  ): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(
+    onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null
+  ): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+/**
+ * Fields of the BrandGuide model
+ */
+export interface BrandGuideFieldRefs {
+  readonly id: Prisma.FieldRef<'BrandGuide', 'String'>
+  readonly clientId: Prisma.FieldRef<'BrandGuide', 'String'>
+  readonly name: Prisma.FieldRef<'BrandGuide', 'String'>
+  readonly tone: Prisma.FieldRef<'BrandGuide', 'String'>
+  readonly examples: Prisma.FieldRef<'BrandGuide', 'Json'>
+  readonly requiredTerms: Prisma.FieldRef<'BrandGuide', 'Json'>
+  readonly forbiddenTerms: Prisma.FieldRef<'BrandGuide', 'Json'>
+  readonly emojiPolicy: Prisma.FieldRef<'BrandGuide', 'String'>
+  readonly createdAt: Prisma.FieldRef<'BrandGuide', 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<'BrandGuide', 'DateTime'>
+}
+
+// Custom InputTypes
+/**
+ * BrandGuide findUnique
+ */
+export type BrandGuideFindUniqueArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the BrandGuide
+   */
+  select?: Prisma.BrandGuideSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BrandGuide
+   */
+  omit?: Prisma.BrandGuideOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BrandGuideInclude<ExtArgs> | null
+  /**
+   * Filter, which BrandGuide to fetch.
+   */
+  where: Prisma.BrandGuideWhereUniqueInput
+}
+
+/**
+ * BrandGuide findUniqueOrThrow
+ */
+export type BrandGuideFindUniqueOrThrowArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the BrandGuide
+   */
+  select?: Prisma.BrandGuideSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BrandGuide
+   */
+  omit?: Prisma.BrandGuideOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BrandGuideInclude<ExtArgs> | null
+  /**
+   * Filter, which BrandGuide to fetch.
+   */
+  where: Prisma.BrandGuideWhereUniqueInput
+}
+
+/**
+ * BrandGuide findFirst
+ */
+export type BrandGuideFindFirstArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the BrandGuide
+   */
+  select?: Prisma.BrandGuideSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BrandGuide
+   */
+  omit?: Prisma.BrandGuideOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BrandGuideInclude<ExtArgs> | null
+  /**
+   * Filter, which BrandGuide to fetch.
+   */
+  where?: Prisma.BrandGuideWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of BrandGuides to fetch.
+   */
+  orderBy?: Prisma.BrandGuideOrderByWithRelationInput | Prisma.BrandGuideOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the position for searching for BrandGuides.
+   */
+  cursor?: Prisma.BrandGuideWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` BrandGuides from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` BrandGuides.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   *
+   * Filter by unique combinations of BrandGuides.
+   */
+  distinct?: Prisma.BrandGuideScalarFieldEnum | Prisma.BrandGuideScalarFieldEnum[]
+}
+
+/**
+ * BrandGuide findFirstOrThrow
+ */
+export type BrandGuideFindFirstOrThrowArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the BrandGuide
+   */
+  select?: Prisma.BrandGuideSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BrandGuide
+   */
+  omit?: Prisma.BrandGuideOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BrandGuideInclude<ExtArgs> | null
+  /**
+   * Filter, which BrandGuide to fetch.
+   */
+  where?: Prisma.BrandGuideWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of BrandGuides to fetch.
+   */
+  orderBy?: Prisma.BrandGuideOrderByWithRelationInput | Prisma.BrandGuideOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the position for searching for BrandGuides.
+   */
+  cursor?: Prisma.BrandGuideWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` BrandGuides from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` BrandGuides.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   *
+   * Filter by unique combinations of BrandGuides.
+   */
+  distinct?: Prisma.BrandGuideScalarFieldEnum | Prisma.BrandGuideScalarFieldEnum[]
+}
+
+/**
+ * BrandGuide findMany
+ */
+export type BrandGuideFindManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the BrandGuide
+   */
+  select?: Prisma.BrandGuideSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BrandGuide
+   */
+  omit?: Prisma.BrandGuideOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BrandGuideInclude<ExtArgs> | null
+  /**
+   * Filter, which BrandGuides to fetch.
+   */
+  where?: Prisma.BrandGuideWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of BrandGuides to fetch.
+   */
+  orderBy?: Prisma.BrandGuideOrderByWithRelationInput | Prisma.BrandGuideOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the position for listing BrandGuides.
+   */
+  cursor?: Prisma.BrandGuideWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` BrandGuides from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` BrandGuides.
+   */
+  skip?: number
+  distinct?: Prisma.BrandGuideScalarFieldEnum | Prisma.BrandGuideScalarFieldEnum[]
+}
+
+/**
+ * BrandGuide create
+ */
+export type BrandGuideCreateArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the BrandGuide
+   */
+  select?: Prisma.BrandGuideSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BrandGuide
+   */
+  omit?: Prisma.BrandGuideOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BrandGuideInclude<ExtArgs> | null
+  /**
+   * The data needed to create a BrandGuide.
+   */
+  data: Prisma.XOR<Prisma.BrandGuideCreateInput, Prisma.BrandGuideUncheckedCreateInput>
+}
+
+/**
+ * BrandGuide createMany
+ */
+export type BrandGuideCreateManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * The data used to create many BrandGuides.
+   */
+  data: Prisma.BrandGuideCreateManyInput | Prisma.BrandGuideCreateManyInput[]
+}
+
+/**
+ * BrandGuide createManyAndReturn
+ */
+export type BrandGuideCreateManyAndReturnArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the BrandGuide
+   */
+  select?: Prisma.BrandGuideSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the BrandGuide
+   */
+  omit?: Prisma.BrandGuideOmit<ExtArgs> | null
+  /**
+   * The data used to create many BrandGuides.
+   */
+  data: Prisma.BrandGuideCreateManyInput | Prisma.BrandGuideCreateManyInput[]
+}
+
+/**
+ * BrandGuide update
+ */
+export type BrandGuideUpdateArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the BrandGuide
+   */
+  select?: Prisma.BrandGuideSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BrandGuide
+   */
+  omit?: Prisma.BrandGuideOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BrandGuideInclude<ExtArgs> | null
+  /**
+   * The data needed to update a BrandGuide.
+   */
+  data: Prisma.XOR<Prisma.BrandGuideUpdateInput, Prisma.BrandGuideUncheckedUpdateInput>
+  /**
+   * Choose, which BrandGuide to update.
+   */
+  where: Prisma.BrandGuideWhereUniqueInput
+}
+
+/**
+ * BrandGuide updateMany
+ */
+export type BrandGuideUpdateManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * The data used to update BrandGuides.
+   */
+  data: Prisma.XOR<
+    Prisma.BrandGuideUpdateManyMutationInput,
+    Prisma.BrandGuideUncheckedUpdateManyInput
+  >
+  /**
+   * Filter which BrandGuides to update
+   */
+  where?: Prisma.BrandGuideWhereInput
+  /**
+   * Limit how many BrandGuides to update.
+   */
+  limit?: number
+}
+
+/**
+ * BrandGuide updateManyAndReturn
+ */
+export type BrandGuideUpdateManyAndReturnArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the BrandGuide
+   */
+  select?: Prisma.BrandGuideSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the BrandGuide
+   */
+  omit?: Prisma.BrandGuideOmit<ExtArgs> | null
+  /**
+   * The data used to update BrandGuides.
+   */
+  data: Prisma.XOR<
+    Prisma.BrandGuideUpdateManyMutationInput,
+    Prisma.BrandGuideUncheckedUpdateManyInput
+  >
+  /**
+   * Filter which BrandGuides to update
+   */
+  where?: Prisma.BrandGuideWhereInput
+  /**
+   * Limit how many BrandGuides to update.
+   */
+  limit?: number
+}
+
+/**
+ * BrandGuide upsert
+ */
+export type BrandGuideUpsertArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the BrandGuide
+   */
+  select?: Prisma.BrandGuideSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BrandGuide
+   */
+  omit?: Prisma.BrandGuideOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BrandGuideInclude<ExtArgs> | null
+  /**
+   * The filter to search for the BrandGuide to update in case it exists.
+   */
+  where: Prisma.BrandGuideWhereUniqueInput
+  /**
+   * In case the BrandGuide found by the `where` argument doesn't exist, create a new BrandGuide with this data.
+   */
+  create: Prisma.XOR<Prisma.BrandGuideCreateInput, Prisma.BrandGuideUncheckedCreateInput>
+  /**
+   * In case the BrandGuide was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.BrandGuideUpdateInput, Prisma.BrandGuideUncheckedUpdateInput>
+}
+
+/**
+ * BrandGuide delete
+ */
+export type BrandGuideDeleteArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the BrandGuide
+   */
+  select?: Prisma.BrandGuideSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BrandGuide
+   */
+  omit?: Prisma.BrandGuideOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BrandGuideInclude<ExtArgs> | null
+  /**
+   * Filter which BrandGuide to delete.
+   */
+  where: Prisma.BrandGuideWhereUniqueInput
+}
+
+/**
+ * BrandGuide deleteMany
+ */
+export type BrandGuideDeleteManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Filter which BrandGuides to delete
+   */
+  where?: Prisma.BrandGuideWhereInput
+  /**
+   * Limit how many BrandGuides to delete.
+   */
+  limit?: number
+}
+
+/**
+ * BrandGuide.conversations
+ */
+export type BrandGuide$conversationsArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the Conversation
+   */
+  select?: Prisma.ConversationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Conversation
+   */
+  omit?: Prisma.ConversationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ConversationInclude<ExtArgs> | null
+  where?: Prisma.ConversationWhereInput
+  orderBy?:
+    | Prisma.ConversationOrderByWithRelationInput
+    | Prisma.ConversationOrderByWithRelationInput[]
+  cursor?: Prisma.ConversationWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ConversationScalarFieldEnum | Prisma.ConversationScalarFieldEnum[]
+}
+
+/**
+ * BrandGuide without action
+ */
+export type BrandGuideDefaultArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the BrandGuide
+   */
+  select?: Prisma.BrandGuideSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BrandGuide
+   */
+  omit?: Prisma.BrandGuideOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BrandGuideInclude<ExtArgs> | null
+}
@@ -0,0 +1,1524 @@
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck
+/*
+ * This file exports the `CampaignEvent` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from '@prisma/client/runtime/client'
+import type * as $Enums from '../enums'
+import type * as Prisma from '../internal/prismaNamespace'
+
+/**
+ * Model CampaignEvent
+ *
+ */
+export type CampaignEventModel = runtime.Types.Result.DefaultSelection<Prisma.$CampaignEventPayload>
+
+export type AggregateCampaignEvent = {
+  _count: CampaignEventCountAggregateOutputType | null
+  _min: CampaignEventMinAggregateOutputType | null
+  _max: CampaignEventMaxAggregateOutputType | null
+}
+
+export type CampaignEventMinAggregateOutputType = {
+  id: string | null
+  clientId: string | null
+  name: string | null
+  startDate: string | null
+  endDate: string | null
+  tone: string | null
+  visual: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type CampaignEventMaxAggregateOutputType = {
+  id: string | null
+  clientId: string | null
+  name: string | null
+  startDate: string | null
+  endDate: string | null
+  tone: string | null
+  visual: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type CampaignEventCountAggregateOutputType = {
+  id: number
+  clientId: number
+  name: number
+  startDate: number
+  endDate: number
+  atmosphere: number
+  hooks: number
+  tone: number
+  visual: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+export type CampaignEventMinAggregateInputType = {
+  id?: true
+  clientId?: true
+  name?: true
+  startDate?: true
+  endDate?: true
+  tone?: true
+  visual?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type CampaignEventMaxAggregateInputType = {
+  id?: true
+  clientId?: true
+  name?: true
+  startDate?: true
+  endDate?: true
+  tone?: true
+  visual?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type CampaignEventCountAggregateInputType = {
+  id?: true
+  clientId?: true
+  name?: true
+  startDate?: true
+  endDate?: true
+  atmosphere?: true
+  hooks?: true
+  tone?: true
+  visual?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type CampaignEventAggregateArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Filter which CampaignEvent to aggregate.
+   */
+  where?: Prisma.CampaignEventWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of CampaignEvents to fetch.
+   */
+  orderBy?:
+    | Prisma.CampaignEventOrderByWithRelationInput
+    | Prisma.CampaignEventOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the start position
+   */
+  cursor?: Prisma.CampaignEventWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` CampaignEvents from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` CampaignEvents.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Count returned CampaignEvents
+   **/
+  _count?: true | CampaignEventCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Select which fields to find the minimum value
+   **/
+  _min?: CampaignEventMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Select which fields to find the maximum value
+   **/
+  _max?: CampaignEventMaxAggregateInputType
+}
+
+export type GetCampaignEventAggregateType<T extends CampaignEventAggregateArgs> = {
+  [P in keyof T & keyof AggregateCampaignEvent]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateCampaignEvent[P]>
+    : Prisma.GetScalarType<T[P], AggregateCampaignEvent[P]>
+}
+
+export type CampaignEventGroupByArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  where?: Prisma.CampaignEventWhereInput
+  orderBy?:
+    | Prisma.CampaignEventOrderByWithAggregationInput
+    | Prisma.CampaignEventOrderByWithAggregationInput[]
+  by: Prisma.CampaignEventScalarFieldEnum[] | Prisma.CampaignEventScalarFieldEnum
+  having?: Prisma.CampaignEventScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: CampaignEventCountAggregateInputType | true
+  _min?: CampaignEventMinAggregateInputType
+  _max?: CampaignEventMaxAggregateInputType
+}
+
+export type CampaignEventGroupByOutputType = {
+  id: string
+  clientId: string
+  name: string
+  startDate: string
+  endDate: string
+  atmosphere: runtime.JsonValue
+  hooks: runtime.JsonValue
+  tone: string
+  visual: string
+  createdAt: Date
+  updatedAt: Date
+  _count: CampaignEventCountAggregateOutputType | null
+  _min: CampaignEventMinAggregateOutputType | null
+  _max: CampaignEventMaxAggregateOutputType | null
+}
+
+type GetCampaignEventGroupByPayload<T extends CampaignEventGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<CampaignEventGroupByOutputType, T['by']> & {
+      [P in keyof T & keyof CampaignEventGroupByOutputType]: P extends '_count'
+        ? T[P] extends boolean
+          ? number
+          : Prisma.GetScalarType<T[P], CampaignEventGroupByOutputType[P]>
+        : Prisma.GetScalarType<T[P], CampaignEventGroupByOutputType[P]>
+    }
+  >
+>
+
+export type CampaignEventWhereInput = {
+  AND?: Prisma.CampaignEventWhereInput | Prisma.CampaignEventWhereInput[]
+  OR?: Prisma.CampaignEventWhereInput[]
+  NOT?: Prisma.CampaignEventWhereInput | Prisma.CampaignEventWhereInput[]
+  id?: Prisma.StringFilter<'CampaignEvent'> | string
+  clientId?: Prisma.StringFilter<'CampaignEvent'> | string
+  name?: Prisma.StringFilter<'CampaignEvent'> | string
+  startDate?: Prisma.StringFilter<'CampaignEvent'> | string
+  endDate?: Prisma.StringFilter<'CampaignEvent'> | string
+  atmosphere?: Prisma.JsonFilter<'CampaignEvent'>
+  hooks?: Prisma.JsonFilter<'CampaignEvent'>
+  tone?: Prisma.StringFilter<'CampaignEvent'> | string
+  visual?: Prisma.StringFilter<'CampaignEvent'> | string
+  createdAt?: Prisma.DateTimeFilter<'CampaignEvent'> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<'CampaignEvent'> | Date | string
+}
+
+export type CampaignEventOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  clientId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  startDate?: Prisma.SortOrder
+  endDate?: Prisma.SortOrder
+  atmosphere?: Prisma.SortOrder
+  hooks?: Prisma.SortOrder
+  tone?: Prisma.SortOrder
+  visual?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type CampaignEventWhereUniqueInput = Prisma.AtLeast<
+  {
+    id?: string
+    AND?: Prisma.CampaignEventWhereInput | Prisma.CampaignEventWhereInput[]
+    OR?: Prisma.CampaignEventWhereInput[]
+    NOT?: Prisma.CampaignEventWhereInput | Prisma.CampaignEventWhereInput[]
+    clientId?: Prisma.StringFilter<'CampaignEvent'> | string
+    name?: Prisma.StringFilter<'CampaignEvent'> | string
+    startDate?: Prisma.StringFilter<'CampaignEvent'> | string
+    endDate?: Prisma.StringFilter<'CampaignEvent'> | string
+    atmosphere?: Prisma.JsonFilter<'CampaignEvent'>
+    hooks?: Prisma.JsonFilter<'CampaignEvent'>
+    tone?: Prisma.StringFilter<'CampaignEvent'> | string
+    visual?: Prisma.StringFilter<'CampaignEvent'> | string
+    createdAt?: Prisma.DateTimeFilter<'CampaignEvent'> | Date | string
+    updatedAt?: Prisma.DateTimeFilter<'CampaignEvent'> | Date | string
+  },
+  'id'
+>
+
+export type CampaignEventOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  clientId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  startDate?: Prisma.SortOrder
+  endDate?: Prisma.SortOrder
+  atmosphere?: Prisma.SortOrder
+  hooks?: Prisma.SortOrder
+  tone?: Prisma.SortOrder
+  visual?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.CampaignEventCountOrderByAggregateInput
+  _max?: Prisma.CampaignEventMaxOrderByAggregateInput
+  _min?: Prisma.CampaignEventMinOrderByAggregateInput
+}
+
+export type CampaignEventScalarWhereWithAggregatesInput = {
+  AND?:
+    | Prisma.CampaignEventScalarWhereWithAggregatesInput
+    | Prisma.CampaignEventScalarWhereWithAggregatesInput[]
+  OR?: Prisma.CampaignEventScalarWhereWithAggregatesInput[]
+  NOT?:
+    | Prisma.CampaignEventScalarWhereWithAggregatesInput
+    | Prisma.CampaignEventScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<'CampaignEvent'> | string
+  clientId?: Prisma.StringWithAggregatesFilter<'CampaignEvent'> | string
+  name?: Prisma.StringWithAggregatesFilter<'CampaignEvent'> | string
+  startDate?: Prisma.StringWithAggregatesFilter<'CampaignEvent'> | string
+  endDate?: Prisma.StringWithAggregatesFilter<'CampaignEvent'> | string
+  atmosphere?: Prisma.JsonWithAggregatesFilter<'CampaignEvent'>
+  hooks?: Prisma.JsonWithAggregatesFilter<'CampaignEvent'>
+  tone?: Prisma.StringWithAggregatesFilter<'CampaignEvent'> | string
+  visual?: Prisma.StringWithAggregatesFilter<'CampaignEvent'> | string
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<'CampaignEvent'> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<'CampaignEvent'> | Date | string
+}
+
+export type CampaignEventCreateInput = {
+  id?: string
+  clientId: string
+  name: string
+  startDate: string
+  endDate: string
+  atmosphere: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  hooks: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  tone?: string
+  visual?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type CampaignEventUncheckedCreateInput = {
+  id?: string
+  clientId: string
+  name: string
+  startDate: string
+  endDate: string
+  atmosphere: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  hooks: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  tone?: string
+  visual?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type CampaignEventUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clientId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  startDate?: Prisma.StringFieldUpdateOperationsInput | string
+  endDate?: Prisma.StringFieldUpdateOperationsInput | string
+  atmosphere?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  hooks?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  tone?: Prisma.StringFieldUpdateOperationsInput | string
+  visual?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CampaignEventUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clientId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  startDate?: Prisma.StringFieldUpdateOperationsInput | string
+  endDate?: Prisma.StringFieldUpdateOperationsInput | string
+  atmosphere?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  hooks?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  tone?: Prisma.StringFieldUpdateOperationsInput | string
+  visual?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CampaignEventCreateManyInput = {
+  id?: string
+  clientId: string
+  name: string
+  startDate: string
+  endDate: string
+  atmosphere: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  hooks: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  tone?: string
+  visual?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type CampaignEventUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clientId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  startDate?: Prisma.StringFieldUpdateOperationsInput | string
+  endDate?: Prisma.StringFieldUpdateOperationsInput | string
+  atmosphere?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  hooks?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  tone?: Prisma.StringFieldUpdateOperationsInput | string
+  visual?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CampaignEventUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clientId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  startDate?: Prisma.StringFieldUpdateOperationsInput | string
+  endDate?: Prisma.StringFieldUpdateOperationsInput | string
+  atmosphere?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  hooks?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  tone?: Prisma.StringFieldUpdateOperationsInput | string
+  visual?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CampaignEventCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  clientId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  startDate?: Prisma.SortOrder
+  endDate?: Prisma.SortOrder
+  atmosphere?: Prisma.SortOrder
+  hooks?: Prisma.SortOrder
+  tone?: Prisma.SortOrder
+  visual?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type CampaignEventMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  clientId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  startDate?: Prisma.SortOrder
+  endDate?: Prisma.SortOrder
+  tone?: Prisma.SortOrder
+  visual?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type CampaignEventMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  clientId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  startDate?: Prisma.SortOrder
+  endDate?: Prisma.SortOrder
+  tone?: Prisma.SortOrder
+  visual?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type CampaignEventSelect<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = runtime.Types.Extensions.GetSelect<
+  {
+    id?: boolean
+    clientId?: boolean
+    name?: boolean
+    startDate?: boolean
+    endDate?: boolean
+    atmosphere?: boolean
+    hooks?: boolean
+    tone?: boolean
+    visual?: boolean
+    createdAt?: boolean
+    updatedAt?: boolean
+  },
+  ExtArgs['result']['campaignEvent']
+>
+
+export type CampaignEventSelectCreateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = runtime.Types.Extensions.GetSelect<
+  {
+    id?: boolean
+    clientId?: boolean
+    name?: boolean
+    startDate?: boolean
+    endDate?: boolean
+    atmosphere?: boolean
+    hooks?: boolean
+    tone?: boolean
+    visual?: boolean
+    createdAt?: boolean
+    updatedAt?: boolean
+  },
+  ExtArgs['result']['campaignEvent']
+>
+
+export type CampaignEventSelectUpdateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = runtime.Types.Extensions.GetSelect<
+  {
+    id?: boolean
+    clientId?: boolean
+    name?: boolean
+    startDate?: boolean
+    endDate?: boolean
+    atmosphere?: boolean
+    hooks?: boolean
+    tone?: boolean
+    visual?: boolean
+    createdAt?: boolean
+    updatedAt?: boolean
+  },
+  ExtArgs['result']['campaignEvent']
+>
+
+export type CampaignEventSelectScalar = {
+  id?: boolean
+  clientId?: boolean
+  name?: boolean
+  startDate?: boolean
+  endDate?: boolean
+  atmosphere?: boolean
+  hooks?: boolean
+  tone?: boolean
+  visual?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type CampaignEventOmit<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = runtime.Types.Extensions.GetOmit<
+  | 'id'
+  | 'clientId'
+  | 'name'
+  | 'startDate'
+  | 'endDate'
+  | 'atmosphere'
+  | 'hooks'
+  | 'tone'
+  | 'visual'
+  | 'createdAt'
+  | 'updatedAt',
+  ExtArgs['result']['campaignEvent']
+>
+
+export type $CampaignEventPayload<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  name: 'CampaignEvent'
+  objects: {}
+  scalars: runtime.Types.Extensions.GetPayloadResult<
+    {
+      id: string
+      clientId: string
+      name: string
+      startDate: string
+      endDate: string
+      atmosphere: runtime.JsonValue
+      hooks: runtime.JsonValue
+      tone: string
+      visual: string
+      createdAt: Date
+      updatedAt: Date
+    },
+    ExtArgs['result']['campaignEvent']
+  >
+  composites: {}
+}
+
+export type CampaignEventGetPayload<
+  S extends boolean | null | undefined | CampaignEventDefaultArgs,
+> = runtime.Types.Result.GetResult<Prisma.$CampaignEventPayload, S>
+
+export type CampaignEventCountArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = Omit<CampaignEventFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+  select?: CampaignEventCountAggregateInputType | true
+}
+
+export interface CampaignEventDelegate<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+  GlobalOmitOptions = {},
+> {
+  [K: symbol]: {
+    types: Prisma.TypeMap<ExtArgs>['model']['CampaignEvent']
+    meta: { name: 'CampaignEvent' }
+  }
+  /**
+   * Find zero or one CampaignEvent that matches the filter.
+   * @param {CampaignEventFindUniqueArgs} args - Arguments to find a CampaignEvent
+   * @example
+   * // Get one CampaignEvent
+   * const campaignEvent = await prisma.campaignEvent.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends CampaignEventFindUniqueArgs>(
+    args: Prisma.SelectSubset<T, CampaignEventFindUniqueArgs<ExtArgs>>
+  ): Prisma.Prisma__CampaignEventClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$CampaignEventPayload<ExtArgs>,
+      T,
+      'findUnique',
+      GlobalOmitOptions
+    > | null,
+    null,
+    ExtArgs,
+    GlobalOmitOptions
+  >
+
+  /**
+   * Find one CampaignEvent that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {CampaignEventFindUniqueOrThrowArgs} args - Arguments to find a CampaignEvent
+   * @example
+   * // Get one CampaignEvent
+   * const campaignEvent = await prisma.campaignEvent.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends CampaignEventFindUniqueOrThrowArgs>(
+    args: Prisma.SelectSubset<T, CampaignEventFindUniqueOrThrowArgs<ExtArgs>>
+  ): Prisma.Prisma__CampaignEventClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$CampaignEventPayload<ExtArgs>,
+      T,
+      'findUniqueOrThrow',
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >
+
+  /**
+   * Find the first CampaignEvent that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CampaignEventFindFirstArgs} args - Arguments to find a CampaignEvent
+   * @example
+   * // Get one CampaignEvent
+   * const campaignEvent = await prisma.campaignEvent.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends CampaignEventFindFirstArgs>(
+    args?: Prisma.SelectSubset<T, CampaignEventFindFirstArgs<ExtArgs>>
+  ): Prisma.Prisma__CampaignEventClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$CampaignEventPayload<ExtArgs>,
+      T,
+      'findFirst',
+      GlobalOmitOptions
+    > | null,
+    null,
+    ExtArgs,
+    GlobalOmitOptions
+  >
+
+  /**
+   * Find the first CampaignEvent that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CampaignEventFindFirstOrThrowArgs} args - Arguments to find a CampaignEvent
+   * @example
+   * // Get one CampaignEvent
+   * const campaignEvent = await prisma.campaignEvent.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends CampaignEventFindFirstOrThrowArgs>(
+    args?: Prisma.SelectSubset<T, CampaignEventFindFirstOrThrowArgs<ExtArgs>>
+  ): Prisma.Prisma__CampaignEventClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$CampaignEventPayload<ExtArgs>,
+      T,
+      'findFirstOrThrow',
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >
+
+  /**
+   * Find zero or more CampaignEvents that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CampaignEventFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all CampaignEvents
+   * const campaignEvents = await prisma.campaignEvent.findMany()
+   *
+   * // Get first 10 CampaignEvents
+   * const campaignEvents = await prisma.campaignEvent.findMany({ take: 10 })
+   *
+   * // Only select the `id`
+   * const campaignEventWithIdOnly = await prisma.campaignEvent.findMany({ select: { id: true } })
+   *
+   */
+  findMany<T extends CampaignEventFindManyArgs>(
+    args?: Prisma.SelectSubset<T, CampaignEventFindManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    runtime.Types.Result.GetResult<
+      Prisma.$CampaignEventPayload<ExtArgs>,
+      T,
+      'findMany',
+      GlobalOmitOptions
+    >
+  >
+
+  /**
+   * Create a CampaignEvent.
+   * @param {CampaignEventCreateArgs} args - Arguments to create a CampaignEvent.
+   * @example
+   * // Create one CampaignEvent
+   * const CampaignEvent = await prisma.campaignEvent.create({
+   *   data: {
+   *     // ... data to create a CampaignEvent
+   *   }
+   * })
+   *
+   */
+  create<T extends CampaignEventCreateArgs>(
+    args: Prisma.SelectSubset<T, CampaignEventCreateArgs<ExtArgs>>
+  ): Prisma.Prisma__CampaignEventClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$CampaignEventPayload<ExtArgs>,
+      T,
+      'create',
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >
+
+  /**
+   * Create many CampaignEvents.
+   * @param {CampaignEventCreateManyArgs} args - Arguments to create many CampaignEvents.
+   * @example
+   * // Create many CampaignEvents
+   * const campaignEvent = await prisma.campaignEvent.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *
+   */
+  createMany<T extends CampaignEventCreateManyArgs>(
+    args?: Prisma.SelectSubset<T, CampaignEventCreateManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many CampaignEvents and returns the data saved in the database.
+   * @param {CampaignEventCreateManyAndReturnArgs} args - Arguments to create many CampaignEvents.
+   * @example
+   * // Create many CampaignEvents
+   * const campaignEvent = await prisma.campaignEvent.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *
+   * // Create many CampaignEvents and only return the `id`
+   * const campaignEventWithIdOnly = await prisma.campaignEvent.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   *
+   */
+  createManyAndReturn<T extends CampaignEventCreateManyAndReturnArgs>(
+    args?: Prisma.SelectSubset<T, CampaignEventCreateManyAndReturnArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    runtime.Types.Result.GetResult<
+      Prisma.$CampaignEventPayload<ExtArgs>,
+      T,
+      'createManyAndReturn',
+      GlobalOmitOptions
+    >
+  >
+
+  /**
+   * Delete a CampaignEvent.
+   * @param {CampaignEventDeleteArgs} args - Arguments to delete one CampaignEvent.
+   * @example
+   * // Delete one CampaignEvent
+   * const CampaignEvent = await prisma.campaignEvent.delete({
+   *   where: {
+   *     // ... filter to delete one CampaignEvent
+   *   }
+   * })
+   *
+   */
+  delete<T extends CampaignEventDeleteArgs>(
+    args: Prisma.SelectSubset<T, CampaignEventDeleteArgs<ExtArgs>>
+  ): Prisma.Prisma__CampaignEventClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$CampaignEventPayload<ExtArgs>,
+      T,
+      'delete',
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >
+
+  /**
+   * Update one CampaignEvent.
+   * @param {CampaignEventUpdateArgs} args - Arguments to update one CampaignEvent.
+   * @example
+   * // Update one CampaignEvent
+   * const campaignEvent = await prisma.campaignEvent.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   *
+   */
+  update<T extends CampaignEventUpdateArgs>(
+    args: Prisma.SelectSubset<T, CampaignEventUpdateArgs<ExtArgs>>
+  ): Prisma.Prisma__CampaignEventClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$CampaignEventPayload<ExtArgs>,
+      T,
+      'update',
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >
+
+  /**
+   * Delete zero or more CampaignEvents.
+   * @param {CampaignEventDeleteManyArgs} args - Arguments to filter CampaignEvents to delete.
+   * @example
+   * // Delete a few CampaignEvents
+   * const { count } = await prisma.campaignEvent.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   *
+   */
+  deleteMany<T extends CampaignEventDeleteManyArgs>(
+    args?: Prisma.SelectSubset<T, CampaignEventDeleteManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more CampaignEvents.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CampaignEventUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many CampaignEvents
+   * const campaignEvent = await prisma.campaignEvent.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   *
+   */
+  updateMany<T extends CampaignEventUpdateManyArgs>(
+    args: Prisma.SelectSubset<T, CampaignEventUpdateManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more CampaignEvents and returns the data updated in the database.
+   * @param {CampaignEventUpdateManyAndReturnArgs} args - Arguments to update many CampaignEvents.
+   * @example
+   * // Update many CampaignEvents
+   * const campaignEvent = await prisma.campaignEvent.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *
+   * // Update zero or more CampaignEvents and only return the `id`
+   * const campaignEventWithIdOnly = await prisma.campaignEvent.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   *
+   */
+  updateManyAndReturn<T extends CampaignEventUpdateManyAndReturnArgs>(
+    args: Prisma.SelectSubset<T, CampaignEventUpdateManyAndReturnArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    runtime.Types.Result.GetResult<
+      Prisma.$CampaignEventPayload<ExtArgs>,
+      T,
+      'updateManyAndReturn',
+      GlobalOmitOptions
+    >
+  >
+
+  /**
+   * Create or update one CampaignEvent.
+   * @param {CampaignEventUpsertArgs} args - Arguments to update or create a CampaignEvent.
+   * @example
+   * // Update or create a CampaignEvent
+   * const campaignEvent = await prisma.campaignEvent.upsert({
+   *   create: {
+   *     // ... data to create a CampaignEvent
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the CampaignEvent we want to update
+   *   }
+   * })
+   */
+  upsert<T extends CampaignEventUpsertArgs>(
+    args: Prisma.SelectSubset<T, CampaignEventUpsertArgs<ExtArgs>>
+  ): Prisma.Prisma__CampaignEventClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$CampaignEventPayload<ExtArgs>,
+      T,
+      'upsert',
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >
+
+  /**
+   * Count the number of CampaignEvents.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CampaignEventCountArgs} args - Arguments to filter CampaignEvents to count.
+   * @example
+   * // Count the number of CampaignEvents
+   * const count = await prisma.campaignEvent.count({
+   *   where: {
+   *     // ... the filter for the CampaignEvents we want to count
+   *   }
+   * })
+   **/
+  count<T extends CampaignEventCountArgs>(
+    args?: Prisma.Subset<T, CampaignEventCountArgs>
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], CampaignEventCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a CampaignEvent.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CampaignEventAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+   **/
+  aggregate<T extends CampaignEventAggregateArgs>(
+    args: Prisma.Subset<T, CampaignEventAggregateArgs>
+  ): Prisma.PrismaPromise<GetCampaignEventAggregateType<T>>
+
+  /**
+   * Group by CampaignEvent.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CampaignEventGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   *
+   **/
+  groupBy<
+    T extends CampaignEventGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: CampaignEventGroupByArgs['orderBy'] }
+      : { orderBy?: CampaignEventGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<
+      Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>
+    >,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+      ? `Error: "by" must not be empty.`
+      : HavingValid extends Prisma.False
+        ? {
+            [P in HavingFields]: P extends ByFields
+              ? never
+              : P extends string
+                ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+                : [Error, 'Field ', P, ` in "having" needs to be provided in "by"`]
+          }[HavingFields]
+        : 'take' extends Prisma.Keys<T>
+          ? 'orderBy' extends Prisma.Keys<T>
+            ? ByValid extends Prisma.True
+              ? {}
+              : {
+                  [P in OrderFields]: P extends ByFields
+                    ? never
+                    : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+                }[OrderFields]
+            : 'Error: If you provide "take", you also need to provide "orderBy"'
+          : 'skip' extends Prisma.Keys<T>
+            ? 'orderBy' extends Prisma.Keys<T>
+              ? ByValid extends Prisma.True
+                ? {}
+                : {
+                    [P in OrderFields]: P extends ByFields
+                      ? never
+                      : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+                  }[OrderFields]
+              : 'Error: If you provide "skip", you also need to provide "orderBy"'
+            : ByValid extends Prisma.True
+              ? {}
+              : {
+                  [P in OrderFields]: P extends ByFields
+                    ? never
+                    : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+                }[OrderFields],
+  >(
+    args: Prisma.SubsetIntersection<T, CampaignEventGroupByArgs, OrderByArg> & InputErrors
+  ): {} extends InputErrors ? GetCampaignEventGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+  /**
+   * Fields of the CampaignEvent model
+   */
+  readonly fields: CampaignEventFieldRefs
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for CampaignEvent.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__CampaignEventClient<
+  T,
+  Null = never,
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+  GlobalOmitOptions = {},
+> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: 'PrismaPromise'
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(
+    onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null
+  ): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(
+    onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null
+  ): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+/**
+ * Fields of the CampaignEvent model
+ */
+export interface CampaignEventFieldRefs {
+  readonly id: Prisma.FieldRef<'CampaignEvent', 'String'>
+  readonly clientId: Prisma.FieldRef<'CampaignEvent', 'String'>
+  readonly name: Prisma.FieldRef<'CampaignEvent', 'String'>
+  readonly startDate: Prisma.FieldRef<'CampaignEvent', 'String'>
+  readonly endDate: Prisma.FieldRef<'CampaignEvent', 'String'>
+  readonly atmosphere: Prisma.FieldRef<'CampaignEvent', 'Json'>
+  readonly hooks: Prisma.FieldRef<'CampaignEvent', 'Json'>
+  readonly tone: Prisma.FieldRef<'CampaignEvent', 'String'>
+  readonly visual: Prisma.FieldRef<'CampaignEvent', 'String'>
+  readonly createdAt: Prisma.FieldRef<'CampaignEvent', 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<'CampaignEvent', 'DateTime'>
+}
+
+// Custom InputTypes
+/**
+ * CampaignEvent findUnique
+ */
+export type CampaignEventFindUniqueArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the CampaignEvent
+   */
+  select?: Prisma.CampaignEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CampaignEvent
+   */
+  omit?: Prisma.CampaignEventOmit<ExtArgs> | null
+  /**
+   * Filter, which CampaignEvent to fetch.
+   */
+  where: Prisma.CampaignEventWhereUniqueInput
+}
+
+/**
+ * CampaignEvent findUniqueOrThrow
+ */
+export type CampaignEventFindUniqueOrThrowArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the CampaignEvent
+   */
+  select?: Prisma.CampaignEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CampaignEvent
+   */
+  omit?: Prisma.CampaignEventOmit<ExtArgs> | null
+  /**
+   * Filter, which CampaignEvent to fetch.
+   */
+  where: Prisma.CampaignEventWhereUniqueInput
+}
+
+/**
+ * CampaignEvent findFirst
+ */
+export type CampaignEventFindFirstArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the CampaignEvent
+   */
+  select?: Prisma.CampaignEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CampaignEvent
+   */
+  omit?: Prisma.CampaignEventOmit<ExtArgs> | null
+  /**
+   * Filter, which CampaignEvent to fetch.
+   */
+  where?: Prisma.CampaignEventWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of CampaignEvents to fetch.
+   */
+  orderBy?:
+    | Prisma.CampaignEventOrderByWithRelationInput
+    | Prisma.CampaignEventOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the position for searching for CampaignEvents.
+   */
+  cursor?: Prisma.CampaignEventWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` CampaignEvents from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` CampaignEvents.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   *
+   * Filter by unique combinations of CampaignEvents.
+   */
+  distinct?: Prisma.CampaignEventScalarFieldEnum | Prisma.CampaignEventScalarFieldEnum[]
+}
+
+/**
+ * CampaignEvent findFirstOrThrow
+ */
+export type CampaignEventFindFirstOrThrowArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the CampaignEvent
+   */
+  select?: Prisma.CampaignEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CampaignEvent
+   */
+  omit?: Prisma.CampaignEventOmit<ExtArgs> | null
+  /**
+   * Filter, which CampaignEvent to fetch.
+   */
+  where?: Prisma.CampaignEventWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of CampaignEvents to fetch.
+   */
+  orderBy?:
+    | Prisma.CampaignEventOrderByWithRelationInput
+    | Prisma.CampaignEventOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the position for searching for CampaignEvents.
+   */
+  cursor?: Prisma.CampaignEventWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` CampaignEvents from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` CampaignEvents.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   *
+   * Filter by unique combinations of CampaignEvents.
+   */
+  distinct?: Prisma.CampaignEventScalarFieldEnum | Prisma.CampaignEventScalarFieldEnum[]
+}
+
+/**
+ * CampaignEvent findMany
+ */
+export type CampaignEventFindManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the CampaignEvent
+   */
+  select?: Prisma.CampaignEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CampaignEvent
+   */
+  omit?: Prisma.CampaignEventOmit<ExtArgs> | null
+  /**
+   * Filter, which CampaignEvents to fetch.
+   */
+  where?: Prisma.CampaignEventWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of CampaignEvents to fetch.
+   */
+  orderBy?:
+    | Prisma.CampaignEventOrderByWithRelationInput
+    | Prisma.CampaignEventOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the position for listing CampaignEvents.
+   */
+  cursor?: Prisma.CampaignEventWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` CampaignEvents from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` CampaignEvents.
+   */
+  skip?: number
+  distinct?: Prisma.CampaignEventScalarFieldEnum | Prisma.CampaignEventScalarFieldEnum[]
+}
+
+/**
+ * CampaignEvent create
+ */
+export type CampaignEventCreateArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the CampaignEvent
+   */
+  select?: Prisma.CampaignEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CampaignEvent
+   */
+  omit?: Prisma.CampaignEventOmit<ExtArgs> | null
+  /**
+   * The data needed to create a CampaignEvent.
+   */
+  data: Prisma.XOR<Prisma.CampaignEventCreateInput, Prisma.CampaignEventUncheckedCreateInput>
+}
+
+/**
+ * CampaignEvent createMany
+ */
+export type CampaignEventCreateManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * The data used to create many CampaignEvents.
+   */
+  data: Prisma.CampaignEventCreateManyInput | Prisma.CampaignEventCreateManyInput[]
+}
+
+/**
+ * CampaignEvent createManyAndReturn
+ */
+export type CampaignEventCreateManyAndReturnArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the CampaignEvent
+   */
+  select?: Prisma.CampaignEventSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the CampaignEvent
+   */
+  omit?: Prisma.CampaignEventOmit<ExtArgs> | null
+  /**
+   * The data used to create many CampaignEvents.
+   */
+  data: Prisma.CampaignEventCreateManyInput | Prisma.CampaignEventCreateManyInput[]
+}
+
+/**
+ * CampaignEvent update
+ */
+export type CampaignEventUpdateArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the CampaignEvent
+   */
+  select?: Prisma.CampaignEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CampaignEvent
+   */
+  omit?: Prisma.CampaignEventOmit<ExtArgs> | null
+  /**
+   * The data needed to update a CampaignEvent.
+   */
+  data: Prisma.XOR<Prisma.CampaignEventUpdateInput, Prisma.CampaignEventUncheckedUpdateInput>
+  /**
+   * Choose, which CampaignEvent to update.
+   */
+  where: Prisma.CampaignEventWhereUniqueInput
+}
+
+/**
+ * CampaignEvent updateMany
+ */
+export type CampaignEventUpdateManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * The data used to update CampaignEvents.
+   */
+  data: Prisma.XOR<
+    Prisma.CampaignEventUpdateManyMutationInput,
+    Prisma.CampaignEventUncheckedUpdateManyInput
+  >
+  /**
+   * Filter which CampaignEvents to update
+   */
+  where?: Prisma.CampaignEventWhereInput
+  /**
+   * Limit how many CampaignEvents to update.
+   */
+  limit?: number
+}
+
+/**
+ * CampaignEvent updateManyAndReturn
+ */
+export type CampaignEventUpdateManyAndReturnArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the CampaignEvent
+   */
+  select?: Prisma.CampaignEventSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the CampaignEvent
+   */
+  omit?: Prisma.CampaignEventOmit<ExtArgs> | null
+  /**
+   * The data used to update CampaignEvents.
+   */
+  data: Prisma.XOR<
+    Prisma.CampaignEventUpdateManyMutationInput,
+    Prisma.CampaignEventUncheckedUpdateManyInput
+  >
+  /**
+   * Filter which CampaignEvents to update
+   */
+  where?: Prisma.CampaignEventWhereInput
+  /**
+   * Limit how many CampaignEvents to update.
+   */
+  limit?: number
+}
+
+/**
+ * CampaignEvent upsert
+ */
+export type CampaignEventUpsertArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the CampaignEvent
+   */
+  select?: Prisma.CampaignEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CampaignEvent
+   */
+  omit?: Prisma.CampaignEventOmit<ExtArgs> | null
+  /**
+   * The filter to search for the CampaignEvent to update in case it exists.
+   */
+  where: Prisma.CampaignEventWhereUniqueInput
+  /**
+   * In case the CampaignEvent found by the `where` argument doesn't exist, create a new CampaignEvent with this data.
+   */
+  create: Prisma.XOR<Prisma.CampaignEventCreateInput, Prisma.CampaignEventUncheckedCreateInput>
+  /**
+   * In case the CampaignEvent was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.CampaignEventUpdateInput, Prisma.CampaignEventUncheckedUpdateInput>
+}
+
+/**
+ * CampaignEvent delete
+ */
+export type CampaignEventDeleteArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the CampaignEvent
+   */
+  select?: Prisma.CampaignEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CampaignEvent
+   */
+  omit?: Prisma.CampaignEventOmit<ExtArgs> | null
+  /**
+   * Filter which CampaignEvent to delete.
+   */
+  where: Prisma.CampaignEventWhereUniqueInput
+}
+
+/**
+ * CampaignEvent deleteMany
+ */
+export type CampaignEventDeleteManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Filter which CampaignEvents to delete
+   */
+  where?: Prisma.CampaignEventWhereInput
+  /**
+   * Limit how many CampaignEvents to delete.
+   */
+  limit?: number
+}
+
+/**
+ * CampaignEvent without action
+ */
+export type CampaignEventDefaultArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the CampaignEvent
+   */
+  select?: Prisma.CampaignEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CampaignEvent
+   */
+  omit?: Prisma.CampaignEventOmit<ExtArgs> | null
+}
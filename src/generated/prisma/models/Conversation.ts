@@ -27,18 +27,24 @@ export type ConversationMinAggregateOutputType = {
   id: string | null
   createdAt: Date | null
   title: string | null
+  platform: string | null
+  brandGuideId: string | null
 }
 
 export type ConversationMaxAggregateOutputType = {
   id: string | null
   createdAt: Date | null
   title: string | null
+  platform: string | null
+  brandGuideId: string | null
 }
 
 export type ConversationCountAggregateOutputType = {
   id: number
   createdAt: number
   title: number
+  platform: number
+  brandGuideId: number
   _all: number
 }
 
@@ -46,18 +52,24 @@ export type ConversationMinAggregateInputType = {
   id?: true
   createdAt?: true
   title?: true
+  platform?: true
+  brandGuideId?: true
 }
 
 export type ConversationMaxAggregateInputType = {
   id?: true
   createdAt?: true
   title?: true
+  platform?: true
+  brandGuideId?: true
 }
 
 export type ConversationCountAggregateInputType = {
   id?: true
   createdAt?: true
   title?: true
+  platform?: true
+  brandGuideId?: true
   _all?: true
 }
 
@@ -142,6 +154,8 @@ export type ConversationGroupByOutputType = {
   id: string
   createdAt: Date
   title: string | null
+  platform: string | null
+  brandGuideId: string | null
   _count: ConversationCountAggregateOutputType | null
   _min: ConversationMinAggregateOutputType | null
   _max: ConversationMaxAggregateOutputType | null
@@ -166,14 +180,27 @@ export type ConversationWhereInput = {
   id?: Prisma.StringFilter<'Conversation'> | string
   createdAt?: Prisma.DateTimeFilter<'Conversation'> | Date | string
   title?: Prisma.StringNullableFilter<'Conversation'> | string | null
+  platform?: Prisma.StringNullableFilter<'Conversation'> | string | null
+  brandGuideId?: Prisma.StringNullableFilter<'Conversation'> | string | null
   messages?: Prisma.MessageListRelationFilter
+  usages?: Prisma.UsageListRelationFilter
+  product?: Prisma.XOR<Prisma.ProductNullableScalarRelationFilter, Prisma.ProductWhereInput> | null
+  brandGuide?: Prisma.XOR<
+    Prisma.BrandGuideNullableScalarRelationFilter,
+    Prisma.BrandGuideWhereInput
+  > | null
 }
 
 export type ConversationOrderByWithRelationInput = {
   id?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   title?: Prisma.SortOrderInput | Prisma.SortOrder
+  platform?: Prisma.SortOrderInput | Prisma.SortOrder
+  brandGuideId?: Prisma.SortOrderInput | Prisma.SortOrder
   messages?: Prisma.MessageOrderByRelationAggregateInput
+  usages?: Prisma.UsageOrderByRelationAggregateInput
+  product?: Prisma.ProductOrderByWithRelationInput
+  brandGuide?: Prisma.BrandGuideOrderByWithRelationInput
 }
 
 export type ConversationWhereUniqueInput = Prisma.AtLeast<
@@ -184,7 +211,18 @@ export type ConversationWhereUniqueInput = Prisma.AtLeast<
     NOT?: Prisma.ConversationWhereInput | Prisma.ConversationWhereInput[]
     createdAt?: Prisma.DateTimeFilter<'Conversation'> | Date | string
     title?: Prisma.StringNullableFilter<'Conversation'> | string | null
+    platform?: Prisma.StringNullableFilter<'Conversation'> | string | null
+    brandGuideId?: Prisma.StringNullableFilter<'Conversation'> | string | null
     messages?: Prisma.MessageListRelationFilter
+    usages?: Prisma.UsageListRelationFilter
+    product?: Prisma.XOR<
+      Prisma.ProductNullableScalarRelationFilter,
+      Prisma.ProductWhereInput
+    > | null
+    brandGuide?: Prisma.XOR<
+      Prisma.BrandGuideNullableScalarRelationFilter,
+      Prisma.BrandGuideWhereInput
+    > | null
   },
   'id'
 >
@@ -193,6 +231,8 @@ export type ConversationOrderByWithAggregationInput = {
   id?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   title?: Prisma.SortOrderInput | Prisma.SortOrder
+  platform?: Prisma.SortOrderInput | Prisma.SortOrder
+  brandGuideId?: Prisma.SortOrderInput | Prisma.SortOrder
   _count?: Prisma.ConversationCountOrderByAggregateInput
   _max?: Prisma.ConversationMaxOrderByAggregateInput
   _min?: Prisma.ConversationMinOrderByAggregateInput
@@ -209,70 +249,99 @@ export type ConversationScalarWhereWithAggregatesInput = {
   id?: Prisma.StringWithAggregatesFilter<'Conversation'> | string
   createdAt?: Prisma.DateTimeWithAggregatesFilter<'Conversation'> | Date | string
   title?: Prisma.StringNullableWithAggregatesFilter<'Conversation'> | string | null
+  platform?: Prisma.StringNullableWithAggregatesFilter<'Conversation'> | string | null
+  brandGuideId?: Prisma.StringNullableWithAggregatesFilter<'Conversation'> | string | null
 }
 
 export type ConversationCreateInput = {
   id?: string
   createdAt?: Date | string
   title?: string | null
+  platform?: string | null
   messages?: Prisma.MessageCreateNestedManyWithoutConversationInput
+  usages?: Prisma.UsageCreateNestedManyWithoutConversationInput
+  product?: Prisma.ProductCreateNestedOneWithoutConversationInput
+  brandGuide?: Prisma.BrandGuideCreateNestedOneWithoutConversationsInput
 }
 
 export type ConversationUncheckedCreateInput = {
   id?: string
   createdAt?: Date | string
   title?: string | null
+  platform?: string | null
+  brandGuideId?: string | null
   messages?: Prisma.MessageUncheckedCreateNestedManyWithoutConversationInput
+  usages?: Prisma.UsageUncheckedCreateNestedManyWithoutConversationInput
+  product?: Prisma.ProductUncheckedCreateNestedOneWithoutConversationInput
 }
 
 export type ConversationUpdateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  platform?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   messages?: Prisma.MessageUpdateManyWithoutConversationNestedInput
+  usages?: Prisma.UsageUpdateManyWithoutConversationNestedInput
+  product?: Prisma.ProductUpdateOneWithoutConversationNestedInput
+  brandGuide?: Prisma.BrandGuideUpdateOneWithoutConversationsNestedInput
 }
 
 export type ConversationUncheckedUpdateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  platform?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  brandGuideId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   messages?: Prisma.MessageUncheckedUpdateManyWithoutConversationNestedInput
+  usages?: Prisma.UsageUncheckedUpdateManyWithoutConversationNestedInput
+  product?: Prisma.ProductUncheckedUpdateOneWithoutConversationNestedInput
 }
 
 export type ConversationCreateManyInput = {
   id?: string
   createdAt?: Date | string
   title?: string | null
+  platform?: string | null
+  brandGuideId?: string | null
 }
 
 export type ConversationUpdateManyMutationInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  platform?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
 }
 
 export type ConversationUncheckedUpdateManyInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  platform?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  brandGuideId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
 }
 
 export type ConversationCountOrderByAggregateInput = {
   id?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   title?: Prisma.SortOrder
+  platform?: Prisma.SortOrder
+  brandGuideId?: Prisma.SortOrder
 }
 
 export type ConversationMaxOrderByAggregateInput = {
   id?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   title?: Prisma.SortOrder
+  platform?: Prisma.SortOrder
+  brandGuideId?: Prisma.SortOrder
 }
 
 export type ConversationMinOrderByAggregateInput = {
   id?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   title?: Prisma.SortOrder
+  platform?: Prisma.SortOrder
+  brandGuideId?: Prisma.SortOrder
 }
 
 export type ConversationScalarRelationFilter = {
@@ -280,6 +349,16 @@ export type ConversationScalarRelationFilter = {
   isNot?: Prisma.ConversationWhereInput
 }
 
+export type ConversationListRelationFilter = {
+  every?: Prisma.ConversationWhereInput
+  some?: Prisma.ConversationWhereInput
+  none?: Prisma.ConversationWhereInput
+}
+
+export type ConversationOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
 export type StringFieldUpdateOperationsInput = {
   set?: string
 }
@@ -318,16 +397,162 @@ export type ConversationUpdateOneRequiredWithoutMessagesNestedInput = {
   >
 }
 
+export type ConversationCreateNestedOneWithoutProductInput = {
+  create?: Prisma.XOR<
+    Prisma.ConversationCreateWithoutProductInput,
+    Prisma.ConversationUncheckedCreateWithoutProductInput
+  >
+  connectOrCreate?: Prisma.ConversationCreateOrConnectWithoutProductInput
+  connect?: Prisma.ConversationWhereUniqueInput
+}
+
+export type ConversationUpdateOneRequiredWithoutProductNestedInput = {
+  create?: Prisma.XOR<
+    Prisma.ConversationCreateWithoutProductInput,
+    Prisma.ConversationUncheckedCreateWithoutProductInput
+  >
+  connectOrCreate?: Prisma.ConversationCreateOrConnectWithoutProductInput
+  upsert?: Prisma.ConversationUpsertWithoutProductInput
+  connect?: Prisma.ConversationWhereUniqueInput
+  update?: Prisma.XOR<
+    Prisma.XOR<
+      Prisma.ConversationUpdateToOneWithWhereWithoutProductInput,
+      Prisma.ConversationUpdateWithoutProductInput
+    >,
+    Prisma.ConversationUncheckedUpdateWithoutProductInput
+  >
+}
+
+export type ConversationCreateNestedManyWithoutBrandGuideInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.ConversationCreateWithoutBrandGuideInput,
+        Prisma.ConversationUncheckedCreateWithoutBrandGuideInput
+      >
+    | Prisma.ConversationCreateWithoutBrandGuideInput[]
+    | Prisma.ConversationUncheckedCreateWithoutBrandGuideInput[]
+  connectOrCreate?:
+    | Prisma.ConversationCreateOrConnectWithoutBrandGuideInput
+    | Prisma.ConversationCreateOrConnectWithoutBrandGuideInput[]
+  createMany?: Prisma.ConversationCreateManyBrandGuideInputEnvelope
+  connect?: Prisma.ConversationWhereUniqueInput | Prisma.ConversationWhereUniqueInput[]
+}
+
+export type ConversationUncheckedCreateNestedManyWithoutBrandGuideInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.ConversationCreateWithoutBrandGuideInput,
+        Prisma.ConversationUncheckedCreateWithoutBrandGuideInput
+      >
+    | Prisma.ConversationCreateWithoutBrandGuideInput[]
+    | Prisma.ConversationUncheckedCreateWithoutBrandGuideInput[]
+  connectOrCreate?:
+    | Prisma.ConversationCreateOrConnectWithoutBrandGuideInput
+    | Prisma.ConversationCreateOrConnectWithoutBrandGuideInput[]
+  createMany?: Prisma.ConversationCreateManyBrandGuideInputEnvelope
+  connect?: Prisma.ConversationWhereUniqueInput | Prisma.ConversationWhereUniqueInput[]
+}
+
+export type ConversationUpdateManyWithoutBrandGuideNestedInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.ConversationCreateWithoutBrandGuideInput,
+        Prisma.ConversationUncheckedCreateWithoutBrandGuideInput
+      >
+    | Prisma.ConversationCreateWithoutBrandGuideInput[]
+    | Prisma.ConversationUncheckedCreateWithoutBrandGuideInput[]
+  connectOrCreate?:
+    | Prisma.ConversationCreateOrConnectWithoutBrandGuideInput
+    | Prisma.ConversationCreateOrConnectWithoutBrandGuideInput[]
+  upsert?:
+    | Prisma.ConversationUpsertWithWhereUniqueWithoutBrandGuideInput
+    | Prisma.ConversationUpsertWithWhereUniqueWithoutBrandGuideInput[]
+  createMany?: Prisma.ConversationCreateManyBrandGuideInputEnvelope
+  set?: Prisma.ConversationWhereUniqueInput | Prisma.ConversationWhereUniqueInput[]
+  disconnect?: Prisma.ConversationWhereUniqueInput | Prisma.ConversationWhereUniqueInput[]
+  delete?: Prisma.ConversationWhereUniqueInput | Prisma.ConversationWhereUniqueInput[]
+  connect?: Prisma.ConversationWhereUniqueInput | Prisma.ConversationWhereUniqueInput[]
+  update?:
+    | Prisma.ConversationUpdateWithWhereUniqueWithoutBrandGuideInput
+    | Prisma.ConversationUpdateWithWhereUniqueWithoutBrandGuideInput[]
+  updateMany?:
+    | Prisma.ConversationUpdateManyWithWhereWithoutBrandGuideInput
+    | Prisma.ConversationUpdateManyWithWhereWithoutBrandGuideInput[]
+  deleteMany?: Prisma.ConversationScalarWhereInput | Prisma.ConversationScalarWhereInput[]
+}
+
+export type ConversationUncheckedUpdateManyWithoutBrandGuideNestedInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.ConversationCreateWithoutBrandGuideInput,
+        Prisma.ConversationUncheckedCreateWithoutBrandGuideInput
+      >
+    | Prisma.ConversationCreateWithoutBrandGuideInput[]
+    | Prisma.ConversationUncheckedCreateWithoutBrandGuideInput[]
+  connectOrCreate?:
+    | Prisma.ConversationCreateOrConnectWithoutBrandGuideInput
+    | Prisma.ConversationCreateOrConnectWithoutBrandGuideInput[]
+  upsert?:
+    | Prisma.ConversationUpsertWithWhereUniqueWithoutBrandGuideInput
+    | Prisma.ConversationUpsertWithWhereUniqueWithoutBrandGuideInput[]
+  createMany?: Prisma.ConversationCreateManyBrandGuideInputEnvelope
+  set?: Prisma.ConversationWhereUniqueInput | Prisma.ConversationWhereUniqueInput[]
+  disconnect?: Prisma.ConversationWhereUniqueInput | Prisma.ConversationWhereUniqueInput[]
+  delete?: Prisma.ConversationWhereUniqueInput | Prisma.ConversationWhereUniqueInput[]
+  connect?: Prisma.ConversationWhereUniqueInput | Prisma.ConversationWhereUniqueInput[]
+  update?:
+    | Prisma.ConversationUpdateWithWhereUniqueWithoutBrandGuideInput
+    | Prisma.ConversationUpdateWithWhereUniqueWithoutBrandGuideInput[]
+  updateMany?:
+    | Prisma.ConversationUpdateManyWithWhereWithoutBrandGuideInput
+    | Prisma.ConversationUpdateManyWithWhereWithoutBrandGuideInput[]
+  deleteMany?: Prisma.ConversationScalarWhereInput | Prisma.ConversationScalarWhereInput[]
+}
+
+export type ConversationCreateNestedOneWithoutUsagesInput = {
+  create?: Prisma.XOR<
+    Prisma.ConversationCreateWithoutUsagesInput,
+    Prisma.ConversationUncheckedCreateWithoutUsagesInput
+  >
+  connectOrCreate?: Prisma.ConversationCreateOrConnectWithoutUsagesInput
+  connect?: Prisma.ConversationWhereUniqueInput
+}
+
+export type ConversationUpdateOneRequiredWithoutUsagesNestedInput = {
+  create?: Prisma.XOR<
+    Prisma.ConversationCreateWithoutUsagesInput,
+    Prisma.ConversationUncheckedCreateWithoutUsagesInput
+  >
+  connectOrCreate?: Prisma.ConversationCreateOrConnectWithoutUsagesInput
+  upsert?: Prisma.ConversationUpsertWithoutUsagesInput
+  connect?: Prisma.ConversationWhereUniqueInput
+  update?: Prisma.XOR<
+    Prisma.XOR<
+      Prisma.ConversationUpdateToOneWithWhereWithoutUsagesInput,
+      Prisma.ConversationUpdateWithoutUsagesInput
+    >,
+    Prisma.ConversationUncheckedUpdateWithoutUsagesInput
+  >
+}
+
 export type ConversationCreateWithoutMessagesInput = {
   id?: string
   createdAt?: Date | string
   title?: string | null
+  platform?: string | null
+  usages?: Prisma.UsageCreateNestedManyWithoutConversationInput
+  product?: Prisma.ProductCreateNestedOneWithoutConversationInput
+  brandGuide?: Prisma.BrandGuideCreateNestedOneWithoutConversationsInput
 }
 
 export type ConversationUncheckedCreateWithoutMessagesInput = {
   id?: string
   createdAt?: Date | string
   title?: string | null
+  platform?: string | null
+  brandGuideId?: string | null
+  usages?: Prisma.UsageUncheckedCreateNestedManyWithoutConversationInput
+  product?: Prisma.ProductUncheckedCreateNestedOneWithoutConversationInput
 }
 
 export type ConversationCreateOrConnectWithoutMessagesInput = {
@@ -362,12 +587,263 @@ export type ConversationUpdateWithoutMessagesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  platform?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  usages?: Prisma.UsageUpdateManyWithoutConversationNestedInput
+  product?: Prisma.ProductUpdateOneWithoutConversationNestedInput
+  brandGuide?: Prisma.BrandGuideUpdateOneWithoutConversationsNestedInput
 }
 
 export type ConversationUncheckedUpdateWithoutMessagesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  platform?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  brandGuideId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  usages?: Prisma.UsageUncheckedUpdateManyWithoutConversationNestedInput
+  product?: Prisma.ProductUncheckedUpdateOneWithoutConversationNestedInput
+}
+
+export type ConversationCreateWithoutProductInput = {
+  id?: string
+  createdAt?: Date | string
+  title?: string | null
+  platform?: string | null
+  messages?: Prisma.MessageCreateNestedManyWithoutConversationInput
+  usages?: Prisma.UsageCreateNestedManyWithoutConversationInput
+  brandGuide?: Prisma.BrandGuideCreateNestedOneWithoutConversationsInput
+}
+
+export type ConversationUncheckedCreateWithoutProductInput = {
+  id?: string
+  createdAt?: Date | string
+  title?: string | null
+  platform?: string | null
+  brandGuideId?: string | null
+  messages?: Prisma.MessageUncheckedCreateNestedManyWithoutConversationInput
+  usages?: Prisma.UsageUncheckedCreateNestedManyWithoutConversationInput
+}
+
+export type ConversationCreateOrConnectWithoutProductInput = {
+  where: Prisma.ConversationWhereUniqueInput
+  create: Prisma.XOR<
+    Prisma.ConversationCreateWithoutProductInput,
+    Prisma.ConversationUncheckedCreateWithoutProductInput
+  >
+}
+
+export type ConversationUpsertWithoutProductInput = {
+  update: Prisma.XOR<
+    Prisma.ConversationUpdateWithoutProductInput,
+    Prisma.ConversationUncheckedUpdateWithoutProductInput
+  >
+  create: Prisma.XOR<
+    Prisma.ConversationCreateWithoutProductInput,
+    Prisma.ConversationUncheckedCreateWithoutProductInput
+  >
+  where?: Prisma.ConversationWhereInput
+}
+
+export type ConversationUpdateToOneWithWhereWithoutProductInput = {
+  where?: Prisma.ConversationWhereInput
+  data: Prisma.XOR<
+    Prisma.ConversationUpdateWithoutProductInput,
+    Prisma.ConversationUncheckedUpdateWithoutProductInput
+  >
+}
+
+export type ConversationUpdateWithoutProductInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  platform?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  messages?: Prisma.MessageUpdateManyWithoutConversationNestedInput
+  usages?: Prisma.UsageUpdateManyWithoutConversationNestedInput
+  brandGuide?: Prisma.BrandGuideUpdateOneWithoutConversationsNestedInput
+}
+
+export type ConversationUncheckedUpdateWithoutProductInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  platform?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  brandGuideId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  messages?: Prisma.MessageUncheckedUpdateManyWithoutConversationNestedInput
+  usages?: Prisma.UsageUncheckedUpdateManyWithoutConversationNestedInput
+}
+
+export type ConversationCreateWithoutBrandGuideInput = {
+  id?: string
+  createdAt?: Date | string
+  title?: string | null
+  platform?: string | null
+  messages?: Prisma.MessageCreateNestedManyWithoutConversationInput
+  usages?: Prisma.UsageCreateNestedManyWithoutConversationInput
+  product?: Prisma.ProductCreateNestedOneWithoutConversationInput
+}
+
+export type ConversationUncheckedCreateWithoutBrandGuideInput = {
+  id?: string
+  createdAt?: Date | string
+  title?: string | null
+  platform?: string | null
+  messages?: Prisma.MessageUncheckedCreateNestedManyWithoutConversationInput
+  usages?: Prisma.UsageUncheckedCreateNestedManyWithoutConversationInput
+  product?: Prisma.ProductUncheckedCreateNestedOneWithoutConversationInput
+}
+
+export type ConversationCreateOrConnectWithoutBrandGuideInput = {
+  where: Prisma.ConversationWhereUniqueInput
+  create: Prisma.XOR<
+    Prisma.ConversationCreateWithoutBrandGuideInput,
+    Prisma.ConversationUncheckedCreateWithoutBrandGuideInput
+  >
+}
+
+export type ConversationCreateManyBrandGuideInputEnvelope = {
+  data:
+    | Prisma.ConversationCreateManyBrandGuideInput
+    | Prisma.ConversationCreateManyBrandGuideInput[]
+}
+
+export type ConversationUpsertWithWhereUniqueWithoutBrandGuideInput = {
+  where: Prisma.ConversationWhereUniqueInput
+  update: Prisma.XOR<
+    Prisma.ConversationUpdateWithoutBrandGuideInput,
+    Prisma.ConversationUncheckedUpdateWithoutBrandGuideInput
+  >
+  create: Prisma.XOR<
+    Prisma.ConversationCreateWithoutBrandGuideInput,
+    Prisma.ConversationUncheckedCreateWithoutBrandGuideInput
+  >
+}
+
+export type ConversationUpdateWithWhereUniqueWithoutBrandGuideInput = {
+  where: Prisma.ConversationWhereUniqueInput
+  data: Prisma.XOR<
+    Prisma.ConversationUpdateWithoutBrandGuideInput,
+    Prisma.ConversationUncheckedUpdateWithoutBrandGuideInput
+  >
+}
+
+export type ConversationUpdateManyWithWhereWithoutBrandGuideInput = {
+  where: Prisma.ConversationScalarWhereInput
+  data: Prisma.XOR<
+    Prisma.ConversationUpdateManyMutationInput,
+    Prisma.ConversationUncheckedUpdateManyWithoutBrandGuideInput
+  >
+}
+
+export type ConversationScalarWhereInput = {
+  AND?: Prisma.ConversationScalarWhereInput | Prisma.ConversationScalarWhereInput[]
+  OR?: Prisma.ConversationScalarWhereInput[]
+  NOT?: Prisma.ConversationScalarWhereInput | Prisma.ConversationScalarWhereInput[]
+  id?: Prisma.StringFilter<'Conversation'> | string
+  createdAt?: Prisma.DateTimeFilter<'Conversation'> | Date | string
+  title?: Prisma.StringNullableFilter<'Conversation'> | string | null
+  platform?: Prisma.StringNullableFilter<'Conversation'> | string | null
+  brandGuideId?: Prisma.StringNullableFilter<'Conversation'> | string | null
+}
+
+export type ConversationCreateWithoutUsagesInput = {
+  id?: string
+  createdAt?: Date | string
+  title?: string | null
+  platform?: string | null
+  messages?: Prisma.MessageCreateNestedManyWithoutConversationInput
+  product?: Prisma.ProductCreateNestedOneWithoutConversationInput
+  brandGuide?: Prisma.BrandGuideCreateNestedOneWithoutConversationsInput
+}
+
+export type ConversationUncheckedCreateWithoutUsagesInput = {
+  id?: string
+  createdAt?: Date | string
+  title?: string | null
+  platform?: string | null
+  brandGuideId?: string | null
+  messages?: Prisma.MessageUncheckedCreateNestedManyWithoutConversationInput
+  product?: Prisma.ProductUncheckedCreateNestedOneWithoutConversationInput
+}
+
+export type ConversationCreateOrConnectWithoutUsagesInput = {
+  where: Prisma.ConversationWhereUniqueInput
+  create: Prisma.XOR<
+    Prisma.ConversationCreateWithoutUsagesInput,
+    Prisma.ConversationUncheckedCreateWithoutUsagesInput
+  >
+}
+
+export type ConversationUpsertWithoutUsagesInput = {
+  update: Prisma.XOR<
+    Prisma.ConversationUpdateWithoutUsagesInput,
+    Prisma.ConversationUncheckedUpdateWithoutUsagesInput
+  >
+  create: Prisma.XOR<
+    Prisma.ConversationCreateWithoutUsagesInput,
+    Prisma.ConversationUncheckedCreateWithoutUsagesInput
+  >
+  where?: Prisma.ConversationWhereInput
+}
+
+export type ConversationUpdateToOneWithWhereWithoutUsagesInput = {
+  where?: Prisma.ConversationWhereInput
+  data: Prisma.XOR<
+    Prisma.ConversationUpdateWithoutUsagesInput,
+    Prisma.ConversationUncheckedUpdateWithoutUsagesInput
+  >
+}
+
+export type ConversationUpdateWithoutUsagesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  platform?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  messages?: Prisma.MessageUpdateManyWithoutConversationNestedInput
+  product?: Prisma.ProductUpdateOneWithoutConversationNestedInput
+  brandGuide?: Prisma.BrandGuideUpdateOneWithoutConversationsNestedInput
+}
+
+export type ConversationUncheckedUpdateWithoutUsagesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  platform?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  brandGuideId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  messages?: Prisma.MessageUncheckedUpdateManyWithoutConversationNestedInput
+  product?: Prisma.ProductUncheckedUpdateOneWithoutConversationNestedInput
+}
+
+export type ConversationCreateManyBrandGuideInput = {
+  id?: string
+  createdAt?: Date | string
+  title?: string | null
+  platform?: string | null
+}
+
+export type ConversationUpdateWithoutBrandGuideInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  platform?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  messages?: Prisma.MessageUpdateManyWithoutConversationNestedInput
+  usages?: Prisma.UsageUpdateManyWithoutConversationNestedInput
+  product?: Prisma.ProductUpdateOneWithoutConversationNestedInput
+}
+
+export type ConversationUncheckedUpdateWithoutBrandGuideInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  platform?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  messages?: Prisma.MessageUncheckedUpdateManyWithoutConversationNestedInput
+  usages?: Prisma.UsageUncheckedUpdateManyWithoutConversationNestedInput
+  product?: Prisma.ProductUncheckedUpdateOneWithoutConversationNestedInput
+}
+
+export type ConversationUncheckedUpdateManyWithoutBrandGuideInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  platform?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
 }
 
 /**
@@ -376,12 +852,14 @@ export type ConversationUncheckedUpdateWithoutMessagesInput = {
 
 export type ConversationCountOutputType = {
   messages: number
+  usages: number
 }
 
 export type ConversationCountOutputTypeSelect<
   ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
 > = {
   messages?: boolean | ConversationCountOutputTypeCountMessagesArgs
+  usages?: boolean | ConversationCountOutputTypeCountUsagesArgs
 }
 
 /**
@@ -405,6 +883,15 @@ export type ConversationCountOutputTypeCountMessagesArgs<
   where?: Prisma.MessageWhereInput
 }
 
+/**
+ * ConversationCountOutputType without action
+ */
+export type ConversationCountOutputTypeCountUsagesArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  where?: Prisma.UsageWhereInput
+}
+
 export type ConversationSelect<
   ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
 > = runtime.Types.Extensions.GetSelect<
@@ -412,7 +899,12 @@ export type ConversationSelect<
     id?: boolean
     createdAt?: boolean
     title?: boolean
+    platform?: boolean
+    brandGuideId?: boolean
     messages?: boolean | Prisma.Conversation$messagesArgs<ExtArgs>
+    usages?: boolean | Prisma.Conversation$usagesArgs<ExtArgs>
+    product?: boolean | Prisma.Conversation$productArgs<ExtArgs>
+    brandGuide?: boolean | Prisma.Conversation$brandGuideArgs<ExtArgs>
     _count?: boolean | Prisma.ConversationCountOutputTypeDefaultArgs<ExtArgs>
   },
   ExtArgs['result']['conversation']
@@ -425,6 +917,9 @@ export type ConversationSelectCreateManyAndReturn<
     id?: boolean
     createdAt?: boolean
     title?: boolean
+    platform?: boolean
+    brandGuideId?: boolean
+    brandGuide?: boolean | Prisma.Conversation$brandGuideArgs<ExtArgs>
   },
   ExtArgs['result']['conversation']
 >
@@ -436,6 +931,9 @@ export type ConversationSelectUpdateManyAndReturn<
     id?: boolean
     createdAt?: boolean
     title?: boolean
+    platform?: boolean
+    brandGuideId?: boolean
+    brandGuide?: boolean | Prisma.Conversation$brandGuideArgs<ExtArgs>
   },
   ExtArgs['result']['conversation']
 >
@@ -444,26 +942,35 @@ export type ConversationSelectScalar = {
   id?: boolean
   createdAt?: boolean
   title?: boolean
+  platform?: boolean
+  brandGuideId?: boolean
 }
 
 export type ConversationOmit<
   ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
 > = runtime.Types.Extensions.GetOmit<
-  'id' | 'createdAt' | 'title',
+  'id' | 'createdAt' | 'title' | 'platform' | 'brandGuideId',
   ExtArgs['result']['conversation']
 >
 export type ConversationInclude<
   ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
 > = {
   messages?: boolean | Prisma.Conversation$messagesArgs<ExtArgs>
+  usages?: boolean | Prisma.Conversation$usagesArgs<ExtArgs>
+  product?: boolean | Prisma.Conversation$productArgs<ExtArgs>
+  brandGuide?: boolean | Prisma.Conversation$brandGuideArgs<ExtArgs>
   _count?: boolean | Prisma.ConversationCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type ConversationIncludeCreateManyAndReturn<
   ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
-> = {}
+> = {
+  brandGuide?: boolean | Prisma.Conversation$brandGuideArgs<ExtArgs>
+}
 export type ConversationIncludeUpdateManyAndReturn<
   ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
-> = {}
+> = {
+  brandGuide?: boolean | Prisma.Conversation$brandGuideArgs<ExtArgs>
+}
 
 export type $ConversationPayload<
   ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
@@ -471,12 +978,17 @@ export type $ConversationPayload<
   name: 'Conversation'
   objects: {
     messages: Prisma.$MessagePayload<ExtArgs>[]
+    usages: Prisma.$UsagePayload<ExtArgs>[]
+    product: Prisma.$ProductPayload<ExtArgs> | null
+    brandGuide: Prisma.$BrandGuidePayload<ExtArgs> | null
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<
     {
       id: string
       createdAt: Date
       title: string | null
+      platform: string | null
+      brandGuideId: string | null
     },
     ExtArgs['result']['conversation']
   >
@@ -1026,6 +1538,43 @@ export interface Prisma__ConversationClient<
       >
     | Null
   >
+  usages<T extends Prisma.Conversation$usagesArgs<ExtArgs> = {}>(
+    args?: Prisma.Subset<T, Prisma.Conversation$usagesArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    | runtime.Types.Result.GetResult<
+        Prisma.$UsagePayload<ExtArgs>,
+        T,
+        'findMany',
+        GlobalOmitOptions
+      >
+    | Null
+  >
+  product<T extends Prisma.Conversation$productArgs<ExtArgs> = {}>(
+    args?: Prisma.Subset<T, Prisma.Conversation$productArgs<ExtArgs>>
+  ): Prisma.Prisma__ProductClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$ProductPayload<ExtArgs>,
+      T,
+      'findUniqueOrThrow',
+      GlobalOmitOptions
+    > | null,
+    null,
+    ExtArgs,
+    GlobalOmitOptions
+  >
+  brandGuide<T extends Prisma.Conversation$brandGuideArgs<ExtArgs> = {}>(
+    args?: Prisma.Subset<T, Prisma.Conversation$brandGuideArgs<ExtArgs>>
+  ): Prisma.Prisma__BrandGuideClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$BrandGuidePayload<ExtArgs>,
+      T,
+      'findUniqueOrThrow',
+      GlobalOmitOptions
+    > | null,
+    null,
+    ExtArgs,
+    GlobalOmitOptions
+  >
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1060,6 +1609,8 @@ export interface ConversationFieldRefs {
   readonly id: Prisma.FieldRef<'Conversation', 'String'>
   readonly createdAt: Prisma.FieldRef<'Conversation', 'DateTime'>
   readonly title: Prisma.FieldRef<'Conversation', 'String'>
+  readonly platform: Prisma.FieldRef<'Conversation', 'String'>
+  readonly brandGuideId: Prisma.FieldRef<'Conversation', 'String'>
 }
 
 // Custom InputTypes
@@ -1328,6 +1879,10 @@ export type ConversationCreateManyAndReturnArgs<
    * The data used to create many Conversations.
    */
   data: Prisma.ConversationCreateManyInput | Prisma.ConversationCreateManyInput[]
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ConversationIncludeCreateManyAndReturn<ExtArgs> | null
 }
 
 /**
@@ -1410,6 +1965,10 @@ export type ConversationUpdateManyAndReturnArgs<
    * Limit how many Conversations to update.
    */
   limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ConversationIncludeUpdateManyAndReturn<ExtArgs> | null
 }
 
 /**
@@ -1510,6 +2069,74 @@ export type Conversation$messagesArgs<
   distinct?: Prisma.MessageScalarFieldEnum | Prisma.MessageScalarFieldEnum[]
 }
 
+/**
+ * Conversation.usages
+ */
+export type Conversation$usagesArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the Usage
+   */
+  select?: Prisma.UsageSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Usage
+   */
+  omit?: Prisma.UsageOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UsageInclude<ExtArgs> | null
+  where?: Prisma.UsageWhereInput
+  orderBy?: Prisma.UsageOrderByWithRelationInput | Prisma.UsageOrderByWithRelationInput[]
+  cursor?: Prisma.UsageWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.UsageScalarFieldEnum | Prisma.UsageScalarFieldEnum[]
+}
+
+/**
+ * Conversation.product
+ */
+export type Conversation$productArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the Product
+   */
+  select?: Prisma.ProductSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Product
+   */
+  omit?: Prisma.ProductOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProductInclude<ExtArgs> | null
+  where?: Prisma.ProductWhereInput
+}
+
+/**
+ * Conversation.brandGuide
+ */
+export type Conversation$brandGuideArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the BrandGuide
+   */
+  select?: Prisma.BrandGuideSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BrandGuide
+   */
+  omit?: Prisma.BrandGuideOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BrandGuideInclude<ExtArgs> | null
+  where?: Prisma.BrandGuideWhereInput
+}
+
 /**
  * Conversation without action
  */
@@ -0,0 +1,1355 @@
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck
+/*
+ * This file exports the `GenerationCache` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from '@prisma/client/runtime/client'
+import type * as $Enums from '../enums'
+import type * as Prisma from '../internal/prismaNamespace'
+
+/**
+ * Model GenerationCache
+ *
+ */
+export type GenerationCacheModel =
+  runtime.Types.Result.DefaultSelection<Prisma.$GenerationCachePayload>
+
+export type AggregateGenerationCache = {
+  _count: GenerationCacheCountAggregateOutputType | null
+  _min: GenerationCacheMinAggregateOutputType | null
+  _max: GenerationCacheMaxAggregateOutputType | null
+}
+
+export type GenerationCacheMinAggregateOutputType = {
+  key: string | null
+  text: string | null
+  createdAt: Date | null
+  expiresAt: Date | null
+}
+
+export type GenerationCacheMaxAggregateOutputType = {
+  key: string | null
+  text: string | null
+  createdAt: Date | null
+  expiresAt: Date | null
+}
+
+export type GenerationCacheCountAggregateOutputType = {
+  key: number
+  text: number
+  provenance: number
+  createdAt: number
+  expiresAt: number
+  _all: number
+}
+
+export type GenerationCacheMinAggregateInputType = {
+  key?: true
+  text?: true
+  createdAt?: true
+  expiresAt?: true
+}
+
+export type GenerationCacheMaxAggregateInputType = {
+  key?: true
+  text?: true
+  createdAt?: true
+  expiresAt?: true
+}
+
+export type GenerationCacheCountAggregateInputType = {
+  key?: true
+  text?: true
+  provenance?: true
+  createdAt?: true
+  expiresAt?: true
+  _all?: true
+}
+
+export type GenerationCacheAggregateArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Filter which GenerationCache to aggregate.
+   */
+  where?: Prisma.GenerationCacheWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of GenerationCaches to fetch.
+   */
+  orderBy?:
+    | Prisma.GenerationCacheOrderByWithRelationInput
+    | Prisma.GenerationCacheOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the start position
+   */
+  cursor?: Prisma.GenerationCacheWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` GenerationCaches from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` GenerationCaches.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Count returned GenerationCaches
+   **/
+  _count?: true | GenerationCacheCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Select which fields to find the minimum value
+   **/
+  _min?: GenerationCacheMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Select which fields to find the maximum value
+   **/
+  _max?: GenerationCacheMaxAggregateInputType
+}
+
+export type GetGenerationCacheAggregateType<T extends GenerationCacheAggregateArgs> = {
+  [P in keyof T & keyof AggregateGenerationCache]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateGenerationCache[P]>
+    : Prisma.GetScalarType<T[P], AggregateGenerationCache[P]>
+}
+
+export type GenerationCacheGroupByArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  where?: Prisma.GenerationCacheWhereInput
+  orderBy?:
+    | Prisma.GenerationCacheOrderByWithAggregationInput
+    | Prisma.GenerationCacheOrderByWithAggregationInput[]
+  by: Prisma.GenerationCacheScalarFieldEnum[] | Prisma.GenerationCacheScalarFieldEnum
+  having?: Prisma.GenerationCacheScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: GenerationCacheCountAggregateInputType | true
+  _min?: GenerationCacheMinAggregateInputType
+  _max?: GenerationCacheMaxAggregateInputType
+}
+
+export type GenerationCacheGroupByOutputType = {
+  key: string
+  text: string
+  provenance: runtime.JsonValue
+  createdAt: Date
+  expiresAt: Date
+  _count: GenerationCacheCountAggregateOutputType | null
+  _min: GenerationCacheMinAggregateOutputType | null
+  _max: GenerationCacheMaxAggregateOutputType | null
+}
+
+type GetGenerationCacheGroupByPayload<T extends GenerationCacheGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<GenerationCacheGroupByOutputType, T['by']> & {
+      [P in keyof T & keyof GenerationCacheGroupByOutputType]: P extends '_count'
+        ? T[P] extends boolean
+          ? number
+          : Prisma.GetScalarType<T[P], GenerationCacheGroupByOutputType[P]>
+        : Prisma.GetScalarType<T[P], GenerationCacheGroupByOutputType[P]>
+    }
+  >
+>
+
+export type GenerationCacheWhereInput = {
+  AND?: Prisma.GenerationCacheWhereInput | Prisma.GenerationCacheWhereInput[]
+  OR?: Prisma.GenerationCacheWhereInput[]
+  NOT?: Prisma.GenerationCacheWhereInput | Prisma.GenerationCacheWhereInput[]
+  key?: Prisma.StringFilter<'GenerationCache'> | string
+  text?: Prisma.StringFilter<'GenerationCache'> | string
+  provenance?: Prisma.JsonFilter<'GenerationCache'>
+  createdAt?: Prisma.DateTimeFilter<'GenerationCache'> | Date | string
+  expiresAt?: Prisma.DateTimeFilter<'GenerationCache'> | Date | string
+}
+
+export type GenerationCacheOrderByWithRelationInput = {
+  key?: Prisma.SortOrder
+  text?: Prisma.SortOrder
+  provenance?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+}
+
+export type GenerationCacheWhereUniqueInput = Prisma.AtLeast<
+  {
+    key?: string
+    AND?: Prisma.GenerationCacheWhereInput | Prisma.GenerationCacheWhereInput[]
+    OR?: Prisma.GenerationCacheWhereInput[]
+    NOT?: Prisma.GenerationCacheWhereInput | Prisma.GenerationCacheWhereInput[]
+    text?: Prisma.StringFilter<'GenerationCache'> | string
+    provenance?: Prisma.JsonFilter<'GenerationCache'>
+    createdAt?: Prisma.DateTimeFilter<'GenerationCache'> | Date | string
+    expiresAt?: Prisma.DateTimeFilter<'GenerationCache'> | Date | string
+  },
+  'key'
+>
+
+export type GenerationCacheOrderByWithAggregationInput = {
+  key?: Prisma.SortOrder
+  text?: Prisma.SortOrder
+  provenance?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  _count?: Prisma.GenerationCacheCountOrderByAggregateInput
+  _max?: Prisma.GenerationCacheMaxOrderByAggregateInput
+  _min?: Prisma.GenerationCacheMinOrderByAggregateInput
+}
+
+export type GenerationCacheScalarWhereWithAggregatesInput = {
+  AND?:
+    | Prisma.GenerationCacheScalarWhereWithAggregatesInput
+    | Prisma.GenerationCacheScalarWhereWithAggregatesInput[]
+  OR?: Prisma.GenerationCacheScalarWhereWithAggregatesInput[]
+  NOT?:
+    | Prisma.GenerationCacheScalarWhereWithAggregatesInput
+    | Prisma.GenerationCacheScalarWhereWithAggregatesInput[]
+  key?: Prisma.StringWithAggregatesFilter<'GenerationCache'> | string
+  text?: Prisma.StringWithAggregatesFilter<'GenerationCache'> | string
+  provenance?: Prisma.JsonWithAggregatesFilter<'GenerationCache'>
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<'GenerationCache'> | Date | string
+  expiresAt?: Prisma.DateTimeWithAggregatesFilter<'GenerationCache'> | Date | string
+}
+
+export type GenerationCacheCreateInput = {
+  key: string
+  text: string
+  provenance: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  expiresAt: Date | string
+}
+
+export type GenerationCacheUncheckedCreateInput = {
+  key: string
+  text: string
+  provenance: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  expiresAt: Date | string
+}
+
+export type GenerationCacheUpdateInput = {
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  text?: Prisma.StringFieldUpdateOperationsInput | string
+  provenance?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type GenerationCacheUncheckedUpdateInput = {
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  text?: Prisma.StringFieldUpdateOperationsInput | string
+  provenance?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type GenerationCacheCreateManyInput = {
+  key: string
+  text: string
+  provenance: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  expiresAt: Date | string
+}
+
+export type GenerationCacheUpdateManyMutationInput = {
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  text?: Prisma.StringFieldUpdateOperationsInput | string
+  provenance?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type GenerationCacheUncheckedUpdateManyInput = {
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  text?: Prisma.StringFieldUpdateOperationsInput | string
+  provenance?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type GenerationCacheCountOrderByAggregateInput = {
+  key?: Prisma.SortOrder
+  text?: Prisma.SortOrder
+  provenance?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+}
+
+export type GenerationCacheMaxOrderByAggregateInput = {
+  key?: Prisma.SortOrder
+  text?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+}
+
+export type GenerationCacheMinOrderByAggregateInput = {
+  key?: Prisma.SortOrder
+  text?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+}
+
+export type GenerationCacheSelect<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = runtime.Types.Extensions.GetSelect<
+  {
+    key?: boolean
+    text?: boolean
+    provenance?: boolean
+    createdAt?: boolean
+    expiresAt?: boolean
+  },
+  ExtArgs['result']['generationCache']
+>
+
+export type GenerationCacheSelectCreateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = runtime.Types.Extensions.GetSelect<
+  {
+    key?: boolean
+    text?: boolean
+    provenance?: boolean
+    createdAt?: boolean
+    expiresAt?: boolean
+  },
+  ExtArgs['result']['generationCache']
+>
+
+export type GenerationCacheSelectUpdateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = runtime.Types.Extensions.GetSelect<
+  {
+    key?: boolean
+    text?: boolean
+    provenance?: boolean
+    createdAt?: boolean
+    expiresAt?: boolean
+  },
+  ExtArgs['result']['generationCache']
+>
+
+export type GenerationCacheSelectScalar = {
+  key?: boolean
+  text?: boolean
+  provenance?: boolean
+  createdAt?: boolean
+  expiresAt?: boolean
+}
+
+export type GenerationCacheOmit<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = runtime.Types.Extensions.GetOmit<
+  'key' | 'text' | 'provenance' | 'createdAt' | 'expiresAt',
+  ExtArgs['result']['generationCache']
+>
+
+export type $GenerationCachePayload<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  name: 'GenerationCache'
+  objects: {}
+  scalars: runtime.Types.Extensions.GetPayloadResult<
+    {
+      key: string
+      text: string
+      provenance: runtime.JsonValue
+      createdAt: Date
+      expiresAt: Date
+    },
+    ExtArgs['result']['generationCache']
+  >
+  composites: {}
+}
+
+export type GenerationCacheGetPayload<
+  S extends boolean | null | undefined | GenerationCacheDefaultArgs,
+> = runtime.Types.Result.GetResult<Prisma.$GenerationCachePayload, S>
+
+export type GenerationCacheCountArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = Omit<GenerationCacheFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+  select?: GenerationCacheCountAggregateInputType | true
+}
+
+export interface GenerationCacheDelegate<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+  GlobalOmitOptions = {},
+> {
+  [K: symbol]: {
+    types: Prisma.TypeMap<ExtArgs>['model']['GenerationCache']
+    meta: { name: 'GenerationCache' }
+  }
+  /**
+   * Find zero or one GenerationCache that matches the filter.
+   * @param {GenerationCacheFindUniqueArgs} args - Arguments to find a GenerationCache
+   * @example
+   * // Get one GenerationCache
+   * const generationCache = await prisma.generationCache.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends GenerationCacheFindUniqueArgs>(
+    args: Prisma.SelectSubset<T, GenerationCacheFindUniqueArgs<ExtArgs>>
+  ): Prisma.Prisma__GenerationCacheClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$GenerationCachePayload<ExtArgs>,
+      T,
+      'findUnique',
+      GlobalOmitOptions
+    > | null,
+    null,
+    ExtArgs,
+    GlobalOmitOptions
+  >
+
+  /**
+   * Find one GenerationCache that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {GenerationCacheFindUniqueOrThrowArgs} args - Arguments to find a GenerationCache
+   * @example
+   * // Get one GenerationCache
+   * const generationCache = await prisma.generationCache.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends GenerationCacheFindUniqueOrThrowArgs>(
+    args: Prisma.SelectSubset<T, GenerationCacheFindUniqueOrThrowArgs<ExtArgs>>
+  ): Prisma.Prisma__GenerationCacheClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$GenerationCachePayload<ExtArgs>,
+      T,
+      'findUniqueOrThrow',
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >
+
+  /**
+   * Find the first GenerationCache that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {GenerationCacheFindFirstArgs} args - Arguments to find a GenerationCache
+   * @example
+   * // Get one GenerationCache
+   * const generationCache = await prisma.generationCache.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends GenerationCacheFindFirstArgs>(
+    args?: Prisma.SelectSubset<T, GenerationCacheFindFirstArgs<ExtArgs>>
+  ): Prisma.Prisma__GenerationCacheClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$GenerationCachePayload<ExtArgs>,
+      T,
+      'findFirst',
+      GlobalOmitOptions
+    > | null,
+    null,
+    ExtArgs,
+    GlobalOmitOptions
+  >
+
+  /**
+   * Find the first GenerationCache that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {GenerationCacheFindFirstOrThrowArgs} args - Arguments to find a GenerationCache
+   * @example
+   * // Get one GenerationCache
+   * const generationCache = await prisma.generationCache.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends GenerationCacheFindFirstOrThrowArgs>(
+    args?: Prisma.SelectSubset<T, GenerationCacheFindFirstOrThrowArgs<ExtArgs>>
+  ): Prisma.Prisma__GenerationCacheClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$GenerationCachePayload<ExtArgs>,
+      T,
+      'findFirstOrThrow',
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >
+
+  /**
+   * Find zero or more GenerationCaches that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {GenerationCacheFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all GenerationCaches
+   * const generationCaches = await prisma.generationCache.findMany()
+   *
+   * // Get first 10 GenerationCaches
+   * const generationCaches = await prisma.generationCache.findMany({ take: 10 })
+   *
+   * // Only select the `key`
+   * const generationCacheWithKeyOnly = await prisma.generationCache.findMany({ select: { key: true } })
+   *
+   */
+  findMany<T extends GenerationCacheFindManyArgs>(
+    args?: Prisma.SelectSubset<T, GenerationCacheFindManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    runtime.Types.Result.GetResult<
+      Prisma.$GenerationCachePayload<ExtArgs>,
+      T,
+      'findMany',
+      GlobalOmitOptions
+    >
+  >
+
+  /**
+   * Create a GenerationCache.
+   * @param {GenerationCacheCreateArgs} args - Arguments to create a GenerationCache.
+   * @example
+   * // Create one GenerationCache
+   * const GenerationCache = await prisma.generationCache.create({
+   *   data: {
+   *     // ... data to create a GenerationCache
+   *   }
+   * })
+   *
+   */
+  create<T extends GenerationCacheCreateArgs>(
+    args: Prisma.SelectSubset<T, GenerationCacheCreateArgs<ExtArgs>>
+  ): Prisma.Prisma__GenerationCacheClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$GenerationCachePayload<ExtArgs>,
+      T,
+      'create',
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >
+
+  /**
+   * Create many GenerationCaches.
+   * @param {GenerationCacheCreateManyArgs} args - Arguments to create many GenerationCaches.
+   * @example
+   * // Create many GenerationCaches
+   * const generationCache = await prisma.generationCache.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *
+   */
+  createMany<T extends GenerationCacheCreateManyArgs>(
+    args?: Prisma.SelectSubset<T, GenerationCacheCreateManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many GenerationCaches and returns the data saved in the database.
+   * @param {GenerationCacheCreateManyAndReturnArgs} args - Arguments to create many GenerationCaches.
+   * @example
+   * // Create many GenerationCaches
+   * const generationCache = await prisma.generationCache.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *
+   * // Create many GenerationCaches and only return the `key`
+   * const generationCacheWithKeyOnly = await prisma.generationCache.createManyAndReturn({
+   *   select: { key: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   *
+   */
+  createManyAndReturn<T extends GenerationCacheCreateManyAndReturnArgs>(
+    args?: Prisma.SelectSubset<T, GenerationCacheCreateManyAndReturnArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    runtime.Types.Result.GetResult<
+      Prisma.$GenerationCachePayload<ExtArgs>,
+      T,
+      'createManyAndReturn',
+      GlobalOmitOptions
+    >
+  >
+
+  /**
+   * Delete a GenerationCache.
+   * @param {GenerationCacheDeleteArgs} args - Arguments to delete one GenerationCache.
+   * @example
+   * // Delete one GenerationCache
+   * const GenerationCache = await prisma.generationCache.delete({
+   *   where: {
+   *     // ... filter to delete one GenerationCache
+   *   }
+   * })
+   *
+   */
+  delete<T extends GenerationCacheDeleteArgs>(
+    args: Prisma.SelectSubset<T, GenerationCacheDeleteArgs<ExtArgs>>
+  ): Prisma.Prisma__GenerationCacheClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$GenerationCachePayload<ExtArgs>,
+      T,
+      'delete',
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >
+
+  /**
+   * Update one GenerationCache.
+   * @param {GenerationCacheUpdateArgs} args - Arguments to update one GenerationCache.
+   * @example
+   * // Update one GenerationCache
+   * const generationCache = await prisma.generationCache.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   *
+   */
+  update<T extends GenerationCacheUpdateArgs>(
+    args: Prisma.SelectSubset<T, GenerationCacheUpdateArgs<ExtArgs>>
+  ): Prisma.Prisma__GenerationCacheClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$GenerationCachePayload<ExtArgs>,
+      T,
+      'update',
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >
+
+  /**
+   * Delete zero or more GenerationCaches.
+   * @param {GenerationCacheDeleteManyArgs} args - Arguments to filter GenerationCaches to delete.
+   * @example
+   * // Delete a few GenerationCaches
+   * const { count } = await prisma.generationCache.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   *
+   */
+  deleteMany<T extends GenerationCacheDeleteManyArgs>(
+    args?: Prisma.SelectSubset<T, GenerationCacheDeleteManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more GenerationCaches.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {GenerationCacheUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many GenerationCaches
+   * const generationCache = await prisma.generationCache.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   *
+   */
+  updateMany<T extends GenerationCacheUpdateManyArgs>(
+    args: Prisma.SelectSubset<T, GenerationCacheUpdateManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more GenerationCaches and returns the data updated in the database.
+   * @param {GenerationCacheUpdateManyAndReturnArgs} args - Arguments to update many GenerationCaches.
+   * @example
+   * // Update many GenerationCaches
+   * const generationCache = await prisma.generationCache.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *
+   * // Update zero or more GenerationCaches and only return the `key`
+   * const generationCacheWithKeyOnly = await prisma.generationCache.updateManyAndReturn({
+   *   select: { key: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   *
+   */
+  updateManyAndReturn<T extends GenerationCacheUpdateManyAndReturnArgs>(
+    args: Prisma.SelectSubset<T, GenerationCacheUpdateManyAndReturnArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    runtime.Types.Result.GetResult<
+      Prisma.$GenerationCachePayload<ExtArgs>,
+      T,
+      'updateManyAndReturn',
+      GlobalOmitOptions
+    >
+  >
+
+  /**
+   * Create or update one GenerationCache.
+   * @param {GenerationCacheUpsertArgs} args - Arguments to update or create a GenerationCache.
+   * @example
+   * // Update or create a GenerationCache
+   * const generationCache = await prisma.generationCache.upsert({
+   *   create: {
+   *     // ... data to create a GenerationCache
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the GenerationCache we want to update
+   *   }
+   * })
+   */
+  upsert<T extends GenerationCacheUpsertArgs>(
+    args: Prisma.SelectSubset<T, GenerationCacheUpsertArgs<ExtArgs>>
+  ): Prisma.Prisma__GenerationCacheClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$GenerationCachePayload<ExtArgs>,
+      T,
+      'upsert',
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >
+
+  /**
+   * Count the number of GenerationCaches.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {GenerationCacheCountArgs} args - Arguments to filter GenerationCaches to count.
+   * @example
+   * // Count the number of GenerationCaches
+   * const count = await prisma.generationCache.count({
+   *   where: {
+   *     // ... the filter for the GenerationCaches we want to count
+   *   }
+   * })
+   **/
+  count<T extends GenerationCacheCountArgs>(
+    args?: Prisma.Subset<T, GenerationCacheCountArgs>
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], GenerationCacheCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a GenerationCache.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {GenerationCacheAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+   **/
+  aggregate<T extends GenerationCacheAggregateArgs>(
+    args: Prisma.Subset<T, GenerationCacheAggregateArgs>
+  ): Prisma.PrismaPromise<GetGenerationCacheAggregateType<T>>
+
+  /**
+   * Group by GenerationCache.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {GenerationCacheGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   *
+   **/
+  groupBy<
+    T extends GenerationCacheGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: GenerationCacheGroupByArgs['orderBy'] }
+      : { orderBy?: GenerationCacheGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<
+      Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>
+    >,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+      ? `Error: "by" must not be empty.`
+      : HavingValid extends Prisma.False
+        ? {
+            [P in HavingFields]: P extends ByFields
+              ? never
+              : P extends string
+                ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+                : [Error, 'Field ', P, ` in "having" needs to be provided in "by"`]
+          }[HavingFields]
+        : 'take' extends Prisma.Keys<T>
+          ? 'orderBy' extends Prisma.Keys<T>
+            ? ByValid extends Prisma.True
+              ? {}
+              : {
+                  [P in OrderFields]: P extends ByFields
+                    ? never
+                    : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+                }[OrderFields]
+            : 'Error: If you provide "take", you also need to provide "orderBy"'
+          : 'skip' extends Prisma.Keys<T>
+            ? 'orderBy' extends Prisma.Keys<T>
+              ? ByValid extends Prisma.True
+                ? {}
+                : {
+                    [P in OrderFields]: P extends ByFields
+                      ? never
+                      : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+                  }[OrderFields]
+              : 'Error: If you provide "skip", you also need to provide "orderBy"'
+            : ByValid extends Prisma.True
+              ? {}
+              : {
+                  [P in OrderFields]: P extends ByFields
+                    ? never
+                    : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+                }[OrderFields],
+  >(
+    args: Prisma.SubsetIntersection<T, GenerationCacheGroupByArgs, OrderByArg> & InputErrors
+  ): {} extends InputErrors
+    ? GetGenerationCacheGroupByPayload<T>
+    : Prisma.PrismaPromise<InputErrors>
+  /**
+   * Fields of the GenerationCache model
+   */
+  readonly fields: GenerationCacheFieldRefs
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for GenerationCache.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__GenerationCacheClient<
+  T,
+  Null = never,
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+  GlobalOmitOptions = {},
+> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: 'PrismaPromise'
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(
+    onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null
+  ): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(
+    onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null
+  ): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+/**
+ * Fields of the GenerationCache model
+ */
+export interface GenerationCacheFieldRefs {
+  readonly key: Prisma.FieldRef<'GenerationCache', 'String'>
+  readonly text: Prisma.FieldRef<'GenerationCache', 'String'>
+  readonly provenance: Prisma.FieldRef<'GenerationCache', 'Json'>
+  readonly createdAt: Prisma.FieldRef<'GenerationCache', 'DateTime'>
+  readonly expiresAt: Prisma.FieldRef<'GenerationCache', 'DateTime'>
+}
+
+// Custom InputTypes
+/**
+ * GenerationCache findUnique
+ */
+export type GenerationCacheFindUniqueArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the GenerationCache
+   */
+  select?: Prisma.GenerationCacheSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the GenerationCache
+   */
+  omit?: Prisma.GenerationCacheOmit<ExtArgs> | null
+  /**
+   * Filter, which GenerationCache to fetch.
+   */
+  where: Prisma.GenerationCacheWhereUniqueInput
+}
+
+/**
+ * GenerationCache findUniqueOrThrow
+ */
+export type GenerationCacheFindUniqueOrThrowArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the GenerationCache
+   */
+  select?: Prisma.GenerationCacheSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the GenerationCache
+   */
+  omit?: Prisma.GenerationCacheOmit<ExtArgs> | null
+  /**
+   * Filter, which GenerationCache to fetch.
+   */
+  where: Prisma.GenerationCacheWhereUniqueInput
+}
+
+/**
+ * GenerationCache findFirst
+ */
+export type GenerationCacheFindFirstArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the GenerationCache
+   */
+  select?: Prisma.GenerationCacheSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the GenerationCache
+   */
+  omit?: Prisma.GenerationCacheOmit<ExtArgs> | null
+  /**
+   * Filter, which GenerationCache to fetch.
+   */
+  where?: Prisma.GenerationCacheWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of GenerationCaches to fetch.
+   */
+  orderBy?:
+    | Prisma.GenerationCacheOrderByWithRelationInput
+    | Prisma.GenerationCacheOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the position for searching for GenerationCaches.
+   */
+  cursor?: Prisma.GenerationCacheWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` GenerationCaches from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` GenerationCaches.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   *
+   * Filter by unique combinations of GenerationCaches.
+   */
+  distinct?: Prisma.GenerationCacheScalarFieldEnum | Prisma.GenerationCacheScalarFieldEnum[]
+}
+
+/**
+ * GenerationCache findFirstOrThrow
+ */
+export type GenerationCacheFindFirstOrThrowArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the GenerationCache
+   */
+  select?: Prisma.GenerationCacheSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the GenerationCache
+   */
+  omit?: Prisma.GenerationCacheOmit<ExtArgs> | null
+  /**
+   * Filter, which GenerationCache to fetch.
+   */
+  where?: Prisma.GenerationCacheWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of GenerationCaches to fetch.
+   */
+  orderBy?:
+    | Prisma.GenerationCacheOrderByWithRelationInput
+    | Prisma.GenerationCacheOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the position for searching for GenerationCaches.
+   */
+  cursor?: Prisma.GenerationCacheWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` GenerationCaches from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` GenerationCaches.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   *
+   * Filter by unique combinations of GenerationCaches.
+   */
+  distinct?: Prisma.GenerationCacheScalarFieldEnum | Prisma.GenerationCacheScalarFieldEnum[]
+}
+
+/**
+ * GenerationCache findMany
+ */
+export type GenerationCacheFindManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the GenerationCache
+   */
+  select?: Prisma.GenerationCacheSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the GenerationCache
+   */
+  omit?: Prisma.GenerationCacheOmit<ExtArgs> | null
+  /**
+   * Filter, which GenerationCaches to fetch.
+   */
+  where?: Prisma.GenerationCacheWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of GenerationCaches to fetch.
+   */
+  orderBy?:
+    | Prisma.GenerationCacheOrderByWithRelationInput
+    | Prisma.GenerationCacheOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the position for listing GenerationCaches.
+   */
+  cursor?: Prisma.GenerationCacheWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` GenerationCaches from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` GenerationCaches.
+   */
+  skip?: number
+  distinct?: Prisma.GenerationCacheScalarFieldEnum | Prisma.GenerationCacheScalarFieldEnum[]
+}
+
+/**
+ * GenerationCache create
+ */
+export type GenerationCacheCreateArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the GenerationCache
+   */
+  select?: Prisma.GenerationCacheSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the GenerationCache
+   */
+  omit?: Prisma.GenerationCacheOmit<ExtArgs> | null
+  /**
+   * The data needed to create a GenerationCache.
+   */
+  data: Prisma.XOR<Prisma.GenerationCacheCreateInput, Prisma.GenerationCacheUncheckedCreateInput>
+}
+
+/**
+ * GenerationCache createMany
+ */
+export type GenerationCacheCreateManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * The data used to create many GenerationCaches.
+   */
+  data: Prisma.GenerationCacheCreateManyInput | Prisma.GenerationCacheCreateManyInput[]
+}
+
+/**
+ * GenerationCache createManyAndReturn
+ */
+export type GenerationCacheCreateManyAndReturnArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the GenerationCache
+   */
+  select?: Prisma.GenerationCacheSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the GenerationCache
+   */
+  omit?: Prisma.GenerationCacheOmit<ExtArgs> | null
+  /**
+   * The data used to create many GenerationCaches.
+   */
+  data: Prisma.GenerationCacheCreateManyInput | Prisma.GenerationCacheCreateManyInput[]
+}
+
+/**
+ * GenerationCache update
+ */
+export type GenerationCacheUpdateArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the GenerationCache
+   */
+  select?: Prisma.GenerationCacheSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the GenerationCache
+   */
+  omit?: Prisma.GenerationCacheOmit<ExtArgs> | null
+  /**
+   * The data needed to update a GenerationCache.
+   */
+  data: Prisma.XOR<Prisma.GenerationCacheUpdateInput, Prisma.GenerationCacheUncheckedUpdateInput>
+  /**
+   * Choose, which GenerationCache to update.
+   */
+  where: Prisma.GenerationCacheWhereUniqueInput
+}
+
+/**
+ * GenerationCache updateMany
+ */
+export type GenerationCacheUpdateManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * The data used to update GenerationCaches.
+   */
+  data: Prisma.XOR<
+    Prisma.GenerationCacheUpdateManyMutationInput,
+    Prisma.GenerationCacheUncheckedUpdateManyInput
+  >
+  /**
+   * Filter which GenerationCaches to update
+   */
+  where?: Prisma.GenerationCacheWhereInput
+  /**
+   * Limit how many GenerationCaches to update.
+   */
+  limit?: number
+}
+
+/**
+ * GenerationCache updateManyAndReturn
+ */
+export type GenerationCacheUpdateManyAndReturnArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the GenerationCache
+   */
+  select?: Prisma.GenerationCacheSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the GenerationCache
+   */
+  omit?: Prisma.GenerationCacheOmit<ExtArgs> | null
+  /**
+   * The data used to update GenerationCaches.
+   */
+  data: Prisma.XOR<
+    Prisma.GenerationCacheUpdateManyMutationInput,
+    Prisma.GenerationCacheUncheckedUpdateManyInput
+  >
+  /**
+   * Filter which GenerationCaches to update
+   */
+  where?: Prisma.GenerationCacheWhereInput
+  /**
+   * Limit how many GenerationCaches to update.
+   */
+  limit?: number
+}
+
+/**
+ * GenerationCache upsert
+ */
+export type GenerationCacheUpsertArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the GenerationCache
+   */
+  select?: Prisma.GenerationCacheSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the GenerationCache
+   */
+  omit?: Prisma.GenerationCacheOmit<ExtArgs> | null
+  /**
+   * The filter to search for the GenerationCache to update in case it exists.
+   */
+  where: Prisma.GenerationCacheWhereUniqueInput
+  /**
+   * In case the GenerationCache found by the `where` argument doesn't exist, create a new GenerationCache with this data.
+   */
+  create: Prisma.XOR<Prisma.GenerationCacheCreateInput, Prisma.GenerationCacheUncheckedCreateInput>
+  /**
+   * In case the GenerationCache was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.GenerationCacheUpdateInput, Prisma.GenerationCacheUncheckedUpdateInput>
+}
+
+/**
+ * GenerationCache delete
+ */
+export type GenerationCacheDeleteArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the GenerationCache
+   */
+  select?: Prisma.GenerationCacheSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the GenerationCache
+   */
+  omit?: Prisma.GenerationCacheOmit<ExtArgs> | null
+  /**
+   * Filter which GenerationCache to delete.
+   */
+  where: Prisma.GenerationCacheWhereUniqueInput
+}
+
+/**
+ * GenerationCache deleteMany
+ */
+export type GenerationCacheDeleteManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Filter which GenerationCaches to delete
+   */
+  where?: Prisma.GenerationCacheWhereInput
+  /**
+   * Limit how many GenerationCaches to delete.
+   */
+  limit?: number
+}
+
+/**
+ * GenerationCache without action
+ */
+export type GenerationCacheDefaultArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the GenerationCache
+   */
+  select?: Prisma.GenerationCacheSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the GenerationCache
+   */
+  omit?: Prisma.GenerationCacheOmit<ExtArgs> | null
+}
@@ -191,6 +191,7 @@ export type MessageWhereInput = {
   metaData?: Prisma.JsonNullableFilter<'Message'>
   createdAt?: Prisma.DateTimeFilter<'Message'> | Date | string
   conversation?: Prisma.XOR<Prisma.ConversationScalarRelationFilter, Prisma.ConversationWhereInput>
+  usages?: Prisma.UsageListRelationFilter
 }
 
 export type MessageOrderByWithRelationInput = {
@@ -202,6 +203,7 @@ export type MessageOrderByWithRelationInput = {
   metaData?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   conversation?: Prisma.ConversationOrderByWithRelationInput
+  usages?: Prisma.UsageOrderByRelationAggregateInput
 }
 
 export type MessageWhereUniqueInput = Prisma.AtLeast<
@@ -220,6 +222,7 @@ export type MessageWhereUniqueInput = Prisma.AtLeast<
       Prisma.ConversationScalarRelationFilter,
       Prisma.ConversationWhereInput
     >
+    usages?: Prisma.UsageListRelationFilter
   },
   'id'
 >
@@ -262,6 +265,7 @@ export type MessageCreateInput = {
   metaData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   createdAt?: Date | string
   conversation: Prisma.ConversationCreateNestedOneWithoutMessagesInput
+  usages?: Prisma.UsageCreateNestedManyWithoutMessageInput
 }
 
 export type MessageUncheckedCreateInput = {
@@ -272,6 +276,7 @@ export type MessageUncheckedCreateInput = {
   messageType: string
   metaData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   createdAt?: Date | string
+  usages?: Prisma.UsageUncheckedCreateNestedManyWithoutMessageInput
 }
 
 export type MessageUpdateInput = {
@@ -282,6 +287,7 @@ export type MessageUpdateInput = {
   metaData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   conversation?: Prisma.ConversationUpdateOneRequiredWithoutMessagesNestedInput
+  usages?: Prisma.UsageUpdateManyWithoutMessageNestedInput
 }
 
 export type MessageUncheckedUpdateInput = {
@@ -292,6 +298,7 @@ export type MessageUncheckedUpdateInput = {
   messageType?: Prisma.StringFieldUpdateOperationsInput | string
   metaData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  usages?: Prisma.UsageUncheckedUpdateManyWithoutMessageNestedInput
 }
 
 export type MessageCreateManyInput = {
@@ -361,6 +368,11 @@ export type MessageMinOrderByAggregateInput = {
   createdAt?: Prisma.SortOrder
 }
 
+export type MessageNullableScalarRelationFilter = {
+  is?: Prisma.MessageWhereInput | null
+  isNot?: Prisma.MessageWhereInput | null
+}
+
 export type MessageCreateNestedManyWithoutConversationInput = {
   create?:
     | Prisma.XOR<
@@ -447,6 +459,34 @@ export type MessageUncheckedUpdateManyWithoutConversationNestedInput = {
   deleteMany?: Prisma.MessageScalarWhereInput | Prisma.MessageScalarWhereInput[]
 }
 
+export type MessageCreateNestedOneWithoutUsagesInput = {
+  create?: Prisma.XOR<
+    Prisma.MessageCreateWithoutUsagesInput,
+    Prisma.MessageUncheckedCreateWithoutUsagesInput
+  >
+  connectOrCreate?: Prisma.MessageCreateOrConnectWithoutUsagesInput
+  connect?: Prisma.MessageWhereUniqueInput
+}
+
+export type MessageUpdateOneWithoutUsagesNestedInput = {
+  create?: Prisma.XOR<
+    Prisma.MessageCreateWithoutUsagesInput,
+    Prisma.MessageUncheckedCreateWithoutUsagesInput
+  >
+  connectOrCreate?: Prisma.MessageCreateOrConnectWithoutUsagesInput
+  upsert?: Prisma.MessageUpsertWithoutUsagesInput
+  disconnect?: Prisma.MessageWhereInput | boolean
+  delete?: Prisma.MessageWhereInput | boolean
+  connect?: Prisma.MessageWhereUniqueInput
+  update?: Prisma.XOR<
+    Prisma.XOR<
+      Prisma.MessageUpdateToOneWithWhereWithoutUsagesInput,
+      Prisma.MessageUpdateWithoutUsagesInput
+    >,
+    Prisma.MessageUncheckedUpdateWithoutUsagesInput
+  >
+}
+
 export type MessageCreateWithoutConversationInput = {
   id?: string
   role: string
@@ -454,6 +494,7 @@ export type MessageCreateWithoutConversationInput = {
   messageType: string
   metaData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   createdAt?: Date | string
+  usages?: Prisma.UsageCreateNestedManyWithoutMessageInput
 }
 
 export type MessageUncheckedCreateWithoutConversationInput = {
@@ -463,6 +504,7 @@ export type MessageUncheckedCreateWithoutConversationInput = {
   messageType: string
   metaData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   createdAt?: Date | string
+  usages?: Prisma.UsageUncheckedCreateNestedManyWithoutMessageInput
 }
 
 export type MessageCreateOrConnectWithoutConversationInput = {
@@ -518,6 +560,74 @@ export type MessageScalarWhereInput = {
   createdAt?: Prisma.DateTimeFilter<'Message'> | Date | string
 }
 
+export type MessageCreateWithoutUsagesInput = {
+  id?: string
+  role: string
+  content: string
+  messageType: string
+  metaData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  conversation: Prisma.ConversationCreateNestedOneWithoutMessagesInput
+}
+
+export type MessageUncheckedCreateWithoutUsagesInput = {
+  id?: string
+  conversationId: string
+  role: string
+  content: string
+  messageType: string
+  metaData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+}
+
+export type MessageCreateOrConnectWithoutUsagesInput = {
+  where: Prisma.MessageWhereUniqueInput
+  create: Prisma.XOR<
+    Prisma.MessageCreateWithoutUsagesInput,
+    Prisma.MessageUncheckedCreateWithoutUsagesInput
+  >
+}
+
+export type MessageUpsertWithoutUsagesInput = {
+  update: Prisma.XOR<
+    Prisma.MessageUpdateWithoutUsagesInput,
+    Prisma.MessageUncheckedUpdateWithoutUsagesInput
+  >
+  create: Prisma.XOR<
+    Prisma.MessageCreateWithoutUsagesInput,
+    Prisma.MessageUncheckedCreateWithoutUsagesInput
+  >
+  where?: Prisma.MessageWhereInput
+}
+
+export type MessageUpdateToOneWithWhereWithoutUsagesInput = {
+  where?: Prisma.MessageWhereInput
+  data: Prisma.XOR<
+    Prisma.MessageUpdateWithoutUsagesInput,
+    Prisma.MessageUncheckedUpdateWithoutUsagesInput
+  >
+}
+
+export type MessageUpdateWithoutUsagesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.StringFieldUpdateOperationsInput | string
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  messageType?: Prisma.StringFieldUpdateOperationsInput | string
+  metaData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  conversation?: Prisma.ConversationUpdateOneRequiredWithoutMessagesNestedInput
+}
+
+export type MessageUncheckedUpdateWithoutUsagesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  conversationId?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.StringFieldUpdateOperationsInput | string
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  messageType?: Prisma.StringFieldUpdateOperationsInput | string
+  metaData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
 export type MessageCreateManyConversationInput = {
   id?: string
   role: string
@@ -534,6 +644,7 @@ export type MessageUpdateWithoutConversationInput = {
   messageType?: Prisma.StringFieldUpdateOperationsInput | string
   metaData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  usages?: Prisma.UsageUpdateManyWithoutMessageNestedInput
 }
 
 export type MessageUncheckedUpdateWithoutConversationInput = {
@@ -543,6 +654,7 @@ export type MessageUncheckedUpdateWithoutConversationInput = {
   messageType?: Prisma.StringFieldUpdateOperationsInput | string
   metaData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  usages?: Prisma.UsageUncheckedUpdateManyWithoutMessageNestedInput
 }
 
 export type MessageUncheckedUpdateManyWithoutConversationInput = {
@@ -554,6 +666,41 @@ export type MessageUncheckedUpdateManyWithoutConversationInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
+/**
+ * Count Type MessageCountOutputType
+ */
+
+export type MessageCountOutputType = {
+  usages: number
+}
+
+export type MessageCountOutputTypeSelect<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  usages?: boolean | MessageCountOutputTypeCountUsagesArgs
+}
+
+/**
+ * MessageCountOutputType without action
+ */
+export type MessageCountOutputTypeDefaultArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the MessageCountOutputType
+   */
+  select?: Prisma.MessageCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * MessageCountOutputType without action
+ */
+export type MessageCountOutputTypeCountUsagesArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  where?: Prisma.UsageWhereInput
+}
+
 export type MessageSelect<
   ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
 > = runtime.Types.Extensions.GetSelect<
@@ -566,6 +713,8 @@ export type MessageSelect<
     metaData?: boolean
     createdAt?: boolean
     conversation?: boolean | Prisma.ConversationDefaultArgs<ExtArgs>
+    usages?: boolean | Prisma.Message$usagesArgs<ExtArgs>
+    _count?: boolean | Prisma.MessageCountOutputTypeDefaultArgs<ExtArgs>
   },
   ExtArgs['result']['message']
 >
@@ -622,6 +771,8 @@ export type MessageInclude<
   ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
 > = {
   conversation?: boolean | Prisma.ConversationDefaultArgs<ExtArgs>
+  usages?: boolean | Prisma.Message$usagesArgs<ExtArgs>
+  _count?: boolean | Prisma.MessageCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type MessageIncludeCreateManyAndReturn<
   ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
@@ -640,6 +791,7 @@ export type $MessagePayload<
   name: 'Message'
   objects: {
     conversation: Prisma.$ConversationPayload<ExtArgs>
+    usages: Prisma.$UsagePayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<
     {
@@ -1179,6 +1331,17 @@ export interface Prisma__MessageClient<
     ExtArgs,
     GlobalOmitOptions
   >
+  usages<T extends Prisma.Message$usagesArgs<ExtArgs> = {}>(
+    args?: Prisma.Subset<T, Prisma.Message$usagesArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    | runtime.Types.Result.GetResult<
+        Prisma.$UsagePayload<ExtArgs>,
+        T,
+        'findMany',
+        GlobalOmitOptions
+      >
+    | Null
+  >
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1637,6 +1800,32 @@ export type MessageDeleteManyArgs<
   limit?: number
 }
 
+/**
+ * Message.usages
+ */
+export type Message$usagesArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the Usage
+   */
+  select?: Prisma.UsageSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Usage
+   */
+  omit?: Prisma.UsageOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UsageInclude<ExtArgs> | null
+  where?: Prisma.UsageWhereInput
+  orderBy?: Prisma.UsageOrderByWithRelationInput | Prisma.UsageOrderByWithRelationInput[]
+  cursor?: Prisma.UsageWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.UsageScalarFieldEnum | Prisma.UsageScalarFieldEnum[]
+}
+
 /**
  * Message without action
  */
@@ -5,26 +5,46 @@
  * 它提供了完整的聊天功能，包括：
  * - 会话管理（自动创建或恢复会话）
  * - 消息列表管理
- * - 发送消息并获取AI回复
- * - 图片上传管理
+ * - 发送消息并获取AI回复（SSE流式接收，生成过程中逐步展示素材）
+ * - 商品图片管理（多张有序图片，每张标明主图/细节图/包装图）
+ * - 目标平台选择（按会话记住）
+ * - 商品档案（按会话保存，每轮生成都会发给模型）
+ * - 品牌规范选用（按会话记住）
+ * - 候选方案数选择与候选方案选定
+ * - 素材单字段重新生成
+ * - 模拟数据结果使用真实模型重试
  * - 加载状态管理
  *
  * 使用示例：
  * ```typescript
- * const { messages, loading, send, imgUrl, setImgUrl, lastAssets } = useChat();
+ * const { messages, loading, send, images, addImage, lastAssets, streamingAssets } = useChat();
  *
  * // 发送消息
  * await send('为这款商品生成营销素材');
  *
- * // 设置图片
- * setImgUrl('https://example.com/product.jpg');
+ * // 添加图片（第一张默认为主图，之后默认为细节图）
+ * addImage('https://example.com/product.jpg');
  * ```
  */
 
 'use client'
 import { useEffect, useMemo, useState, useCallback } from 'react'
-import type { Message, Assets, Conversation } from '@/types'
-import { getJson, postJson } from '@/lib/http'
+import type {
+  Message,
+  Assets,
+  AssetField,
+  AssetSection,
+  Conversation,
+  PlatformId,
+  ProductImage,
+  ProductImageRole,
+  ProductProfile,
+} from '@/types'
+import { getJson, postJson, patchJson, putJson, postEventStream } from '@/lib/http'
+import { parsePartialAssets } from '@/lib/partialJson'
+import { ASSET_SECTIONS } from '@/lib/assets'
+import { MAX_PRODUCT_IMAGES } from '@/lib/productImages'
+import { CAMPAIGN_AUTO } from '@/lib/campaigns'
 
 /**
  * useChat Hook的返回值类型
@@ -36,14 +56,64 @@ export interface UseChatReturn {
   messages: Message[]
   /** 是否正在加载（发送消息时） */
   loading: boolean
-  /** 当前上传的图片URL */
-  imgUrl: string | null
-  /** 设置图片URL的函数 */
-  setImgUrl: (url: string | null) => void
+  /** 当前待发送的商品图片（按顺序） */
+  images: ProductImage[]
+  /** 添加一张图片（第一张默认为主图，之后默认为细节图） */
+  addImage: (url: string) => void
+  /** 移除指定位置的图片 */
+  removeImage: (index: number) => void
+  /** 修改指定位置图片的用途 */
+  setImageRole: (index: number, role: ProductImageRole) => void
+  /** 调整图片顺序：offset 为 -1 时前移一位，为 1 时后移一位 */
+  moveImage: (index: number, offset: -1 | 1) => void
+  /** 当前会话的目标平台 */
+  platform: PlatformId
+  /** 切换目标平台（会记录到当前会话） */
+  setPlatform: (platform: PlatformId) => void
+  /** 当前会话选用的品牌规范ID，未选用时为null */
+  brandGuideId: string | null
+  /** 切换品牌规范（会记录到当前会话），null 表示不使用 */
+  setBrandGuide: (brandGuideId: string | null) => void
+  /** 当前会话的商品档案，未填写时为null */
+  product: ProductProfile | null
+  /** 保存当前会话的商品档案，保存失败时抛出错误 */
+  saveProduct: (product: ProductProfile) => Promise<void>
+  /** 每次生成的候选方案数 */
+  variants: number
+  /** 设置候选方案数 */
+  setVariants: (variants: number) => void
+  /** 每次生成附带的扩展内容 */
+  sections: AssetSection[]
+  /** 开启或关闭某项扩展内容 */
+  toggleSection: (section: AssetSection) => void
+  /** 用于差异化对比的竞品标题/卖点原文，每项一个竞品 */
+  competitors: string[]
+  /** 设置竞品原文（空白项在发送时忽略） */
+  setCompetitors: (competitors: string[]) => void
+  /** 用于挖掘卖点依据的买家评价 */
+  reviews: string[]
+  /** 设置买家评价（见 importReviews） */
+  setReviews: (reviews: string[]) => void
+  /** 上新日期 'YYYY-MM-DD'，为空表示未指定 */
+  launchDate: string
+  /** 设置上新日期 */
+  setLaunchDate: (launchDate: string) => void
+  /** 营销活动的选择：'auto'（按上新日期匹配）、'none'（不参与）或活动ID */
+  campaignChoice: string
+  /** 设置营销活动的选择 */
+  setCampaignChoice: (choice: string) => void
+  /** 选定素材消息的某个候选方案 */
+  pinCandidate: (messageId: string, index: number) => Promise<void>
+  /** 只重新生成素材消息的某个字段 */
+  regenerateField: (messageId: string, field: AssetField) => Promise<void>
+  /** 使用真实模型重新生成整条素材消息（用于替换模拟数据结果） */
+  retryWithModel: (messageId: string) => Promise<void>
   /** 发送消息的函数 */
   send: (text: string) => Promise<void>
   /** 最后一次生成的素材数据 */
   lastAssets: Assets | undefined
+  /** 正在流式生成中的素材数据（部分字段），未在生成时为null */
+  streamingAssets: Partial<Assets> | null
   /** 切换会话的函数 */
   switchConversation: (conversationId: string) => Promise<void>
   /** 创建新会话的函数 */
@@ -67,8 +137,36 @@ export function useChat(): UseChatReturn {
   // 加载状态（发送消息时）
   const [loading, setLoading] = useState<boolean>(false)
 
-  // 图片URL状态
-  const [imgUrl, setImgUrl] = useState<string | null>(null)
+  // 待发送的商品图片（按顺序）
+  const [images, setImages] = useState<ProductImage[]>([])
+
+  // 目标平台状态（随会话加载恢复）
+  const [platform, setPlatformState] = useState<PlatformId>('generic')
+
+  // 选用的品牌规范（随会话加载恢复）
+  const [brandGuideId, setBrandGuideId] = useState<string | null>(null)
+
+  // 商品档案（随会话加载恢复）
+  const [product, setProduct] = useState<ProductProfile | null>(null)
+
+  // 候选方案数
+  const [variants, setVariants] = useState<number>(1)
+
+  // 附带生成的扩展内容
+  const [sections, setSections] = useState<AssetSection[]>([])
+
+  // 用于差异化对比的竞品原文
+  const [competitors, setCompetitors] = useState<string[]>([])
+
+  // 用于挖掘卖点依据的买家评价
+  const [reviews, setReviews] = useState<string[]>([])
+
+  // 上新日期与营销活动的选择
+  const [launchDate, setLaunchDate] = useState<string>('')
+  const [campaignChoice, setCampaignChoice] = useState<string>(CAMPAIGN_AUTO)
+
+  // 流式生成中的部分素材
+  const [streamingAssets, setStreamingAssets] = useState<Partial<Assets> | null>(null)
 
   const [clientId] = useState<string>(() => {
     if (typeof window === 'undefined') return ''
@@ -85,10 +183,15 @@ export function useChat(): UseChatReturn {
   const loadConversation = useCallback(
     async (cid: string) => {
       try {
-        const data = await getJson<{ messages: Message[] }>(`/api/chat?conversationId=${cid}`, {
-          'X-Client-Id': clientId,
-        })
+        const data = await getJson<{
+          messages: Message[]
+          conversation?: Conversation | null
+          product?: ProductProfile | null
+        }>(`/api/chat?conversationId=${cid}`, { 'X-Client-Id': clientId })
         setMessages(data.messages ?? [])
+        setPlatformState(data.conversation?.platform ?? 'generic')
+        setBrandGuideId(data.conversation?.brandGuideId ?? null)
+        setProduct(data.product ?? null)
         setConversationId(cid)
         localStorage.setItem('cid', cid)
       } catch (error) {
@@ -199,6 +302,17 @@ export function useChat(): UseChatReturn {
         )
         cid = created.conversation.id
         await loadConversation(cid)
+        // 新会话加载后保留发送前选择的平台、品牌规范和填写的商品档案
+        setPlatformState(platform)
+        if (brandGuideId) {
+          await patchJson(
+            '/api/conversations',
+            { id: cid, brandGuideId },
+            { 'X-Client-Id': clientId }
+          )
+          setBrandGuideId(brandGuideId)
+        }
+        if (product) await putProduct(cid, product)
       }
 
       // 创建临时用户消息（用于立即显示在UI中）
@@ -207,25 +321,51 @@ export function useChat(): UseChatReturn {
         conversationId: cid,
         role: 'user',
         content: text,
-        messageType: imgUrl ? 'image_upload' : 'text',
-        metaData: imgUrl ? { imageUrl: imgUrl } : undefined,
+        messageType: images.length > 0 ? 'image_upload' : 'text',
+        metaData: images.length > 0 ? { images } : undefined,
         createdAt: Date.now(),
       }
 
       // 立即添加用户消息到列表（乐观更新）
       setMessages((prev) => [...prev, tempUserMessage])
 
-      // 发送消息到服务器并获取AI回复
-      const data = await postJson<{ message: Message }>(
+      // 发送消息到服务器，以SSE方式接收AI生成过程
+      let raw = ''
+      let done = null as { message: Message } | null
+      await postEventStream(
         '/api/chat',
         {
           conversationId: cid,
           text,
-          imageUrl: imgUrl ?? undefined,
+          images,
           title: clientId,
+          platform,
+          variants,
+          sections,
+          competitors: competitors.map((c) => c.trim()).filter(Boolean),
+          reviews,
+          launchDate: launchDate || undefined,
+          campaign: campaignChoice,
+          stream: true,
+        },
+        (evt) => {
+          const payload = JSON.parse(evt.data)
+          if (evt.event === 'delta') {
+            raw += payload.text
+            setStreamingAssets(parsePartialAssets(raw))
+          } else if (evt.event === 'reset') {
+            raw = ''
+            setStreamingAssets({})
+          } else if (evt.event === 'done') {
+            done = payload
+          } else if (evt.event === 'error') {
+            throw new Error(payload.error || '生成失败')
+          }
         },
         { 'X-Client-Id': clientId }
       )
+      if (!done) throw new Error('生成未完成，连接已中断')
+      const data = done
 
       // 更新消息列表，移除临时消息，添加服务器返回的完整消息和AI回复
       setMessages((prev) => {
@@ -240,8 +380,8 @@ export function useChat(): UseChatReturn {
         return [...withoutTemp, userMessage, data.message]
       })
 
-      // 发送消息后清空图片URL（可选，根据需求决定是否保留）
-      // setImgUrl(null)
+      // 发送消息后清空图片（可选，根据需求决定是否保留）
+      // setImages([])
     } catch (error) {
       // 错误处理
       console.error('发送消息失败:', error)
@@ -254,9 +394,216 @@ export function useChat(): UseChatReturn {
     } finally {
       // 无论成功或失败，都要取消加载状态
       setLoading(false)
+      setStreamingAssets(null)
     }
   }
 
+  /**
+   * 切换目标平台
+   *
+   * 立即更新界面，并把选择记录到当前会话上，下次打开该会话时自动恢复。
+   *
+   * @param next - 新的目标平台
+   */
+  const setPlatform = useCallback(
+    (next: PlatformId) => {
+      setPlatformState(next)
+      if (!conversationId) return
+      patchJson(
+        '/api/conversations',
+        { id: conversationId, platform: next },
+        { 'X-Client-Id': clientId }
+      ).catch((error) => console.error('保存平台选择失败:', error))
+    },
+    [conversationId, clientId]
+  )
+
+  /**
+   * 切换品牌规范
+   *
+   * 立即更新界面，并把选择记录到当前会话上，下次打开该会话时自动恢复。
+   *
+   * @param next - 品牌规范ID，null 表示不使用品牌规范
+   */
+  const setBrandGuide = useCallback(
+    (next: string | null) => {
+      setBrandGuideId(next)
+      if (!conversationId) return
+      patchJson(
+        '/api/conversations',
+        { id: conversationId, brandGuideId: next },
+        { 'X-Client-Id': clientId }
+      ).catch((error) => console.error('保存品牌规范选择失败:', error))
+    },
+    [conversationId, clientId]
+  )
+
+  /**
+   * 把商品档案保存到指定会话
+   */
+  const putProduct = useCallback(
+    async (cid: string, next: ProductProfile) => {
+      const data = await putJson<{ product: ProductProfile }>(
+        `/api/conversations/${cid}/product`,
+        { product: next },
+        { 'X-Client-Id': clientId }
+      )
+      setProduct(data.product)
+    },
+    [clientId]
+  )
+
+  /**
+   * 保存商品档案
+   *
+   * 还没有会话时只保存在本地，首次发送消息创建会话后再写入该会话。
+   *
+   * @param next - 新的商品档案
+   */
+  const saveProduct = useCallback(
+    async (next: ProductProfile) => {
+      if (!conversationId) {
+        setProduct(next)
+        return
+      }
+      await putProduct(conversationId, next)
+    },
+    [conversationId, putProduct]
+  )
+
+  /**
+   * 选定候选方案
+   *
+   * 服务端会把消息的采用方案替换为选定的候选方案，成功后用返回的消息替换本地消息。
+   *
+   * @param messageId - 素材消息ID
+   * @param index - 候选方案下标
+   */
+  const pinCandidate = useCallback(
+    async (messageId: string, index: number) => {
+      try {
+        const data = await postJson<{ message: Message }>(
+          `/api/assets/${messageId}/pin`,
+          { index },
+          { 'X-Client-Id': clientId }
+        )
+        setMessages((prev) => prev.map((msg) => (msg.id === messageId ? data.message : msg)))
+      } catch (error) {
+        console.error('选定候选方案失败:', error)
+        alert('选定候选方案失败，请稍后重试')
+      }
+    },
+    [clientId]
+  )
+
+  /**
+   * 重新生成单个字段
+   *
+   * 其余字段保持不变，新版本作为一条修订保存，成功后用返回的消息替换本地消息。
+   *
+   * @param messageId - 素材消息ID
+   * @param field - 需要重新生成的字段
+   */
+  const regenerateField = useCallback(
+    async (messageId: string, field: AssetField) => {
+      try {
+        const data = await postJson<{ message: Message }>(
+          `/api/assets/${messageId}/regenerate`,
+          { field },
+          { 'X-Client-Id': clientId }
+        )
+        setMessages((prev) => prev.map((msg) => (msg.id === messageId ? data.message : msg)))
+      } catch (error) {
+        console.error('重新生成字段失败:', error)
+        alert('重新生成失败，请稍后重试')
+      }
+    },
+    [clientId]
+  )
+
+  /**
+   * 使用真实模型重试
+   *
+   * 服务端不会回退到模拟数据，也不使用模型输出缓存（可用于替换过时的缓存结果）；
+   * 真实模型不可用时原消息保持不变并提示失败原因。
+   *
+   * @param messageId - 素材消息ID
+   */
+  const retryWithModel = useCallback(
+    async (messageId: string) => {
+      try {
+        const data = await postJson<{ message: Message }>(
+          `/api/assets/${messageId}/retry`,
+          {},
+          { 'X-Client-Id': clientId }
+        )
+        setMessages((prev) => prev.map((msg) => (msg.id === messageId ? data.message : msg)))
+      } catch (error) {
+        console.error('使用真实模型重试失败:', error)
+        alert('真实模型仍不可用，请检查模型配置后重试')
+      }
+    },
+    [clientId]
+  )
+
+  /**
+   * 开启或关闭某项扩展内容，顺序与 ASSET_SECTIONS 保持一致
+   *
+   * @param section - 扩展内容
+   */
+  const toggleSection = useCallback((section: AssetSection) => {
+    setSections((prev) =>
+      prev.includes(section)
+        ? prev.filter((s) => s !== section)
+        : ASSET_SECTIONS.map((s) => s.id).filter((id) => id === section || prev.includes(id))
+    )
+  }, [])
+
+  /**
+   * 添加一张商品图片
+   *
+   * 第一张图片默认为主图，之后的图片默认为细节图；超出上限时忽略。
+   *
+   * @param url - 图片URL
+   */
+  const addImage = useCallback((url: string) => {
+    setImages((prev) =>
+      prev.length >= MAX_PRODUCT_IMAGES
+        ? prev
+        : [...prev, { url, role: prev.length === 0 ? 'main' : 'detail' }]
+    )
+  }, [])
+
+  /**
+   * 移除指定位置的图片
+   */
+  const removeImage = useCallback((index: number) => {
+    setImages((prev) => prev.filter((_, i) => i !== index))
+  }, [])
+
+  /**
+   * 修改指定位置图片的用途
+   */
+  const setImageRole = useCallback((index: number, role: ProductImageRole) => {
+    setImages((prev) => prev.map((image, i) => (i === index ? { ...image, role } : image)))
+  }, [])
+
+  /**
+   * 调整图片顺序，与相邻图片交换位置
+   *
+   * @param index - 图片位置
+   * @param offset - -1 前移一位，1 后移一位
+   */
+  const moveImage = useCallback((index: number, offset: -1 | 1) => {
+    setImages((prev) => {
+      const target = index + offset
+      if (target < 0 || target >= prev.length) return prev
+      const next = [...prev]
+      ;[next[index], next[target]] = [next[target], next[index]]
+      return next
+    })
+  }, [])
+
   /**
    * 切换会话
    *
@@ -265,10 +612,12 @@ export function useChat(): UseChatReturn {
   const switchConversation = useCallback(
     async (newConversationId: string) => {
       if (newConversationId === conversationId) return
-      setImgUrl(null) // 切换会话时清空图片
+      setImages([]) // 切换会话时清空图片、竞品和评价
+      setCompetitors([])
+      setReviews([])
       await loadConversation(newConversationId)
     },
-    [conversationId, loadConversation, setImgUrl]
+    [conversationId, loadConversation]
   )
 
   /**
@@ -293,10 +642,35 @@ export function useChat(): UseChatReturn {
     conversationId,
     messages,
     loading,
-    imgUrl,
-    setImgUrl,
+    images,
+    addImage,
+    removeImage,
+    setImageRole,
+    moveImage,
+    platform,
+    setPlatform,
+    brandGuideId,
+    setBrandGuide,
+    product,
+    saveProduct,
+    variants,
+    setVariants,
+    sections,
+    toggleSection,
+    competitors,
+    setCompetitors,
+    reviews,
+    setReviews,
+    launchDate,
+    setLaunchDate,
+    campaignChoice,
+    setCampaignChoice,
+    pinCandidate,
+    regenerateField,
+    retryWithModel,
     send,
     lastAssets,
+    streamingAssets,
     switchConversation,
     createNewConversation,
   }
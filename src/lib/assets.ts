@@ -0,0 +1,152 @@
+/**
+ * 素材数据工具函数
+ *
+ * 前后端共用的素材数据处理函数，不依赖服务端能力。
+ */
+
+import type { AssetField, AssetSection, Assets, AssetsMeta } from '@/types'
+import { upgradeLegacyScript } from './storyboard'
+
+/**
+ * 素材结构版本
+ *
+ * 1: 标题、卖点、氛围词、视频脚本
+ * 2: 增加可选的扩展内容（见 ASSET_SECTIONS）
+ * 3: 视频脚本改为分镜镜头（时长、景别、字幕、口播、配乐、转场），早期脚本只有开始时间和画面描述
+ */
+export const ASSETS_SCHEMA_VERSION = 3
+
+/**
+ * 视频脚本开始使用分镜镜头的素材结构版本
+ */
+export const STORYBOARD_SCHEMA_VERSION = 3
+
+/**
+ * 可选的扩展内容（用于界面展示和提示词）
+ */
+export const ASSET_SECTIONS: { id: AssetSection; label: string }[] = [
+  { id: 'seo_keywords', label: 'SEO关键词' },
+  { id: 'hashtags', label: '话题标签' },
+  { id: 'detail_copy', label: '详情页文案' },
+  { id: 'faq', label: '常见问答' },
+]
+
+/**
+ * 所有素材字段
+ */
+export const ASSET_FIELDS: AssetField[] = [
+  'title',
+  'selling_points',
+  'atmosphere',
+  'video_script',
+  ...ASSET_SECTIONS.map((section) => section.id),
+]
+
+/**
+ * 判断字符串是否为合法的素材字段
+ */
+export function isAssetField(value: unknown): value is AssetField {
+  return typeof value === 'string' && (ASSET_FIELDS as string[]).includes(value)
+}
+
+/**
+ * 判断字符串是否为合法的扩展内容
+ */
+export function isAssetSection(value: unknown): value is AssetSection {
+  return ASSET_SECTIONS.some((section) => section.id === value)
+}
+
+/**
+ * 校验请求中的扩展内容列表
+ *
+ * @param value - 待校验的值，缺少时视为不需要扩展内容
+ * @returns 去重并按 ASSET_SECTIONS 顺序排列的扩展内容，不合法时返回null
+ *
+ * @example
+ * ```typescript
+ * parseAssetSections(['faq', 'hashtags']) // => ['hashtags', 'faq']
+ * parseAssetSections(['price']) // => null
+ * ```
+ */
+export function parseAssetSections(value: unknown): AssetSection[] | null {
+  if (value === undefined || value === null) return []
+  if (!Array.isArray(value) || !value.every(isAssetSection)) return null
+  return ASSET_SECTIONS.map((section) => section.id).filter((id) => value.includes(id))
+}
+
+/**
+ * 素材消息的结构版本
+ *
+ * @param meta - 素材消息的元数据
+ * @returns 记录的结构版本，旧数据没有记录时视为1
+ */
+export function schemaVersionOf(meta: AssetsMeta | Partial<Assets>): number {
+  return ('schemaVersion' in meta && meta.schemaVersion) || 1
+}
+
+/**
+ * 把存储的素材消息元数据升级到当前结构版本
+ *
+ * 读取素材消息时调用（见 @/lib/db），之后的展示、导出和修改都只需处理当前版本：
+ * 低于 STORYBOARD_SCHEMA_VERSION 的早期脚本补齐镜头时长（见 upgradeLegacyScript），
+ * 候选方案与修订记录中的素材同样升级；版本1到2只增加了可选的扩展内容，无需转换。
+ *
+ * @param meta - 存储的素材消息元数据
+ * @returns 当前结构版本的元数据，已是当前版本时原样返回
+ *
+ * @example
+ * ```typescript
+ * upgradeAssetsMeta({ ...assets, video_script: [{ s: 0, v: '开场特写' }, { s: 2, v: '使用场景展示' }] })
+ * // => { ...assets, schemaVersion: 3, video_script: [{ s: 0, v: '开场特写', duration: 2 }, ...] }
+ * ```
+ */
+export function upgradeAssetsMeta(meta: AssetsMeta): AssetsMeta {
+  const version = schemaVersionOf(meta)
+  if (version >= ASSETS_SCHEMA_VERSION) return meta
+  const upgrade = <T extends Pick<Assets, 'video_script'>>(assets: T): T =>
+    version < STORYBOARD_SCHEMA_VERSION && Array.isArray(assets.video_script)
+      ? { ...assets, video_script: upgradeLegacyScript(assets.video_script) }
+      : assets
+  return {
+    ...upgrade(meta),
+    schemaVersion: ASSETS_SCHEMA_VERSION,
+    ...(meta.candidates && {
+      candidates: meta.candidates.map((c) => ({ ...c, assets: upgrade(c.assets) })),
+    }),
+    ...(meta.revisions && {
+      revisions: meta.revisions.map((r) => ({ ...r, assets: upgrade(r.assets) })),
+    }),
+  }
+}
+
+/**
+ * 素材中已有的扩展内容
+ *
+ * @param assets - 素材数据
+ * @returns 按 ASSET_SECTIONS 顺序排列的扩展内容
+ */
+export function sectionsOf(assets: Assets): AssetSection[] {
+  return ASSET_SECTIONS.map((section) => section.id).filter((id) => assets[id] !== undefined)
+}
+
+/**
+ * 从素材消息元数据中提取纯素材字段
+ *
+ * 元数据上附带的候选方案等信息不属于素材本身，
+ * 保存为消息内容或作为对话历史发给模型时只使用素材字段。
+ *
+ * @param meta - 素材消息元数据
+ * @returns 纯素材数据（扩展内容只包含已生成的部分）
+ */
+export function pickAssets(meta: AssetsMeta | Assets): Assets {
+  return {
+    title: meta.title,
+    selling_points: meta.selling_points,
+    atmosphere: meta.atmosphere,
+    video_script: meta.video_script,
+    ...(meta.seo_keywords && { seo_keywords: meta.seo_keywords }),
+    ...(meta.hashtags && { hashtags: meta.hashtags }),
+    ...(meta.detail_copy && { detail_copy: meta.detail_copy }),
+    ...(meta.faq && { faq: meta.faq }),
+  }
+}
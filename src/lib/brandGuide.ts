@@ -0,0 +1,78 @@
+/**
+ * 品牌规范工具函数
+ *
+ * 前后端共用的品牌规范处理函数，不依赖服务端能力。
+ */
+
+import type { BrandGuide, EmojiPolicy } from '@/types'
+
+/**
+ * 品牌名称、语气描述及每条用语/示例的最大长度
+ */
+export const BRAND_FIELD_MAX_LENGTH = 500
+
+/**
+ * 示例文案、必备用语、禁用语各自的最大条数
+ */
+export const BRAND_LIST_MAX_ITEMS = 30
+
+/**
+ * 表情符号策略选项（用于界面展示和提示词）
+ */
+export const EMOJI_POLICIES: { id: EmojiPolicy; label: string }[] = [
+  { id: 'allow', label: '不限制' },
+  { id: 'sparing', label: '少量使用' },
+  { id: 'none', label: '禁止使用' },
+]
+
+/**
+ * 判断字符串是否为合法的表情符号策略
+ */
+export function isEmojiPolicy(value: unknown): value is EmojiPolicy {
+  return EMOJI_POLICIES.some((policy) => policy.id === value)
+}
+
+/**
+ * 品牌规范的可编辑内容（不含ID）
+ */
+export type BrandGuideInput = Omit<BrandGuide, 'id'>
+
+function parseList(value: unknown): string[] | null {
+  if (value === undefined || value === null) return []
+  if (!Array.isArray(value) || value.length > BRAND_LIST_MAX_ITEMS) return null
+  const items: string[] = []
+  for (const item of value) {
+    if (typeof item !== 'string' || item.length > BRAND_FIELD_MAX_LENGTH) return null
+    if (item.trim()) items.push(item.trim())
+  }
+  return items
+}
+
+/**
+ * 校验请求中的品牌规范
+ *
+ * 品牌名称必填；其余字段缺少时视为空，表情符号策略默认不限制。
+ *
+ * @param value - 待校验的值
+ * @returns 合法时返回品牌规范内容，否则返回null
+ */
+export function parseBrandGuideInput(value: unknown): BrandGuideInput | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return null
+  const raw = value as Record<string, unknown>
+  const { name, tone = '', emojiPolicy = 'allow' } = raw
+  if (typeof name !== 'string' || !name.trim() || name.length > BRAND_FIELD_MAX_LENGTH) return null
+  if (typeof tone !== 'string' || tone.length > BRAND_FIELD_MAX_LENGTH) return null
+  if (!isEmojiPolicy(emojiPolicy)) return null
+  const examples = parseList(raw.examples)
+  const requiredTerms = parseList(raw.requiredTerms)
+  const forbiddenTerms = parseList(raw.forbiddenTerms)
+  if (!examples || !requiredTerms || !forbiddenTerms) return null
+  return {
+    name: name.trim(),
+    tone: tone.trim(),
+    examples,
+    requiredTerms,
+    forbiddenTerms,
+    emojiPolicy,
+  }
+}
@@ -0,0 +1,293 @@
+/**
+ * 营销活动日历
+ *
+ * 前后端共用的活动日历与自定义活动处理函数，不依赖服务端能力。
+ * 内置常见大促节点（年货节、38女王节、618、双11、双12）的日期范围和推荐的氛围词、标题钩子、
+ * 语气与主图视觉提示；店铺自定义活动按客户端保存（见 /api/campaigns），与内置活动一起按上新日期匹配。
+ */
+
+import type { Campaign } from '@/types'
+
+/**
+ * 自定义活动名称、语气、视觉提示及每条氛围词/钩子的最大长度
+ */
+export const CAMPAIGN_FIELD_MAX_LENGTH = 200
+
+/**
+ * 自定义活动的氛围词、标题钩子各自的最大条数
+ */
+export const CAMPAIGN_LIST_MAX_ITEMS = 10
+
+/**
+ * 活动选择：按上新日期自动匹配
+ */
+export const CAMPAIGN_AUTO = 'auto'
+
+/**
+ * 活动选择：不参与任何活动
+ */
+export const CAMPAIGN_NONE = 'none'
+
+/**
+ * 春节日期（年货节在春节前举办，日期随农历变化）
+ */
+const LUNAR_NEW_YEAR: Record<number, string> = {
+  2024: '02-10',
+  2025: '01-29',
+  2026: '02-17',
+  2027: '02-06',
+  2028: '01-26',
+  2029: '02-13',
+  2030: '02-03',
+  2031: '01-23',
+  2032: '02-11',
+}
+
+/**
+ * 内置活动的定义：range 返回某一年的起止日期
+ */
+type BuiltinCampaign = Omit<Campaign, 'start' | 'end' | 'custom'> & {
+  range: (year: number) => [string, string]
+}
+
+const pad = (n: number) => String(n).padStart(2, '0')
+
+/**
+ * 日期加减天数
+ */
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + days)
+  return `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())}`
+}
+
+/**
+ * 内置大促节点（按一年中的先后排列）
+ */
+const BUILTIN_CAMPAIGNS: BuiltinCampaign[] = [
+  {
+    id: 'nianhuo',
+    name: '年货节',
+    // 春节前25天至前5天；没有收录的年份按2月1日估算
+    range: (year) => {
+      const festival = `${year}-${LUNAR_NEW_YEAR[year] ?? '02-01'}`
+      return [addDays(festival, -25), addDays(festival, -5)]
+    },
+    atmosphere: ['年货节', '新春囤货', '团圆好礼'],
+    hooks: ['年货节', '新春好物'],
+    tone: '喜庆、团圆、热闹',
+    visual: '中国红与金色为主色，搭配灯笼、福字、烟花等新春元素',
+  },
+  {
+    id: 'women38',
+    name: '38女王节',
+    range: (year) => [`${year}-03-01`, `${year}-03-08`],
+    atmosphere: ['女王节', '宠爱自己'],
+    hooks: ['38女王节', '女王专享'],
+    tone: '自信、精致、宠爱自己',
+    visual: '玫瑰粉与香槟金色调，搭配花束、丝带、皇冠元素',
+  },
+  {
+    id: '618',
+    name: '618',
+    range: (year) => [`${year}-05-20`, `${year}-06-18`],
+    atmosphere: ['618狂欢', '年中大促'],
+    hooks: ['618', '年中狂欢'],
+    tone: '热烈、促销感强、突出限时',
+    visual: '红色与橙色高饱和配色，搭配618数字、倒计时、优惠券元素',
+  },
+  {
+    id: 'double11',
+    name: '双11',
+    range: (year) => [`${year}-10-20`, `${year}-11-11`],
+    atmosphere: ['双11狂欢', '囤货季'],
+    hooks: ['双11', '11.11狂欢'],
+    tone: '热烈、紧迫、囤货感',
+    visual: '红色与紫色渐变，搭配11.11数字、礼盒、烟花元素',
+  },
+  {
+    id: 'double12',
+    name: '双12',
+    range: (year) => [`${year}-12-01`, `${year}-12-12`],
+    atmosphere: ['双12', '年终盛典'],
+    hooks: ['双12', '年终好价'],
+    tone: '温暖、年终回馈',
+    visual: '红色与金色，搭配12.12数字、雪花、礼物元素',
+  },
+]
+
+/**
+ * 判断是否为合法的 'YYYY-MM-DD' 日期
+ */
+export function isDateString(value: unknown): value is string {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false
+  return addDays(value, 0) === value
+}
+
+/**
+ * 获取某一年的内置活动
+ *
+ * @param year - 年份
+ * @returns 带具体起止日期的内置活动
+ *
+ * @example
+ * ```typescript
+ * builtinCampaigns(2026).find((c) => c.id === 'nianhuo') // => { name: '年货节', start: '2026-01-23', end: '2026-02-12', ... }
+ * ```
+ */
+export function builtinCampaigns(year: number): Campaign[] {
+  return BUILTIN_CAMPAIGNS.map(({ range, ...campaign }) => {
+    const [start, end] = range(year)
+    return { ...campaign, start, end }
+  })
+}
+
+/**
+ * 判断日期是否在活动的起止日期内
+ */
+function isWithin(campaign: Campaign, date: string): boolean {
+  return campaign.start <= date && date <= campaign.end
+}
+
+/**
+ * 获取上新日期对应的各内置活动
+ *
+ * 活动可能跨年开始（如年货节在春节前25天开始，春节较早的年份从上一年12月开始），
+ * 因此下一年的一期覆盖上新日期时取下一年的，否则取上新日期所在年份的。
+ *
+ * @param launchDate - 可选的上新日期，未指定时取今年的内置活动
+ * @returns 带具体起止日期的内置活动
+ *
+ * @example
+ * ```typescript
+ * builtinCampaignsFor('2030-12-30').find((c) => c.id === 'nianhuo') // => { start: '2030-12-29', end: '2031-01-18', ... }
+ * ```
+ */
+export function builtinCampaignsFor(launchDate?: string): Campaign[] {
+  if (!launchDate) return builtinCampaigns(new Date().getFullYear())
+  const year = Number(launchDate.slice(0, 4))
+  const next = builtinCampaigns(year + 1)
+  return builtinCampaigns(year).map((campaign, i) =>
+    isWithin(next[i], launchDate) ? next[i] : campaign
+  )
+}
+
+/**
+ * 查找上新日期所在的活动
+ *
+ * 自定义活动优先于内置活动；多个活动都覆盖该日期时取列表中靠前的。
+ *
+ * @param date - 上新日期 'YYYY-MM-DD'
+ * @param custom - 店铺自定义活动
+ * @returns 生效的活动，没有时返回null
+ *
+ * @example
+ * ```typescript
+ * findCampaign('2026-11-01')?.name // => '双11'
+ * findCampaign('2026-07-01') // => null
+ * findCampaign('2030-12-30')?.name // => '年货节'（2031年春节为1月23日）
+ * ```
+ */
+export function findCampaign(date: string, custom: Campaign[] = []): Campaign | null {
+  const all = [...custom, ...builtinCampaignsFor(date)]
+  return all.find((campaign) => isWithin(campaign, date)) ?? null
+}
+
+/**
+ * 按ID查找活动
+ *
+ * 内置活动的日期见 builtinCampaignsFor。
+ *
+ * @param id - 活动ID
+ * @param launchDate - 可选的上新日期
+ * @param custom - 店铺自定义活动
+ * @returns 活动，不存在时返回null
+ */
+export function getCampaignById(
+  id: string,
+  launchDate?: string,
+  custom: Campaign[] = []
+): Campaign | null {
+  return [...custom, ...builtinCampaignsFor(launchDate)].find((c) => c.id === id) ?? null
+}
+
+/**
+ * 按用户的选择确定本次生成的活动
+ *
+ * @param choice - CAMPAIGN_AUTO（按上新日期匹配，默认）、CAMPAIGN_NONE（不参与活动）或活动ID
+ * @param launchDate - 可选的上新日期；自动匹配时未指定上新日期则不参与活动
+ * @param custom - 店铺自定义活动
+ * @returns 活动，没有活动时返回null，活动ID不存在时返回undefined
+ */
+export function resolveCampaign(
+  choice: string | undefined,
+  launchDate: string | undefined,
+  custom: Campaign[] = []
+): Campaign | null | undefined {
+  if (choice === CAMPAIGN_NONE) return null
+  if (!choice || choice === CAMPAIGN_AUTO) {
+    return launchDate ? findCampaign(launchDate, custom) : null
+  }
+  return getCampaignById(choice, launchDate, custom) ?? undefined
+}
+
+/**
+ * 活动日期的展示文本
+ *
+ * @example
+ * ```typescript
+ * campaignDateLabel({ ...campaign, start: '2026-10-20', end: '2026-11-11' }) // => '10.20-11.11'
+ * ```
+ */
+export function campaignDateLabel(campaign: Pick<Campaign, 'start' | 'end'>): string {
+  const format = (date: string) => date.slice(5).replace('-', '.')
+  return `${format(campaign.start)}-${format(campaign.end)}`
+}
+
+/**
+ * 自定义活动的可编辑内容（不含ID）
+ */
+export type CampaignInput = Omit<Campaign, 'id' | 'custom'>
+
+function parseList(value: unknown): string[] | null {
+  if (value === undefined || value === null) return []
+  if (!Array.isArray(value) || value.length > CAMPAIGN_LIST_MAX_ITEMS) return null
+  const items: string[] = []
+  for (const item of value) {
+    if (typeof item !== 'string' || item.length > CAMPAIGN_FIELD_MAX_LENGTH) return null
+    if (item.trim()) items.push(item.trim())
+  }
+  return items
+}
+
+/**
+ * 校验请求中的自定义活动
+ *
+ * 名称与起止日期必填，结束日期不能早于开始日期；其余字段缺少时视为空。
+ *
+ * @param value - 待校验的值
+ * @returns 合法时返回活动内容，否则返回null
+ */
+export function parseCampaignInput(value: unknown): CampaignInput | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return null
+  const raw = value as Record<string, unknown>
+  const { name, start, end, tone = '', visual = '' } = raw
+  if (typeof name !== 'string' || !name.trim() || name.length > CAMPAIGN_FIELD_MAX_LENGTH) {
+    return null
+  }
+  if (!isDateString(start) || !isDateString(end) || end < start) return null
+  if (typeof tone !== 'string' || tone.length > CAMPAIGN_FIELD_MAX_LENGTH) return null
+  if (typeof visual !== 'string' || visual.length > CAMPAIGN_FIELD_MAX_LENGTH) return null
+  const atmosphere = parseList(raw.atmosphere)
+  const hooks = parseList(raw.hooks)
+  if (!atmosphere || !hooks) return null
+  return {
+    name: name.trim(),
+    start,
+    end,
+    atmosphere,
+    hooks,
+    tone: tone.trim(),
+    visual: visual.trim(),
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * 竞品信息工具函数
+ *
+ * 前后端共用的竞品信息处理函数，不依赖服务端能力。
+ */
+
+/**
+ * 单次请求最多对比的竞品数
+ */
+export const MAX_COMPETITORS = 5
+
+/**
+ * 每个竞品粘贴内容（标题、卖点等）的最大长度
+ */
+export const COMPETITOR_MAX_LENGTH = 2000
+
+/**
+ * 校验请求中的竞品信息
+ *
+ * @param value - 待校验的值：每项为一个竞品的标题/卖点原文，缺少时视为没有竞品
+ * @returns 去掉空白项后的竞品原文列表，不合法时返回null
+ *
+ * @example
+ * ```typescript
+ * parseCompetitorListings(['某品牌保温杯 12小时保温 大容量', '  ']) // => ['某品牌保温杯 12小时保温 大容量']
+ * parseCompetitorListings('保温杯') // => null
+ * ```
+ */
+export function parseCompetitorListings(value: unknown): string[] | null {
+  if (value === undefined || value === null) return []
+  if (!Array.isArray(value) || value.length > MAX_COMPETITORS) return null
+  const listings: string[] = []
+  for (const item of value) {
+    if (typeof item !== 'string' || item.length > COMPETITOR_MAX_LENGTH) return null
+    if (item.trim()) listings.push(item.trim())
+  }
+  return listings
+}
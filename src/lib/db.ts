@@ -1,5 +1,18 @@
-import type { Conversation, Message } from '@/types'
+import type {
+  AssetsMeta,
+  BrandGuide,
+  Campaign,
+  Conversation,
+  EmojiPolicy,
+  GenerationProvenance,
+  Message,
+  PlatformId,
+  ProductProfile,
+  PromptName,
+} from '@/types'
+import type { Prisma } from '@/generated/prisma/client'
 import { prisma, ensureDatabaseInitialized } from './prisma'
+import { upgradeAssetsMeta } from './assets'
 
 function dateToTimestamp(date: Date | number | string): number {
   if (date instanceof Date) return date.getTime()
@@ -18,23 +31,36 @@ function prismaMessageToMessage(msg: unknown): Message {
     metaData?: unknown
     createdAt: string | number | Date
   }
+  // 旧版本的素材消息在读取时升级到当前结构版本
+  const metaData =
+    m.messageType === 'generated_assets' && typeof m.metaData === 'object' && m.metaData !== null
+      ? upgradeAssetsMeta(m.metaData as AssetsMeta)
+      : (m.metaData ?? null)
   return {
     id: m.id,
     conversationId: m.conversationId,
     role: m.role as 'user' | 'assistant',
     content: m.content,
     messageType: m.messageType as 'text' | 'image_upload' | 'generated_assets',
-    metaData: (m.metaData as unknown) ?? null,
+    metaData,
     createdAt: dateToTimestamp(m.createdAt),
   }
 }
 
 function prismaConversationToConversation(conv: unknown): Conversation {
-  const c = conv as { id: string; createdAt: string | number | Date; title: string | null }
+  const c = conv as {
+    id: string
+    createdAt: string | number | Date
+    title: string | null
+    platform?: string | null
+    brandGuideId?: string | null
+  }
   return {
     id: c.id,
     createdAt: dateToTimestamp(c.createdAt),
     title: c.title,
+    platform: (c.platform as PlatformId | null | undefined) ?? null,
+    brandGuideId: c.brandGuideId ?? null,
   }
 }
 
@@ -55,10 +81,20 @@ export async function ensureConversation(
 }
 
 export async function getConversation(id: string): Promise<Conversation | null> {
+  await ensureDatabaseInitialized()
   const conv = await prisma.conversation.findUnique({ where: { id } })
   return conv ? prismaConversationToConversation(conv) : null
 }
 
+export async function updateConversation(
+  id: string,
+  data: { platform?: PlatformId | null; brandGuideId?: string | null }
+): Promise<Conversation> {
+  await ensureDatabaseInitialized()
+  const updated = await prisma.conversation.update({ where: { id }, data })
+  return prismaConversationToConversation(updated)
+}
+
 export async function listConversations(): Promise<Conversation[]> {
   await ensureDatabaseInitialized()
   const convs = await prisma.conversation.findMany({ orderBy: { createdAt: 'desc' } })
@@ -94,6 +130,15 @@ export async function listMessages(conversationId: string): Promise<Message[]> {
   return messages.map(prismaMessageToMessage)
 }
 
+export async function listMessagesBefore(
+  conversationId: string,
+  messageId: string
+): Promise<Message[]> {
+  const messages = await listMessages(conversationId)
+  const index = messages.findIndex((m) => m.id === messageId)
+  return index >= 0 ? messages.slice(0, index) : messages
+}
+
 export async function addMessage(input: Omit<Message, 'id' | 'createdAt'>): Promise<Message> {
   await ensureDatabaseInitialized()
   const created = await prisma.message.create({
@@ -108,4 +153,346 @@ export async function addMessage(input: Omit<Message, 'id' | 'createdAt'>): Prom
   return prismaMessageToMessage(created)
 }
 
+export async function getMessage(id: string): Promise<Message | null> {
+  await ensureDatabaseInitialized()
+  const msg = await prisma.message.findUnique({ where: { id } })
+  return msg ? prismaMessageToMessage(msg) : null
+}
+
+export async function getMessageForClient(
+  id: string,
+  clientId: string | null
+): Promise<Message | null> {
+  await ensureDatabaseInitialized()
+  const msg = await prisma.message.findUnique({ where: { id }, include: { conversation: true } })
+  if (!msg || (clientId && msg.conversation.title !== clientId)) return null
+  return prismaMessageToMessage(msg)
+}
+
+export async function updateMessage(
+  id: string,
+  data: { content?: string; metaData?: unknown }
+): Promise<Message> {
+  await ensureDatabaseInitialized()
+  const updated = await prisma.message.update({
+    where: { id },
+    data: {
+      content: data.content,
+      metaData: data.metaData as Prisma.InputJsonValue | undefined,
+    },
+  })
+  return prismaMessageToMessage(updated)
+}
+
+/**
+ * 记录素材消息使用的提示词模板版本
+ *
+ * 用一条 UPDATE 语句（SQLite 的 json_patch）只合并 metaData.prompts 中的一个键，
+ * 不会与同一条消息上并发的其他更新（如选定候选方案、重试、重新生成）互相覆盖。
+ *
+ * @param id - 消息ID
+ * @param name - 提示词模板名称
+ * @param version - 使用的模板版本
+ */
+export async function setMessagePromptVersion(
+  id: string,
+  name: PromptName,
+  version: string
+): Promise<void> {
+  await ensureDatabaseInitialized()
+  await prisma.$executeRaw`UPDATE "Message" SET "metaData" = json_patch(COALESCE("metaData", '{}'), json_object('prompts', json_object(${name}, ${version}))) WHERE "id" = ${id}`
+}
+
+/**
+ * 用量记录
+ */
+export type UsageRecordInput = {
+  conversationId: string
+  messageId: string | null
+  kind: 'text' | 'image'
+  provider: string
+  model: string | null
+  promptTokens?: number
+  completionTokens?: number
+  images?: number
+  cost: number
+}
+
+/**
+ * 按模型分组的用量合计
+ */
+export type UsageGroup = {
+  kind: string
+  provider: string
+  model: string | null
+  calls: number
+  promptTokens: number
+  completionTokens: number
+  images: number
+  cost: number
+}
+
+export async function addUsageRecords(records: UsageRecordInput[]): Promise<void> {
+  if (records.length === 0) return
+  await ensureDatabaseInitialized()
+  await prisma.usage.createMany({ data: records })
+}
+
+export async function sumUsageByModel(filter: {
+  conversationId?: string
+  clientId?: string
+}): Promise<UsageGroup[]> {
+  await ensureDatabaseInitialized()
+  const groups = await prisma.usage.groupBy({
+    by: ['kind', 'provider', 'model'],
+    where: {
+      conversationId: filter.conversationId,
+      conversation: filter.clientId !== undefined ? { title: filter.clientId } : undefined,
+    },
+    _count: { _all: true },
+    _sum: { promptTokens: true, completionTokens: true, images: true, cost: true },
+  })
+  return groups.map((g) => ({
+    kind: g.kind,
+    provider: g.provider,
+    model: g.model,
+    calls: g._count._all,
+    promptTokens: g._sum.promptTokens ?? 0,
+    completionTokens: g._sum.completionTokens ?? 0,
+    images: g._sum.images ?? 0,
+    cost: g._sum.cost ?? 0,
+  }))
+}
+
+function jsonStringList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string')
+    : []
+}
+
+function prismaProductToProfile(product: unknown): ProductProfile {
+  const p = product as Omit<ProductProfile, 'specs' | 'differentiators'> & {
+    specs: unknown
+    differentiators: unknown
+  }
+  return {
+    name: p.name,
+    brand: p.brand,
+    category: p.category,
+    priceRange: p.priceRange,
+    specs: jsonStringList(p.specs),
+    audience: p.audience,
+    differentiators: jsonStringList(p.differentiators),
+  }
+}
+
+export async function getProductProfile(conversationId: string): Promise<ProductProfile | null> {
+  await ensureDatabaseInitialized()
+  const product = await prisma.product.findUnique({ where: { conversationId } })
+  return product ? prismaProductToProfile(product) : null
+}
+
+export async function saveProductProfile(
+  conversationId: string,
+  profile: ProductProfile
+): Promise<ProductProfile> {
+  await ensureDatabaseInitialized()
+  const saved = await prisma.product.upsert({
+    where: { conversationId },
+    create: { conversationId, ...profile },
+    update: profile,
+  })
+  return prismaProductToProfile(saved)
+}
+
+function prismaBrandGuideToBrandGuide(guide: unknown): BrandGuide {
+  const g = guide as {
+    id: string
+    name: string
+    tone: string
+    examples: unknown
+    requiredTerms: unknown
+    forbiddenTerms: unknown
+    emojiPolicy: string
+  }
+  return {
+    id: g.id,
+    name: g.name,
+    tone: g.tone,
+    examples: jsonStringList(g.examples),
+    requiredTerms: jsonStringList(g.requiredTerms),
+    forbiddenTerms: jsonStringList(g.forbiddenTerms),
+    emojiPolicy: g.emojiPolicy as EmojiPolicy,
+  }
+}
+
+export async function listBrandGuides(clientId: string): Promise<BrandGuide[]> {
+  await ensureDatabaseInitialized()
+  const guides = await prisma.brandGuide.findMany({
+    where: { clientId },
+    orderBy: { createdAt: 'asc' },
+  })
+  return guides.map(prismaBrandGuideToBrandGuide)
+}
+
+export async function getBrandGuideForClient(
+  id: string,
+  clientId: string | null
+): Promise<BrandGuide | null> {
+  await ensureDatabaseInitialized()
+  const guide = await prisma.brandGuide.findUnique({ where: { id } })
+  if (!guide || (clientId && guide.clientId !== clientId)) return null
+  return prismaBrandGuideToBrandGuide(guide)
+}
+
+export async function getConversationBrandGuide(
+  conversationId: string
+): Promise<BrandGuide | null> {
+  await ensureDatabaseInitialized()
+  const conv = await prisma.conversation.findUnique({
+    where: { id: conversationId },
+    include: { brandGuide: true },
+  })
+  return conv?.brandGuide ? prismaBrandGuideToBrandGuide(conv.brandGuide) : null
+}
+
+export async function createBrandGuide(
+  clientId: string,
+  data: Omit<BrandGuide, 'id'>
+): Promise<BrandGuide> {
+  await ensureDatabaseInitialized()
+  const created = await prisma.brandGuide.create({ data: { clientId, ...data } })
+  return prismaBrandGuideToBrandGuide(created)
+}
+
+export async function updateBrandGuide(
+  id: string,
+  data: Omit<BrandGuide, 'id'>
+): Promise<BrandGuide> {
+  await ensureDatabaseInitialized()
+  const updated = await prisma.brandGuide.update({ where: { id }, data })
+  return prismaBrandGuideToBrandGuide(updated)
+}
+
+export async function deleteBrandGuide(id: string): Promise<void> {
+  await ensureDatabaseInitialized()
+  // 选用了该规范的会话恢复为未选用
+  await prisma.conversation.updateMany({
+    where: { brandGuideId: id },
+    data: { brandGuideId: null },
+  })
+  await prisma.brandGuide.delete({ where: { id } })
+}
+
+function prismaCampaignEventToCampaign(event: unknown): Campaign {
+  const e = event as {
+    id: string
+    name: string
+    startDate: string
+    endDate: string
+    atmosphere: unknown
+    hooks: unknown
+    tone: string
+    visual: string
+  }
+  return {
+    id: e.id,
+    name: e.name,
+    start: e.startDate,
+    end: e.endDate,
+    atmosphere: jsonStringList(e.atmosphere),
+    hooks: jsonStringList(e.hooks),
+    tone: e.tone,
+    visual: e.visual,
+    custom: true,
+  }
+}
+
+function campaignToPrismaData(data: Omit<Campaign, 'id' | 'custom'>) {
+  const { start, end, ...rest } = data
+  return { ...rest, startDate: start, endDate: end }
+}
+
+export async function listCampaignEvents(clientId: string): Promise<Campaign[]> {
+  await ensureDatabaseInitialized()
+  const events = await prisma.campaignEvent.findMany({
+    where: { clientId },
+    orderBy: { startDate: 'asc' },
+  })
+  return events.map(prismaCampaignEventToCampaign)
+}
+
+export async function getCampaignEventForClient(
+  id: string,
+  clientId: string | null
+): Promise<Campaign | null> {
+  await ensureDatabaseInitialized()
+  const event = await prisma.campaignEvent.findUnique({ where: { id } })
+  if (!event || (clientId && event.clientId !== clientId)) return null
+  return prismaCampaignEventToCampaign(event)
+}
+
+export async function createCampaignEvent(
+  clientId: string,
+  data: Omit<Campaign, 'id' | 'custom'>
+): Promise<Campaign> {
+  await ensureDatabaseInitialized()
+  const created = await prisma.campaignEvent.create({
+    data: { clientId, ...campaignToPrismaData(data) },
+  })
+  return prismaCampaignEventToCampaign(created)
+}
+
+export async function updateCampaignEvent(
+  id: string,
+  data: Omit<Campaign, 'id' | 'custom'>
+): Promise<Campaign> {
+  await ensureDatabaseInitialized()
+  const updated = await prisma.campaignEvent.update({
+    where: { id },
+    data: campaignToPrismaData(data),
+  })
+  return prismaCampaignEventToCampaign(updated)
+}
+
+export async function deleteCampaignEvent(id: string): Promise<void> {
+  await ensureDatabaseInitialized()
+  await prisma.campaignEvent.delete({ where: { id } })
+}
+
+/**
+ * 模型输出缓存条目
+ */
+export type CacheEntry = {
+  text: string
+  provenance: GenerationProvenance
+  createdAt: number
+}
+
+export async function getCacheEntry(key: string): Promise<CacheEntry | null> {
+  await ensureDatabaseInitialized()
+  const entry = await prisma.generationCache.findUnique({ where: { key } })
+  if (!entry || entry.expiresAt.getTime() <= Date.now()) return null
+  return {
+    text: entry.text,
+    provenance: entry.provenance as GenerationProvenance,
+    createdAt: dateToTimestamp(entry.createdAt),
+  }
+}
+
+export async function setCacheEntry(
+  key: string,
+  data: { text: string; provenance: GenerationProvenance; expiresAt: Date }
+): Promise<void> {
+  await ensureDatabaseInitialized()
+  const provenance = data.provenance as Prisma.InputJsonValue
+  await prisma.generationCache.upsert({
+    where: { key },
+    create: { key, text: data.text, provenance, expiresAt: data.expiresAt },
+    update: { text: data.text, provenance, createdAt: new Date(), expiresAt: data.expiresAt },
+  })
+  // 顺带清理已过期的条目
+  await prisma.generationCache.deleteMany({ where: { expiresAt: { lte: new Date() } } })
+}
+
 export type { Conversation, Message }
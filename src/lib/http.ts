@@ -77,3 +77,235 @@ export async function postJson<T>(
   // 解析并返回JSON数据
   return (await response.json()) as T
 }
+
+/**
+ * 发送PATCH请求并解析JSON响应
+ *
+ * @param url - 请求的URL地址
+ * @param body - 要发送的数据对象（会被自动序列化为JSON）
+ * @returns 解析后的JSON数据，类型为泛型T
+ * @throws 如果请求失败或响应状态码不是2xx，抛出包含错误信息的异常
+ */
+export async function patchJson<T>(
+  url: string,
+  body: unknown,
+  headers?: Record<string, string>
+): Promise<T> {
+  const response = await fetch(url, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(headers || {}),
+    },
+    body: JSON.stringify(body),
+  })
+
+  // 检查响应状态码
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => '')
+    throw new Error(
+      `PATCH请求失败: ${url} - HTTP ${response.status} ${response.statusText} - ${errorText}`
+    )
+  }
+
+  // 解析并返回JSON数据
+  return (await response.json()) as T
+}
+
+/**
+ * 发送PUT请求并解析JSON响应
+ *
+ * @param url - 请求的URL地址
+ * @param body - 要发送的数据对象（会被自动序列化为JSON）
+ * @returns 解析后的JSON数据，类型为泛型T
+ * @throws 如果请求失败或响应状态码不是2xx，抛出包含错误信息的异常
+ */
+export async function putJson<T>(
+  url: string,
+  body: unknown,
+  headers?: Record<string, string>
+): Promise<T> {
+  const response = await fetch(url, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(headers || {}),
+    },
+    body: JSON.stringify(body),
+  })
+
+  // 检查响应状态码
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => '')
+    throw new Error(
+      `PUT请求失败: ${url} - HTTP ${response.status} ${response.statusText} - ${errorText}`
+    )
+  }
+
+  // 解析并返回JSON数据
+  return (await response.json()) as T
+}
+
+/**
+ * 发送DELETE请求并解析JSON响应
+ *
+ * @param url - 请求的URL地址
+ * @returns 解析后的JSON数据，类型为泛型T
+ * @throws 如果请求失败或响应状态码不是2xx，抛出包含错误信息的异常
+ */
+export async function deleteJson<T>(url: string, headers?: Record<string, string>): Promise<T> {
+  const response = await fetch(url, { method: 'DELETE', headers })
+
+  // 检查响应状态码
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => '')
+    throw new Error(
+      `DELETE请求失败: ${url} - HTTP ${response.status} ${response.statusText} - ${errorText}`
+    )
+  }
+
+  // 解析并返回JSON数据
+  return (await response.json()) as T
+}
+
+/**
+ * 下载文件：发送GET请求，把响应保存为本地文件
+ *
+ * 需要携带请求头（如 X-Client-Id）的下载无法直接使用链接，先取回内容再触发浏览器下载。
+ *
+ * @param url - 请求的URL地址
+ * @param filename - 保存的文件名
+ * @throws 如果请求失败或响应状态码不是2xx，抛出包含错误信息的异常
+ *
+ * @example
+ * ```typescript
+ * await downloadFile('/api/assets/msg-123/export?format=srt', 'script.srt', { 'X-Client-Id': clientId });
+ * ```
+ */
+export async function downloadFile(
+  url: string,
+  filename: string,
+  headers?: Record<string, string>
+): Promise<void> {
+  const response = await fetch(url, { headers })
+
+  // 检查响应状态码
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => '')
+    throw new Error(
+      `下载失败: ${url} - HTTP ${response.status} ${response.statusText} - ${errorText}`
+    )
+  }
+
+  const objectUrl = URL.createObjectURL(await response.blob())
+  const link = document.createElement('a')
+  link.href = objectUrl
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(objectUrl)
+}
+
+/**
+ * 服务器推送事件（SSE）
+ *
+ * @property event - 事件名称，未指定时为 'message'
+ * @property data - 事件数据（多行data会以换行符拼接）
+ */
+export interface ServerSentEvent {
+  event: string
+  data: string
+}
+
+/**
+ * 逐条读取SSE事件流
+ *
+ * 按照 text/event-stream 格式解析响应体，每解析出一个完整事件就调用一次回调。
+ * 服务端与浏览器端均可使用（仅依赖 Web Streams API）。
+ *
+ * @param body - 响应体流
+ * @param onEvent - 每个事件的回调函数
+ * @returns Promise，在流结束后resolve
+ */
+export async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: ServerSentEvent) => void
+): Promise<void> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  // 解析一个事件块（以空行分隔）
+  const dispatch = (block: string) => {
+    let event = 'message'
+    const data: string[] = []
+    for (const line of block.split('\n')) {
+      if (!line || line.startsWith(':')) continue
+      const idx = line.indexOf(':')
+      const field = idx >= 0 ? line.slice(0, idx) : line
+      const value = idx >= 0 ? line.slice(idx + 1).replace(/^ /, '') : ''
+      if (field === 'event') event = value
+      else if (field === 'data') data.push(value)
+    }
+    if (data.length > 0) onEvent({ event, data: data.join('\n') })
+  }
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n?/g, '\n')
+
+    let boundary = buffer.indexOf('\n\n')
+    while (boundary >= 0) {
+      dispatch(buffer.slice(0, boundary))
+      buffer = buffer.slice(boundary + 2)
+      boundary = buffer.indexOf('\n\n')
+    }
+  }
+
+  // 处理末尾没有空行结束的事件
+  buffer += decoder.decode()
+  if (buffer.trim().length > 0) dispatch(buffer)
+}
+
+/**
+ * 发送POST请求并以SSE方式读取响应
+ *
+ * @param url - 请求的URL地址
+ * @param body - 要发送的数据对象（会被自动序列化为JSON）
+ * @param onEvent - 每个事件的回调函数
+ * @param headers - 额外的请求头
+ * @throws 如果请求失败或响应状态码不是2xx，抛出包含错误信息的异常
+ *
+ * @example
+ * ```typescript
+ * await postEventStream('/api/chat', { text: '蓝牙耳机', stream: true }, (evt) => {
+ *   if (evt.event === 'delta') console.log(JSON.parse(evt.data).text)
+ * })
+ * ```
+ */
+export async function postEventStream(
+  url: string,
+  body: unknown,
+  onEvent: (event: ServerSentEvent) => void,
+  headers?: Record<string, string>
+): Promise<void> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'text/event-stream',
+      ...(headers || {}),
+    },
+    body: JSON.stringify(body),
+  })
+
+  // 检查响应状态码
+  if (!response.ok || !response.body) {
+    const errorText = await response.text().catch(() => '')
+    throw new Error(
+      `POST请求失败: ${url} - HTTP ${response.status} ${response.statusText} - ${errorText}`
+    )
+  }
+
+  await readEventStream(response.body, onEvent)
+}
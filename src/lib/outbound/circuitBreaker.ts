@@ -0,0 +1,96 @@
+/**
+ * 外部服务调用 - 熔断器
+ *
+ * 按服务名称记录连续失败次数（一次调用的所有重试都失败才算一次失败）：
+ * - 关闭：正常放行
+ * - 打开：连续失败达到阈值后进入，冷却期内直接拒绝调用，让调用方立即回退
+ * - 半开：冷却结束后放行一次试探调用，成功则关闭，失败则重新打开
+ *
+ * 状态保存在进程内存中，服务重启后重置。
+ */
+
+/**
+ * 熔断器配置
+ *
+ * @property failureThreshold - 连续失败多少次后打开熔断
+ * @property cooldownMs - 打开后的冷却时长（毫秒）
+ */
+export interface CircuitBreakerOptions {
+  failureThreshold: number
+  cooldownMs: number
+}
+
+/**
+ * 默认熔断器配置
+ */
+export const DEFAULT_CIRCUIT_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 5,
+  cooldownMs: 30_000,
+}
+
+interface CircuitState {
+  failures: number
+  openedAt: number | null
+  probing: boolean
+}
+
+const circuits = new Map<string, CircuitState>()
+
+function getState(service: string): CircuitState {
+  let state = circuits.get(service)
+  if (!state) {
+    state = { failures: 0, openedAt: null, probing: false }
+    circuits.set(service, state)
+  }
+  return state
+}
+
+/**
+ * 申请一次调用
+ *
+ * @param service - 服务名称
+ * @param options - 熔断器配置
+ * @returns 允许调用时返回null；熔断中返回可以再次尝试的时间戳
+ */
+export function acquire(service: string, options: CircuitBreakerOptions): number | null {
+  const state = getState(service)
+  if (state.openedAt === null) return null
+
+  const retryAt = state.openedAt + options.cooldownMs
+  // 冷却结束后只放行一个试探调用
+  if (Date.now() >= retryAt && !state.probing) {
+    state.probing = true
+    return null
+  }
+  return retryAt
+}
+
+/**
+ * 记录调用成功，关闭熔断
+ */
+export function recordSuccess(service: string): void {
+  const state = getState(service)
+  state.failures = 0
+  state.openedAt = null
+  state.probing = false
+}
+
+/**
+ * 记录调用失败，达到阈值（或试探失败）时打开熔断
+ */
+export function recordFailure(service: string, options: CircuitBreakerOptions): void {
+  const state = getState(service)
+  state.failures++
+  if (state.probing || state.failures >= options.failureThreshold) {
+    if (state.openedAt === null) console.warn(`${service} 连续失败${state.failures}次，已熔断`)
+    state.openedAt = Date.now()
+    state.probing = false
+  }
+}
+
+/**
+ * 调用被调用方取消时释放试探名额，不计入成功或失败
+ */
+export function releaseProbe(service: string): void {
+  getState(service).probing = false
+}
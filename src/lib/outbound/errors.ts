@@ -0,0 +1,116 @@
+/**
+ * 外部服务调用 - 错误类型
+ *
+ * 所有通过 outboundFetch 发起的调用失败时都会抛出 OutboundError 的子类，
+ * 调用方可以用 instanceof 区分配额不足、超时、服务熔断等情况，决定回退还是提示用户。
+ */
+
+/**
+ * 外部服务调用错误基类
+ *
+ * @property service - 服务名称（同时也是熔断器的键），如 'doubao'、'doubao-image'
+ * @property retryable - 是否属于可重试的临时性错误
+ */
+export class OutboundError extends Error {
+  readonly service: string
+  readonly retryable: boolean
+
+  constructor(service: string, message: string, retryable: boolean, options?: ErrorOptions) {
+    super(message, options)
+    this.name = 'OutboundError'
+    this.service = service
+    this.retryable = retryable
+  }
+}
+
+/**
+ * 超时：超过调用截止时间仍未完成
+ *
+ * @property timeoutMs - 本次调用的截止时长（毫秒）
+ */
+export class TimeoutError extends OutboundError {
+  readonly timeoutMs: number
+
+  constructor(service: string, timeoutMs: number) {
+    super(service, `${service} 请求超时（${timeoutMs / 1000}秒）`, true)
+    this.name = 'TimeoutError'
+    this.timeoutMs = timeoutMs
+  }
+}
+
+/**
+ * 配额不足或请求过于频繁（HTTP 429）
+ *
+ * @property retryAfterMs - 服务端通过 Retry-After 建议的等待时长（毫秒），未提供时为null
+ */
+export class QuotaError extends OutboundError {
+  readonly retryAfterMs: number | null
+
+  constructor(service: string, retryAfterMs: number | null, detail?: string) {
+    super(service, `${service} 配额不足或请求过于频繁${detail ? `：${detail}` : ''}`, true)
+    this.name = 'QuotaError'
+    this.retryAfterMs = retryAfterMs
+  }
+}
+
+/**
+ * 服务端返回了非成功状态码（429除外）
+ *
+ * 5xx 视为可重试，4xx 视为请求本身有问题，不重试。
+ *
+ * @property status - HTTP状态码
+ */
+export class UpstreamError extends OutboundError {
+  readonly status: number
+
+  constructor(service: string, status: number, detail?: string) {
+    super(
+      service,
+      `${service} 返回错误 HTTP ${status}${detail ? `：${detail}` : ''}`,
+      status >= 500
+    )
+    this.name = 'UpstreamError'
+    this.status = status
+  }
+}
+
+/**
+ * 网络错误：连接失败、DNS解析失败、连接被重置等
+ */
+export class NetworkError extends OutboundError {
+  constructor(service: string, cause: unknown) {
+    const detail = cause instanceof Error ? cause.message : String(cause)
+    super(service, `${service} 网络错误：${detail}`, true, { cause })
+    this.name = 'NetworkError'
+  }
+}
+
+/**
+ * 熔断：服务近期连续失败，暂停调用直到冷却结束
+ *
+ * @property retryAt - 熔断结束、可以再次尝试的时间戳（毫秒）
+ */
+export class CircuitOpenError extends OutboundError {
+  readonly retryAt: number
+
+  constructor(service: string, retryAt: number) {
+    super(service, `${service} 近期连续失败，已暂停调用`, false)
+    this.name = 'CircuitOpenError'
+    this.retryAt = retryAt
+  }
+}
+
+/**
+ * 回放模式下没有录制过该请求（见 ./fixtures），未发起请求
+ *
+ * @property key - 请求的录制键
+ */
+export class FixtureMissingError extends OutboundError {
+  readonly key: string
+
+  constructor(service: string, key: string) {
+    super(service, `${service} 没有录制过该请求（${key.slice(0, 12)}）`, false)
+    this.name = 'FixtureMissingError'
+    this.key = key
+  }
+}
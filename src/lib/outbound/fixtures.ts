@@ -0,0 +1,105 @@
+/**
+ * 外部服务调用 - 录制与回放
+ *
+ * 供离线评测使用（见 scripts/eval.ts）：
+ * - record：正常发起请求，并把成功的响应按录制键保存下来
+ * - replay：不发起请求，直接返回录制的响应；没有录制过的请求抛出 FixtureMissingError
+ *
+ * 录制键只取服务名称和请求体，不含地址和请求头（密钥），因此回放时可以使用占位的端点与密钥。
+ * 未启用时 outboundFetch 的行为不变。
+ */
+
+import { createHash } from 'crypto'
+import { FixtureMissingError } from './errors'
+
+/**
+ * 录制的响应
+ *
+ * @property status - HTTP状态码
+ * @property contentType - 响应的 Content-Type
+ * @property body - 完整的响应体（流式响应同样整段保存，回放时整段返回）
+ */
+export interface RecordedResponse {
+  status: number
+  contentType: string | null
+  body: string
+}
+
+/**
+ * 录制与回放配置
+ *
+ * @property mode - 'record' 录制，'replay' 回放
+ * @property fixtures - 录制的响应，键为录制键；录制模式下新的响应直接写入该对象
+ * @property missing - 可选，回放时没有录制过的请求的录制键会追加到该数组，供调用方判断回放是否完整
+ */
+export interface OutboundFixtures {
+  mode: 'record' | 'replay'
+  fixtures: Record<string, RecordedResponse>
+  missing?: string[]
+}
+
+let active: OutboundFixtures | null = null
+
+/**
+ * 启用或关闭录制与回放
+ *
+ * @param config - 录制与回放配置，null 表示关闭
+ */
+export function setOutboundFixtures(config: OutboundFixtures | null): void {
+  active = config
+}
+
+/**
+ * 计算请求的录制键
+ *
+ * @param service - 服务名称
+ * @param body - 请求体
+ * @returns SHA-256 十六进制字符串
+ */
+export function fixtureKey(service: string, body: RequestInit['body']): string {
+  const text = typeof body === 'string' ? body : ''
+  return createHash('sha256').update(`${service}\n${text}`).digest('hex')
+}
+
+/**
+ * 按当前的录制与回放配置处理一次调用
+ *
+ * @param service - 服务名称
+ * @param init - fetch 参数
+ * @param send - 实际发起请求的函数
+ * @returns 响应：未启用时为 send 的结果，回放时为录制的响应
+ */
+export async function withFixtures(
+  service: string,
+  init: RequestInit,
+  send: () => Promise<Response>
+): Promise<Response> {
+  if (!active) return send()
+  const { mode, fixtures, missing } = active
+  const key = fixtureKey(service, init.body)
+
+  if (mode === 'replay') {
+    const recorded = fixtures[key]
+    if (!recorded) {
+      missing?.push(key)
+      throw new FixtureMissingError(service, key)
+    }
+    return toResponse(recorded)
+  }
+
+  const response = await send()
+  const recorded: RecordedResponse = {
+    status: response.status,
+    contentType: response.headers.get('content-type'),
+    body: await response.text(),
+  }
+  fixtures[key] = recorded
+  return toResponse(recorded)
+}
+
+function toResponse(recorded: RecordedResponse): Response {
+  return new Response(recorded.body, {
+    status: recorded.status,
+    headers: recorded.contentType ? { 'Content-Type': recorded.contentType } : {},
+  })
+}
@@ -0,0 +1,251 @@
+/**
+ * 外部服务调用客户端
+ *
+ * 服务端调用大模型、图片生成等外部服务时统一使用 outboundFetch，提供：
+ * - 截止时间：整个调用（包括所有重试和响应体读取）超过 timeoutMs 即中止；调用方传入的 signal 仍可随时取消
+ * - 重试：网络错误、429 和 5xx 按带抖动的指数退避重试，服务端返回 Retry-After 时按其等待
+ * - 熔断：同一服务连续失败后暂停调用，直接抛出 CircuitOpenError 让调用方立即回退
+ * - 类型化错误：失败时抛出 OutboundError 的子类（见 ./errors）
+ * - 录制与回放：离线评测时可以录制响应或回放录制的响应（见 ./fixtures）
+ */
+
+import {
+  acquire,
+  recordFailure,
+  recordSuccess,
+  releaseProbe,
+  DEFAULT_CIRCUIT_OPTIONS,
+  type CircuitBreakerOptions,
+} from './circuitBreaker'
+import {
+  OutboundError,
+  TimeoutError,
+  QuotaError,
+  UpstreamError,
+  NetworkError,
+  CircuitOpenError,
+} from './errors'
+import { withFixtures } from './fixtures'
+
+/**
+ * 调用选项
+ *
+ * @property service - 服务名称，用于错误信息和熔断器分组，如 'doubao'、'doubao-image'
+ * @property timeoutMs - 整个调用的截止时长（毫秒，默认60秒）
+ * @property retries - 最多重试次数（默认2）
+ * @property baseDelayMs - 退避基准时长（毫秒，默认500）
+ * @property maxDelayMs - 单次退避的最长时长（毫秒，默认8秒）
+ * @property circuit - 熔断器配置，传 false 表示该调用不经过熔断器
+ */
+export interface OutboundOptions {
+  service: string
+  timeoutMs?: number
+  retries?: number
+  baseDelayMs?: number
+  maxDelayMs?: number
+  circuit?: CircuitBreakerOptions | false
+}
+
+/**
+ * 解析 Retry-After 响应头
+ *
+ * @param value - 响应头的值：秒数或HTTP日期
+ * @returns 建议等待的毫秒数，无法解析时返回null
+ */
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now())
+}
+
+/**
+ * 计算第 attempt 次重试前的退避时长（指数退避 + 抖动）
+ */
+function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt)
+  return ceiling / 2 + Math.random() * (ceiling / 2)
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+/**
+ * 包装成功响应的响应体，在读取结束、出错或被取消时回调
+ *
+ * @param response - 成功的响应
+ * @param onEnd - 结束回调：正常读完时不带参数，出错时传入原始错误并返回实际抛给读取方的错误
+ * @returns 响应体被包装后的响应
+ */
+function guardBody(response: Response, onEnd: (error?: unknown) => unknown): Response {
+  if (!response.body) {
+    onEnd()
+    return response
+  }
+  const reader = response.body.getReader()
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read()
+        if (done) {
+          onEnd()
+          controller.close()
+        } else {
+          controller.enqueue(value)
+        }
+      } catch (error) {
+        controller.error(onEnd(error))
+      }
+    },
+    cancel(reason) {
+      onEnd()
+      return reader.cancel(reason)
+    },
+  })
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  })
+}
+
+/**
+ * 读取错误响应体的摘要，用于错误信息
+ */
+async function readErrorDetail(response: Response): Promise<string> {
+  const text = await response.text().catch(() => '')
+  return text.slice(0, 200)
+}
+
+/**
+ * 发起外部服务调用
+ *
+ * 成功（2xx）时返回响应；截止时间同时覆盖响应体读取，超时后读取响应体会抛出 TimeoutError，
+ * 响应体读完后才计入熔断器的成功。调用方通过 init.signal 取消时抛出原始的中止错误，不重试也不计入熔断。
+ * 失败时抛出 OutboundError 的子类：
+ * - TimeoutError：超过截止时间
+ * - QuotaError：429，重试后仍被限流
+ * - UpstreamError：其他非成功状态码
+ * - NetworkError：网络层错误
+ * - CircuitOpenError：服务熔断中，未发起请求
+ * - FixtureMissingError：回放模式下没有录制过该请求
+ *
+ * @param url - 请求地址
+ * @param init - fetch 参数（signal 会与内部的超时信号合并）
+ * @param options - 调用选项
+ * @returns 成功的响应
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   const response = await outboundFetch(endpoint, { method: 'POST', body }, { service: 'doubao' })
+ *   const data = await response.json()
+ * } catch (error) {
+ *   if (error instanceof QuotaError) console.warn('配额不足，稍后再试')
+ *   else if (error instanceof TimeoutError) console.warn('模型响应超时')
+ * }
+ * ```
+ */
+export function outboundFetch(
+  url: string,
+  init: RequestInit,
+  options: OutboundOptions
+): Promise<Response> {
+  return withFixtures(options.service, init, () => send(url, init, options))
+}
+
+/**
+ * 实际发起调用：截止时间、重试与熔断
+ */
+async function send(url: string, init: RequestInit, options: OutboundOptions): Promise<Response> {
+  const {
+    service,
+    timeoutMs = 60_000,
+    retries = 2,
+    baseDelayMs = 500,
+    maxDelayMs = 8_000,
+  } = options
+  const circuit = options.circuit === false ? null : (options.circuit ?? DEFAULT_CIRCUIT_OPTIONS)
+
+  if (circuit) {
+    const retryAt = acquire(service, circuit)
+    if (retryAt !== null) throw new CircuitOpenError(service, retryAt)
+  }
+
+  const deadline = Date.now() + timeoutMs
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), timeoutMs)
+  const signal = init.signal ? AbortSignal.any([init.signal, controller.signal]) : controller.signal
+  const cancelled = () => init.signal?.aborted === true
+
+  /**
+   * 调用结束：清除截止计时，并按结果更新熔断器；返回应抛出的错误
+   */
+  const settle = (error?: unknown): unknown => {
+    clearTimeout(timer)
+    if (error === undefined) {
+      if (circuit) recordSuccess(service)
+      return undefined
+    }
+    if (cancelled()) {
+      if (circuit) releaseProbe(service)
+      return error
+    }
+    const outbound = controller.signal.aborted
+      ? new TimeoutError(service, timeoutMs)
+      : new NetworkError(service, error)
+    if (circuit) recordFailure(service, circuit)
+    return outbound
+  }
+
+  let lastError: OutboundError | null = null
+  for (let attempt = 0; ; attempt++) {
+    let retryAfterMs: number | null = null
+    try {
+      const response = await fetch(url, { ...init, signal })
+      if (response.ok) return guardBody(response, settle)
+      const detail = await readErrorDetail(response)
+      if (response.status === 429) {
+        retryAfterMs = parseRetryAfter(response.headers.get('retry-after'))
+        lastError = new QuotaError(service, retryAfterMs, detail)
+      } else {
+        lastError = new UpstreamError(service, response.status, detail)
+      }
+    } catch (error) {
+      if (cancelled()) throw settle(error)
+      lastError = controller.signal.aborted
+        ? new TimeoutError(service, timeoutMs)
+        : new NetworkError(service, error)
+    }
+
+    if (!lastError.retryable || lastError instanceof TimeoutError || attempt >= retries) break
+
+    // 等待时间超出截止时间时不再重试
+    const delay = retryAfterMs ?? backoffDelay(attempt, baseDelayMs, maxDelayMs)
+    if (Date.now() + delay >= deadline) break
+    console.warn(`${lastError.message}，${Math.round(delay)}ms 后第${attempt + 1}次重试`)
+    await sleep(delay)
+  }
+
+  clearTimeout(timer)
+  // 可重试的错误说明服务本身不可用，计入熔断；4xx等请求错误说明服务正常
+  if (circuit) {
+    if (lastError.retryable) recordFailure(service, circuit)
+    else recordSuccess(service)
+  }
+  throw lastError
+}
+
+export {
+  OutboundError,
+  TimeoutError,
+  QuotaError,
+  UpstreamError,
+  NetworkError,
+  CircuitOpenError,
+  FixtureMissingError,
+} from './errors'
+export type { CircuitBreakerOptions } from './circuitBreaker'
+export { setOutboundFixtures, type OutboundFixtures, type RecordedResponse } from './fixtures'
@@ -0,0 +1,131 @@
+/**
+ * 不完整JSON解析模块
+ *
+ * 流式生成时，模型输出的JSON在结束前总是不完整的。
+ * 本模块会把当前已收到的文本"补全"为合法JSON后再解析，
+ * 使前端可以在生成过程中逐步展示标题、卖点和脚本。
+ */
+
+import type { Assets, FaqItem, VideoScriptSegment } from '@/types'
+
+/**
+ * 为不完整的JSON补上缺失的引号和括号
+ *
+ * @param src - 以 '{' 开头的不完整JSON文本
+ * @returns 补全后的文本（不保证一定是合法JSON）
+ */
+function closeJson(src: string): string {
+  const stack: string[] = []
+  let inString = false
+  let escape = false
+
+  for (const c of src) {
+    if (inString) {
+      if (escape) escape = false
+      else if (c === '\\') escape = true
+      else if (c === '"') inString = false
+      continue
+    }
+    if (c === '"') inString = true
+    else if (c === '{') stack.push('}')
+    else if (c === '[') stack.push(']')
+    else if (c === '}' || c === ']') stack.pop()
+  }
+
+  let out = src
+  if (inString) {
+    // 去掉末尾未完成的转义符，再闭合字符串
+    if (escape) out = out.slice(0, -1)
+    out += '"'
+  } else {
+    // 去掉末尾多余的逗号，避免 [1,] 这类非法结构
+    out = out.replace(/[\s,]+$/, '')
+  }
+
+  return out + stack.reverse().join('')
+}
+
+/**
+ * 解析可能不完整的JSON对象
+ *
+ * 先尝试直接补全解析；失败时逐步回退到上一个分隔符，丢弃不完整的尾部（如半个数字或键名）。
+ *
+ * @param text - 可能包含不完整JSON的文本
+ * @returns 解析出的对象，如果无法解析则返回null
+ *
+ * @example
+ * ```typescript
+ * parsePartialJson('{"title":"优质蓝牙')
+ * // => { title: '优质蓝牙' }
+ * ```
+ */
+export function parsePartialJson(text: string): unknown {
+  const start = text.indexOf('{')
+  if (start < 0) return null
+
+  let src = text.slice(start)
+  for (let attempt = 0; attempt < 16 && src.length > 0; attempt++) {
+    try {
+      return JSON.parse(closeJson(src))
+    } catch {
+      // 回退到上一个分隔符
+      const cut = Math.max(src.lastIndexOf(','), src.lastIndexOf('{'), src.lastIndexOf('['))
+      if (cut < 0) return null
+      const next = src[cut] === ',' ? src.slice(0, cut) : src.slice(0, cut + 1)
+      if (next === src) return null
+      src = next
+    }
+  }
+
+  return null
+}
+
+/**
+ * 从流式输出的文本中提取已生成的素材字段
+ *
+ * 只保留类型正确的字段，未生成完的字段会被省略。
+ *
+ * @param text - 模型当前已输出的文本
+ * @returns 部分素材数据
+ */
+export function parsePartialAssets(text: string): Partial<Assets> {
+  const obj = parsePartialJson(text)
+  if (!obj || typeof obj !== 'object') return {}
+
+  const raw = obj as Record<string, unknown>
+  const result: Partial<Assets> = {}
+
+  if (typeof raw.title === 'string') result.title = raw.title
+  if (typeof raw.atmosphere === 'string') result.atmosphere = raw.atmosphere
+  if (Array.isArray(raw.selling_points)) {
+    result.selling_points = raw.selling_points.filter(
+      (p): p is string => typeof p === 'string' && p.length > 0
+    )
+  }
+  if (Array.isArray(raw.video_script)) {
+    result.video_script = raw.video_script.filter(
+      (seg): seg is VideoScriptSegment =>
+        typeof seg === 'object' &&
+        seg !== null &&
+        typeof (seg as VideoScriptSegment).s === 'number' &&
+        typeof (seg as VideoScriptSegment).v === 'string'
+    )
+  }
+  for (const section of ['seo_keywords', 'hashtags', 'detail_copy'] as const) {
+    const items = raw[section]
+    if (Array.isArray(items)) {
+      result[section] = items.filter((p): p is string => typeof p === 'string' && p.length > 0)
+    }
+  }
+  if (Array.isArray(raw.faq)) {
+    result.faq = raw.faq.filter(
+      (item): item is FaqItem =>
+        typeof item === 'object' &&
+        item !== null &&
+        typeof (item as FaqItem).q === 'string' &&
+        typeof (item as FaqItem).a === 'string'
+    )
+  }
+
+  return result
+}
@@ -19,22 +19,73 @@ export const prisma =
 
 if (process.env.NODE_ENV !== 'production') globalForPrisma.prisma = prisma
 
+/**
+ * 为已存在的旧表补充后续新增的列
+ *
+ * 表结构由下方的建表语句维护，旧数据库中缺少的列在这里按需添加。
+ */
+async function ensureColumns(table: string, columns: Record<string, string>) {
+  const existing = await prisma.$queryRawUnsafe<{ name: string }[]>(`PRAGMA table_info("${table}")`)
+  const names = new Set(existing.map((c) => c.name))
+  for (const [name, definition] of Object.entries(columns)) {
+    if (!names.has(name)) {
+      await prisma.$executeRawUnsafe(`ALTER TABLE "${table}" ADD COLUMN "${name}" ${definition}`)
+    }
+  }
+}
+
 let dbInitialized = false
 export async function ensureDatabaseInitialized() {
   if (dbInitialized) return
   try {
     await prisma.conversation.findFirst()
+    await prisma.usage.findFirst()
+    await prisma.generationCache.findFirst()
+    await prisma.product.findFirst()
+    await prisma.brandGuide.findFirst()
+    await prisma.campaignEvent.findFirst()
     dbInitialized = true
   } catch {
     await prisma.$executeRawUnsafe(
-      'CREATE TABLE IF NOT EXISTS "Conversation" ("id" TEXT NOT NULL PRIMARY KEY, "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP, "title" TEXT)'
+      'CREATE TABLE IF NOT EXISTS "Conversation" ("id" TEXT NOT NULL PRIMARY KEY, "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP, "title" TEXT, "platform" TEXT)'
     )
+    await ensureColumns('Conversation', { platform: 'TEXT', brandGuideId: 'TEXT' })
     await prisma.$executeRawUnsafe(
       'CREATE TABLE IF NOT EXISTS "Message" ("id" TEXT NOT NULL PRIMARY KEY, "conversationId" TEXT NOT NULL, "role" TEXT NOT NULL, "content" TEXT NOT NULL, "messageType" TEXT NOT NULL, "metaData" TEXT, "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP, FOREIGN KEY ("conversationId") REFERENCES "Conversation"("id") ON DELETE CASCADE ON UPDATE CASCADE)'
     )
     await prisma.$executeRawUnsafe(
       'CREATE INDEX IF NOT EXISTS "Message_conversationId_idx" ON "Message"("conversationId")'
     )
+    await prisma.$executeRawUnsafe(
+      'CREATE TABLE IF NOT EXISTS "Usage" ("id" TEXT NOT NULL PRIMARY KEY, "conversationId" TEXT NOT NULL, "messageId" TEXT, "kind" TEXT NOT NULL, "provider" TEXT NOT NULL, "model" TEXT, "promptTokens" INTEGER NOT NULL DEFAULT 0, "completionTokens" INTEGER NOT NULL DEFAULT 0, "images" INTEGER NOT NULL DEFAULT 0, "cost" REAL NOT NULL DEFAULT 0, "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP, FOREIGN KEY ("conversationId") REFERENCES "Conversation"("id") ON DELETE RESTRICT ON UPDATE CASCADE, FOREIGN KEY ("messageId") REFERENCES "Message"("id") ON DELETE SET NULL ON UPDATE CASCADE)'
+    )
+    await prisma.$executeRawUnsafe(
+      'CREATE INDEX IF NOT EXISTS "Usage_conversationId_idx" ON "Usage"("conversationId")'
+    )
+    await prisma.$executeRawUnsafe(
+      'CREATE TABLE IF NOT EXISTS "GenerationCache" ("key" TEXT NOT NULL PRIMARY KEY, "text" TEXT NOT NULL, "provenance" TEXT NOT NULL, "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP, "expiresAt" DATETIME NOT NULL)'
+    )
+    await prisma.$executeRawUnsafe(
+      'CREATE INDEX IF NOT EXISTS "GenerationCache_expiresAt_idx" ON "GenerationCache"("expiresAt")'
+    )
+    await prisma.$executeRawUnsafe(
+      'CREATE TABLE IF NOT EXISTS "Product" ("id" TEXT NOT NULL PRIMARY KEY, "conversationId" TEXT NOT NULL, "name" TEXT NOT NULL DEFAULT \'\', "brand" TEXT NOT NULL DEFAULT \'\', "category" TEXT NOT NULL DEFAULT \'\', "priceRange" TEXT NOT NULL DEFAULT \'\', "specs" TEXT NOT NULL, "audience" TEXT NOT NULL DEFAULT \'\', "differentiators" TEXT NOT NULL, "updatedAt" DATETIME NOT NULL, FOREIGN KEY ("conversationId") REFERENCES "Conversation"("id") ON DELETE RESTRICT ON UPDATE CASCADE)'
+    )
+    await prisma.$executeRawUnsafe(
+      'CREATE UNIQUE INDEX IF NOT EXISTS "Product_conversationId_key" ON "Product"("conversationId")'
+    )
+    await prisma.$executeRawUnsafe(
+      'CREATE TABLE IF NOT EXISTS "BrandGuide" ("id" TEXT NOT NULL PRIMARY KEY, "clientId" TEXT NOT NULL, "name" TEXT NOT NULL, "tone" TEXT NOT NULL DEFAULT \'\', "examples" TEXT NOT NULL, "requiredTerms" TEXT NOT NULL, "forbiddenTerms" TEXT NOT NULL, "emojiPolicy" TEXT NOT NULL DEFAULT \'allow\', "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP, "updatedAt" DATETIME NOT NULL)'
+    )
+    await prisma.$executeRawUnsafe(
+      'CREATE INDEX IF NOT EXISTS "BrandGuide_clientId_idx" ON "BrandGuide"("clientId")'
+    )
+    await prisma.$executeRawUnsafe(
+      'CREATE TABLE IF NOT EXISTS "CampaignEvent" ("id" TEXT NOT NULL PRIMARY KEY, "clientId" TEXT NOT NULL, "name" TEXT NOT NULL, "startDate" TEXT NOT NULL, "endDate" TEXT NOT NULL, "atmosphere" TEXT NOT NULL, "hooks" TEXT NOT NULL, "tone" TEXT NOT NULL DEFAULT \'\', "visual" TEXT NOT NULL DEFAULT \'\', "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP, "updatedAt" DATETIME NOT NULL)'
+    )
+    await prisma.$executeRawUnsafe(
+      'CREATE INDEX IF NOT EXISTS "CampaignEvent_clientId_idx" ON "CampaignEvent"("clientId")'
+    )
     dbInitialized = true
   }
 }
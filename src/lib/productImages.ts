@@ -0,0 +1,89 @@
+/**
+ * 商品图片工具函数
+ *
+ * 前后端共用的商品图片处理函数，不依赖服务端能力。
+ * 一条消息可以附带多张有序的商品图片，每张图片标明用途（主图、细节图、包装图），
+ * 全部图片按顺序发给支持图片输入的模型。
+ */
+
+import type { ProductImage, ProductImageRole } from '@/types'
+
+/**
+ * 单条消息最多附带的图片数
+ */
+export const MAX_PRODUCT_IMAGES = 6
+
+/**
+ * 图片用途选项（用于界面展示和提示词）
+ */
+export const PRODUCT_IMAGE_ROLES: { id: ProductImageRole; label: string }[] = [
+  { id: 'main', label: '主图' },
+  { id: 'detail', label: '细节图' },
+  { id: 'package', label: '包装图' },
+]
+
+/**
+ * 判断字符串是否为合法的图片用途
+ */
+export function isProductImageRole(value: unknown): value is ProductImageRole {
+  return PRODUCT_IMAGE_ROLES.some((role) => role.id === value)
+}
+
+/**
+ * 获取图片用途的中文名称
+ */
+export function productImageRoleLabel(role: ProductImageRole): string {
+  return PRODUCT_IMAGE_ROLES.find((option) => option.id === role)?.label ?? role
+}
+
+/**
+ * 校验请求中的图片列表
+ *
+ * @param value - 待校验的值
+ * @returns 合法时返回图片列表，否则返回null
+ */
+export function parseProductImages(value: unknown): ProductImage[] | null {
+  if (!Array.isArray(value) || value.length > MAX_PRODUCT_IMAGES) return null
+  const images: ProductImage[] = []
+  for (const item of value) {
+    if (typeof item !== 'object' || item === null) return null
+    const { url, role } = item as Record<string, unknown>
+    if (typeof url !== 'string' || url.trim().length === 0 || !isProductImageRole(role)) return null
+    images.push({ url: url.trim(), role })
+  }
+  return images
+}
+
+/**
+ * 读取用户消息元数据中的图片列表
+ *
+ * 兼容只有单张 imageUrl 的旧消息，旧消息的图片视为主图。
+ *
+ * @param metaData - 用户消息的 metaData
+ * @returns 按顺序排列的图片列表，没有图片时为空数组
+ *
+ * @example
+ * ```typescript
+ * messageImages({ imageUrl: 'https://example.com/a.jpg' })
+ * // => [{ url: 'https://example.com/a.jpg', role: 'main' }]
+ * ```
+ */
+export function messageImages(metaData: unknown): ProductImage[] {
+  if (typeof metaData !== 'object' || metaData === null) return []
+  const meta = metaData as { images?: unknown; imageUrl?: unknown }
+  const images = parseProductImages(meta.images)
+  if (images) return images
+  return typeof meta.imageUrl === 'string' && meta.imageUrl
+    ? [{ url: meta.imageUrl, role: 'main' }]
+    : []
+}
+
+/**
+ * 选出用于生成主图的图片：优先第一张主图，没有主图时使用第一张图片
+ *
+ * @param images - 图片列表
+ * @returns 图片URL，没有图片时返回null
+ */
+export function primaryImageUrl(images: ProductImage[]): string | null {
+  return (images.find((image) => image.role === 'main') ?? images[0])?.url ?? null
+}
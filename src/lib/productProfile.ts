@@ -0,0 +1,119 @@
+/**
+ * 商品档案工具函数
+ *
+ * 前后端共用的商品档案处理函数，不依赖服务端能力。
+ */
+
+import type { ProductProfile } from '@/types'
+
+/**
+ * 单个文本字段的最大长度
+ */
+export const PRODUCT_FIELD_MAX_LENGTH = 200
+
+/**
+ * 规格参数、核心差异点的最大条数
+ */
+export const PRODUCT_LIST_MAX_ITEMS = 20
+
+/**
+ * 空的商品档案
+ */
+export const EMPTY_PRODUCT_PROFILE: ProductProfile = {
+  name: '',
+  brand: '',
+  category: '',
+  priceRange: '',
+  specs: [],
+  audience: '',
+  differentiators: [],
+}
+
+/**
+ * 文本字段及其中文名称（用于表单和提示词）
+ */
+export const PRODUCT_TEXT_FIELDS: {
+  id: Exclude<keyof ProductProfile, 'specs' | 'differentiators'>
+  label: string
+}[] = [
+  { id: 'name', label: '商品名称' },
+  { id: 'brand', label: '品牌' },
+  { id: 'category', label: '类目' },
+  { id: 'priceRange', label: '价格区间' },
+  { id: 'audience', label: '目标人群' },
+]
+
+function parseText(value: unknown): string | null {
+  if (value === undefined || value === null) return ''
+  if (typeof value !== 'string' || value.length > PRODUCT_FIELD_MAX_LENGTH) return null
+  return value.trim()
+}
+
+function parseList(value: unknown): string[] | null {
+  if (value === undefined || value === null) return []
+  if (!Array.isArray(value) || value.length > PRODUCT_LIST_MAX_ITEMS) return null
+  const items: string[] = []
+  for (const item of value) {
+    if (typeof item !== 'string' || item.length > PRODUCT_FIELD_MAX_LENGTH) return null
+    if (item.trim()) items.push(item.trim())
+  }
+  return items
+}
+
+/**
+ * 校验请求中的商品档案
+ *
+ * 缺少的字段视为空；文本字段去掉首尾空白，列表字段去掉空项。
+ *
+ * @param value - 待校验的值
+ * @returns 合法时返回商品档案，否则返回null
+ */
+export function parseProductProfile(value: unknown): ProductProfile | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return null
+  const raw = value as Record<string, unknown>
+  const profile: ProductProfile = { ...EMPTY_PRODUCT_PROFILE }
+  for (const field of PRODUCT_TEXT_FIELDS) {
+    const text = parseText(raw[field.id])
+    if (text === null) return null
+    profile[field.id] = text
+  }
+  const specs = parseList(raw.specs)
+  const differentiators = parseList(raw.differentiators)
+  if (!specs || !differentiators) return null
+  return { ...profile, specs, differentiators }
+}
+
+/**
+ * 判断商品档案是否未填写任何内容
+ */
+export function isEmptyProductProfile(profile: ProductProfile | null | undefined): boolean {
+  if (!profile) return true
+  return (
+    PRODUCT_TEXT_FIELDS.every((field) => !profile[field.id]) &&
+    profile.specs.length === 0 &&
+    profile.differentiators.length === 0
+  )
+}
+
+/**
+ * 把商品档案格式化为提示词中的上下文，只包含已填写的字段
+ *
+ * @param profile - 商品档案
+ * @returns 多行文本，档案为空时返回空字符串
+ *
+ * @example
+ * ```typescript
+ * formatProductProfile({ ...EMPTY_PRODUCT_PROFILE, name: '保温杯', specs: ['容量 500ml'] })
+ * // => '商品名称：保温杯\n规格参数：容量 500ml'
+ * ```
+ */
+export function formatProductProfile(profile: ProductProfile): string {
+  const lines = PRODUCT_TEXT_FIELDS.filter((field) => profile[field.id]).map(
+    (field) => `${field.label}：${profile[field.id]}`
+  )
+  if (profile.specs.length > 0) lines.push(`规格参数：${profile.specs.join('；')}`)
+  if (profile.differentiators.length > 0) {
+    lines.push(`核心差异点：${profile.differentiators.join('；')}`)
+  }
+  return lines.join('\n')
+}
@@ -0,0 +1,151 @@
+/**
+ * OpenAI Chat Completions 兼容协议
+ *
+ * 豆包（火山方舟）与各类OpenAI兼容接口都使用 chat/completions 协议，
+ * 只在消息格式、token上限字段等细节上有差异。
+ * 本模块提供通用的请求/响应处理，具体差异由各提供方通过选项指定。
+ */
+
+import type { ProductImage } from '@/types'
+import { readEventStream } from '../http'
+import { outboundFetch } from '../outbound'
+import type { ChatMessage, LLMProvider, ProviderId, ProviderRequest, TokenUsage } from './types'
+
+/**
+ * 接口配置
+ *
+ * @property apiKey - API密钥
+ * @property endpoint - chat/completions 完整URL
+ * @property model - 模型名称
+ */
+export interface ChatCompletionsConfig {
+  apiKey: string
+  endpoint: string
+  model: string
+}
+
+/**
+ * 创建兼容提供方的选项
+ */
+export interface ChatCompletionsProviderOptions {
+  id: ProviderId
+  label: string
+  /** 是否支持图片输入 */
+  supportsVision: () => boolean
+  /** 读取配置，缺少必要配置时返回null */
+  getConfig: (model?: string) => ChatCompletionsConfig | null
+  /** 将消息转换为接口所需的格式 */
+  mapMessages: (messages: ChatMessage[], images?: ProductImage[]) => unknown[]
+  /** 最大生成token数使用的字段名 */
+  tokenLimitField: 'max_completion_tokens' | 'max_tokens'
+}
+
+/**
+ * 请求截止时长（毫秒）：流式输出需要读完整个响应，给更长的时间
+ */
+const REQUEST_TIMEOUT_MS = 60_000
+const STREAM_TIMEOUT_MS = 180_000
+
+/**
+ * 解析响应中的 usage 字段
+ *
+ * @param usage - 接口返回的 usage 对象（prompt_tokens、completion_tokens）
+ * @returns token用量，字段缺失时返回null
+ */
+function parseUsage(usage: unknown): TokenUsage | null {
+  if (typeof usage !== 'object' || usage === null) return null
+  const { prompt_tokens, completion_tokens } = usage as Record<string, unknown>
+  if (typeof prompt_tokens !== 'number' && typeof completion_tokens !== 'number') return null
+  return {
+    promptTokens: typeof prompt_tokens === 'number' ? prompt_tokens : 0,
+    completionTokens: typeof completion_tokens === 'number' ? completion_tokens : 0,
+  }
+}
+
+/**
+ * 创建基于 chat/completions 协议的提供方
+ *
+ * @param options - 提供方选项
+ * @returns 提供方实例
+ */
+export function createChatCompletionsProvider(
+  options: ChatCompletionsProviderOptions
+): LLMProvider {
+  const { id, label, getConfig, mapMessages, tokenLimitField } = options
+
+  // 发起请求（超时、重试与熔断由 outboundFetch 处理，失败时抛出类型化错误）
+  function request(config: ChatCompletionsConfig, req: ProviderRequest, stream: boolean) {
+    return outboundFetch(
+      config.endpoint,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${config.apiKey}`,
+        },
+        body: JSON.stringify({
+          model: config.model,
+          messages: mapMessages(req.messages, req.images),
+          [tokenLimitField]: req.maxTokens,
+          stream,
+          // 流式输出默认不返回用量，需要显式要求在最后一个事件中附带
+          ...(stream ? { stream_options: { include_usage: true } } : {}),
+        }),
+      },
+      { service: label, timeoutMs: stream ? STREAM_TIMEOUT_MS : REQUEST_TIMEOUT_MS }
+    )
+  }
+
+  return {
+    id,
+    label,
+    get supportsVision() {
+      return options.supportsVision()
+    },
+    supportsStream: true,
+
+    isConfigured() {
+      return getConfig() !== null
+    },
+
+    modelName(model) {
+      return getConfig(model)?.model ?? null
+    },
+
+    async generate(req) {
+      const config = getConfig(req.model)
+      if (!config) return null
+
+      const response = await request(config, req, false)
+
+      // 解析响应并提取生成的文本与用量
+      const data = await response.json()
+      const text = data?.choices?.[0]?.message?.content ?? ''
+      return { text: text as string, usage: parseUsage(data?.usage) }
+    },
+
+    async stream(req, onDelta) {
+      const config = getConfig(req.model)
+      if (!config) return null
+
+      const response = await request(config, req, true)
+      if (!response.body) return null
+
+      // 逐条解析 data: {...} 事件，拼接 choices[0].delta.content；用量在最后一个事件中
+      let text = ''
+      let usage: TokenUsage | null = null
+      await readEventStream(response.body, ({ data }) => {
+        if (data === '[DONE]') return
+        const chunk = JSON.parse(data)
+        usage = parseUsage(chunk?.usage) ?? usage
+        const delta = chunk?.choices?.[0]?.delta?.content
+        if (typeof delta === 'string' && delta.length > 0) {
+          text += delta
+          onDelta(delta)
+        }
+      })
+
+      return { text, usage }
+    },
+  }
+}
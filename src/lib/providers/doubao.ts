@@ -0,0 +1,69 @@
+/**
+ * 豆包（火山方舟）提供方
+ *
+ * 环境变量配置：
+ * - DOUBAO_API_KEY: 豆包API密钥
+ * - DOUBAO_ENDPOINT: 豆包API端点URL
+ * - DOUBAO_MODEL: 默认的模型名称（默认：doubao-seed-1-6-251015），可按任务在路由表中改用其他模型（见 ./routing）
+ */
+
+import type { ProductImage } from '@/types'
+import { createChatCompletionsProvider } from './chatCompletions'
+import { carriesImages, describeImages } from './images'
+import type { ChatMessage } from './types'
+
+/**
+ * 将消息转换为豆包API所需的格式
+ *
+ * 所有消息都使用内容数组格式；如果最后一条用户消息有图片，则按顺序附加全部图片输入，
+ * 并在文本中说明每张图片的用途。
+ *
+ * @param messages - 对话消息列表
+ * @param images - 可选的商品图片（按顺序）
+ * @returns 豆包API的messages参数
+ */
+function mapDoubaoMessages(messages: ChatMessage[], images?: ProductImage[]) {
+  return messages.map((m, idx) => {
+    // 如果是最后一条用户消息且提供了图片，则添加图片输入
+    if (carriesImages(m, idx, messages, images)) {
+      return {
+        role: 'user',
+        content: [
+          ...images.map((image) => ({ type: 'image_url', image_url: { url: image.url } })),
+          { type: 'text', text: `${m.content}\n\n${describeImages(images)}` },
+        ],
+      }
+    }
+
+    // 普通文本消息
+    return {
+      role: m.role,
+      content: [{ type: 'text', text: m.content }],
+    }
+  })
+}
+
+/**
+ * 豆包提供方实例
+ */
+export const doubaoProvider = createChatCompletionsProvider({
+  id: 'doubao',
+  label: '豆包',
+  supportsVision: () => true,
+  getConfig(model) {
+    const apiKey = process.env.DOUBAO_API_KEY
+    const endpoint = process.env.DOUBAO_ENDPOINT
+
+    // 如果缺少必要的配置，直接返回null
+    if (!apiKey || !endpoint) return null
+
+    // 选择使用的模型（优先使用传入的模型，否则使用环境变量，最后使用默认值）
+    return {
+      apiKey,
+      endpoint,
+      model: model || process.env.DOUBAO_MODEL || 'doubao-seed-1-6-251015',
+    }
+  },
+  mapMessages: mapDoubaoMessages,
+  tokenLimitField: 'max_completion_tokens',
+})
@@ -0,0 +1,37 @@
+/**
+ * 文本生成提供方 - 图片输入辅助函数
+ */
+
+import type { ProductImage } from '@/types'
+import { productImageRoleLabel } from '@/lib/productImages'
+import type { ChatMessage } from './types'
+
+/**
+ * 生成图片说明，告诉模型每张图片的用途
+ *
+ * @param images - 按顺序排列的商品图片
+ * @returns 说明文字，没有图片时为空字符串
+ *
+ * @example
+ * ```typescript
+ * describeImages([{ url: 'a.jpg', role: 'main' }, { url: 'b.jpg', role: 'package' }])
+ * // => '附带2张商品图片：第1张为主图，第2张为包装图。'
+ * ```
+ */
+export function describeImages(images: ProductImage[]): string {
+  if (images.length === 0) return ''
+  const parts = images.map((image, i) => `第${i + 1}张为${productImageRoleLabel(image.role)}`)
+  return `附带${images.length}张商品图片：${parts.join('，')}。`
+}
+
+/**
+ * 判断消息是否为附带图片的消息（最后一条用户消息）
+ */
+export function carriesImages(
+  message: ChatMessage,
+  index: number,
+  messages: ChatMessage[],
+  images?: ProductImage[]
+): images is ProductImage[] {
+  return message.role === 'user' && !!images && images.length > 0 && index === messages.length - 1
+}
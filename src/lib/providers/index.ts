@@ -0,0 +1,90 @@
+/**
+ * 文本生成提供方注册表
+ *
+ * 根据配置决定按什么顺序尝试哪些提供方。
+ *
+ * 环境变量配置：
+ * - LLM_PROVIDERS: 逗号分隔的提供方顺序（默认：doubao），可选 doubao、openai、ollama、mock
+ *
+ * 未完成配置的提供方会被跳过；模拟数据提供方始终作为最后的兜底。
+ */
+
+import { doubaoProvider } from './doubao'
+import { openaiProvider } from './openai'
+import { ollamaProvider } from './ollama'
+import { mockProvider } from './mock'
+import type { LLMProvider, ProviderId, ProviderRequest } from './types'
+
+/**
+ * 所有可用的提供方
+ */
+const PROVIDERS: Record<ProviderId, LLMProvider> = {
+  doubao: doubaoProvider,
+  openai: openaiProvider,
+  ollama: ollamaProvider,
+  mock: mockProvider,
+}
+
+function isProviderId(id: string): id is ProviderId {
+  return Object.prototype.hasOwnProperty.call(PROVIDERS, id)
+}
+
+/**
+ * 获取按配置排序的提供方链
+ *
+ * @returns 已配置的提供方列表，末尾始终是模拟数据提供方
+ *
+ * @example
+ * ```typescript
+ * // LLM_PROVIDERS=openai,doubao
+ * getProviderChain().map((p) => p.id) // => ['openai', 'doubao', 'mock']（取决于密钥是否配置）
+ * ```
+ */
+export function getProviderChain(): LLMProvider[] {
+  const ids = (process.env.LLM_PROVIDERS || 'doubao')
+    .split(',')
+    .map((id) => id.trim().toLowerCase())
+    .filter(Boolean)
+
+  const chain: LLMProvider[] = []
+  for (const id of ids) {
+    if (!isProviderId(id)) {
+      console.warn(`未知的文本生成提供方: ${id}`)
+      continue
+    }
+    const provider = PROVIDERS[id]
+    if (id === 'mock' || chain.includes(provider) || !provider.isConfigured()) continue
+    chain.push(provider)
+  }
+
+  chain.push(mockProvider)
+  return chain
+}
+
+/**
+ * 根据提供方能力调整请求
+ *
+ * 不支持图片输入的提供方只接收文本，避免接口直接报错。
+ *
+ * @param provider - 目标提供方
+ * @param request - 原始请求
+ * @returns 适配后的请求
+ */
+export function adaptRequest(provider: LLMProvider, request: ProviderRequest): ProviderRequest {
+  if (request.images?.length && !provider.supportsVision) {
+    console.warn(`${provider.label} 不支持图片输入，已改为纯文本请求`)
+    return { ...request, images: undefined }
+  }
+  return request
+}
+
+export { resolveRoute, type ModelTier, type ResolvedRoute, type TaskRoute } from './routing'
+export type {
+  ChatMessage,
+  LLMProvider,
+  ModelTask,
+  ProviderId,
+  ProviderRequest,
+  ProviderResult,
+  TokenUsage,
+} from './types'
@@ -0,0 +1,113 @@
+/**
+ * 模拟数据提供方
+ *
+ * 当所有真实模型都不可用时使用，确保系统始终能够返回数据。
+ * 始终位于提供方链的末尾。
+ */
+
+import type { Campaign } from '@/types'
+import type { LLMProvider } from './types'
+
+/**
+ * 模拟生成电商素材数据
+ *
+ * 这是一个简单的备用方案，确保系统始终能够返回数据。
+ * 总是包含全部扩展内容，未请求的部分会在校验时被忽略。
+ *
+ * @param prompt - 用户输入的商品描述
+ * @param campaign - 可选的营销活动，提供时标题带上第一个活动钩子、氛围词使用第一个活动氛围词
+ * @returns JSON格式的素材数据字符串
+ */
+export function mockGenerate(prompt: string, campaign?: Campaign | null): string {
+  // 从提示词中提取标题（前24个字符），如果没有则使用默认值
+  const base = prompt.slice(0, 24) || '优选好物'
+  const hook = campaign && (campaign.hooks[0] ?? campaign.name)
+  const title = hook ? `${hook}｜${base}` : base
+
+  // 默认卖点列表
+  const selling_points = ['品质保障', '便捷实用', '性价比高', '口碑推荐']
+
+  // 氛围词：有营销活动时使用活动氛围词
+  const atmosphere = (campaign && (campaign.atmosphere[0] ?? campaign.name)) || '焕新季'
+
+  // 默认视频分镜脚本
+  const video_script = [
+    {
+      s: 0,
+      duration: 2,
+      shot: 'close_up',
+      v: '开场特写',
+      caption: title,
+      voiceover: '',
+      bgm: '轻快开场',
+      transition: 'cut',
+    },
+    {
+      s: 2,
+      duration: 4,
+      shot: 'medium',
+      v: '使用场景展示',
+      caption: selling_points[0],
+      voiceover: '日常使用，方便又省心',
+      transition: 'dissolve',
+    },
+    {
+      s: 6,
+      duration: 3,
+      shot: 'wide',
+      v: '卖点字幕与下单引导',
+      caption: selling_points.slice(1, 3).join(' · '),
+      voiceover: '喜欢就带回家吧',
+      bgm: '音乐渐弱',
+    },
+  ]
+
+  // 扩展内容：搜索关键词、话题标签、详情页文案、常见问答
+  const seo_keywords = ['好物推荐', '品质好物', '实用好物', '居家必备', '送礼佳品']
+  const hashtags = ['#好物推荐', '#品质生活', '#种草']
+  const detail_copy = [
+    '精选材质，严格品控，每一件都经过多道检验。',
+    '简约设计，日常使用更顺手，居家出行都合适。',
+  ]
+  const faq = [
+    { q: '多久可以发货？', a: '付款后48小时内发货。' },
+    { q: '支持退换吗？', a: '支持7天无理由退换。' },
+    { q: '有质量问题怎么办？', a: '请联系客服，核实后免费换新。' },
+  ]
+
+  // 返回JSON格式的字符串
+  return JSON.stringify({
+    title,
+    selling_points,
+    atmosphere,
+    video_script,
+    seo_keywords,
+    hashtags,
+    detail_copy,
+    faq,
+  })
+}
+
+/**
+ * 模拟数据提供方实例
+ */
+export const mockProvider: LLMProvider = {
+  id: 'mock',
+  label: '模拟数据',
+  supportsVision: true,
+  supportsStream: false,
+
+  isConfigured() {
+    return true
+  },
+
+  modelName() {
+    return null
+  },
+
+  async generate({ messages, campaign }) {
+    // 从消息历史中找到最后一条用户消息作为提示词
+    const lastUserMessage = [...messages].reverse().find((m) => m.role === 'user')?.content ?? ''
+    return { text: mockGenerate(lastUserMessage, campaign), usage: null }
+  },
+}
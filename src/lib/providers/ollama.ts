@@ -0,0 +1,164 @@
+/**
+ * 本地Ollama风格服务提供方
+ *
+ * 调用本地部署的 /api/chat 接口。该接口不接受图片URL，
+ * 图片需要先逐张下载并以Base64编码随消息发送；流式输出为逐行JSON（NDJSON）。
+ *
+ * 环境变量配置：
+ * - OLLAMA_BASE_URL: 服务地址（默认：http://localhost:11434）
+ * - OLLAMA_MODEL: 使用的模型名称（默认：qwen2.5）
+ * - OLLAMA_VISION: 模型是否支持图片输入（如llava、qwen2.5vl，默认：false）
+ */
+
+import type { ProductImage } from '@/types'
+import { outboundFetch } from '../outbound'
+import { carriesImages, describeImages } from './images'
+import type { ChatMessage, LLMProvider, ProviderRequest, TokenUsage } from './types'
+
+/**
+ * 请求截止时长（毫秒）：本地模型速度较慢，给更长的时间
+ */
+const REQUEST_TIMEOUT_MS = 120_000
+const STREAM_TIMEOUT_MS = 300_000
+
+function getBaseUrl(): string {
+  return (process.env.OLLAMA_BASE_URL || 'http://localhost:11434').replace(/\/+$/, '')
+}
+
+function getModel(model?: string): string {
+  return model || process.env.OLLAMA_MODEL || 'qwen2.5'
+}
+
+/**
+ * 下载图片并转换为Base64
+ *
+ * @param url - 图片URL
+ * @returns Base64编码的图片数据
+ */
+async function fetchImageBase64(url: string): Promise<string> {
+  const response = await outboundFetch(url, {}, { service: '商品图片下载', timeoutMs: 15_000 })
+  return Buffer.from(await response.arrayBuffer()).toString('base64')
+}
+
+/**
+ * 将消息转换为Ollama接口格式
+ *
+ * @param messages - 对话消息列表
+ * @param images - 可选的商品图片（按顺序），附加在最后一条用户消息上
+ * @param encoded - 与 images 一一对应的Base64图片数据
+ * @returns Ollama接口的messages参数
+ */
+function mapOllamaMessages(
+  messages: ChatMessage[],
+  images?: ProductImage[],
+  encoded: string[] = []
+) {
+  return messages.map((m, idx) => {
+    if (carriesImages(m, idx, messages, images)) {
+      return {
+        role: m.role,
+        content: `${m.content}\n\n${describeImages(images)}`,
+        images: encoded,
+      }
+    }
+    return { role: m.role, content: m.content }
+  })
+}
+
+/**
+ * 解析响应中的用量（prompt_eval_count、eval_count，仅在最终结果中返回）
+ */
+function parseUsage(data: unknown): TokenUsage | null {
+  if (typeof data !== 'object' || data === null) return null
+  const { prompt_eval_count, eval_count } = data as Record<string, unknown>
+  if (typeof prompt_eval_count !== 'number' && typeof eval_count !== 'number') return null
+  return {
+    promptTokens: typeof prompt_eval_count === 'number' ? prompt_eval_count : 0,
+    completionTokens: typeof eval_count === 'number' ? eval_count : 0,
+  }
+}
+
+/**
+ * 发起请求
+ */
+async function request(req: ProviderRequest, stream: boolean): Promise<Response> {
+  const encoded = await Promise.all((req.images ?? []).map((image) => fetchImageBase64(image.url)))
+  return outboundFetch(
+    `${getBaseUrl()}/api/chat`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: getModel(req.model),
+        messages: mapOllamaMessages(req.messages, req.images, encoded),
+        stream,
+        options: { num_predict: req.maxTokens },
+      }),
+    },
+    { service: 'Ollama', timeoutMs: stream ? STREAM_TIMEOUT_MS : REQUEST_TIMEOUT_MS }
+  )
+}
+
+/**
+ * Ollama提供方实例
+ */
+export const ollamaProvider: LLMProvider = {
+  id: 'ollama',
+  label: 'Ollama',
+  get supportsVision() {
+    return process.env.OLLAMA_VISION === 'true'
+  },
+  supportsStream: true,
+
+  isConfigured() {
+    // 本地服务无需密钥，配置了地址或模型即视为启用
+    return Boolean(process.env.OLLAMA_BASE_URL || process.env.OLLAMA_MODEL)
+  },
+
+  modelName(model) {
+    return getModel(model)
+  },
+
+  async generate(req) {
+    const response = await request(req, false)
+    const data = await response.json()
+    return { text: (data?.message?.content ?? '') as string, usage: parseUsage(data) }
+  },
+
+  async stream(req, onDelta) {
+    const response = await request(req, true)
+    if (!response.body) return null
+
+    // 逐行解析NDJSON
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+    let text = ''
+    let usage: TokenUsage | null = null
+    const handleLine = (line: string) => {
+      if (!line.trim()) return
+      const chunk = JSON.parse(line)
+      usage = parseUsage(chunk) ?? usage
+      const delta = chunk?.message?.content
+      if (typeof delta === 'string' && delta.length > 0) {
+        text += delta
+        onDelta(delta)
+      }
+    }
+
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      buffer += decoder.decode(value, { stream: true })
+      let newline = buffer.indexOf('\n')
+      while (newline >= 0) {
+        handleLine(buffer.slice(0, newline))
+        buffer = buffer.slice(newline + 1)
+        newline = buffer.indexOf('\n')
+      }
+    }
+    handleLine(buffer + decoder.decode())
+
+    return { text, usage }
+  },
+}
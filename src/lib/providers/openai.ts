@@ -0,0 +1,63 @@
+/**
+ * OpenAI兼容接口提供方
+ *
+ * 适用于OpenAI官方接口以及任何实现了 chat/completions 协议的服务（如各类模型网关）。
+ *
+ * 环境变量配置：
+ * - OPENAI_API_KEY: API密钥
+ * - OPENAI_BASE_URL: 接口基础地址（默认：https://api.openai.com/v1）
+ * - OPENAI_MODEL: 使用的模型名称（默认：gpt-4o-mini）
+ * - OPENAI_VISION: 模型是否支持图片输入（默认：true，设为 false 时仅发送文本）
+ */
+
+import type { ProductImage } from '@/types'
+import { createChatCompletionsProvider } from './chatCompletions'
+import { carriesImages, describeImages } from './images'
+import type { ChatMessage } from './types'
+
+/**
+ * 将消息转换为OpenAI接口格式
+ *
+ * 文本消息使用字符串内容；仅在附带图片的最后一条用户消息上使用内容数组，
+ * 按顺序附加全部图片，并在文本中说明每张图片的用途。
+ *
+ * @param messages - 对话消息列表
+ * @param images - 可选的商品图片（按顺序）
+ * @returns OpenAI接口的messages参数
+ */
+function mapOpenAIMessages(messages: ChatMessage[], images?: ProductImage[]) {
+  return messages.map((m, idx) => {
+    if (carriesImages(m, idx, messages, images)) {
+      return {
+        role: 'user',
+        content: [
+          { type: 'text', text: `${m.content}\n\n${describeImages(images)}` },
+          ...images.map((image) => ({ type: 'image_url', image_url: { url: image.url } })),
+        ],
+      }
+    }
+    return { role: m.role, content: m.content }
+  })
+}
+
+/**
+ * OpenAI兼容提供方实例
+ */
+export const openaiProvider = createChatCompletionsProvider({
+  id: 'openai',
+  label: 'OpenAI兼容接口',
+  supportsVision: () => process.env.OPENAI_VISION !== 'false',
+  getConfig(model) {
+    const apiKey = process.env.OPENAI_API_KEY
+    if (!apiKey) return null
+
+    const base = (process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/+$/, '')
+    return {
+      apiKey,
+      endpoint: `${base}/chat/completions`,
+      model: model || process.env.OPENAI_MODEL || 'gpt-4o-mini',
+    }
+  },
+  mapMessages: mapOpenAIMessages,
+  tokenLimitField: 'max_tokens',
+})
@@ -0,0 +1,130 @@
+/**
+ * 按任务的模型路由
+ *
+ * 不同任务对模型的要求不同：带商品图片的首次生成需要多模态模型，标题润色、评价归纳等
+ * 用便宜的纯文本模型即可。路由表以数据文件的形式维护在 src/data/modelRoutes.json，
+ * 按任务指定模型档位和最大生成token数：
+ * - initial: 带商品图片的首次生成（vision）
+ * - refine: 不带图片的生成（text）
+ * - repair: 校验未通过后的修复轮（vision）
+ * - regenerate: 单个字段的重新生成（text）
+ * - summarize: 归纳总结，如买家评价挖掘（text）
+ *
+ * vision 档位使用提供方的默认模型（如 DOUBAO_MODEL）；text 档位使用提供方的纯文本模型，
+ * 没有配置时同样使用默认模型。带商品图片的请求不论任务都使用默认模型。
+ *
+ * 环境变量配置：
+ * - DOUBAO_TEXT_MODEL / OPENAI_TEXT_MODEL / OLLAMA_TEXT_MODEL: 豆包、OpenAI兼容接口、本地Ollama的纯文本模型
+ *   （默认与 *_MODEL 相同，如豆包可配置为 doubao-seed-1-6-flash-250828）
+ * - MODEL_ROUTES: 可选的JSON字符串，结构与 routes 相同，按任务覆盖档位、模型或token上限，
+ *   如 {"repair":{"tier":"text"},"regenerate":{"models":{"openai":"gpt-4o-mini"},"maxTokens":1024}}
+ */
+
+import routes from '@/data/modelRoutes.json'
+import type { ModelTask, ProviderId } from './types'
+
+/**
+ * 模型档位：vision 为提供方的默认（多模态）模型，text 为便宜的纯文本模型
+ */
+export type ModelTier = 'vision' | 'text'
+
+/**
+ * 任务的路由
+ *
+ * @property tier - 模型档位
+ * @property models - 按提供方直接指定的模型，优先于档位
+ * @property maxTokens - 最大生成token数
+ */
+export interface TaskRoute {
+  tier: ModelTier
+  models: Partial<Record<ProviderId, string>>
+  maxTokens: number
+}
+
+/**
+ * 路由结果
+ *
+ * @property model - 使用的模型，undefined 表示使用提供方的默认模型
+ * @property maxTokens - 最大生成token数
+ */
+export interface ResolvedRoute {
+  model: string | undefined
+  maxTokens: number
+}
+
+/**
+ * 各提供方纯文本模型的环境变量
+ */
+const TEXT_MODEL_ENV: Partial<Record<ProviderId, string>> = {
+  doubao: 'DOUBAO_TEXT_MODEL',
+  openai: 'OPENAI_TEXT_MODEL',
+  ollama: 'OLLAMA_TEXT_MODEL',
+}
+
+/**
+ * 读取路由表（数据文件 + 环境变量覆盖）
+ */
+function getRoutes(): Record<ModelTask, TaskRoute> {
+  const base = routes.routes as Record<ModelTask, TaskRoute>
+  const raw = process.env.MODEL_ROUTES
+  if (!raw) return base
+  try {
+    const override = JSON.parse(raw) as Partial<Record<ModelTask, Partial<TaskRoute>>>
+    const merged = { ...base }
+    for (const task of Object.keys(base) as ModelTask[]) {
+      const o = override[task]
+      if (!o) continue
+      const maxTokens = Number(o.maxTokens)
+      merged[task] = {
+        tier: o.tier === 'vision' || o.tier === 'text' ? o.tier : base[task].tier,
+        models: { ...base[task].models, ...o.models },
+        maxTokens: Number.isInteger(maxTokens) && maxTokens > 0 ? maxTokens : base[task].maxTokens,
+      }
+    }
+    return merged
+  } catch (error) {
+    console.error('MODEL_ROUTES 不是合法的JSON，已忽略:', error)
+    return base
+  }
+}
+
+/**
+ * 获取提供方的纯文本模型
+ *
+ * @param provider - 提供方
+ * @returns 纯文本模型，未配置时返回undefined（使用提供方的默认模型）
+ */
+function textModel(provider: ProviderId): string | undefined {
+  const env = TEXT_MODEL_ENV[provider]
+  return (env && process.env[env]) || undefined
+}
+
+/**
+ * 确定某个提供方执行任务时使用的模型和最大生成token数
+ *
+ * 优先使用路由表中为该提供方指定的模型；否则带图片的请求和 vision 档位的任务使用默认模型，
+ * text 档位的任务使用纯文本模型。
+ *
+ * @param task - 调用的任务
+ * @param provider - 提供方
+ * @param hasImages - 请求是否带商品图片
+ * @returns 使用的模型及最大生成token数
+ *
+ * @example
+ * ```typescript
+ * resolveRoute('initial', 'doubao', true) // => { model: undefined, maxTokens: 2048 }（使用 DOUBAO_MODEL）
+ * // DOUBAO_TEXT_MODEL=doubao-seed-1-6-flash-250828
+ * resolveRoute('regenerate', 'doubao', false) // => { model: 'doubao-seed-1-6-flash-250828', maxTokens: 1536 }
+ * ```
+ */
+export function resolveRoute(
+  task: ModelTask,
+  provider: ProviderId,
+  hasImages: boolean
+): ResolvedRoute {
+  const route = getRoutes()[task]
+  const model =
+    route.models[provider] ??
+    (hasImages || route.tier === 'vision' ? undefined : textModel(provider))
+  return { model, maxTokens: route.maxTokens }
+}
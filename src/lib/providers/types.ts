@@ -0,0 +1,103 @@
+/**
+ * 文本生成提供方 - 类型定义
+ *
+ * 所有大模型提供方（豆包/方舟、OpenAI兼容接口、本地Ollama、模拟数据）
+ * 都实现同一个 LLMProvider 接口，由 volcanoGenerate 按配置的顺序依次尝试。
+ */
+
+import type { Campaign, ProductImage } from '@/types'
+
+/**
+ * 聊天消息类型
+ *
+ * @property role - 消息角色：'system'（系统提示）、'user'（用户）、'assistant'（AI助手）
+ * @property content - 消息内容
+ */
+export type ChatMessage = {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+/**
+ * 提供方标识
+ */
+export type ProviderId = 'doubao' | 'openai' | 'ollama' | 'mock'
+
+/**
+ * 模型调用的任务，决定使用的模型和最大生成token数（见 ./routing）
+ *
+ * - initial: 带商品图片的首次生成
+ * - refine: 不带图片的生成
+ * - repair: 校验未通过后的修复轮
+ * - regenerate: 单个字段的重新生成
+ * - summarize: 归纳总结
+ */
+export type ModelTask = 'initial' | 'refine' | 'repair' | 'regenerate' | 'summarize'
+
+/**
+ * 提供方请求参数
+ *
+ * @property messages - 对话消息列表
+ * @property images - 可选的商品图片（按顺序），附加在最后一条用户消息上
+ * @property model - 可选的模型名称，不提供时使用提供方自己的默认模型
+ * @property maxTokens - 最大生成token数
+ * @property campaign - 可选的生效营销活动；真实模型从系统提示词中读取活动要求，
+ *   模拟数据提供方据此让标题和氛围词体现活动
+ */
+export interface ProviderRequest {
+  messages: ChatMessage[]
+  images?: ProductImage[]
+  model?: string
+  maxTokens: number
+  campaign?: Campaign | null
+}
+
+/**
+ * token用量
+ *
+ * @property promptTokens - 输入token数
+ * @property completionTokens - 输出token数
+ */
+export interface TokenUsage {
+  promptTokens: number
+  completionTokens: number
+}
+
+/**
+ * 提供方生成结果
+ *
+ * @property text - 生成的文本
+ * @property usage - 接口返回的token用量，接口未返回（或模拟数据）时为null
+ */
+export interface ProviderResult {
+  text: string
+  usage: TokenUsage | null
+}
+
+/**
+ * 文本生成提供方
+ *
+ * generate/stream 调用失败时抛出错误（外部调用失败为 OutboundError 的子类），
+ * 未配置或没有返回内容时返回null；两种情况调用方都会继续尝试下一个提供方。
+ */
+export interface LLMProvider {
+  /** 提供方标识 */
+  id: ProviderId
+  /** 展示名称 */
+  label: string
+  /** 是否支持图片输入（多模态） */
+  supportsVision: boolean
+  /** 是否支持流式输出 */
+  supportsStream: boolean
+  /** 是否已完成必要的配置（如API密钥） */
+  isConfigured(): boolean
+  /** 实际使用的模型名称（传入的模型优先，否则为提供方的默认模型），没有模型概念时为null */
+  modelName(model?: string): string | null
+  /** 生成完整文本 */
+  generate(request: ProviderRequest): Promise<ProviderResult | null>
+  /** 流式生成，每收到一段增量文本就调用 onDelta */
+  stream?(
+    request: ProviderRequest,
+    onDelta: (delta: string) => void
+  ): Promise<ProviderResult | null>
+}
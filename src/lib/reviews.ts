@@ -0,0 +1,121 @@
+/**
+ * 买家评价工具函数
+ *
+ * 前后端共用的评价导入与校验函数，不依赖服务端能力：
+ * - 粘贴的文本和TXT文件每行一条评价
+ * - CSV文件取表头为评价/评论/内容（review、comment、content）的列，没有这样的表头时取第一列
+ */
+
+/**
+ * 单次请求最多挖掘的评价条数
+ */
+export const MAX_REVIEWS = 500
+
+/**
+ * 单条评价的最大长度，导入时超出的部分被截断
+ */
+export const REVIEW_MAX_LENGTH = 500
+
+/**
+ * CSV中评价内容列的表头
+ */
+const REVIEW_COLUMN = /评价|评论|内容|review|comment|content/i
+
+/**
+ * 解析CSV文本（支持双引号包裹的字段、字段中的逗号、换行和转义的双引号）
+ *
+ * @param text - CSV文本
+ * @returns 各行的字段
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows
+}
+
+/**
+ * 从粘贴的文本或上传的文件内容中导入评价
+ *
+ * @param text - 文本内容
+ * @param filename - 上传的文件名，以 .csv 结尾时按CSV解析，否则每行一条
+ * @returns 去掉空白项、截断到 REVIEW_MAX_LENGTH 的评价，最多 MAX_REVIEWS 条
+ *
+ * @example
+ * ```typescript
+ * importReviews('保温效果很好\n\n盖子有点紧') // => ['保温效果很好', '盖子有点紧']
+ * importReviews('用户,评价内容\n张三,"保温好,颜值高"', 'reviews.csv') // => ['保温好,颜值高']
+ * ```
+ */
+export function importReviews(text: string, filename?: string): string[] {
+  const content = text.replace(/^\uFEFF/, '')
+  let lines: string[]
+  if (filename?.toLowerCase().endsWith('.csv')) {
+    const [header = [], ...rows] = parseCsv(content)
+    const column = header.findIndex((name) => REVIEW_COLUMN.test(name))
+    lines =
+      column >= 0
+        ? rows.map((row) => row[column] ?? '')
+        : [header[0] ?? '', ...rows.map((row) => row[0] ?? '')]
+  } else {
+    lines = content.split(/\r?\n/)
+  }
+  return lines
+    .map((line) => line.trim().slice(0, REVIEW_MAX_LENGTH).trim())
+    .filter(Boolean)
+    .slice(0, MAX_REVIEWS)
+}
+
+/**
+ * 校验请求中的评价
+ *
+ * @param value - 待校验的值，缺少时视为没有评价
+ * @returns 去掉空白项后的评价列表，不合法时返回null
+ *
+ * @example
+ * ```typescript
+ * parseReviews(['保温效果很好', ' ']) // => ['保温效果很好']
+ * parseReviews('保温效果很好') // => null
+ * ```
+ */
+export function parseReviews(value: unknown): string[] | null {
+  if (value === undefined || value === null) return []
+  if (!Array.isArray(value) || value.length > MAX_REVIEWS) return null
+  const reviews: string[] = []
+  for (const item of value) {
+    if (typeof item !== 'string' || item.length > REVIEW_MAX_LENGTH) return null
+    if (item.trim()) reviews.push(item.trim())
+  }
+  return reviews
+}
@@ -0,0 +1,167 @@
+/**
+ * 视频脚本导出模块
+ *
+ * 把素材的视频分镜脚本转换为剪辑软件（剪映/CapCut、Premiere 等）可直接导入的格式：
+ * - SRT / WebVTT 字幕：每个镜头一条字幕，结束时间为下一个镜头的开始时间，
+ *   最后一个镜头以总时长结束（早期脚本见 toStoryboard 的推算规则）
+ * - CSV 分镜表：每个镜头一行，包含时间、景别、画面、字幕、口播、配乐和转场
+ */
+
+import type { StoryboardShot, VideoScriptSegment } from '@/types'
+import { shotTransitionLabel, shotTypeLabel, toStoryboard } from './storyboard'
+
+/**
+ * 导出格式
+ */
+export type ScriptExportFormat = 'srt' | 'vtt' | 'csv'
+
+/**
+ * 导出格式选项（用于界面展示）及对应的文件扩展名与 Content-Type
+ */
+export const SCRIPT_EXPORT_FORMATS: {
+  id: ScriptExportFormat
+  label: string
+  contentType: string
+}[] = [
+  { id: 'srt', label: 'SRT字幕', contentType: 'application/x-subrip; charset=utf-8' },
+  { id: 'vtt', label: 'WebVTT字幕', contentType: 'text/vtt; charset=utf-8' },
+  { id: 'csv', label: 'CSV分镜表', contentType: 'text/csv; charset=utf-8' },
+]
+
+/**
+ * 判断字符串是否为合法的导出格式
+ */
+export function isScriptExportFormat(value: unknown): value is ScriptExportFormat {
+  return SCRIPT_EXPORT_FORMATS.some((format) => format.id === value)
+}
+
+/**
+ * 格式化字幕时间戳
+ *
+ * @param seconds - 时间（秒）
+ * @param separator - 毫秒分隔符：SRT 为 ','，WebVTT 为 '.'
+ * @returns 如 00:00:02,500
+ */
+function formatTimestamp(seconds: number, separator: ',' | '.'): string {
+  const ms = Math.round(seconds * 1000)
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0')
+  const h = Math.floor(ms / 3_600_000)
+  const m = Math.floor((ms % 3_600_000) / 60_000)
+  const s = Math.floor((ms % 60_000) / 1000)
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(ms % 1000, 3)}`
+}
+
+/**
+ * 镜头的字幕文本：优先使用屏幕字幕，其次口播台词，早期脚本使用画面描述
+ */
+function cueText(shot: StoryboardShot): string {
+  return (shot.caption || shot.voiceover || shot.v).replace(/\r?\n/g, ' ').trim()
+}
+
+/**
+ * 字幕条目：没有文本的镜头不输出
+ */
+function cues(script: VideoScriptSegment[]): { start: number; end: number; text: string }[] {
+  return toStoryboard(script)
+    .map((shot) => ({ start: shot.s, end: shot.s + shot.duration, text: cueText(shot) }))
+    .filter((cue) => cue.text)
+}
+
+/**
+ * 导出为 SRT 字幕
+ *
+ * @param script - 视频脚本
+ * @returns SRT 文本
+ *
+ * @example
+ * ```typescript
+ * toSrt([{ s: 0, duration: 2, v: '开场特写', caption: '316不锈钢保温杯' }])
+ * // => '1\n00:00:00,000 --> 00:00:02,000\n316不锈钢保温杯\n'
+ * ```
+ */
+export function toSrt(script: VideoScriptSegment[]): string {
+  return cues(script)
+    .map(
+      (cue, i) =>
+        `${i + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.text}\n`
+    )
+    .join('\n')
+}
+
+/**
+ * 导出为 WebVTT 字幕
+ *
+ * @param script - 视频脚本
+ * @returns WebVTT 文本
+ */
+export function toVtt(script: VideoScriptSegment[]): string {
+  const body = cues(script)
+    .map(
+      (cue) =>
+        `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cue.text}\n`
+    )
+    .join('\n')
+  return `WEBVTT\n\n${body}`
+}
+
+/**
+ * 转义 CSV 单元格
+ */
+function csvCell(value: string | number): string {
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * 导出为 CSV 分镜表
+ *
+ * 以 UTF-8 BOM 开头，便于 Excel 正确识别中文。
+ *
+ * @param script - 视频脚本
+ * @returns CSV 文本
+ */
+export function toShotListCsv(script: VideoScriptSegment[]): string {
+  const header = [
+    '镜号',
+    '开始(秒)',
+    '结束(秒)',
+    '时长(秒)',
+    '景别',
+    '画面',
+    '字幕',
+    '口播',
+    '配乐',
+    '转场',
+  ]
+  const rows = toStoryboard(script).map((shot, i) => [
+    i + 1,
+    shot.s,
+    shot.s + shot.duration,
+    shot.duration,
+    shot.shot ? shotTypeLabel(shot.shot) : '',
+    shot.v,
+    shot.caption ?? '',
+    shot.voiceover ?? '',
+    shot.bgm ?? '',
+    shot.transition ? shotTransitionLabel(shot.transition) : '',
+  ])
+  return '\uFEFF' + [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\r\n') + '\r\n'
+}
+
+/**
+ * 按格式导出视频脚本
+ *
+ * @param script - 视频脚本
+ * @param format - 导出格式
+ * @returns 导出的文本
+ */
+export function exportScript(script: VideoScriptSegment[], format: ScriptExportFormat): string {
+  switch (format) {
+    case 'srt':
+      return toSrt(script)
+    case 'vtt':
+      return toVtt(script)
+    case 'csv':
+      return toShotListCsv(script)
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * 分镜脚本工具函数
+ *
+ * 前后端共用的视频脚本处理函数，不依赖服务端能力。
+ * 兼容只有开始时间和画面描述（{ s, v }）的早期脚本：存储的早期脚本在读取时由 upgradeAssetsMeta
+ * （见 ./assets）补齐时长。
+ */
+
+import type { ShotTransition, ShotType, StoryboardShot, VideoScriptSegment } from '@/types'
+
+/**
+ * 早期脚本缺少时长时，最后一个镜头按此时长展示（秒）
+ */
+export const LEGACY_LAST_SHOT_SECONDS = 2
+
+/**
+ * 景别/运镜选项（用于界面展示和提示词）
+ */
+export const SHOT_TYPES: { id: ShotType; label: string }[] = [
+  { id: 'close_up', label: '特写' },
+  { id: 'medium', label: '中景' },
+  { id: 'wide', label: '全景' },
+  { id: 'pan', label: '摇镜' },
+  { id: 'tracking', label: '跟拍' },
+  { id: 'overhead', label: '俯拍' },
+]
+
+/**
+ * 转场方式选项（用于界面展示和提示词）
+ */
+export const SHOT_TRANSITIONS: { id: ShotTransition; label: string }[] = [
+  { id: 'cut', label: '硬切' },
+  { id: 'fade', label: '淡入淡出' },
+  { id: 'dissolve', label: '叠化' },
+  { id: 'slide', label: '滑动' },
+  { id: 'zoom', label: '推拉' },
+]
+
+/**
+ * 判断字符串是否为合法的景别/运镜方式
+ */
+export function isShotType(value: unknown): value is ShotType {
+  return SHOT_TYPES.some((shot) => shot.id === value)
+}
+
+/**
+ * 判断字符串是否为合法的转场方式
+ */
+export function isShotTransition(value: unknown): value is ShotTransition {
+  return SHOT_TRANSITIONS.some((transition) => transition.id === value)
+}
+
+/**
+ * 获取景别/运镜方式的中文名称
+ */
+export function shotTypeLabel(shot: ShotType): string {
+  return SHOT_TYPES.find((option) => option.id === shot)?.label ?? shot
+}
+
+/**
+ * 获取转场方式的中文名称
+ */
+export function shotTransitionLabel(transition: ShotTransition): string {
+  return SHOT_TRANSITIONS.find((option) => option.id === transition)?.label ?? transition
+}
+
+/**
+ * 计算脚本总时长
+ *
+ * 以最后一个镜头的结束时间计；早期脚本的最后一个镜头没有时长，以其开始时间计。
+ *
+ * @param segments - 视频脚本
+ * @returns 总时长（秒）
+ */
+export function scriptDuration(segments: VideoScriptSegment[]): number {
+  if (segments.length === 0) return 0
+  const last = segments[segments.length - 1]
+  return last.s + (last.duration ?? 0)
+}
+
+/**
+ * 按下一个镜头的开始时间推算镜头时长，最后一个镜头按 LEGACY_LAST_SHOT_SECONDS 计
+ */
+function inferDuration(segments: VideoScriptSegment[], i: number): number {
+  const next = segments[i + 1]
+  return Math.max(next ? next.s - segments[i].s : LEGACY_LAST_SHOT_SECONDS, 0)
+}
+
+/**
+ * 将视频脚本转换为时长完整的分镜
+ *
+ * 使用记录的时长，只有缺少时长的镜头（如流式生成中尚未到达）才以下一个镜头的开始时间推算，
+ * 最后一个镜头按 LEGACY_LAST_SHOT_SECONDS 计。
+ *
+ * @param segments - 视频脚本
+ * @returns 每个镜头都带有时长的分镜
+ *
+ * @example
+ * ```typescript
+ * toStoryboard([{ s: 0, v: '开场特写', duration: 3 }, { s: 3, v: '使用场景展示' }])
+ * // => [{ s: 0, v: '开场特写', duration: 3 }, { s: 3, v: '使用场景展示', duration: 2 }]
+ * ```
+ */
+export function toStoryboard(segments: VideoScriptSegment[]): StoryboardShot[] {
+  return segments.map((segment, i) => ({
+    ...segment,
+    duration:
+      segment.duration !== undefined && segment.duration > 0
+        ? segment.duration
+        : inferDuration(segments, i),
+  }))
+}
+
+/**
+ * 将早期脚本升级为分镜
+ *
+ * 早期脚本（素材结构版本低于 STORYBOARD_SCHEMA_VERSION）没有时长的概念，
+ * 所有镜头的时长都按 toStoryboard 的推算规则重新计算，不使用脚本中可能存在的 duration。
+ *
+ * @param segments - 早期脚本
+ * @returns 每个镜头都带有时长的分镜
+ *
+ * @example
+ * ```typescript
+ * upgradeLegacyScript([{ s: 0, v: '开场特写' }, { s: 2, v: '使用场景展示' }])
+ * // => [{ s: 0, v: '开场特写', duration: 2 }, { s: 2, v: '使用场景展示', duration: 2 }]
+ * ```
+ */
+export function upgradeLegacyScript(segments: VideoScriptSegment[]): StoryboardShot[] {
+  return segments.map((segment, i) => ({ ...segment, duration: inferDuration(segments, i) }))
+}
+
+/**
+ * 查找某一时刻所在的镜头
+ *
+ * @param storyboard - 时长完整的分镜
+ * @param seconds - 时刻（秒）
+ * @returns 镜头下标；早于第一个镜头时返回0，晚于最后一个镜头时返回最后一个
+ */
+export function shotIndexAt(storyboard: StoryboardShot[], seconds: number): number {
+  const index = storyboard.findIndex((shot) => seconds < shot.s + shot.duration)
+  return index < 0 ? storyboard.length - 1 : index
+}
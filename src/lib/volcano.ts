@@ -1,188 +1,265 @@
 /**
- * AI生成服务 - 火山引擎（豆包）集成
- * 
- * 本模块集成了火山引擎的豆包AI模型，用于生成电商营销素材。
- * 如果AI服务不可用，会回退到模拟数据生成。
- * 
+ * AI生成服务 - 文本生成入口
+ *
+ * 本模块是文本生成的统一入口，用于生成电商营销素材。
+ * 实际调用的模型由提供方链决定（见 ./providers）：默认只使用火山引擎豆包，
+ * 也可通过 LLM_PROVIDERS 配置OpenAI兼容接口、本地Ollama等，并按顺序回退。
+ * 如果所有模型都不可用，会回退到模拟数据生成。
+ *
+ * 每次调用按任务（首次生成、修复、字段重新生成等）从路由表中选择各提供方的模型和最大生成token数
+ * （见 ./providers/routing）。
+ *
+ * 每次生成都会返回来源信息（提供方、模型、回退原因、耗时、token用量），
+ * 调用方据此区分真实模型结果与模拟数据，而不是把模拟数据当作模型输出。
+ *
  * 环境变量配置：
- * - DOUBAO_API_KEY: 豆包API密钥
- * - DOUBAO_ENDPOINT: 豆包API端点URL
- * - DOUBAO_MODEL: 使用的模型名称（默认：doubao-seed-1-6-251015）
+ * - LLM_PROVIDERS: 提供方顺序（默认：doubao）
+ * - DOUBAO_API_KEY / DOUBAO_ENDPOINT / DOUBAO_MODEL: 豆包配置
+ * - OPENAI_API_KEY / OPENAI_BASE_URL / OPENAI_MODEL / OPENAI_VISION: OpenAI兼容接口配置
+ * - OLLAMA_BASE_URL / OLLAMA_MODEL / OLLAMA_VISION: 本地Ollama配置
+ * - MODEL_ROUTES: 按任务的模型路由覆盖
  */
 
+import type { Campaign, GenerationProvenance, ProductImage } from '@/types'
+import {
+  getProviderChain,
+  resolveRoute,
+  adaptRequest,
+  type ChatMessage,
+  type LLMProvider,
+  type ModelTask,
+  type ProviderRequest,
+  type ProviderResult,
+} from './providers'
+import { OutboundError } from './outbound'
+
 /**
- * 聊天消息类型
- * 
- * @property role - 消息角色：'system'（系统提示）、'user'（用户）、'assistant'（AI助手）
- * @property content - 消息内容
+ * 生成调用选项
+ *
+ * @property task - 调用的任务（默认：有图片时为 initial，否则为 refine），决定各提供方使用的模型和最大生成token数
+ * @property model - 可选的模型名称（仅作用于链中的首选提供方，优先于路由表）
+ * @property allowMock - 是否允许回退到模拟数据（默认：true）；为false时所有真实模型都失败会抛出错误
+ * @property campaign - 可选的生效营销活动，随请求传给提供方（见 ProviderRequest）
  */
-type ChatMessage = {
-  role: 'system' | 'user' | 'assistant'
-  content: string
+export interface GenerateCallOptions {
+  task?: ModelTask
+  model?: string
+  allowMock?: boolean
+  campaign?: Campaign | null
 }
 
 /**
- * 尝试调用豆包AI API生成内容
- * 
- * 此函数会调用火山引擎的豆包API，支持文本和图片输入。
- * 
- * @param messages - 对话消息列表，包含系统提示和用户消息
- * @param imageUrl - 可选的图片URL，用于多模态输入（图片+文本）
- * @param model - 可选的模型名称，如果不提供则使用环境变量中的默认模型
- * @returns AI生成的文本内容，如果调用失败则返回null
- * 
- * @example
- * ```typescript
- * const messages = [
- *   { role: 'system', content: '你是一个电商专家' },
- *   { role: 'user', content: '为这款商品生成标题和卖点' }
- * ];
- * const result = await tryDoubao(messages, 'https://example.com/product.jpg');
- * ```
+ * 生成结果
+ *
+ * @property text - 生成的文本内容（JSON格式的素材数据）
+ * @property provenance - 生成来源信息
+ */
+export interface GenerateResult {
+  text: string
+  provenance: GenerationProvenance
+}
+
+/**
+ * 获取本次调用使用的提供方链，并记录被跳过的原因
+ */
+function resolveChain(options: GenerateCallOptions, reasons: string[]): LLMProvider[] {
+  const chain = getProviderChain()
+  const real = chain.filter((provider) => provider.id !== 'mock')
+  if (real.length === 0) reasons.push('未配置可用的文本模型')
+  return options.allowMock === false ? real : chain
+}
+
+/**
+ * 确定调用的任务
+ *
+ * @param images - 本次调用的商品图片
+ * @param options - 调用选项
+ * @returns 指定的任务，未指定时按是否带图片区分首次生成与纯文本生成
  */
-async function tryDoubao(
+function resolveTask(images: ProductImage[] | undefined, options: GenerateCallOptions): ModelTask {
+  return options.task ?? (images?.length ? 'initial' : 'refine')
+}
+
+/**
+ * 按任务路由构建发给某个提供方的请求
+ *
+ * @param provider - 目标提供方
+ * @param index - 提供方在链中的位置，指定的模型只作用于首选提供方
+ * @returns 适配后的请求
+ */
+function buildRequest(
+  provider: LLMProvider,
+  index: number,
   messages: ChatMessage[],
-  imageUrl?: string,
-  model?: string
-): Promise<string | null> {
-  // 获取API配置
-  const apiKey = process.env.DOUBAO_API_KEY
-  const endpoint = process.env.DOUBAO_ENDPOINT
-  
-  // 如果缺少必要的配置，直接返回null
-  if (!apiKey || !endpoint) {
-    return null
-  }
+  images: ProductImage[] | undefined,
+  options: GenerateCallOptions
+): ProviderRequest {
+  const route = resolveRoute(resolveTask(images, options), provider.id, Boolean(images?.length))
+  const model = (index === 0 ? options.model : undefined) ?? route.model
+  return adaptRequest(provider, {
+    messages,
+    images,
+    model,
+    maxTokens: route.maxTokens,
+    campaign: options.campaign,
+  })
+}
 
+/**
+ * 调用单个提供方，把失败原因记录下来而不是向上抛出
+ *
+ * @returns 生成结果，失败或为空时返回null
+ */
+async function attempt(
+  provider: LLMProvider,
+  call: () => Promise<ProviderResult | null>,
+  reasons: string[]
+): Promise<ProviderResult | null> {
   try {
-    // 选择使用的模型（优先使用传入的模型，否则使用环境变量，最后使用默认值）
-    const chosenModel = model || process.env.DOUBAO_MODEL || 'doubao-seed-1-6-251015'
-    
-    // 将消息转换为API所需的格式
-    // 如果最后一条用户消息有图片，则将其转换为多模态格式
-    const mapped = messages.map((m, idx) => {
-      // 如果是最后一条用户消息且提供了图片URL，则添加图片输入
-      if (m.role === 'user' && imageUrl && idx === messages.length - 1) {
-        return {
-          role: 'user',
-          content: [
-            { type: 'image_url', image_url: { url: imageUrl } },
-            { type: 'text', text: m.content }
-          ]
-        }
-      }
-      
-      // 普通文本消息
-      return {
-        role: m.role,
-        content: [{ type: 'text', text: m.content }]
-      }
-    })
-
-    // 调用豆包API
-    const response = await fetch(endpoint, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`
-      },
-      body: JSON.stringify({
-        model: chosenModel,
-        messages: mapped,
-        max_completion_tokens: 2048 // 最大生成token数
-      })
-    })
-
-    // 检查响应状态
-    if (!response.ok) {
-      return null
-    }
-
-    // 解析响应并提取生成的文本
-    const data = await response.json()
-    const text = data?.choices?.[0]?.message?.content ?? ''
-    
-    return text as string
+    const result = await call()
+    if (result && result.text.trim().length > 0) return result
+    reasons.push(`${provider.label}返回为空`)
   } catch (error) {
-    // 发生任何错误都返回null，让调用方使用备用方案
-    console.error('豆包API调用失败:', error)
-    return null
+    // 外部调用错误的信息已包含服务名称（如"豆包 请求超时（60秒）"）
+    console.error(`${provider.label} 调用失败:`, error)
+    reasons.push(
+      error instanceof OutboundError
+        ? error.message
+        : `${provider.label}调用失败：${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+  return null
+}
+
+/**
+ * 构建成功调用的来源信息
+ */
+function buildProvenance(
+  provider: LLMProvider,
+  model: string | undefined,
+  result: ProviderResult,
+  reasons: string[],
+  startedAt: number
+): GenerationProvenance {
+  const modelName = provider.modelName(model)
+  return {
+    provider: provider.id,
+    model: modelName,
+    fallbackReason: reasons.length > 0 ? reasons.join('；') : null,
+    latencyMs: Date.now() - startedAt,
+    usage: result.usage ? [{ provider: provider.id, model: modelName, ...result.usage }] : [],
   }
 }
 
 /**
- * 模拟生成电商素材数据
- * 
- * 当AI服务不可用时，使用此函数生成模拟数据。
- * 这是一个简单的备用方案，确保系统始终能够返回数据。
- * 
- * @param prompt - 用户输入的商品描述
- * @returns JSON格式的素材数据字符串
+ * 所有提供方都失败时抛出的错误
  */
-function mockGenerate(prompt: string): string {
-  // 从提示词中提取标题（前24个字符），如果没有则使用默认值
-  const title = prompt.slice(0, 24) || '优选好物'
-  
-  // 默认卖点列表
-  const selling_points = [
-    '品质保障',
-    '便捷实用',
-    '性价比高',
-    '口碑推荐'
-  ]
-  
-  // 默认氛围词
-  const atmosphere = '焕新季'
-  
-  // 默认视频脚本（时间片段）
-  const video_script = [
-    { s: 0, v: '开场特写' },
-    { s: 2, v: '使用场景展示' },
-    { s: 6, v: '卖点字幕与下单引导' }
-  ]
-  
-  // 返回JSON格式的字符串
-  return JSON.stringify({ title, selling_points, atmosphere, video_script })
+function exhaustedError(reasons: string[]): Error {
+  return new Error(`没有可用的文本生成服务：${reasons.join('；') || '未知原因'}`)
 }
 
 /**
- * 使用火山引擎生成内容
- * 
- * 这是主要的生成函数，会先尝试调用豆包API，如果失败则使用模拟数据。
- * 
+ * 使用提供方链生成内容
+ *
+ * 这是主要的生成函数，会按配置顺序依次尝试各提供方，直到有一个返回有效内容；
+ * 默认链的末尾是模拟数据，因此总能返回结果。
+ *
  * @param messages - 对话消息列表
- * @param imageUrl - 可选的图片URL
- * @param model - 可选的模型名称
- * @returns 生成的文本内容（JSON格式的素材数据）
- * 
+ * @param images - 可选的商品图片（按顺序，均附加在最后一条用户消息上）
+ * @param options - 可选的调用选项（任务、模型名称、是否允许模拟数据）
+ * @returns 生成的文本内容及其来源信息
+ *
  * @example
  * ```typescript
  * const messages = [
  *   { role: 'system', content: '你是电商运营专家' },
  *   { role: 'user', content: '为这款商品生成营销素材' }
  * ];
- * const result = await volcanoGenerate(messages, 'https://example.com/product.jpg');
+ * const { text, provenance } = await volcanoGenerate(messages, [
+ *   { url: 'https://example.com/front.jpg', role: 'main' },
+ *   { url: 'https://example.com/box.jpg', role: 'package' },
+ * ]);
+ * if (provenance.provider === 'mock') console.warn(provenance.fallbackReason);
  * ```
  */
 export async function volcanoGenerate(
   messages: ChatMessage[],
-  imageUrl?: string,
-  model?: string
-): Promise<string> {
-  // 首先尝试调用豆包API
-  const text = await tryDoubao(messages, imageUrl, model)
-  
-  // 如果API调用成功且返回了有效内容，直接返回
-  if (text && typeof text === 'string' && text.trim().length > 0) {
-    return text
+  images?: ProductImage[],
+  options: GenerateCallOptions = {}
+): Promise<GenerateResult> {
+  const startedAt = Date.now()
+  const reasons: string[] = []
+  const chain = resolveChain(options, reasons)
+
+  for (const [index, provider] of chain.entries()) {
+    const request = buildRequest(provider, index, messages, images, options)
+    const result = await attempt(provider, () => provider.generate(request), reasons)
+
+    // 如果调用成功且返回了有效内容，直接返回
+    if (result) {
+      return {
+        text: result.text,
+        provenance: buildProvenance(provider, request.model, result, reasons, startedAt),
+      }
+    }
+  }
+
+  throw exhaustedError(reasons)
+}
+
+/**
+ * 以流式方式使用提供方链生成内容
+ *
+ * 与 volcanoGenerate 相同，但模型输出会通过 onDelta 增量回传。
+ * 某个提供方中途失败时，会通过 onReset 通知调用方丢弃已回传的内容，再尝试下一个提供方；
+ * 不支持流式输出的提供方（如模拟数据）会把完整结果作为一整段增量回传。
+ *
+ * @param messages - 对话消息列表
+ * @param onDelta - 增量文本回调
+ * @param onReset - 丢弃已回传内容的回调
+ * @param images - 可选的商品图片（按顺序，均附加在最后一条用户消息上）
+ * @param options - 可选的调用选项（任务、模型名称、是否允许模拟数据）
+ * @returns 完整的生成文本及其来源信息
+ */
+export async function volcanoGenerateStream(
+  messages: ChatMessage[],
+  onDelta: (delta: string) => void,
+  onReset: () => void,
+  images?: ProductImage[],
+  options: GenerateCallOptions = {}
+): Promise<GenerateResult> {
+  const startedAt = Date.now()
+  const reasons: string[] = []
+  const chain = resolveChain(options, reasons)
+
+  for (const [index, provider] of chain.entries()) {
+    const request = buildRequest(provider, index, messages, images, options)
+
+    const result = await attempt(
+      provider,
+      async () => {
+        if (provider.supportsStream && provider.stream) {
+          return provider.stream(request, onDelta)
+        }
+        const full = await provider.generate(request)
+        if (full) onDelta(full.text)
+        return full
+      },
+      reasons
+    )
+
+    if (result) {
+      return {
+        text: result.text,
+        provenance: buildProvenance(provider, request.model, result, reasons, startedAt),
+      }
+    }
+
+    // 当前提供方失败，丢弃已回传的内容后尝试下一个
+    onReset()
   }
-  
-  // 如果API调用失败，使用模拟数据
-  // 从消息历史中找到最后一条用户消息作为提示词
-  const reversedMessages = [...messages].reverse()
-  const lastUserMessage = reversedMessages.find(m => m.role === 'user')?.content ?? ''
-  
-  return mockGenerate(lastUserMessage)
+
+  throw exhaustedError(reasons)
 }
 
 // 导出类型供其他模块使用
@@ -0,0 +1,118 @@
+import assert from 'node:assert/strict'
+import { afterEach, beforeEach, test } from 'node:test'
+import type { Assets } from '@/types'
+import { generateAssets, regenerateField } from './aiService'
+
+/**
+ * 结构合法但卖点只有2条（违反3-5条的规则），会触发修复轮
+ */
+const ROUND_ZERO: Assets = {
+  title: '316不锈钢保温杯 500ml大容量 12小时保温',
+  selling_points: ['316不锈钢内胆，耐腐蚀更安心', '12小时长效保温，下午仍温热'],
+  atmosphere: '通勤焕新季',
+  video_script: [
+    {
+      s: 0,
+      duration: 3,
+      shot: 'close_up',
+      v: '杯口冒出热气的特写',
+      caption: '12小时还是热的',
+      voiceover: '早上装的热水，下午打开还冒热气',
+    },
+    {
+      s: 3,
+      duration: 3,
+      shot: 'medium',
+      v: '办公桌上倒出热茶',
+      caption: '500ml 一天够喝',
+      voiceover: '500毫升大容量，上班一整天都够用',
+    },
+  ],
+}
+
+/**
+ * 符合规则的素材
+ */
+const VALID: Assets = {
+  ...ROUND_ZERO,
+  selling_points: [...ROUND_ZERO.selling_points, '杯身轻巧防漏，通勤包里随手放'],
+}
+
+const originalFetch = globalThis.fetch
+let calls = 0
+
+/**
+ * 按调用顺序依次返回 replies 中的模型输出；为null或超出 replies 的调用返回不可重试的400
+ */
+function stubModel(...replies: (unknown | null)[]): void {
+  calls = 0
+  globalThis.fetch = async () => {
+    const reply = replies[calls++] ?? null
+    if (reply === null) return new Response('{"error":{"message":"bad request"}}', { status: 400 })
+    const content = JSON.stringify(reply)
+    return Response.json({
+      choices: [{ message: { role: 'assistant', content } }],
+      usage: { prompt_tokens: 100, completion_tokens: 50 },
+    })
+  }
+}
+
+beforeEach(() => {
+  process.env.LLM_PROVIDERS = 'doubao'
+  process.env.DOUBAO_API_KEY = 'test'
+  process.env.DOUBAO_ENDPOINT = 'http://127.0.0.1:9/api/v3/chat/completions'
+  process.env.GENERATION_CACHE_TTL_SECONDS = '0'
+})
+
+afterEach(() => {
+  globalThis.fetch = originalFetch
+})
+
+test('修复轮失败时保留首轮的真实模型结果，而不是回退到模拟数据', async () => {
+  stubModel(ROUND_ZERO)
+  const meta = await generateAssets('316不锈钢保温杯，500ml，12小时保温', [])
+
+  assert.equal(calls, 2)
+  assert.ok(meta)
+  assert.equal(meta.title, ROUND_ZERO.title)
+  assert.deepEqual(meta.selling_points, ROUND_ZERO.selling_points)
+  assert.equal(meta.provenance?.provider, 'doubao')
+  assert.equal(meta.provenance?.usage?.length, 1)
+})
+
+test('字段重新生成的修复轮失败时保留首轮的真实模型结果', async () => {
+  const { selling_points, ...rest } = ROUND_ZERO
+  stubModel({ selling_points })
+  const result = await regenerateField(
+    { ...rest, selling_points: ['旧卖点一', '旧卖点二', '旧卖点三'] },
+    'selling_points',
+    '316不锈钢保温杯'
+  )
+
+  assert.equal(calls, 2)
+  assert.ok(result)
+  assert.deepEqual(result.assets.selling_points, selling_points)
+  assert.equal(result.provenance.provider, 'doubao')
+})
+
+test('禁用模拟数据时部分候选方案失败，保留成功的方案', async () => {
+  stubModel(VALID, null)
+  const meta = await generateAssets('316不锈钢保温杯，500ml，12小时保温', [], [], {
+    variants: 2,
+    allowMock: false,
+  })
+
+  assert.equal(calls, 2)
+  assert.ok(meta)
+  assert.equal(meta.candidates?.length, 1)
+  assert.equal(meta.title, VALID.title)
+  assert.equal(meta.provenance?.provider, 'doubao')
+})
+
+test('禁用模拟数据时全部候选方案失败才抛出错误', async () => {
+  stubModel(null, null)
+  await assert.rejects(
+    generateAssets('316不锈钢保温杯', [], [], { variants: 2, allowMock: false }),
+    /没有可用的文本生成服务/
+  )
+})
@@ -2,24 +2,200 @@
  * AI服务模块 - 电商素材生成
  *
  * 本模块提供了生成电商营销素材的核心服务。
- * 它会调用AI模型生成包含标题、卖点、氛围词和视频脚本的完整素材数据。
+ * 它会调用AI模型生成包含标题、卖点、氛围词和视频脚本的完整素材数据，
+ * 以及按请求生成的扩展内容（搜索关键词、话题标签、详情页文案、常见问答）。
  *
  * 工作流程：
  * 1. 构建包含系统提示和对话历史的完整消息列表
  * 2. 调用AI模型生成JSON格式的素材数据
- * 3. 解析并验证返回的JSON数据
- * 4. 如果解析失败，会重试一次（仅使用当前提示，不含历史）
+ * 3. 解析并按规则校验返回的JSON数据，同时做广告合规检查（会话选用了品牌规范时还检查品牌规范，
+ *    提供了竞品时还检查卖点是否与竞品重复，有生效的营销活动时还检查标题与氛围词是否体现活动；
+ *    提供了买家评价时把卖点关联到评价依据）
+ * 4. 如果解析、校验或合规检查失败，把字段级违规信息作为修复指令反馈给模型，
+ *    在保留上下文的前提下让模型修正/改写（最多 MAX_REPAIR_ROUNDS 轮）
+ * 5. 仍未解决的合规问题记录在返回的元数据中，由前端提示
+ *
+ * 系统提示词取自提示词模板注册表（见 ./promptRegistry），使用的模板版本记录在返回的元数据中。
+ * 返回的元数据中记录了生成来源（提供方、模型、回退原因、耗时）；
+ * 结果来自模拟数据时不会进入修复轮，因为模拟数据不会根据修复指令改变。
+ * 相同的请求会复用模型输出缓存（见 ./generationCache），可通过 noCache 跳过。
+ *
+ * 传入 onDelta 时以流式方式调用模型，模型输出会被增量回传给调用方。
+ * 指定 variants 时会并行生成多个候选方案，按评分排序后采用得分最高的方案。
+ * 对已有素材还可以只重新生成某一个字段，其余字段作为固定上下文保持不变。
+ */
+
+import {
+  volcanoGenerate,
+  volcanoGenerateStream,
+  ChatMessage,
+  type GenerateResult,
+} from '@/lib/volcano'
+import type { ModelTask } from '@/lib/providers'
+import { ASSET_SECTIONS, ASSETS_SCHEMA_VERSION, pickAssets } from '@/lib/assets'
+import { formatProductProfile, isEmptyProductProfile } from '@/lib/productProfile'
+import { SHOT_TRANSITIONS, SHOT_TYPES } from '@/lib/storyboard'
+import type {
+  AssetField,
+  AssetSection,
+  Assets,
+  AssetsMeta,
+  BrandGuide,
+  BrandIssue,
+  Campaign,
+  ClaimComparison,
+  CompetitorClaims,
+  ComplianceIssue,
+  GenerationProvenance,
+  PlatformId,
+  ProductImage,
+  ProductProfile,
+  PromptVersions,
+  ReviewEvidence,
+  ReviewInsights,
+} from '@/types'
+import {
+  validateAssets,
+  formatViolations,
+  type AssetRules,
+  type AssetValidationResult,
+  type AssetViolation,
+} from './assetValidator'
+import { getPlatformProfile, type PlatformProfile } from './platforms'
+import { rankCandidates } from './assetScoring'
+import { checkCompliance, complianceViolations } from './compliance'
+import { brandGuidePrompt, brandViolations, checkBrandGuide } from './brandCheck'
+import { compareClaims, differentiationPrompt, differentiationViolations } from './differentiation'
+import { hasReviewInsights, linkEvidence, reviewInsightsPrompt } from './reviewMining'
+import { campaignPrompt, campaignViolations } from './campaignCheck'
+import { withGenerationCache } from './generationCache'
+import { pickPromptVersion, renderPrompt } from './promptRegistry'
+
+/**
+ * 扩展内容在提示词中的JSON结构与数量要求
  */
+const SECTION_PROMPTS: Record<
+  AssetSection,
+  { shape: string; requirement: (rules: AssetRules) => string }
+> = {
+  seo_keywords: {
+    shape: '"seo_keywords":string[]',
+    requirement: (r) =>
+      `搜索关键词${r.sections.seo_keywords.min}-${r.sections.seo_keywords.max}个（买家会搜索的品类词、属性词和场景词）`,
+  },
+  hashtags: {
+    shape: '"hashtags":string[]',
+    requirement: (r) =>
+      `话题标签${r.sections.hashtags.min}-${r.sections.hashtags.max}个（以#开头，不含空格）`,
+  },
+  detail_copy: {
+    shape: '"detail_copy":string[]',
+    requirement: (r) =>
+      `详情页文案${r.sections.detail_copy.min}-${r.sections.detail_copy.max}段（每段围绕一个卖点展开）`,
+  },
+  faq: {
+    shape: '"faq":Array<{q:string,a:string}>',
+    requirement: (r) =>
+      `常见问答${r.sections.faq.min}-${r.sections.faq.max}条（买家下单前关心的问题与简洁的回答）`,
+  },
+}
+
+/**
+ * 构建系统提示词
+ *
+ * 定义AI助手的角色和任务，指导它生成符合要求的电商素材。角色与任务的措辞取自提示词模板 'assets'，
+ * 模板中的 {{shape}}、{{requirements}}、{{context}} 分别替换为JSON结构、数量要求和下面追加的上下文。
+ * 其中的数量与长度要求取自平台配置的校验规则，与校验保持一致；请求了扩展内容时，
+ * JSON结构和数量要求中加入对应部分；
+ * 非通用平台还会追加该平台的风格说明；会话填写了商品档案时追加档案内容，作为商品事实的依据；
+ * 会话选用了品牌规范时追加品牌的语气与用语要求；提供了竞品时追加竞品已有的卖点，要求避开；
+ * 提供了买家评价时追加评价中的好评属性与痛点，作为卖点的依据；有生效的营销活动时追加活动的氛围与标题要求。
+ *
+ * @param profile - 目标平台配置
+ * @param variant - 候选方案序号（从0开始），非首个方案会要求模型换一个切入角度，拉开方案差异
+ * @param context - 请求的扩展内容、会话的商品档案与品牌规范、竞品卖点、评价洞察、营销活动
+ * @param version - 提示词模板 'assets' 的版本（见 pickPromptVersion）
+ * @returns 系统提示词
+ */
+function buildSystemPrompt(
+  profile: PlatformProfile,
+  variant = 0,
+  context: Pick<
+    GenerateAssetsOptions,
+    | 'sections'
+    | 'product'
+    | 'brandGuide'
+    | 'competitors'
+    | 'reviewInsights'
+    | 'campaign'
+    | 'launchDate'
+  > = {},
+  version?: string
+): string {
+  const { sections = [], product, brandGuide, competitors, reviewInsights, campaign } = context
+  const r = profile.rules
+  const shape = [
+    '"title":string',
+    '"selling_points":string[]',
+    '"atmosphere":string',
+    `"video_script":Array<{s:number,duration:number,shot:${SHOT_TYPES.map((t) => `"${t.id}"`).join('|')},v:string,caption:string,voiceover:string,bgm?:string,transition?:${SHOT_TRANSITIONS.map((t) => `"${t.id}"`).join('|')}}>`,
+    ...sections.map((section) => SECTION_PROMPTS[section].shape),
+  ]
+  const requirements = [
+    `标题${r.titleMin}-${r.titleMax}字`,
+    `卖点${r.sellingPointsMin}-${r.sellingPointsMax}条`,
+    `脚本为分镜，总时长${r.scriptMinSeconds}-${r.scriptMaxSeconds}秒，s从0开始，每个镜头的s等于上一镜头的s加duration`,
+    `分镜中shot为景别/运镜（${SHOT_TYPES.map((t) => `${t.id}=${t.label}`).join('、')}），v为画面描述，caption为屏幕字幕，voiceover为口播台词（没有时填空字符串），bgm为可选的配乐提示，transition为切到下一镜头的转场（${SHOT_TRANSITIONS.map((t) => `${t.id}=${t.label}`).join('、')}）`,
+    ...sections.map((section) => SECTION_PROMPTS[section].requirement(r)),
+  ]
+  const parts: string[] = []
+  if (profile.prompt) parts.push(profile.prompt)
+  if (product && !isEmptyProductProfile(product)) {
+    parts.push(
+      `商品档案（品牌、价格、规格等事实以此为准，不要编造档案之外的参数）：\n${formatProductProfile(product)}`
+    )
+  }
+  if (brandGuide) parts.push(brandGuidePrompt(brandGuide))
+  if (competitors?.length) parts.push(differentiationPrompt(competitors))
+  if (reviewInsights && hasReviewInsights(reviewInsights)) {
+    parts.push(reviewInsightsPrompt(reviewInsights))
+  }
+  if (campaign) parts.push(campaignPrompt(campaign, context.launchDate))
+  if (variant > 0) {
+    parts.push(
+      `这是同一商品的第${variant + 1}个备选方案，请换一个与常规写法不同的切入角度（如目标人群、使用场景或情感诉求）。`
+    )
+  }
+  return renderPrompt(
+    'assets',
+    {
+      shape: `{${shape.join(',')}}`,
+      requirements: requirements.join('，'),
+      context: parts.join('\n'),
+    },
+    version
+  ).text
+}
 
-import { volcanoGenerate, ChatMessage } from '@/lib/volcano'
-import type { Assets } from '@/types'
+/**
+ * 提示词版本
+ *
+ * 作为模型输出缓存键的一部分；调整代码中的提示词写法（如修复指令、数量要求）后递增，使旧缓存失效。
+ * 提示词模板的文本本身就是消息内容的一部分，修改或切换模板版本时缓存键自然随之改变。
+ */
+const PROMPT_VERSION = '3'
 
 /**
- * 系统提示词
+ * 最多修复轮数
  *
- * 定义AI助手的角色和任务，指导它生成符合要求的电商素材。
+ * 首次生成不合格时，最多再让模型修复的次数。
  */
-const SYSTEM_PROMPT = `你是电商运营专家。基于用户上传的商品信息与描述，仅返回一个JSON对象：{"title":string,"selling_points":string[],"atmosphere":string,"video_script":Array<{s:number,v:string}>}，中文输出，标题10-30字，卖点3-5条，脚本3-10秒。`
+const MAX_REPAIR_ROUNDS = 2
+
+/**
+ * 单次请求最多生成的候选方案数
+ */
+export const MAX_VARIANTS = 5
 
 /**
  * 安全解析JSON字符串
@@ -28,7 +204,7 @@ const SYSTEM_PROMPT = `你是电商运营专家。基于用户上传的商品信
  * AI模型有时会在JSON前后添加解释性文本，此函数会尝试提取核心JSON部分。
  *
  * @param text - 可能包含JSON的文本字符串
- * @returns 解析后的对象，如果解析失败则返回null
+ * @returns 解析后的值（未经校验），如果解析失败则返回null
  *
  * @example
  * ```typescript
@@ -36,7 +212,7 @@ const SYSTEM_PROMPT = `你是电商运营专家。基于用户上传的商品信
  * const data = safeParseJson(text); // 返回解析后的对象
  * ```
  */
-function safeParseJson(text: string): Assets | null {
+function safeParseJson(text: string): unknown {
   try {
     // 查找第一个 '{' 和最后一个 '}'
     const first = text.indexOf('{')
@@ -45,12 +221,11 @@ function safeParseJson(text: string): Assets | null {
     // 如果找到了完整的JSON结构，提取核心部分
     if (first >= 0 && last >= 0 && last > first) {
       const core = text.slice(first, last + 1)
-      const obj = JSON.parse(core)
-      return obj as Assets
+      return JSON.parse(core)
     }
 
     // 如果没有找到，尝试直接解析整个文本
-    return JSON.parse(text) as Assets
+    return JSON.parse(text)
   } catch (error) {
     // 解析失败，返回null
     console.error('JSON解析失败:', error)
@@ -58,62 +233,534 @@ function safeParseJson(text: string): Assets | null {
   }
 }
 
+/**
+ * 素材生成选项
+ */
+export interface GenerateAssetsOptions {
+  /**
+   * 目标电商平台，决定提示词风格与校验规则（默认：通用）
+   */
+  platform?: PlatformId
+  /**
+   * 需要额外生成的扩展内容（默认：不生成）
+   */
+  sections?: AssetSection[]
+  /**
+   * 会话的商品档案，每轮都作为结构化上下文发给模型
+   */
+  product?: ProductProfile | null
+  /**
+   * 会话选用的品牌规范：并入系统提示词，生成后检查是否遵守，问题与广告合规问题一样反馈给模型修复
+   */
+  brandGuide?: BrandGuide | null
+  /**
+   * 竞品卖点（见 ./differentiation）：并入系统提示词，生成后与我方卖点对比，重复的卖点反馈给模型改写
+   */
+  competitors?: CompetitorClaims[]
+  /**
+   * 买家评价挖掘结果（见 ./reviewMining）：并入系统提示词作为卖点依据，生成后把卖点关联到评价原文
+   */
+  reviewInsights?: ReviewInsights
+  /**
+   * 上新日期 'YYYY-MM-DD'，记录在素材上
+   */
+  launchDate?: string
+  /**
+   * 生效的营销活动（见 @/lib/campaigns）：并入系统提示词，生成后检查标题与氛围词是否体现活动
+   */
+  campaign?: Campaign | null
+  /**
+   * 沿用的提示词模板版本（重试、重新生成时取原消息上记录的版本）；未指定时按模板注册表分配
+   */
+  prompts?: PromptVersions
+  /**
+   * 候选方案数（1-MAX_VARIANTS，默认1）；大于1时并行生成并按评分排序
+   */
+  variants?: number
+  /**
+   * 是否允许回退到模拟数据（默认：true）；为false时真实模型全部失败会抛出错误
+   */
+  allowMock?: boolean
+  /**
+   * 是否跳过模型输出缓存（默认：false）；为true时总是调用模型，并用新的输出刷新缓存
+   */
+  noCache?: boolean
+  /**
+   * 流式输出回调：提供时以流式方式调用模型，逐段回传模型输出的原始文本；
+   * 生成多个候选方案时只回传第一个方案的输出
+   */
+  onDelta?: (delta: string) => void
+  /**
+   * 需要丢弃已回传内容时的回调（如回退到模拟数据或进入重试）
+   */
+  onReset?: () => void
+}
+
+/**
+ * 带来源信息的生成结果
+ */
+export interface GeneratedWithProvenance {
+  assets: Assets
+  provenance: GenerationProvenance
+}
+
+/**
+ * 调用模型生成一次，根据选项决定是否使用流式输出
+ *
+ * 相同的请求优先复用模型输出缓存，命中时缓存的输出作为一整段增量回传。
+ *
+ * @param messages - 完整的消息列表
+ * @param images - 可选的商品图片（按顺序）
+ * @param task - 调用的任务，决定使用的模型和最大生成token数
+ * @param options - 素材生成选项
+ * @returns 模型输出的文本及其来源信息
+ */
+function callModel(
+  messages: ChatMessage[],
+  images: ProductImage[] | undefined,
+  task: ModelTask,
+  options: GenerateAssetsOptions
+): Promise<GenerateResult> {
+  const { onDelta, onReset, allowMock, noCache, campaign } = options
+  return withGenerationCache(
+    { messages, images, promptVersion: PROMPT_VERSION, task },
+    () =>
+      onDelta
+        ? volcanoGenerateStream(messages, onDelta, onReset ?? (() => {}), images, {
+            task,
+            allowMock,
+            campaign,
+          })
+        : volcanoGenerate(messages, images, { task, allowMock, campaign }),
+    { noCache, onHit: onDelta }
+  )
+}
+
+/**
+ * 累加多轮调用的耗时与用量，来源信息以最后一轮为准
+ */
+function mergeProvenance(
+  previous: GenerationProvenance | null,
+  current: GenerationProvenance
+): GenerationProvenance {
+  if (!previous) return current
+  return {
+    ...current,
+    latencyMs: previous.latencyMs + current.latencyMs,
+    usage: [...(previous.usage ?? []), ...(current.usage ?? [])],
+  }
+}
+
+/**
+ * 构建修复指令
+ *
+ * @param violations - 上一次输出的违规信息
+ * @returns 作为用户消息发送给模型的修复指令
+ */
+function buildRepairPrompt(violations: AssetViolation[]): string {
+  return `你上一次返回的结果不符合要求，问题如下：\n${formatViolations(violations)}\n请只修正以上问题，其余内容尽量保持不变，仍然仅返回一个完整的JSON对象。`
+}
+
+/**
+ * 输出检查所需的选项：请求的扩展内容、品牌规范、竞品卖点与营销活动
+ */
+type CheckOptions = Pick<
+  GenerateAssetsOptions,
+  'sections' | 'brandGuide' | 'competitors' | 'campaign'
+>
+
+/**
+ * 解析并检查模型输出
+ *
+ * 结构与规则校验通过后再做广告合规检查、品牌规范检查、竞品对比和营销活动检查，发现的问题同样作为违规信息返回，
+ * 以便在修复轮中要求模型改写。
+ *
+ * @param response - 模型输出的文本
+ * @param profile - 目标平台配置
+ * @param options - 请求的扩展内容，以及可选的品牌规范、竞品卖点与营销活动
+ * @returns 结构合法的素材（可能为null）和所有违规信息
+ */
+function checkResponse(
+  response: string,
+  profile: PlatformProfile,
+  options: CheckOptions
+): AssetValidationResult {
+  const parsed = safeParseJson(response)
+  if (parsed === null) {
+    return { assets: null, violations: [{ path: '$', message: '未返回可解析的JSON对象' }] }
+  }
+  return checkParsed(parsed, profile, options)
+}
+
+/**
+ * 校验已解析的值并做合规检查、品牌规范检查、竞品对比与营销活动检查
+ */
+function checkParsed(
+  parsed: unknown,
+  profile: PlatformProfile,
+  options: CheckOptions
+): AssetValidationResult {
+  const { assets, violations } = validateAssets(parsed, profile.rules, options.sections)
+  if (!assets) return { assets, violations }
+  const { compliance, brand = [], comparison = [] } = reviewAssets(assets, options)
+  return {
+    assets,
+    violations: [
+      ...violations,
+      ...complianceViolations(compliance),
+      ...brandViolations(brand),
+      ...differentiationViolations(comparison),
+      ...(options.campaign ? campaignViolations(assets, options.campaign) : []),
+    ],
+  }
+}
+
+/**
+ * 生成后的检查结果：广告合规问题，选用了品牌规范时还包括品牌规范问题，提供了竞品时还包括卖点对比，
+ * 提供了买家评价时还包括卖点的评价依据
+ */
+function reviewAssets(
+  assets: Assets,
+  options: Pick<GenerateAssetsOptions, 'brandGuide' | 'competitors' | 'reviewInsights'>
+): {
+  compliance: ComplianceIssue[]
+  brand?: BrandIssue[]
+  comparison?: ClaimComparison[]
+  evidence?: ReviewEvidence[]
+} {
+  const { brandGuide, competitors, reviewInsights } = options
+  return {
+    compliance: checkCompliance(assets),
+    ...(brandGuide && { brand: checkBrandGuide(assets, brandGuide) }),
+    ...(competitors?.length && { comparison: compareClaims(assets, competitors) }),
+    ...(reviewInsights && { evidence: linkEvidence(assets, reviewInsights) }),
+  }
+}
+
+/**
+ * 生成单个候选方案
+ *
+ * 生成-校验-修复循环：每一轮都保留之前的输出和修复指令作为上下文。
+ * 修复轮不回退到模拟数据（模拟数据会把修复指令当作商品描述）：修复轮没有可用的真实模型时，
+ * 保留上一轮的结果及其来源。
+ *
+ * @param messages - 完整的消息列表（会在修复过程中追加内容）
+ * @param images - 可选的商品图片（按顺序）
+ * @param profile - 目标平台配置
+ * @param options - 素材生成选项
+ * @returns 校验通过的素材及来源；修复轮数用尽时返回结构合法的兜底结果，都没有则返回null
+ */
+async function generateCandidate(
+  messages: ChatMessage[],
+  images: ProductImage[] | undefined,
+  profile: PlatformProfile,
+  options: GenerateAssetsOptions
+): Promise<GeneratedWithProvenance | null> {
+  let fallback: Assets | null = null
+  let provenance: GenerationProvenance | null = null
+  for (let round = 0; round <= MAX_REPAIR_ROUNDS; round++) {
+    if (round > 0) options.onReset?.()
+
+    // 首轮按是否带图片区分首次生成与纯文本生成，之后都是修复轮
+    const task: ModelTask = round > 0 ? 'repair' : images?.length ? 'initial' : 'refine'
+    let result: GenerateResult
+    try {
+      result = await callModel(
+        messages,
+        images,
+        task,
+        round > 0 ? { ...options, allowMock: false } : options
+      )
+    } catch (error) {
+      if (round === 0) throw error
+      console.warn(`素材修复失败（第${round + 1}次），保留上一轮的结果:`, error)
+      break
+    }
+    const response = result.text
+    provenance = mergeProvenance(provenance, result.provenance)
+    const { assets, violations } = checkResponse(response, profile, options)
+
+    // 完全符合规则，直接返回
+    if (assets && violations.length === 0) {
+      return { assets, provenance }
+    }
+
+    // 结构合法但有规则违规时，记录为兜底结果
+    if (assets) fallback = assets
+    console.warn(`素材校验未通过（第${round + 1}次）:\n${formatViolations(violations)}`)
+
+    // 模拟数据不会按修复指令改变，继续修复没有意义
+    if (provenance.provider === 'mock') break
+
+    messages.push(
+      { role: 'assistant', content: response },
+      { role: 'user', content: buildRepairPrompt(violations) }
+    )
+  }
+
+  // 修复轮数用尽：返回结构合法的兜底结果（如果有），否则返回null
+  return fallback && provenance ? { assets: fallback, provenance } : null
+}
+
 /**
  * 生成电商素材
  *
  * 这是主要的素材生成函数，会根据商品描述和对话历史生成完整的营销素材。
+ * 请求多个候选方案时，各方案并行生成、独立校验修复，最后按评分排序，
+ * 得分最高的方案作为返回值的顶层素材，全部方案记录在 candidates 中。
  *
  * @param productDescription - 商品描述文本（用户输入）
  * @param history - 对话历史记录，用于上下文理解
- * @param imageUrl - 可选的商品图片URL，用于多模态生成
- * @returns 生成的素材数据对象，包含title、selling_points、atmosphere、video_script
+ * @param images - 可选的商品图片（按顺序，标明主图/细节图/包装图），用于多模态生成
+ * @param options - 可选的生成选项（如目标平台、候选方案数、流式输出回调）
+ * @returns 生成的素材元数据，顶层包含title、selling_points、atmosphere、video_script、请求的扩展内容及生成来源；全部失败时返回null
  *
  * @example
  * ```typescript
  * const assets = await generateAssets(
  *   '这是一款高品质的蓝牙耳机',
  *   [{ role: 'user', content: '我需要为这款耳机生成营销素材' }],
- *   'https://example.com/earphone.jpg'
+ *   [{ url: 'https://example.com/earphone.jpg', role: 'main' }],
+ *   { variants: 3 }
  * );
- * console.log(assets.title); // 生成的标题
- * console.log(assets.selling_points); // 生成的卖点列表
+ * console.log(assets.title); // 得分最高方案的标题
+ * console.log(assets.candidates); // 按评分排序的全部候选方案
  * ```
  */
 export async function generateAssets(
   productDescription: string,
   history: { role: 'user' | 'assistant'; content: string }[],
-  imageUrl?: string
-): Promise<Assets | null> {
+  images?: ProductImage[],
+  options: GenerateAssetsOptions = {}
+): Promise<AssetsMeta | null> {
+  const profile = getPlatformProfile(options.platform)
+  const variants = Math.min(Math.max(Math.floor(options.variants ?? 1), 1), MAX_VARIANTS)
+  // 同一次请求的所有候选方案使用同一个模板版本
+  const promptVersion = pickPromptVersion('assets', options.prompts?.assets)
+
   // 构建完整的消息列表
   // 1. 系统提示词（定义AI的角色和任务）
   // 2. 对话历史（提供上下文）
   // 3. 当前用户输入（商品描述）
-  const messages: ChatMessage[] = [
-    { role: 'system', content: SYSTEM_PROMPT },
+  const buildMessages = (variant: number): ChatMessage[] => [
+    { role: 'system', content: buildSystemPrompt(profile, variant, options, promptVersion) },
     ...history,
     { role: 'user', content: productDescription },
   ]
 
-  // 第一次尝试：使用完整上下文生成
-  const response = await volcanoGenerate(messages, imageUrl)
-  const data = safeParseJson(response)
+  // 记录素材结构版本、请求的扩展内容、提示词模板版本、生成时选用的品牌规范、对比的竞品、
+  // 依据的评价洞察和营销活动
+  const schema = {
+    schemaVersion: ASSETS_SCHEMA_VERSION,
+    ...(options.sections?.length && { sections: options.sections }),
+    prompts: { ...options.prompts, assets: promptVersion },
+  }
+  const guide = options.brandGuide && {
+    brandGuide: { id: options.brandGuide.id, name: options.brandGuide.name },
+  }
+  const rivals = options.competitors?.length && { competitors: options.competitors }
+  const insights = options.reviewInsights && { reviewInsights: options.reviewInsights }
+  const calendar = {
+    ...(options.launchDate && { launchDate: options.launchDate }),
+    ...(options.campaign && { campaign: options.campaign }),
+  }
 
-  // 如果第一次解析成功，直接返回
-  if (data) {
-    return data
+  if (variants === 1) {
+    const result = await generateCandidate(buildMessages(0), images, profile, options)
+    return (
+      result && {
+        ...result.assets,
+        ...schema,
+        ...reviewAssets(result.assets, options),
+        ...guide,
+        ...rivals,
+        ...insights,
+        ...calendar,
+        provenance: result.provenance,
+      }
+    )
   }
 
-  // 如果第一次解析失败，进行第二次尝试
-  // 这次只使用系统提示和当前输入，不使用历史记录
-  // 这样可以避免历史记录中的格式问题影响生成
-  const retryMessages: ChatMessage[] = [
-    { role: 'system', content: SYSTEM_PROMPT },
-    { role: 'user', content: productDescription },
+  // 并行生成多个候选方案，只有第一个方案回传流式输出
+  const silent: GenerateAssetsOptions = { ...options, onDelta: undefined, onReset: undefined }
+  const results = await Promise.allSettled(
+    Array.from({ length: variants }, (_, i) =>
+      generateCandidate(buildMessages(i), images, profile, i === 0 ? options : silent)
+    )
+  )
+  // 部分方案失败（如禁用了模拟数据回退）时保留成功的方案，全部失败才抛出错误
+  const generated = results.flatMap((result) =>
+    result.status === 'fulfilled' && result.value ? [result.value] : []
+  )
+  const failed = results.filter((result) => result.status === 'rejected')
+  if (generated.length === 0) {
+    if (failed.length > 0) throw failed[0].reason
+    return null
+  }
+  if (failed.length > 0) {
+    console.warn(`${failed.length}个候选方案生成失败，保留成功的${generated.length}个方案`)
+  }
+
+  const candidates = rankCandidates(generated, productDescription, profile.rules).map(
+    (candidate) => ({ ...candidate, ...reviewAssets(candidate.assets, options) })
+  )
+  const best = candidates[0]
+  return {
+    ...best.assets,
+    ...schema,
+    candidates,
+    selectedIndex: 0,
+    compliance: best.compliance,
+    brand: best.brand,
+    comparison: best.comparison,
+    evidence: best.evidence,
+    ...guide,
+    ...rivals,
+    ...insights,
+    ...calendar,
+    // 顶层用量包含所有候选方案的调用，即整条消息的消耗
+    provenance: {
+      ...best.provenance,
+      usage: candidates.flatMap((candidate) => candidate.provenance.usage ?? []),
+    },
+  }
+}
+
+/**
+ * 素材字段的中文名称（用于提示词）
+ */
+const FIELD_LABELS: Record<AssetField, string> = {
+  title: '标题',
+  selling_points: '卖点',
+  atmosphere: '氛围词',
+  video_script: '视频分镜脚本',
+  seo_keywords: 'SEO关键词',
+  hashtags: '话题标签',
+  detail_copy: '详情页文案',
+  faq: '常见问答',
+}
+
+/**
+ * 判断违规信息是否属于指定字段
+ */
+function isFieldViolation(violation: AssetViolation, field: AssetField): boolean {
+  return (
+    violation.path === '$' || violation.path === field || violation.path.startsWith(`${field}[`)
+  )
+}
+
+/**
+ * 重新生成素材的单个字段
+ *
+ * 其余字段作为固定上下文发给模型，模型只需返回目标字段；
+ * 合并后按平台规则校验，只有目标字段的违规会反馈给模型修复（最多 MAX_REPAIR_ROUNDS 轮）。
+ * 目标字段是尚未生成的扩展内容时，会作为新的部分补充到素材中。
+ *
+ * @param assets - 当前素材
+ * @param field - 需要重新生成的字段
+ * @param productDescription - 商品描述文本（生成该素材时的用户输入）
+ * @param images - 可选的商品图片（按顺序）
+ * @param options - 可选的生成选项（目标平台、商品档案、品牌规范、竞品卖点、评价洞察、营销活动、提示词模板版本）
+ * @returns 替换了目标字段的新素材及来源；修复轮数用尽时返回结构合法的兜底结果，都没有则返回null
+ *
+ * @example
+ * ```typescript
+ * const next = await regenerateField(assets, 'selling_points', '316不锈钢保温杯')
+ * console.log(next?.assets.title === assets.title) // => true
+ * ```
+ */
+export async function regenerateField(
+  assets: Assets,
+  field: AssetField,
+  productDescription: string,
+  images?: ProductImage[],
+  options: Pick<
+    GenerateAssetsOptions,
+    | 'platform'
+    | 'product'
+    | 'brandGuide'
+    | 'competitors'
+    | 'reviewInsights'
+    | 'campaign'
+    | 'launchDate'
+    | 'prompts'
+    | 'allowMock'
+  > = {}
+): Promise<GeneratedWithProvenance | null> {
+  const profile = getPlatformProfile(options.platform)
+  // 校验素材已有的扩展内容及目标字段
+  const sections = ASSET_SECTIONS.map((section) => section.id).filter(
+    (id) => id === field || assets[id] !== undefined
+  )
+  const fixed = Object.fromEntries(
+    Object.entries(pickAssets(assets)).filter(([key]) => key !== field)
+  )
+  const messages: ChatMessage[] = [
+    {
+      role: 'system',
+      content: buildSystemPrompt(
+        profile,
+        0,
+        { ...options, sections },
+        pickPromptVersion('assets', options.prompts?.assets)
+      ),
+    },
+    {
+      role: 'user',
+      content: `商品描述：${productDescription}\n现有素材中以下字段已确定，请保持不变并作为上下文：\n${JSON.stringify(fixed)}\n请只重新生成${FIELD_LABELS[field]}（${field}），要求与现有版本不同，且与已确定的字段风格一致。仅返回一个JSON对象：{"${field}": ...}`,
+    },
   ]
 
-  const retryResponse = await volcanoGenerate(retryMessages, imageUrl)
-  const retryData = safeParseJson(retryResponse)
+  let fallback: Assets | null = null
+  let provenance: GenerationProvenance | null = null
+  for (let round = 0; round <= MAX_REPAIR_ROUNDS; round++) {
+    // 与 generateCandidate 相同，修复轮不回退到模拟数据，失败时保留上一轮的结果
+    let generated: GenerateResult
+    try {
+      generated = await volcanoGenerate(messages, images, {
+        task: round > 0 ? 'repair' : 'regenerate',
+        allowMock: round > 0 ? false : options.allowMock,
+        campaign: options.campaign,
+      })
+    } catch (error) {
+      if (round === 0) throw error
+      console.warn(`字段重新生成修复失败（第${round + 1}次），保留上一轮的结果:`, error)
+      break
+    }
+    const response = generated.text
+    provenance = mergeProvenance(provenance, generated.provenance)
+    const parsed = safeParseJson(response)
+    const value =
+      typeof parsed === 'object' && parsed !== null
+        ? (parsed as Record<string, unknown>)[field]
+        : undefined
+    const result =
+      value === undefined
+        ? {
+            assets: null,
+            violations: [{ path: '$', message: `未返回包含 ${field} 字段的JSON对象` }],
+          }
+        : checkParsed({ ...assets, [field]: value }, profile, {
+            sections,
+            brandGuide: options.brandGuide,
+            competitors: options.competitors,
+            campaign: options.campaign,
+          })
+    const violations = result.violations.filter((v) => isFieldViolation(v, field))
+
+    if (result.assets && violations.length === 0) {
+      return { assets: result.assets, provenance }
+    }
+
+    if (result.assets) fallback = result.assets
+    console.warn(`字段重新生成校验未通过（第${round + 1}次）:\n${formatViolations(violations)}`)
+    if (provenance.provider === 'mock') break
+
+    messages.push(
+      { role: 'assistant', content: response },
+      { role: 'user', content: buildRepairPrompt(violations) }
+    )
+  }
 
-  // 返回重试结果（如果还是失败，返回null）
-  return retryData
+  return fallback && provenance ? { assets: fallback, provenance } : null
 }
@@ -0,0 +1,170 @@
+/**
+ * 素材评分模块
+ *
+ * 同时生成多个候选方案时，用确定性的启发式规则为每个方案打分并排序，
+ * 同样的输入总是得到同样的分数。评分由三部分加权组成：
+ * - 长度合规度：标题字数、卖点条数、脚本时长是否落在平台规则范围内，超出越多扣分越多
+ * - 关键词覆盖度：商品描述中的关键词有多少出现在标题和卖点中
+ * - 卖点去重度：卖点之间字面重复越多扣分越多
+ */
+
+import type { Assets, AssetCandidate, AssetScore } from '@/types'
+import type { AssetRules } from './assetValidator'
+import { scriptDuration } from '@/lib/storyboard'
+
+/**
+ * 各分项权重
+ */
+const WEIGHTS = { length: 0.4, keywords: 0.35, uniqueness: 0.25 }
+
+/**
+ * 两条卖点的相似度超过该值即视为重复
+ */
+const DUPLICATE_THRESHOLD = 0.6
+
+/**
+ * 拆分关键词时使用的分隔符（空白与常见中英文标点）
+ */
+const SEPARATORS = /[\s,，。.;；、!！?？:：()（）[\]【】"“”'‘’/|+\-~～]+/
+
+function textLength(text: string): number {
+  return Array.from(text.trim()).length
+}
+
+/**
+ * 计算数值落在区间内的程度
+ *
+ * 在区间内为1，超出部分按区间下限的比例线性扣减，最低为0。
+ */
+function rangeScore(value: number, min: number, max: number): number {
+  if (value >= min && value <= max) return 1
+  const distance = value < min ? min - value : value - max
+  return Math.max(0, 1 - distance / Math.max(min, 1))
+}
+
+/**
+ * 将文本拆分为相邻两字组成的集合，用于衡量文本相似度
+ */
+function bigrams(text: string): Set<string> {
+  const chars = Array.from(text.replace(/\s+/g, '').toLowerCase())
+  const result = new Set<string>()
+  if (chars.length === 1) result.add(chars[0])
+  for (let i = 0; i < chars.length - 1; i++) result.add(chars[i] + chars[i + 1])
+  return result
+}
+
+/**
+ * 计算两段文本的相似度（两字组的Jaccard系数，0-1）
+ *
+ * @example
+ * ```typescript
+ * similarity('316不锈钢内胆', '316不锈钢') // => 0.67
+ * ```
+ */
+export function similarity(a: string, b: string): number {
+  const x = bigrams(a)
+  const y = bigrams(b)
+  if (x.size === 0 || y.size === 0) return 0
+  let common = 0
+  for (const gram of x) if (y.has(gram)) common++
+  return common / (x.size + y.size - common)
+}
+
+/**
+ * 从商品描述中提取关键词
+ *
+ * 按标点和空白切分，保留2字及以上的片段；
+ * 较长的连续中文片段无法可靠分词，改用其中相邻两字作为关键词。
+ *
+ * @param description - 商品描述
+ * @returns 去重后的关键词列表
+ */
+export function extractKeywords(description: string): string[] {
+  const keywords = new Set<string>()
+  for (const token of description.toLowerCase().split(SEPARATORS)) {
+    const length = textLength(token)
+    if (length < 2) continue
+    if (length <= 6 || /^[\x20-\x7e]+$/.test(token)) {
+      keywords.add(token)
+    } else {
+      for (const gram of bigrams(token)) keywords.add(gram)
+    }
+  }
+  return [...keywords]
+}
+
+/**
+ * 为单个素材方案打分
+ *
+ * @param assets - 素材数据
+ * @param description - 用户输入的商品描述，用于计算关键词覆盖度
+ * @param rules - 目标平台的校验规则
+ * @returns 各分项及加权总分（0-100）
+ *
+ * @example
+ * ```typescript
+ * const score = scoreAssets(assets, '316不锈钢保温杯 大容量', DEFAULT_ASSET_RULES)
+ * console.log(score.total) // => 87
+ * ```
+ */
+export function scoreAssets(assets: Assets, description: string, rules: AssetRules): AssetScore {
+  // 长度合规度
+  const duration = scriptDuration(assets.video_script)
+  const length =
+    (rangeScore(textLength(assets.title), rules.titleMin, rules.titleMax) +
+      rangeScore(assets.selling_points.length, rules.sellingPointsMin, rules.sellingPointsMax) +
+      rangeScore(duration, rules.scriptMinSeconds, rules.scriptMaxSeconds)) /
+    3
+
+  // 关键词覆盖度（描述中没有可用关键词时不扣分）
+  const keywordList = extractKeywords(description)
+  const haystack = [assets.title, ...assets.selling_points].join(' ').toLowerCase()
+  const keywords =
+    keywordList.length === 0
+      ? 1
+      : keywordList.filter((k) => haystack.includes(k)).length / keywordList.length
+
+  // 卖点去重度：每条与前面某条重复的卖点都会扣分
+  const points = assets.selling_points
+  let duplicates = 0
+  points.forEach((point, i) => {
+    if (points.slice(0, i).some((prev) => similarity(prev, point) >= DUPLICATE_THRESHOLD)) {
+      duplicates++
+    }
+  })
+  const uniqueness = points.length === 0 ? 0 : 1 - duplicates / points.length
+
+  const total =
+    length * WEIGHTS.length + keywords * WEIGHTS.keywords + uniqueness * WEIGHTS.uniqueness
+
+  return {
+    total: Math.round(total * 100),
+    length: Math.round(length * 100),
+    keywords: Math.round(keywords * 100),
+    uniqueness: Math.round(uniqueness * 100),
+  }
+}
+
+/**
+ * 为多个候选方案打分并按总分从高到低排序
+ *
+ * 总分相同时保持生成顺序，保证结果稳定。候选项上的其他信息（如生成来源）会原样保留。
+ *
+ * @param candidates - 候选方案列表，每项至少包含素材数据
+ * @param description - 用户输入的商品描述
+ * @param rules - 目标平台的校验规则
+ * @returns 排好序的候选方案
+ */
+export function rankCandidates<T extends { assets: Assets }>(
+  candidates: T[],
+  description: string,
+  rules: AssetRules
+): (T & AssetCandidate)[] {
+  return candidates
+    .map((candidate, index) => ({
+      candidate: { ...candidate, score: scoreAssets(candidate.assets, description, rules) },
+      index,
+    }))
+    .sort((a, b) => b.candidate.score.total - a.candidate.score.total || a.index - b.index)
+    .map(({ candidate }) => candidate)
+}
@@ -0,0 +1,485 @@
+/**
+ * 素材校验模块
+ *
+ * 对模型返回的素材数据做运行时校验，规则与系统提示词中对模型提出的要求一致
+ * （以下为默认规则，各平台配置可以覆盖，见 ./platforms）：
+ * - 标题10-30字
+ * - 卖点3-5条
+ * - 脚本总时长3-10秒，镜头开始时间 s 从0开始严格递增，且与上一镜头的时长 duration 首尾相接；
+ *   每个镜头须给出景别/运镜 shot、字幕 caption 和口播 voiceover，转场 transition 可选
+ * - 扩展内容只在请求时校验：关键词5-10个、话题标签3-8个（以 # 开头，不含空白）、
+ *   详情页文案2-5段、常见问答3-6条
+ *
+ * 校验结果包含字段级的违规信息，可直接反馈给模型进行修复。
+ * 扩展内容缺少或结构不合法时不影响核心素材，只省略该部分并记录违规。
+ */
+
+import type { AssetSection, Assets, FaqItem, VideoScriptSegment } from '@/types'
+import {
+  SHOT_TRANSITIONS,
+  SHOT_TYPES,
+  isShotTransition,
+  isShotType,
+  scriptDuration,
+} from '@/lib/storyboard'
+
+/**
+ * 素材校验规则
+ *
+ * @property titleMin - 标题最少字数
+ * @property titleMax - 标题最多字数
+ * @property sellingPointsMin - 卖点最少条数
+ * @property sellingPointsMax - 卖点最多条数
+ * @property scriptMinSeconds - 脚本最短时长（秒），以最后一个镜头的结束时间计
+ * @property scriptMaxSeconds - 脚本最长时长（秒），以最后一个镜头的结束时间计
+ * @property sections - 各扩展内容的最少/最多条数
+ * @property forbidden - 可选的禁用内容规则（如平台不允许的导流词）
+ */
+export interface AssetRules {
+  titleMin: number
+  titleMax: number
+  sellingPointsMin: number
+  sellingPointsMax: number
+  scriptMinSeconds: number
+  scriptMaxSeconds: number
+  sections: Record<AssetSection, { min: number; max: number }>
+  forbidden?: ForbiddenRule[]
+}
+
+/**
+ * 禁用内容规则
+ *
+ * @property pattern - 匹配禁用内容的正则表达式
+ * @property fields - 检查的字段，默认检查标题、卖点、氛围词、详情页文案、常见问答（字段存在时）
+ *   以及视频脚本的字幕和口播
+ * @property message - 违规说明
+ */
+export interface ForbiddenRule {
+  pattern: RegExp
+  fields?: Array<'title' | 'selling_points' | 'atmosphere' | 'detail_copy' | 'faq' | 'video_script'>
+  message: string
+}
+
+/**
+ * 默认校验规则
+ */
+export const DEFAULT_ASSET_RULES: AssetRules = {
+  titleMin: 10,
+  titleMax: 30,
+  sellingPointsMin: 3,
+  sellingPointsMax: 5,
+  scriptMinSeconds: 3,
+  scriptMaxSeconds: 10,
+  sections: {
+    seo_keywords: { min: 5, max: 10 },
+    hashtags: { min: 3, max: 8 },
+    detail_copy: { min: 2, max: 5 },
+    faq: { min: 3, max: 6 },
+  },
+}
+
+/**
+ * 字段级违规信息
+ *
+ * @property path - 违规字段路径，如 'title'、'selling_points[2]'、'video_script[1].duration'
+ * @property message - 违规说明（中文，可直接反馈给模型）
+ */
+export interface AssetViolation {
+  path: string
+  message: string
+}
+
+/**
+ * 校验结果
+ *
+ * @property assets - 结构合法时的素材数据（可能仍有规则违规），结构不合法时为null
+ * @property violations - 所有违规信息，为空表示完全符合规则
+ */
+export interface AssetValidationResult {
+  assets: Assets | null
+  violations: AssetViolation[]
+}
+
+/**
+ * 计算文本长度（按字符计，一个汉字或emoji算一个字）
+ */
+function textLength(text: string): number {
+  return Array.from(text.trim()).length
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0
+}
+
+/**
+ * 校验视频脚本
+ */
+function validateScript(
+  raw: unknown,
+  rules: AssetRules,
+  violations: AssetViolation[]
+): VideoScriptSegment[] | null {
+  if (!Array.isArray(raw)) {
+    violations.push({ path: 'video_script', message: 'video_script 必须是数组' })
+    return null
+  }
+  if (raw.length === 0) {
+    violations.push({ path: 'video_script', message: 'video_script 不能为空' })
+    return null
+  }
+
+  let structural = true
+  raw.forEach((seg, i) => {
+    const s = (seg as { s?: unknown } | null)?.s
+    const v = (seg as { v?: unknown } | null)?.v
+    if (typeof s !== 'number' || !Number.isFinite(s)) {
+      violations.push({ path: `video_script[${i}].s`, message: 's 必须是数字（秒）' })
+      structural = false
+    }
+    if (!isNonEmptyString(v)) {
+      violations.push({ path: `video_script[${i}].v`, message: 'v 必须是非空字符串' })
+      structural = false
+    }
+  })
+  if (!structural) return null
+
+  const segments = raw as Record<string, unknown>[]
+  const shots = segments.map((seg, i) => validateShot(seg, i, violations))
+  if (shots[0].s !== 0) {
+    violations.push({ path: 'video_script[0].s', message: '第一个镜头必须从0秒开始' })
+  }
+  for (let i = 1; i < shots.length; i++) {
+    const prev = shots[i - 1]
+    if (shots[i].s <= prev.s) {
+      violations.push({
+        path: `video_script[${i}].s`,
+        message: `s 必须严格递增（当前 ${shots[i].s} 不大于前一镜头的 ${prev.s}）`,
+      })
+    } else if (
+      prev.duration !== undefined &&
+      Math.abs(prev.s + prev.duration - shots[i].s) > 0.01
+    ) {
+      violations.push({
+        path: `video_script[${i}].s`,
+        message: `s 须等于前一镜头的开始时间加时长（${prev.s}+${prev.duration}），当前为 ${shots[i].s}`,
+      })
+    }
+  }
+
+  const duration = scriptDuration(shots)
+  if (duration < rules.scriptMinSeconds || duration > rules.scriptMaxSeconds) {
+    violations.push({
+      path: 'video_script',
+      message: `脚本时长须在${rules.scriptMinSeconds}-${rules.scriptMaxSeconds}秒之间（当前总时长${duration}秒）`,
+    })
+  }
+
+  return shots
+}
+
+/**
+ * 校验单个镜头的分镜字段
+ *
+ * s 和 v 已通过结构校验；分镜字段缺少或不合法只记录违规，不影响结构
+ * （早期只有 { s, v } 的脚本仍是结构合法的）。
+ *
+ * @returns 只包含已知字段的镜头
+ */
+function validateShot(
+  seg: Record<string, unknown>,
+  i: number,
+  violations: AssetViolation[]
+): VideoScriptSegment {
+  const path = `video_script[${i}]`
+  const shot: VideoScriptSegment = { s: seg.s as number, v: (seg.v as string).trim() }
+
+  if (typeof seg.duration === 'number' && Number.isFinite(seg.duration) && seg.duration > 0) {
+    shot.duration = seg.duration
+  } else {
+    violations.push({ path: `${path}.duration`, message: 'duration 必须是正数（秒）' })
+  }
+  if (isShotType(seg.shot)) {
+    shot.shot = seg.shot
+  } else {
+    violations.push({
+      path: `${path}.shot`,
+      message: `shot 须为 ${SHOT_TYPES.map((t) => t.id).join('、')} 之一`,
+    })
+  }
+  for (const key of ['caption', 'voiceover'] as const) {
+    if (typeof seg[key] === 'string') {
+      shot[key] = (seg[key] as string).trim()
+    } else {
+      violations.push({
+        path: `${path}.${key}`,
+        message: `${key} 必须是字符串（没有时填空字符串）`,
+      })
+    }
+  }
+  if (typeof seg.bgm === 'string' && seg.bgm.trim()) {
+    shot.bgm = seg.bgm.trim()
+  } else if (seg.bgm !== undefined && typeof seg.bgm !== 'string') {
+    violations.push({ path: `${path}.bgm`, message: 'bgm 必须是字符串' })
+  }
+  if (isShotTransition(seg.transition)) {
+    shot.transition = seg.transition
+  } else if (seg.transition !== undefined) {
+    violations.push({
+      path: `${path}.transition`,
+      message: `transition 须为 ${SHOT_TRANSITIONS.map((t) => t.id).join('、')} 之一`,
+    })
+  }
+  return shot
+}
+
+/**
+ * 扩展内容的中文名称（用于违规说明）
+ */
+const SECTION_LABELS: Record<AssetSection, string> = {
+  seo_keywords: '关键词',
+  hashtags: '话题标签',
+  detail_copy: '详情页文案',
+  faq: '常见问答',
+}
+
+/**
+ * 校验字符串列表类的扩展内容（关键词、话题标签、详情页文案）
+ */
+function validateStringSection(
+  section: Exclude<AssetSection, 'faq'>,
+  raw: unknown,
+  violations: AssetViolation[]
+): string[] | null {
+  if (!Array.isArray(raw)) {
+    violations.push({ path: section, message: `${section} 必须是字符串数组` })
+    return null
+  }
+  let structural = true
+  raw.forEach((item, i) => {
+    if (!isNonEmptyString(item)) {
+      violations.push({
+        path: `${section}[${i}]`,
+        message: `${SECTION_LABELS[section]}必须是非空字符串`,
+      })
+      structural = false
+    }
+  })
+  if (!structural) return null
+
+  const items = (raw as string[]).map((item) => item.trim())
+  if (section !== 'hashtags') return items
+
+  // 话题标签统一以 # 开头；标签内有空白时在平台上会被截断
+  return items.map((tag, i) => {
+    const normalized = tag.startsWith('#') ? tag : `#${tag}`
+    if (/\s/.test(normalized)) {
+      violations.push({ path: `hashtags[${i}]`, message: '话题标签不能包含空格' })
+    }
+    return normalized
+  })
+}
+
+/**
+ * 校验常见问答
+ */
+function validateFaq(raw: unknown, violations: AssetViolation[]): FaqItem[] | null {
+  if (!Array.isArray(raw)) {
+    violations.push({ path: 'faq', message: 'faq 必须是数组' })
+    return null
+  }
+  let structural = true
+  raw.forEach((item, i) => {
+    const q = (item as { q?: unknown } | null)?.q
+    const a = (item as { a?: unknown } | null)?.a
+    if (!isNonEmptyString(q)) {
+      violations.push({ path: `faq[${i}].q`, message: 'q 必须是非空字符串' })
+      structural = false
+    }
+    if (!isNonEmptyString(a)) {
+      violations.push({ path: `faq[${i}].a`, message: 'a 必须是非空字符串' })
+      structural = false
+    }
+  })
+  if (!structural) return null
+  return (raw as FaqItem[]).map((item) => ({ q: item.q.trim(), a: item.a.trim() }))
+}
+
+/**
+ * 校验请求的扩展内容
+ *
+ * @returns 结构合法的扩展内容；缺少或结构不合法的部分被省略
+ */
+function validateSections(
+  obj: Record<string, unknown>,
+  sections: AssetSection[],
+  rules: AssetRules,
+  violations: AssetViolation[]
+): Partial<Assets> {
+  const result: Partial<Assets> = {}
+  for (const section of sections) {
+    if (obj[section] === undefined) {
+      violations.push({ path: section, message: `缺少${SECTION_LABELS[section]}（${section}）` })
+      continue
+    }
+    const items =
+      section === 'faq'
+        ? validateFaq(obj.faq, violations)
+        : validateStringSection(section, obj[section], violations)
+    if (!items) continue
+
+    const { min, max } = rules.sections[section]
+    if (items.length < min || items.length > max) {
+      violations.push({
+        path: section,
+        message: `${SECTION_LABELS[section]}须为${min}-${max}条（当前${items.length}条）`,
+      })
+    }
+    Object.assign(result, { [section]: items })
+  }
+  return result
+}
+
+/**
+ * 禁用内容规则检查的文本
+ */
+function forbiddenTexts(
+  assets: Assets,
+  field: NonNullable<ForbiddenRule['fields']>[number]
+): { path: string; text: string }[] {
+  switch (field) {
+    case 'title':
+    case 'atmosphere':
+      return [{ path: field, text: assets[field] }]
+    case 'selling_points':
+    case 'detail_copy':
+      return (assets[field] ?? []).map((text, i) => ({ path: `${field}[${i}]`, text }))
+    case 'faq':
+      return (assets.faq ?? []).flatMap((item, i) => [
+        { path: `faq[${i}].q`, text: item.q },
+        { path: `faq[${i}].a`, text: item.a },
+      ])
+    case 'video_script':
+      return assets.video_script.flatMap((shot, i) => [
+        { path: `video_script[${i}].caption`, text: shot.caption ?? '' },
+        { path: `video_script[${i}].voiceover`, text: shot.voiceover ?? '' },
+      ])
+  }
+}
+
+/**
+ * 检查禁用内容
+ */
+function checkForbidden(assets: Assets, rules: ForbiddenRule[], violations: AssetViolation[]) {
+  for (const rule of rules) {
+    const fields = rule.fields ?? [
+      'title',
+      'selling_points',
+      'atmosphere',
+      'detail_copy',
+      'faq',
+      'video_script',
+    ]
+    for (const field of fields) {
+      for (const { path, text } of forbiddenTexts(assets, field)) {
+        const match = text.match(rule.pattern)
+        if (!match) continue
+        violations.push({ path, message: `${rule.message}（出现"${match[0]}"）` })
+      }
+    }
+  }
+}
+
+/**
+ * 校验素材数据
+ *
+ * @param raw - 从模型输出中解析出的任意值
+ * @param rules - 校验规则，默认为 DEFAULT_ASSET_RULES
+ * @param sections - 请求的扩展内容，只有这些部分会被校验并保留在结果中
+ * @returns 校验结果，包含结构合法的素材数据和所有违规信息
+ *
+ * @example
+ * ```typescript
+ * const { assets, violations } = validateAssets(JSON.parse(text), DEFAULT_ASSET_RULES, ['faq'])
+ * if (violations.length > 0) console.warn(formatViolations(violations))
+ * ```
+ */
+export function validateAssets(
+  raw: unknown,
+  rules: AssetRules = DEFAULT_ASSET_RULES,
+  sections: AssetSection[] = []
+): AssetValidationResult {
+  const violations: AssetViolation[] = []
+
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { assets: null, violations: [{ path: '$', message: '返回内容必须是一个JSON对象' }] }
+  }
+  const obj = raw as Record<string, unknown>
+  let structural = true
+
+  // 标题
+  if (!isNonEmptyString(obj.title)) {
+    violations.push({ path: 'title', message: 'title 必须是非空字符串' })
+    structural = false
+  } else {
+    const len = textLength(obj.title)
+    if (len < rules.titleMin || len > rules.titleMax) {
+      violations.push({
+        path: 'title',
+        message: `标题须为${rules.titleMin}-${rules.titleMax}字（当前${len}字）`,
+      })
+    }
+  }
+
+  // 卖点
+  if (!Array.isArray(obj.selling_points)) {
+    violations.push({ path: 'selling_points', message: 'selling_points 必须是字符串数组' })
+    structural = false
+  } else {
+    obj.selling_points.forEach((p, i) => {
+      if (!isNonEmptyString(p)) {
+        violations.push({ path: `selling_points[${i}]`, message: '卖点必须是非空字符串' })
+        structural = false
+      }
+    })
+    const count = obj.selling_points.length
+    if (count < rules.sellingPointsMin || count > rules.sellingPointsMax) {
+      violations.push({
+        path: 'selling_points',
+        message: `卖点须为${rules.sellingPointsMin}-${rules.sellingPointsMax}条（当前${count}条）`,
+      })
+    }
+  }
+
+  // 氛围词
+  if (!isNonEmptyString(obj.atmosphere)) {
+    violations.push({ path: 'atmosphere', message: 'atmosphere 必须是非空字符串' })
+    structural = false
+  }
+
+  // 视频脚本
+  const script = validateScript(obj.video_script, rules, violations)
+  if (!script) structural = false
+
+  if (!structural) return { assets: null, violations }
+
+  const assets: Assets = {
+    title: (obj.title as string).trim(),
+    selling_points: (obj.selling_points as string[]).map((p) => p.trim()),
+    atmosphere: (obj.atmosphere as string).trim(),
+    video_script: script!,
+    ...validateSections(obj, sections, rules, violations),
+  }
+  if (rules.forbidden) checkForbidden(assets, rules.forbidden, violations)
+
+  return { assets, violations }
+}
+
+/**
+ * 将违规信息格式化为可反馈给模型的文本
+ *
+ * @param violations - 违规信息列表
+ * @returns 每行一条的违规说明
+ */
+export function formatViolations(violations: AssetViolation[]): string {
+  return violations.map((v) => `- ${v.path}: ${v.message}`).join('\n')
+}
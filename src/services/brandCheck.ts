@@ -0,0 +1,165 @@
+/**
+ * 品牌规范模块
+ *
+ * 把会话选用的品牌规范（语气、示例文案、必备用语、禁用语、表情符号策略）
+ * 转换为系统提示词，并在生成后检查素材是否遵守：
+ * - 禁用语：标题、卖点、氛围词、扩展内容和视频脚本（画面、字幕、口播）中都不能出现（大小写不敏感）
+ * - 必备用语：标题、卖点或氛围词中至少出现一次
+ * - 表情符号：按策略检查标题、卖点、氛围词和扩展内容
+ *
+ * 检查结果与广告合规检查一样，作为违规信息反馈给模型改写，仍未解决的问题记录在素材上。
+ */
+
+import type { Assets, BrandGuide, BrandIssue } from '@/types'
+import type { AssetViolation } from './assetValidator'
+import { EMOJI_POLICIES } from '@/lib/brandGuide'
+
+/**
+ * 表情符号策略为"少量使用"时，整套文案允许的表情符号数
+ */
+export const SPARING_EMOJI_LIMIT = 2
+
+/**
+ * 核心文案字段：标题、卖点和氛围词
+ */
+function copyFields(assets: Assets): { path: string; text: string }[] {
+  return [
+    { path: 'title', text: assets.title },
+    ...assets.selling_points.map((point, i) => ({ path: `selling_points[${i}]`, text: point })),
+    { path: 'atmosphere', text: assets.atmosphere },
+  ]
+}
+
+/**
+ * 已生成的扩展内容中的文案
+ */
+function sectionFields(assets: Assets): { path: string; text: string }[] {
+  return [
+    ...(assets.seo_keywords ?? []).map((text, i) => ({ path: `seo_keywords[${i}]`, text })),
+    ...(assets.hashtags ?? []).map((text, i) => ({ path: `hashtags[${i}]`, text })),
+    ...(assets.detail_copy ?? []).map((text, i) => ({ path: `detail_copy[${i}]`, text })),
+    ...(assets.faq ?? []).flatMap((item, i) => [
+      { path: `faq[${i}].q`, text: item.q },
+      { path: `faq[${i}].a`, text: item.a },
+    ]),
+  ]
+}
+
+function findEmoji(text: string): string[] {
+  return text.match(new RegExp('\\p{Extended_Pictographic}', 'gu')) ?? []
+}
+
+/**
+ * 构建品牌规范的提示词
+ *
+ * @param guide - 品牌规范
+ * @returns 追加到系统提示词中的品牌要求
+ */
+export function brandGuidePrompt(guide: BrandGuide): string {
+  const lines = [`品牌规范（${guide.name}）：`]
+  if (guide.tone) lines.push(`语气风格：${guide.tone}`)
+  if (guide.examples.length > 0) {
+    lines.push(
+      `示例文案（参考语气，不要照抄）：\n${guide.examples.map((e) => `- ${e}`).join('\n')}`
+    )
+  }
+  if (guide.requiredTerms.length > 0) {
+    lines.push(`标题、卖点或氛围词中必须出现：${guide.requiredTerms.join('、')}`)
+  }
+  if (guide.forbiddenTerms.length > 0) {
+    lines.push(`任何字段都不得出现：${guide.forbiddenTerms.join('、')}`)
+  }
+  if (guide.emojiPolicy !== 'allow') {
+    const label = EMOJI_POLICIES.find((policy) => policy.id === guide.emojiPolicy)?.label
+    const detail = guide.emojiPolicy === 'sparing' ? `，整套文案最多${SPARING_EMOJI_LIMIT}个` : ''
+    lines.push(`表情符号：${label}${detail}`)
+  }
+  return lines.join('\n')
+}
+
+/**
+ * 检查素材是否遵守品牌规范
+ *
+ * @param assets - 素材数据
+ * @param guide - 品牌规范
+ * @returns 所有问题，按禁用语、必备用语、表情符号排列；为空表示完全遵守
+ *
+ * @example
+ * ```typescript
+ * checkBrandGuide(
+ *   { ...assets, title: '便宜好用的保温杯' },
+ *   { ...guide, forbiddenTerms: ['便宜'], requiredTerms: ['匠心'] }
+ * )
+ * // => [{ path: 'title', kind: 'forbidden_term', span: '便宜', ... }, { path: '$', kind: 'missing_term', span: '匠心', ... }]
+ * ```
+ */
+export function checkBrandGuide(assets: Assets, guide: BrandGuide): BrandIssue[] {
+  const issues: BrandIssue[] = []
+  const fields = copyFields(assets)
+  const extended = [...fields, ...sectionFields(assets)]
+  const scriptFields = assets.video_script.flatMap((shot, i) => [
+    { path: `video_script[${i}].v`, text: shot.v },
+    { path: `video_script[${i}].caption`, text: shot.caption ?? '' },
+    { path: `video_script[${i}].voiceover`, text: shot.voiceover ?? '' },
+  ])
+
+  for (const term of guide.forbiddenTerms) {
+    for (const field of [...extended, ...scriptFields]) {
+      if (field.text.toLowerCase().includes(term.toLowerCase())) {
+        issues.push({
+          path: field.path,
+          kind: 'forbidden_term',
+          span: term,
+          message: `使用了品牌禁用语"${term}"`,
+        })
+      }
+    }
+  }
+
+  for (const term of guide.requiredTerms) {
+    if (!fields.some((field) => field.text.toLowerCase().includes(term.toLowerCase()))) {
+      issues.push({
+        path: '$',
+        kind: 'missing_term',
+        span: term,
+        message: `标题、卖点或氛围词中缺少品牌必备用语"${term}"`,
+      })
+    }
+  }
+
+  if (guide.emojiPolicy === 'none') {
+    for (const field of extended) {
+      const emoji = findEmoji(field.text)
+      if (emoji.length > 0) {
+        issues.push({
+          path: field.path,
+          kind: 'emoji',
+          span: emoji.join(''),
+          message: '品牌规范禁止使用表情符号',
+        })
+      }
+    }
+  } else if (guide.emojiPolicy === 'sparing') {
+    const emoji = extended.flatMap((field) => findEmoji(field.text))
+    if (emoji.length > SPARING_EMOJI_LIMIT) {
+      issues.push({
+        path: '$',
+        kind: 'emoji',
+        span: emoji.join(''),
+        message: `表情符号过多（${emoji.length}个），品牌规范要求整套文案最多${SPARING_EMOJI_LIMIT}个`,
+      })
+    }
+  }
+
+  return issues
+}
+
+/**
+ * 将品牌规范问题转换为校验违规信息，用于反馈给模型改写
+ *
+ * @param issues - 品牌规范问题列表
+ * @returns 字段级违规信息
+ */
+export function brandViolations(issues: BrandIssue[]): AssetViolation[] {
+  return issues.map((issue) => ({ path: issue.path, message: issue.message }))
+}
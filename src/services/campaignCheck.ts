@@ -0,0 +1,79 @@
+/**
+ * 营销活动模块
+ *
+ * 把本次生成生效的营销活动（见 @/lib/campaigns）转换为系统提示词，并在生成后检查素材是否体现活动：
+ * - 氛围词须包含活动名称、推荐氛围词或标题钩子之一
+ * - 标题须带上活动名称或标题钩子之一
+ *
+ * 未体现活动的字段作为违规信息反馈给模型改写。主图的视觉提示由前端生成主图时使用。
+ */
+
+import type { Assets, Campaign } from '@/types'
+import type { AssetViolation } from './assetValidator'
+
+/**
+ * 体现活动的用语：活动名称、推荐氛围词和标题钩子
+ */
+function campaignTerms(campaign: Campaign): string[] {
+  return [campaign.name, ...campaign.atmosphere, ...campaign.hooks]
+}
+
+function mentions(text: string, terms: string[]): boolean {
+  const lower = text.toLowerCase()
+  return terms.some((term) => lower.includes(term.toLowerCase()))
+}
+
+/**
+ * 构建营销活动的提示词
+ *
+ * "活动氛围词："与"活动标题钩子："两行的写法同时供模拟数据提供方读取，修改时需保持一致。
+ *
+ * @param campaign - 生效的活动
+ * @param launchDate - 可选的上新日期
+ * @returns 追加到系统提示词中的活动要求
+ */
+export function campaignPrompt(campaign: Campaign, launchDate?: string): string {
+  const lines = [
+    `营销活动：${campaign.name}（${campaign.start}至${campaign.end}）${launchDate ? `，上新日期${launchDate}` : ''}`,
+    `活动氛围词：${(campaign.atmosphere.length > 0 ? campaign.atmosphere : [campaign.name]).join('、')}`,
+    `活动标题钩子：${(campaign.hooks.length > 0 ? campaign.hooks : [campaign.name]).join('、')}`,
+  ]
+  if (campaign.tone) lines.push(`活动语气：${campaign.tone}`)
+  lines.push(
+    '氛围词须体现该活动（可选用上面的活动氛围词），标题须带上一个活动标题钩子，视频分镜的字幕与配乐也要与活动氛围一致。'
+  )
+  return lines.join('\n')
+}
+
+/**
+ * 检查素材是否体现营销活动
+ *
+ * @param assets - 素材数据
+ * @param campaign - 生效的活动
+ * @returns 未体现活动的字段的违规信息，为空表示标题和氛围词都已体现
+ *
+ * @example
+ * ```typescript
+ * campaignViolations({ ...assets, atmosphere: '焕新季' }, double11)
+ * // => [{ path: 'atmosphere', message: '氛围词须体现双11活动，如：双11狂欢、囤货季' }]
+ * ```
+ */
+export function campaignViolations(assets: Assets, campaign: Campaign): AssetViolation[] {
+  const terms = campaignTerms(campaign)
+  const violations: AssetViolation[] = []
+  if (!mentions(assets.title, terms)) {
+    const hooks = campaign.hooks.length > 0 ? campaign.hooks : [campaign.name]
+    violations.push({
+      path: 'title',
+      message: `标题须带上${campaign.name}活动的标题钩子，如：${hooks.join('、')}`,
+    })
+  }
+  if (!mentions(assets.atmosphere, terms)) {
+    const words = campaign.atmosphere.length > 0 ? campaign.atmosphere : [campaign.name]
+    violations.push({
+      path: 'atmosphere',
+      message: `氛围词须体现${campaign.name}活动，如：${words.join('、')}`,
+    })
+  }
+  return violations
+}
@@ -0,0 +1,124 @@
+/**
+ * 广告合规检查模块
+ *
+ * 基于《广告法》的本地规则检查生成的文案，找出绝对化用语、虚假权威用语、
+ * 医疗功效用语等违规片段，并给出建议的替换用语。
+ *
+ * 词表以数据文件的形式维护在 src/data/compliance/ 下，每个文件一个违规类别：
+ * - term: 需要匹配的词（大小写不敏感）
+ * - pattern: 可选的正则表达式，用于词表难以穷举的情况（如"最+形容词"）
+ * - suggestion: 建议的替换用语
+ *
+ * 只检查面向消费者的文案字段（标题、卖点、氛围词，已生成的话题标签、详情页文案和常见问答，
+ * 以及视频脚本的字幕和口播）；视频脚本的画面描述是给拍摄人员看的，不做检查。
+ */
+
+import type { Assets, ComplianceIssue } from '@/types'
+import type { AssetViolation } from './assetValidator'
+import absoluteClaims from '@/data/compliance/absolute-claims.json'
+import authority from '@/data/compliance/authority.json'
+import efficacy from '@/data/compliance/efficacy.json'
+
+/**
+ * 词表数据文件结构
+ */
+interface ComplianceWordList {
+  category: string
+  description?: string
+  rules: { term?: string; pattern?: string; label?: string; suggestion: string }[]
+}
+
+/**
+ * 编译后的规则
+ */
+interface CompiledRule {
+  category: string
+  regex: RegExp
+  suggestion: string
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * 编译所有词表，按文件顺序排列；同一位置被多条规则命中时，以先出现的规则为准
+ */
+const RULES: CompiledRule[] = (
+  [absoluteClaims, authority, efficacy] as ComplianceWordList[]
+).flatMap((list) =>
+  list.rules
+    .filter((rule) => rule.term || rule.pattern)
+    .map((rule) => ({
+      category: list.category,
+      regex: new RegExp(rule.pattern ?? escapeRegExp(rule.term!), 'gi'),
+      suggestion: rule.suggestion,
+    }))
+)
+
+/**
+ * 检查一段文本
+ */
+function checkText(path: string, text: string, issues: ComplianceIssue[]) {
+  const found: ComplianceIssue[] = []
+  for (const rule of RULES) {
+    for (const match of text.matchAll(rule.regex)) {
+      const start = match.index ?? 0
+      const end = start + match[0].length
+      // 与已命中的片段重叠时跳过，避免"最佳"同时命中词表和"最+形容词"
+      if (found.some((issue) => start < issue.end && end > issue.start)) continue
+      found.push({
+        path,
+        start,
+        end,
+        span: match[0],
+        category: rule.category,
+        suggestion: rule.suggestion,
+      })
+    }
+  }
+  issues.push(...found.sort((a, b) => a.start - b.start))
+}
+
+/**
+ * 检查素材的广告合规问题
+ *
+ * @param assets - 素材数据
+ * @returns 所有违规片段，按字段和位置排列；为空表示未发现问题
+ *
+ * @example
+ * ```typescript
+ * checkCompliance({ ...assets, title: '全网最低价 国家级品质保温杯' })
+ * // => [{ path: 'title', span: '全网最低', category: '绝对化用语', suggestion: '超值', ... }, ...]
+ * ```
+ */
+export function checkCompliance(assets: Assets): ComplianceIssue[] {
+  const issues: ComplianceIssue[] = []
+  checkText('title', assets.title, issues)
+  assets.selling_points.forEach((point, i) => checkText(`selling_points[${i}]`, point, issues))
+  checkText('atmosphere', assets.atmosphere, issues)
+  assets.hashtags?.forEach((tag, i) => checkText(`hashtags[${i}]`, tag, issues))
+  assets.detail_copy?.forEach((text, i) => checkText(`detail_copy[${i}]`, text, issues))
+  assets.faq?.forEach((item, i) => {
+    checkText(`faq[${i}].q`, item.q, issues)
+    checkText(`faq[${i}].a`, item.a, issues)
+  })
+  assets.video_script.forEach((shot, i) => {
+    if (shot.caption) checkText(`video_script[${i}].caption`, shot.caption, issues)
+    if (shot.voiceover) checkText(`video_script[${i}].voiceover`, shot.voiceover, issues)
+  })
+  return issues
+}
+
+/**
+ * 将合规问题转换为校验违规信息，用于反馈给模型改写
+ *
+ * @param issues - 合规问题列表
+ * @returns 字段级违规信息
+ */
+export function complianceViolations(issues: ComplianceIssue[]): AssetViolation[] {
+  return issues.map((issue) => ({
+    path: issue.path,
+    message: `"${issue.span}"属于${issue.category}，违反广告法，可改为"${issue.suggestion}"`,
+  }))
+}
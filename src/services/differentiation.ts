@@ -0,0 +1,169 @@
+/**
+ * 竞品差异化模块
+ *
+ * 从用户粘贴的竞品标题/卖点中提取宣传点，转换为系统提示词，要求模型避开竞品已有的说法；
+ * 生成后把我方卖点与竞品卖点逐条对比：
+ * - 我方每条卖点匹配与之最相近的竞品卖点，相似度达到 OVERLAP_THRESHOLD 视为重复
+ * - 重复的卖点与广告合规问题一样，作为违规信息反馈给模型改写
+ * - 对比结果以表格形式记录在素材上（我方卖点 vs 竞品卖点）
+ *
+ * 宣传点的提取和相似度计算都是确定性的本地规则，不调用模型。
+ */
+
+import type { Assets, ClaimComparison, CompetitorClaims } from '@/types'
+import type { AssetViolation } from './assetValidator'
+import { similarity } from './assetScoring'
+
+/**
+ * 我方卖点与竞品卖点的相似度达到该值即视为重复
+ */
+export const OVERLAP_THRESHOLD = 0.5
+
+/**
+ * 相似度低于该值时不认为两条卖点相关，对比表中不做匹配
+ */
+const MATCH_THRESHOLD = 0.2
+
+/**
+ * 相似度达到该值的竞品宣传点视为同一条，只保留先出现的
+ */
+const DUPLICATE_CLAIM_THRESHOLD = 0.8
+
+/**
+ * 每个竞品最多保留的宣传点数
+ */
+const MAX_CLAIMS_PER_COMPETITOR = 12
+
+/**
+ * 宣传点的分隔符：换行与常见中英文标点；中文内容中的空白同样视为分隔（电商标题常以空格分隔关键词）
+ */
+const CLAIM_SEPARATORS = /[\r\n,，。;；、!！?？|｜/【】[\]]+/
+
+/**
+ * 从一个竞品的标题/卖点原文中提取宣传点
+ *
+ * @param listing - 竞品标题、卖点等原文
+ * @returns 去重后的宣传点（2-40字）
+ *
+ * @example
+ * ```typescript
+ * extractClaims('某品牌保温杯 12小时长效保温 316不锈钢\n一键开盖，单手操作')
+ * // => ['某品牌保温杯', '12小时长效保温', '316不锈钢', '一键开盖', '单手操作']
+ * ```
+ */
+export function extractClaims(listing: string): string[] {
+  const claims: string[] = []
+  for (const part of listing.split(CLAIM_SEPARATORS)) {
+    const tokens = /\p{Script=Han}/u.test(part) ? part.split(/\s+/) : [part]
+    for (const token of tokens) {
+      const claim = token.trim()
+      const length = Array.from(claim).length
+      if (length < 2 || length > 40 || /^[\d\s.%]+$/.test(claim)) continue
+      if (claims.some((prev) => similarity(prev, claim) >= DUPLICATE_CLAIM_THRESHOLD)) continue
+      claims.push(claim)
+      if (claims.length >= MAX_CLAIMS_PER_COMPETITOR) return claims
+    }
+  }
+  return claims
+}
+
+/**
+ * 提取全部竞品的宣传点
+ *
+ * @param listings - 每项为一个竞品的原文
+ * @returns 按粘贴顺序命名的竞品宣传点，没有提取到宣传点的竞品被省略
+ */
+export function extractCompetitorClaims(listings: string[]): CompetitorClaims[] {
+  return listings
+    .map((listing, i) => ({ name: `竞品${i + 1}`, claims: extractClaims(listing) }))
+    .filter((competitor) => competitor.claims.length > 0)
+}
+
+/**
+ * 构建竞品差异化的提示词
+ *
+ * @param competitors - 竞品宣传点
+ * @returns 追加到系统提示词中的差异化要求
+ */
+export function differentiationPrompt(competitors: CompetitorClaims[]): string {
+  const lines = competitors.map(
+    (competitor) => `${competitor.name}：${competitor.claims.join('；')}`
+  )
+  return `竞品已经在宣传以下卖点，我方卖点不要重复或换个说法照搬，应从竞品没有覆盖的角度突出差异：\n${lines.join('\n')}`
+}
+
+/**
+ * 对比我方卖点与竞品卖点
+ *
+ * @param assets - 素材数据
+ * @param competitors - 竞品宣传点
+ * @returns 对比表：先是我方每条卖点及最相近的竞品卖点，再是没有被匹配到的竞品卖点
+ *
+ * @example
+ * ```typescript
+ * compareClaims({ ...assets, selling_points: ['12小时长效保温', '轻至280克'] }, [
+ *   { name: '竞品1', claims: ['12小时保温', '大容量'] },
+ * ])
+ * // => [
+ * //   { path: 'selling_points[0]', ours: '12小时长效保温', theirs: '12小时保温', competitor: '竞品1', similarity: 0.71, overlap: true },
+ * //   { path: 'selling_points[1]', ours: '轻至280克', theirs: null, competitor: null, similarity: 0, overlap: false },
+ * //   { path: null, ours: null, theirs: '大容量', competitor: '竞品1', similarity: 0, overlap: false },
+ * // ]
+ * ```
+ */
+export function compareClaims(assets: Assets, competitors: CompetitorClaims[]): ClaimComparison[] {
+  const theirs = competitors.flatMap((competitor) =>
+    competitor.claims.map((claim) => ({ claim, competitor: competitor.name }))
+  )
+  const matched = new Set<number>()
+
+  const rows: ClaimComparison[] = assets.selling_points.map((point, i) => {
+    let best = -1
+    let bestScore = 0
+    theirs.forEach((claim, j) => {
+      const score = similarity(point, claim.claim)
+      if (score > bestScore) {
+        best = j
+        bestScore = score
+      }
+    })
+    const match = bestScore >= MATCH_THRESHOLD ? theirs[best] : null
+    if (match) matched.add(best)
+    return {
+      path: `selling_points[${i}]`,
+      ours: point,
+      theirs: match?.claim ?? null,
+      competitor: match?.competitor ?? null,
+      similarity: match ? Math.round(bestScore * 100) / 100 : 0,
+      overlap: bestScore >= OVERLAP_THRESHOLD,
+    }
+  })
+
+  theirs.forEach((claim, j) => {
+    if (matched.has(j)) return
+    rows.push({
+      path: null,
+      ours: null,
+      theirs: claim.claim,
+      competitor: claim.competitor,
+      similarity: 0,
+      overlap: false,
+    })
+  })
+  return rows
+}
+
+/**
+ * 将与竞品重复的卖点转换为校验违规信息，用于反馈给模型改写
+ *
+ * @param comparison - 卖点对比表
+ * @returns 字段级违规信息
+ */
+export function differentiationViolations(comparison: ClaimComparison[]): AssetViolation[] {
+  return comparison
+    .filter((row) => row.overlap && row.path)
+    .map((row) => ({
+      path: row.path!,
+      message: `与${row.competitor}的卖点"${row.theirs}"重复，请换一个竞品没有覆盖的角度`,
+    }))
+}
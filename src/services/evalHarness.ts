@@ -0,0 +1,282 @@
+/**
+ * 离线评测模块
+ *
+ * 对一组固定的商品描述（评测集，见 src/data/eval/golden.json）运行 generateAssets，
+ * 用与线上相同的校验规则给输出打分，并对比两次评测的结果，用于回归检查提示词或解析逻辑的改动：
+ * - 结构与长度规则：按目标平台的规则校验最终输出（见 ./assetValidator）
+ * - 广告合规：最终输出中仍存在的违规用语（见 ./compliance）
+ * - 质量评分：与候选方案排序相同的启发式评分（见 ./assetScoring）
+ * - 调用次数：包括修复轮在内的模型调用次数，反映首次输出的质量
+ *
+ * 模型响应通过 outboundFetch 的录制与回放获得（见 @/lib/outbound/fixtures），评测本身不依赖网络；
+ * 回放时应关闭模拟数据回退（allowMock: false），没有录制过的请求直接记为生成失败，而不是给模拟数据打分。
+ * 入口脚本见 scripts/eval.ts。
+ */
+
+import type { AssetSection, AssetsMeta, PlatformId, PromptVersions } from '@/types'
+import { pickAssets } from '@/lib/assets'
+import { generateAssets } from './aiService'
+import { validateAssets } from './assetValidator'
+import { scoreAssets } from './assetScoring'
+import { getPlatformProfile } from './platforms'
+
+/**
+ * 评测用例
+ *
+ * @property id - 用例ID，对比两次评测时按ID对应
+ * @property description - 商品描述（用户输入）
+ * @property platform - 目标平台（默认通用）
+ * @property sections - 请求的扩展内容
+ */
+export interface EvalCase {
+  id: string
+  description: string
+  platform?: PlatformId
+  sections?: AssetSection[]
+}
+
+/**
+ * 单个用例的评测结果
+ *
+ * @property id - 用例ID
+ * @property passed - 是否通过：由真实模型（录制的响应）生成，且没有规则违规和合规问题
+ * @property provider - 生成的提供方，'mock' 表示回退到了模拟数据，'none' 表示生成失败
+ * @property fallbackReason - 回退或失败的原因
+ * @property calls - 模型调用次数（包括修复轮）
+ * @property score - 质量评分总分，生成失败时为null
+ * @property violations - 结构与长度规则的违规，格式为 '字段: 说明'
+ * @property compliance - 广告合规问题，格式为 '违规片段（类别）'
+ * @property title - 生成的标题，生成失败时为null
+ */
+export interface EvalCaseResult {
+  id: string
+  passed: boolean
+  provider: string
+  fallbackReason: string | null
+  calls: number
+  score: number | null
+  violations: string[]
+  compliance: string[]
+  title: string | null
+}
+
+/**
+ * 一次评测的报告
+ *
+ * @property label - 报告名称，如使用的提示词版本或代码版本
+ * @property prompts - 指定的提示词模板版本（未指定的按模板注册表分配）
+ * @property createdAt - 评测时间（ISO字符串）
+ * @property cases - 各用例的结果
+ */
+export interface EvalReport {
+  label: string
+  prompts: PromptVersions
+  createdAt: string
+  cases: EvalCaseResult[]
+}
+
+/**
+ * 评测报告的汇总
+ */
+export interface EvalSummary {
+  cases: number
+  passed: number
+  mock: number
+  averageScore: number
+  averageCalls: number
+  violations: number
+  compliance: number
+}
+
+/**
+ * 生成失败的用例结果
+ */
+function failedCase(id: string, reason: string): EvalCaseResult {
+  return {
+    id,
+    passed: false,
+    provider: 'none',
+    fallbackReason: reason,
+    calls: 0,
+    score: null,
+    violations: [],
+    compliance: [],
+    title: null,
+  }
+}
+
+/**
+ * 运行单个用例
+ */
+async function runCase(
+  item: EvalCase,
+  prompts: PromptVersions,
+  allowMock: boolean
+): Promise<EvalCaseResult> {
+  let meta: AssetsMeta | null
+  try {
+    meta = await generateAssets(item.description, [], [], {
+      platform: item.platform,
+      sections: item.sections,
+      prompts,
+      allowMock,
+      noCache: true,
+    })
+  } catch (error) {
+    return failedCase(item.id, error instanceof Error ? error.message : String(error))
+  }
+  if (!meta) return failedCase(item.id, '没有结构合法的输出')
+
+  const rules = getPlatformProfile(item.platform).rules
+  const { violations } = validateAssets(pickAssets(meta), rules, item.sections)
+  const compliance = (meta.compliance ?? []).map((issue) => `${issue.span}（${issue.category}）`)
+  const provider = meta.provenance?.provider ?? 'unknown'
+  return {
+    id: item.id,
+    passed: provider !== 'mock' && violations.length === 0 && compliance.length === 0,
+    provider,
+    fallbackReason: meta.provenance?.fallbackReason ?? null,
+    calls: meta.provenance?.usage?.length ?? 0,
+    score: scoreAssets(meta, item.description, rules).total,
+    violations: violations.map((v) => `${v.path}: ${v.message}`),
+    compliance,
+    title: meta.title,
+  }
+}
+
+/**
+ * 运行评测
+ *
+ * 用例依次运行，录制时不会因并发请求触发限流，日志也便于对照。
+ *
+ * @param cases - 评测集
+ * @param options - 报告名称、指定的提示词模板版本，以及是否允许回退到模拟数据（默认：true）
+ * @returns 评测报告
+ *
+ * @example
+ * ```typescript
+ * setOutboundFixtures({ mode: 'replay', fixtures })
+ * const report = await runEval(golden.cases, {
+ *   label: 'assets@2',
+ *   prompts: { assets: '2' },
+ *   allowMock: false,
+ * })
+ * console.log(formatReport(report))
+ * ```
+ */
+export async function runEval(
+  cases: EvalCase[],
+  options: { label: string; prompts?: PromptVersions; allowMock?: boolean }
+): Promise<EvalReport> {
+  const prompts = options.prompts ?? {}
+  const results: EvalCaseResult[] = []
+  for (const item of cases) {
+    results.push(await runCase(item, prompts, options.allowMock ?? true))
+  }
+  return { label: options.label, prompts, createdAt: new Date().toISOString(), cases: results }
+}
+
+/**
+ * 汇总评测报告
+ *
+ * @param report - 评测报告
+ * @returns 通过数、回退到模拟数据的用例数、平均分、平均调用次数及问题总数
+ */
+export function summarizeReport(report: EvalReport): EvalSummary {
+  const scored = report.cases.filter((c) => c.score !== null)
+  const average = (values: number[]) =>
+    values.length === 0
+      ? 0
+      : Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 10) / 10
+  return {
+    cases: report.cases.length,
+    passed: report.cases.filter((c) => c.passed).length,
+    mock: report.cases.filter((c) => c.provider === 'mock').length,
+    averageScore: average(scored.map((c) => c.score as number)),
+    averageCalls: average(report.cases.map((c) => c.calls)),
+    violations: report.cases.reduce((sum, c) => sum + c.violations.length, 0),
+    compliance: report.cases.reduce((sum, c) => sum + c.compliance.length, 0),
+  }
+}
+
+function formatSummary(summary: EvalSummary): string {
+  return `通过 ${summary.passed}/${summary.cases}，平均分 ${summary.averageScore}，平均调用 ${summary.averageCalls} 次，规则违规 ${summary.violations} 处，合规问题 ${summary.compliance} 处，回退模拟数据 ${summary.mock} 个`
+}
+
+/**
+ * 格式化评测报告
+ *
+ * @param report - 评测报告
+ * @returns 每个用例一行的文本报告，末尾为汇总
+ */
+export function formatReport(report: EvalReport): string {
+  const lines = [`# ${report.label}`]
+  for (const c of report.cases) {
+    const status = c.passed ? '通过' : c.provider === 'mock' ? '未回放' : '未通过'
+    lines.push(
+      `[${status}] ${c.id}  分数 ${c.score ?? '-'}  调用 ${c.calls} 次  ${c.title ?? ''}`.trimEnd()
+    )
+    for (const v of c.violations) lines.push(`    规则：${v}`)
+    for (const v of c.compliance) lines.push(`    合规：${v}`)
+    if (c.provider === 'mock' && c.fallbackReason) lines.push(`    回退：${c.fallbackReason}`)
+    if (c.provider === 'none' && c.fallbackReason) lines.push(`    失败：${c.fallbackReason}`)
+  }
+  lines.push(formatSummary(summarizeReport(report)))
+  return lines.join('\n')
+}
+
+/**
+ * 对比两次评测
+ *
+ * 按用例ID对应，列出通过状态、分数、调用次数、问题和标题有变化的用例，以及汇总的变化。
+ *
+ * @param base - 基准报告（如当前版本）
+ * @param next - 对比报告（如新的提示词或解析逻辑）
+ * @returns 文本形式的对比报告
+ *
+ * @example
+ * ```typescript
+ * console.log(diffReports(await runEval(cases, { label: 'assets@1', prompts: { assets: '1' } }),
+ *                         await runEval(cases, { label: 'assets@2', prompts: { assets: '2' } })))
+ * ```
+ */
+export function diffReports(base: EvalReport, next: EvalReport): string {
+  const lines = [`# ${base.label} → ${next.label}`]
+  const before = new Map(base.cases.map((c) => [c.id, c]))
+  for (const after of next.cases) {
+    const prev = before.get(after.id)
+    before.delete(after.id)
+    if (!prev) {
+      lines.push(`+ ${after.id}：新增用例${after.passed ? '（通过）' : '（未通过）'}`)
+      continue
+    }
+    const changes: string[] = []
+    if (prev.passed !== after.passed) changes.push(after.passed ? '变为通过' : '变为未通过')
+    if (prev.score !== after.score)
+      changes.push(`分数 ${prev.score ?? '-'} → ${after.score ?? '-'}`)
+    if (prev.calls !== after.calls) changes.push(`调用 ${prev.calls} → ${after.calls} 次`)
+    const added = [...after.violations, ...after.compliance].filter(
+      (v) => !prev.violations.includes(v) && !prev.compliance.includes(v)
+    )
+    const resolved = [...prev.violations, ...prev.compliance].filter(
+      (v) => !after.violations.includes(v) && !after.compliance.includes(v)
+    )
+    if (changes.length === 0 && added.length === 0 && resolved.length === 0) {
+      if (prev.title !== after.title) lines.push(`  ${after.id}：仅标题变化`)
+      continue
+    }
+    const replayed = after.provider === 'mock' ? '（未回放）' : ''
+    lines.push(
+      `${after.passed ? ' ' : '!'} ${after.id}${replayed}：${changes.join('，') || '问题有变化'}`
+    )
+    for (const v of added) lines.push(`    新增问题：${v}`)
+    for (const v of resolved) lines.push(`    已解决：${v}`)
+    if (prev.title !== after.title)
+      lines.push(`    标题：${prev.title ?? '-'} → ${after.title ?? '-'}`)
+  }
+  for (const id of before.keys()) lines.push(`- ${id}：用例已移除`)
+
+  lines.push(`基准：${formatSummary(summarizeReport(base))}`)
+  lines.push(`对比：${formatSummary(summarizeReport(next))}`)
+  return lines.join('\n')
+}
@@ -0,0 +1,137 @@
+/**
+ * 模型输出缓存模块
+ *
+ * 相同的请求（同样的消息列表、商品图片及其顺序与用途、首选模型与提示词版本）直接复用上次的模型输出，
+ * 避免刷新页面、误点重新生成等情况重复付费调用模型。首选模型按调用的任务从路由表中确定
+ * （见 @/lib/providers/routing），路由调整后旧缓存自动失效。
+ *
+ * 缓存键是规范化后的请求内容的SHA-256：消息内容去掉首尾空白并合并连续空白，
+ * 因此只有空白差异的请求也会命中。缓存保存在数据库中，过期后自动失效。
+ * 只缓存首选提供方与模型自己的输出：首选提供方失败后由其他提供方（或模拟数据）给出的结果不进入缓存，
+ * 否则首选提供方恢复后相同的请求仍会拿到回退的结果；未配置真实模型时不使用缓存。
+ *
+ * 环境变量配置：
+ * - GENERATION_CACHE_TTL_SECONDS: 缓存有效期（秒，默认86400即24小时），设为0关闭缓存
+ */
+
+import { createHash } from 'crypto'
+import type { ProductImage } from '@/types'
+import type { ChatMessage, GenerateResult } from '@/lib/volcano'
+import { getProviderChain, resolveRoute, type ModelTask } from '@/lib/providers'
+import { getCacheEntry, setCacheEntry } from '@/lib/db'
+
+/**
+ * 默认缓存有效期（秒）
+ */
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60
+
+/**
+ * 缓存请求内容
+ *
+ * @property messages - 完整的消息列表
+ * @property images - 可选的商品图片（按顺序）
+ * @property promptVersion - 提示词版本，提示词调整后旧缓存自动失效
+ * @property task - 调用的任务，决定首选提供方使用的模型
+ */
+export interface CacheRequest {
+  messages: ChatMessage[]
+  images?: ProductImage[]
+  promptVersion: string
+  task: ModelTask
+}
+
+/**
+ * 读取缓存有效期（毫秒），0表示关闭缓存
+ */
+function getTtlMs(): number {
+  const raw = process.env.GENERATION_CACHE_TTL_SECONDS
+  const seconds = raw === undefined || raw === '' ? DEFAULT_TTL_SECONDS : Number(raw)
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : 0
+}
+
+function normalizeText(text: string): string {
+  return text.trim().replace(/\s+/g, ' ')
+}
+
+/**
+ * 计算缓存键
+ *
+ * @param request - 缓存请求内容
+ * @param model - 首选模型（提供方/模型名称）
+ * @returns SHA-256 十六进制字符串
+ *
+ * @example
+ * ```typescript
+ * cacheKey({ messages, images, promptVersion: '1', task: 'initial' }, 'doubao/doubao-seed-1-6-251015')
+ * ```
+ */
+export function cacheKey(request: CacheRequest, model: string): string {
+  const normalized = {
+    messages: request.messages.map((m) => ({ role: m.role, content: normalizeText(m.content) })),
+    images: (request.images ?? []).map((image) => ({ url: image.url.trim(), role: image.role })),
+    model,
+    promptVersion: request.promptVersion,
+  }
+  return createHash('sha256').update(JSON.stringify(normalized)).digest('hex')
+}
+
+/**
+ * 带缓存地调用模型
+ *
+ * 命中缓存时不调用模型，返回缓存的输出；来源信息沿用生成时的提供方和模型，
+ * 并标记 cachedAt（缓存写入时间），耗时为读取缓存的时间，不产生token用量。
+ * 缓存读写失败只打印错误，不影响模型调用。
+ *
+ * @param request - 缓存请求内容
+ * @param generate - 未命中时实际调用模型的函数
+ * @param options - noCache 为true时跳过读取缓存（仍会用新的输出刷新缓存）；onHit 在命中时以完整输出回调
+ * @returns 模型输出及其来源信息
+ */
+export async function withGenerationCache(
+  request: CacheRequest,
+  generate: () => Promise<GenerateResult>,
+  options: { noCache?: boolean; onHit?: (text: string) => void } = {}
+): Promise<GenerateResult> {
+  const ttlMs = getTtlMs()
+  const preferred = getProviderChain()[0]
+  if (ttlMs === 0 || preferred.id === 'mock') return generate()
+
+  const startedAt = Date.now()
+  const route = resolveRoute(request.task, preferred.id, Boolean(request.images?.length))
+  const model = preferred.modelName(route.model)
+  const key = cacheKey(request, `${preferred.id}/${model ?? ''}`)
+
+  if (!options.noCache) {
+    try {
+      const entry = await getCacheEntry(key)
+      if (entry) {
+        options.onHit?.(entry.text)
+        return {
+          text: entry.text,
+          provenance: {
+            ...entry.provenance,
+            latencyMs: Date.now() - startedAt,
+            usage: [],
+            cachedAt: entry.createdAt,
+          },
+        }
+      }
+    } catch (error) {
+      console.error('读取模型输出缓存失败:', error)
+    }
+  }
+
+  const result = await generate()
+  if (result.provenance.provider === preferred.id && result.provenance.model === model) {
+    try {
+      await setCacheEntry(key, {
+        text: result.text,
+        provenance: result.provenance,
+        expiresAt: new Date(Date.now() + ttlMs),
+      })
+    } catch (error) {
+      console.error('写入模型输出缓存失败:', error)
+    }
+  }
+  return result
+}
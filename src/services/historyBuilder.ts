@@ -0,0 +1,165 @@
+/**
+ * 对话历史构建模块
+ *
+ * 把数据库中的会话消息整理成发给模型的对话历史，控制长对话的上下文长度：
+ * 1. 最近一条素材消息（当前采用的素材）原样保留，更早的素材消息折叠为一行摘要
+ *    （只保留标题、卖点和氛围词，不再带完整JSON）
+ * 2. 折叠后仍超出token预算时，从最早的消息开始合并为一条对话摘要，
+ *    摘要只保留用户当时的商品描述要点
+ *
+ * token数按字符估算（中文约每字1个token，其余约每4个字符1个token），只用于预算控制。
+ *
+ * 环境变量配置：
+ * - HISTORY_TOKEN_BUDGET: 对话历史的token预算（默认3000）
+ */
+
+import type { Assets, HistoryCompaction, Message } from '@/types'
+
+/**
+ * 默认的对话历史token预算
+ */
+const DEFAULT_BUDGET_TOKENS = 3000
+
+/**
+ * 对话摘要中每条商品描述保留的最大字数
+ */
+const SUMMARY_SNIPPET_LENGTH = 40
+
+/**
+ * 对话摘要中最多保留的商品描述条数（取最近的几条）
+ */
+const SUMMARY_MAX_SNIPPETS = 5
+
+/**
+ * 发给模型的历史消息
+ */
+export type HistoryTurn = { role: 'user' | 'assistant'; content: string }
+
+/**
+ * 构建结果
+ *
+ * @property history - 发给模型的对话历史
+ * @property compaction - 压缩情况，历史未被压缩时为null
+ */
+export interface BuiltHistory {
+  history: HistoryTurn[]
+  compaction: HistoryCompaction | null
+}
+
+/**
+ * 估算文本的token数
+ *
+ * @param text - 文本
+ * @returns 估算的token数
+ *
+ * @example
+ * ```typescript
+ * estimateTokens('保温杯 keeps warm') // => 6（中文3字 + 其余11个字符约3个token）
+ * ```
+ */
+export function estimateTokens(text: string): number {
+  const cjk = text.match(/[\u3000-\u9fff\uff00-\uffef]/g)?.length ?? 0
+  return cjk + Math.ceil((text.length - cjk) / 4)
+}
+
+function getBudget(): number {
+  const budget = Number(process.env.HISTORY_TOKEN_BUDGET)
+  return Number.isFinite(budget) && budget > 0 ? budget : DEFAULT_BUDGET_TOKENS
+}
+
+function truncate(text: string, length: number): string {
+  const compact = text.trim().replace(/\s+/g, ' ')
+  return compact.length > length ? `${compact.slice(0, length)}…` : compact
+}
+
+/**
+ * 把旧素材消息折叠为一行摘要
+ *
+ * @param content - 素材消息内容（素材的JSON）
+ * @returns 摘要文本
+ */
+function summarizeAssets(content: string): string {
+  try {
+    const assets = JSON.parse(content) as Partial<Assets> | null
+    if (!assets || typeof assets !== 'object') throw new Error('素材内容为空')
+    const parts = [
+      assets.title && `标题「${assets.title}」`,
+      Array.isArray(assets.selling_points) &&
+        assets.selling_points.length > 0 &&
+        `卖点：${assets.selling_points.join('、')}`,
+      assets.atmosphere && `氛围词：${assets.atmosphere}`,
+    ].filter(Boolean)
+    return `（此前生成的素材摘要）${parts.join('；')}`
+  } catch {
+    return `（此前生成的素材摘要）${truncate(content, SUMMARY_SNIPPET_LENGTH * 2)}`
+  }
+}
+
+/**
+ * 把较早的消息合并为一条对话摘要
+ */
+function summarizeDropped(dropped: Message[]): HistoryTurn {
+  const snippets = dropped
+    .filter((m) => m.role === 'user')
+    .slice(-SUMMARY_MAX_SNIPPETS)
+    .map((m) => truncate(m.content, SUMMARY_SNIPPET_LENGTH))
+  const described = snippets.length > 0 ? `用户此前提供过的商品描述：${snippets.join('；')}` : ''
+  return {
+    role: 'user',
+    content: `（较早的${dropped.length}条对话已省略）${described}`,
+  }
+}
+
+/**
+ * 构建发给模型的对话历史
+ *
+ * @param messages - 按时间顺序排列的会话消息（不含本轮的用户输入）
+ * @param budgetTokens - 可选的token预算，默认读取 HISTORY_TOKEN_BUDGET
+ * @returns 对话历史及压缩情况
+ *
+ * @example
+ * ```typescript
+ * const { history, compaction } = buildHistory(await listMessages(conversationId))
+ * if (compaction) console.log(`折叠了${compaction.collapsedAssets}条旧素材`)
+ * ```
+ */
+export function buildHistory(messages: Message[], budgetTokens = getBudget()): BuiltHistory {
+  const latestAssets = messages.map((m) => m.messageType).lastIndexOf('generated_assets')
+
+  // 第一步：旧素材折叠为摘要
+  let collapsedAssets = 0
+  const turns: HistoryTurn[] = messages.map((m, index) => {
+    if (m.messageType === 'generated_assets' && index !== latestAssets) {
+      collapsedAssets++
+      return { role: m.role, content: summarizeAssets(m.content) }
+    }
+    return { role: m.role, content: m.content }
+  })
+
+  // 第二步：超出预算时从最早的消息开始合并为摘要（摘要本身也计入预算，最近的素材始终保留）
+  const assemble = (firstKept: number) => {
+    const dropped = messages.slice(0, firstKept).filter((_, index) => index !== latestAssets)
+    const kept = turns.filter((_, index) => index >= firstKept || index === latestAssets)
+    const history = dropped.length > 0 ? [summarizeDropped(dropped), ...kept] : kept
+    const tokens = history.reduce((sum, turn) => sum + estimateTokens(turn.content), 0)
+    return { history, dropped, tokens }
+  }
+  let firstKept = 0
+  let built = assemble(firstKept)
+  while (built.tokens > budgetTokens && firstKept < turns.length) {
+    built = assemble(++firstKept)
+  }
+
+  const { history, dropped, tokens } = built
+  if (collapsedAssets === 0 && dropped.length === 0) return { history, compaction: null }
+  return {
+    history,
+    compaction: {
+      totalMessages: messages.length,
+      collapsedAssets,
+      droppedMessages: dropped.length,
+      estimatedTokens: tokens,
+      budgetTokens,
+    },
+  }
+}
@@ -1,3 +1,11 @@
+import { outboundFetch } from '@/lib/outbound'
+
+/**
+ * 生成氛围主图
+ *
+ * 成功时返回图片地址及实际使用的模型（用于用量统计）；
+ * 未配置密钥时返回null；调用失败时抛出 OutboundError 的子类（超时、配额不足、熔断等）。
+ */
 export async function generateAtmosphereImage(input: {
   imageUrl: string
   prompt: string
@@ -14,8 +22,9 @@ export async function generateAtmosphereImage(input: {
   }
   const model = input.model || process.env.DOUBAO_IMAGE_MODEL || 'doubao-seedream-4-5-251128'
   if (!apiKey || !endpoint) return null
-  try {
-    const r = await fetch(endpoint, {
+  const r = await outboundFetch(
+    endpoint,
+    {
       method: 'POST',
       headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${apiKey}` },
       body: JSON.stringify({
@@ -28,12 +37,10 @@ export async function generateAtmosphereImage(input: {
         stream: false,
         watermark: true,
       }),
-    })
-    if (!r.ok) return null
-    const data = await r.json()
-    const url = data?.data?.[0]?.url || data?.choices?.[0]?.data?.[0]?.url
-    return typeof url === 'string' ? url : null
-  } catch {
-    return null
-  }
+    },
+    { service: '豆包图片生成', timeoutMs: 90_000, retries: 1 }
+  )
+  const data = await r.json()
+  const url = data?.data?.[0]?.url || data?.choices?.[0]?.data?.[0]?.url
+  return typeof url === 'string' ? { url, model } : null
 }
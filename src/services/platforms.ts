@@ -0,0 +1,141 @@
+/**
+ * 平台文案配置模块
+ *
+ * 不同电商平台对标题长度、文案风格和禁用内容的要求各不相同。
+ * 每个平台配置包含：
+ * - 追加到系统提示词中的风格说明
+ * - 标题/卖点/脚本的长度约束
+ * - 平台特有的禁用内容规则
+ *
+ * 本模块不依赖服务端能力，前端也可以引用 PLATFORM_OPTIONS 渲染平台选择器。
+ */
+
+import type { PlatformId } from '@/types'
+import { DEFAULT_ASSET_RULES, type AssetRules } from './assetValidator'
+
+/**
+ * 平台配置
+ *
+ * @property id - 平台标识
+ * @property label - 平台名称
+ * @property prompt - 追加到系统提示词中的平台风格说明（通用配置为空）
+ * @property rules - 该平台的校验规则
+ */
+export interface PlatformProfile {
+  id: PlatformId
+  label: string
+  prompt: string
+  rules: AssetRules
+}
+
+/**
+ * 站外导流用语，各平台均不允许
+ */
+const CONTACT_RULE = {
+  pattern: /微信|vx|v信|加v|QQ|私聊|私信/i,
+  message: '不得出现站外导流或私下联系的用语',
+}
+
+/**
+ * 所有平台配置
+ */
+export const PLATFORM_PROFILES: Record<PlatformId, PlatformProfile> = {
+  generic: {
+    id: 'generic',
+    label: '通用',
+    prompt: '',
+    rules: DEFAULT_ASSET_RULES,
+  },
+  taobao: {
+    id: 'taobao',
+    label: '淘宝/天猫',
+    prompt:
+      '目标平台为淘宝/天猫：标题以搜索为导向，"品牌+核心品类词+属性词+场景词"紧凑排列，关键词之间可用空格分隔，不使用感叹号和表情；卖点偏理性，突出材质、规格与服务保障。',
+    rules: {
+      ...DEFAULT_ASSET_RULES,
+      titleMax: 30,
+      forbidden: [
+        CONTACT_RULE,
+        { pattern: /[!！]/, fields: ['title'], message: '淘宝标题不得使用感叹号' },
+      ],
+    },
+  },
+  jd: {
+    id: 'jd',
+    label: '京东',
+    prompt:
+      '目标平台为京东：标题采用"品牌+产品名+型号/规格+核心卖点"的规范格式，语气专业可信，突出正品、参数与售后；不使用表情符号和网络用语。',
+    rules: {
+      ...DEFAULT_ASSET_RULES,
+      titleMax: 45,
+      forbidden: [
+        CONTACT_RULE,
+        { pattern: /\p{Extended_Pictographic}/u, message: '京东文案不得使用表情符号' },
+      ],
+    },
+  },
+  douyin: {
+    id: 'douyin',
+    label: '抖音',
+    prompt:
+      '目标平台为抖音电商：标题短促有钩子，口语化、有画面感；卖点适合口播，每条尽量不超过12字；视频脚本前3秒必须给出强吸引力的开场钩子。',
+    rules: {
+      ...DEFAULT_ASSET_RULES,
+      titleMax: 20,
+      forbidden: [
+        CONTACT_RULE,
+        { pattern: /全网最低|最低价|秒杀价/, message: '抖音不得使用价格类绝对化承诺' },
+      ],
+    },
+  },
+  xiaohongshu: {
+    id: 'xiaohongshu',
+    label: '小红书',
+    prompt:
+      '目标平台为小红书：以真实体验分享的第一人称"种草"口吻书写，标题可带1-2个表情符号，语气亲切自然；避免硬广式的促销与下单引导。',
+    rules: {
+      ...DEFAULT_ASSET_RULES,
+      titleMin: 6,
+      titleMax: 20,
+      forbidden: [
+        CONTACT_RULE,
+        { pattern: /点击购买|下单链接|立即购买|拍下/, message: '小红书不得出现硬广式下单引导' },
+      ],
+    },
+  },
+  pinduoduo: {
+    id: 'pinduoduo',
+    label: '拼多多',
+    prompt:
+      '目标平台为拼多多：突出实惠与性价比，标题包含品类词和核心规格（如数量、容量），卖点直白易懂，强调实用与耐用。',
+    rules: {
+      ...DEFAULT_ASSET_RULES,
+      titleMax: 30,
+      forbidden: [CONTACT_RULE, { pattern: /原价\s*\d+/, message: '拼多多不得使用虚构原价对比' }],
+    },
+  },
+}
+
+/**
+ * 平台选项列表（用于前端选择器）
+ */
+export const PLATFORM_OPTIONS: { id: PlatformId; label: string }[] = Object.values(
+  PLATFORM_PROFILES
+).map(({ id, label }) => ({ id, label }))
+
+/**
+ * 判断字符串是否为合法的平台标识
+ */
+export function isPlatformId(value: unknown): value is PlatformId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(PLATFORM_PROFILES, value)
+}
+
+/**
+ * 获取平台配置
+ *
+ * @param id - 平台标识，未知或未提供时使用通用配置
+ * @returns 平台配置
+ */
+export function getPlatformProfile(id?: string | null): PlatformProfile {
+  return isPlatformId(id) ? PLATFORM_PROFILES[id] : PLATFORM_PROFILES.generic
+}
@@ -0,0 +1,162 @@
+/**
+ * 提示词模板注册表
+ *
+ * 提示词按名称和版本维护在数据文件 src/data/prompts.json 中，调整措辞时新增版本而不是修改代码：
+ * - versions: 各版本的模板，{{变量}} 替换为变量值，{{#变量}}...{{/变量}} 只在变量非空时保留
+ * - active: 生效版本
+ * - split: 可选的A/B分流权重（版本 => 权重），非空时为每次请求按权重随机分配版本
+ *
+ * 每次生成使用的版本记录在素材消息的 metaData.prompts 中，之后可以按版本比较采纳情况
+ * （是否被选定、重新生成的次数等）。
+ *
+ * 环境变量配置：
+ * - PROMPT_TEMPLATES: 可选的JSON字符串，结构与 templates 相同，按模板覆盖 active、split 或补充版本，
+ *   如 {"assets":{"split":{"1":50,"2":50}}}
+ */
+
+import type { PromptName } from '@/types'
+import prompts from '@/data/prompts.json'
+
+/**
+ * 模板的一个版本
+ */
+interface PromptTemplateVersion {
+  description: string
+  template: string
+}
+
+/**
+ * 一个模板的全部版本及分流配置
+ */
+interface PromptTemplate {
+  active: string
+  split: Record<string, number>
+  versions: Record<string, PromptTemplateVersion>
+}
+
+/**
+ * 渲染后的提示词
+ *
+ * @property text - 提示词文本
+ * @property version - 实际使用的模板版本
+ */
+export interface RenderedPrompt {
+  text: string
+  version: string
+}
+
+/**
+ * 读取模板注册表（数据文件 + 环境变量覆盖）
+ */
+function getTemplates(): Record<PromptName, PromptTemplate> {
+  const base = prompts.templates as Record<PromptName, PromptTemplate>
+  const raw = process.env.PROMPT_TEMPLATES
+  if (!raw) return base
+  try {
+    const override = JSON.parse(raw) as Partial<Record<PromptName, Partial<PromptTemplate>>>
+    const merged = { ...base }
+    for (const name of Object.keys(base) as PromptName[]) {
+      const o = override[name]
+      if (!o) continue
+      merged[name] = {
+        active: o.active ?? base[name].active,
+        split: o.split ?? base[name].split,
+        versions: { ...base[name].versions, ...o.versions },
+      }
+    }
+    return merged
+  } catch (error) {
+    console.error('PROMPT_TEMPLATES 不是合法的JSON，已忽略:', error)
+    return base
+  }
+}
+
+/**
+ * 为一次请求分配模板版本
+ *
+ * 配置了分流权重时按权重随机分配（只计入存在的版本和正数权重），否则使用生效版本。
+ *
+ * @param name - 模板名称
+ * @param random - 随机数来源（默认 Math.random）
+ * @returns 分配到的版本
+ *
+ * @example
+ * ```typescript
+ * // PROMPT_TEMPLATES={"assets":{"split":{"1":50,"2":50}}}
+ * assignPromptVersion('assets') // => '1' 或 '2'，各约一半
+ * ```
+ */
+export function assignPromptVersion(name: PromptName, random: () => number = Math.random): string {
+  const template = getTemplates()[name]
+  const weights = Object.entries(template.split ?? {}).filter(
+    ([version, weight]) => template.versions[version] && Number.isFinite(weight) && weight > 0
+  )
+  const total = weights.reduce((sum, [, weight]) => sum + weight, 0)
+  if (total > 0) {
+    let point = random() * total
+    for (const [version, weight] of weights) {
+      point -= weight
+      if (point < 0) return version
+    }
+    return weights[weights.length - 1][0]
+  }
+  return template.versions[template.active] ? template.active : Object.keys(template.versions)[0]
+}
+
+/**
+ * 确定本次使用的模板版本：沿用指定且仍存在的版本，否则按 assignPromptVersion 分配
+ *
+ * @param name - 模板名称
+ * @param preferred - 指定的版本（如重试、重新生成时沿用原消息上记录的版本）
+ * @returns 使用的版本
+ */
+export function pickPromptVersion(name: PromptName, preferred?: string): string {
+  return preferred && getTemplates()[name].versions[preferred]
+    ? preferred
+    : assignPromptVersion(name)
+}
+
+/**
+ * 渲染模板文本
+ *
+ * @param template - 模板文本
+ * @param variables - 变量值，缺少的变量视为空
+ * @returns 渲染后的文本（去掉末尾空白）
+ *
+ * @example
+ * ```typescript
+ * renderTemplate('标题"{{title}}"{{#atmosphere}}，氛围：{{atmosphere}}{{/atmosphere}}', { title: '保温杯' })
+ * // => '标题"保温杯"'
+ * ```
+ */
+export function renderTemplate(template: string, variables: Record<string, string>): string {
+  return template
+    .replace(/\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g, (_, name: string, inner: string) =>
+      variables[name] ? inner : ''
+    )
+    .replace(/\{\{(\w+)\}\}/g, (_, name: string) => variables[name] ?? '')
+    .trimEnd()
+}
+
+/**
+ * 按名称渲染提示词
+ *
+ * @param name - 模板名称
+ * @param variables - 变量值
+ * @param version - 指定的版本，见 pickPromptVersion
+ * @returns 提示词文本及实际使用的版本
+ *
+ * @example
+ * ```typescript
+ * const { text, version } = renderPrompt('hero', { title: '保温杯', sellingPoints: '长效保温' })
+ * ```
+ */
+export function renderPrompt(
+  name: PromptName,
+  variables: Record<string, string>,
+  version?: string
+): RenderedPrompt {
+  const chosen = pickPromptVersion(name, version)
+  const template = getTemplates()[name].versions[chosen].template
+  return { text: renderTemplate(template, variables), version: chosen }
+}
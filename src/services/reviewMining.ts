@@ -0,0 +1,395 @@
+/**
+ * 买家评价挖掘模块
+ *
+ * 从用户导入的一批买家评价中提炼卖点依据：
+ * 1. 本地按关键词频次聚类：统计每个关键词被多少条评价提到，取高频关键词各成一组，并附上评价片段
+ * 2. 把各组关键词和片段交给模型，归纳为买家称赞的属性和抱怨的痛点
+ *    （结果来自模拟数据或不合法时，按片段中的抱怨用语在本地粗分，每个关键词作为一项）
+ * 3. 归纳结果并入素材生成的系统提示词，要求卖点以好评中的真实体验为依据
+ * 4. 生成后把每条卖点关联到支撑它的洞察和评价原文片段
+ */
+
+import { volcanoGenerate, type ChatMessage } from '@/lib/volcano'
+import type {
+  Assets,
+  GenerationProvenance,
+  ReviewEvidence,
+  ReviewInsight,
+  ReviewInsights,
+} from '@/types'
+import { similarity } from './assetScoring'
+
+/**
+ * 最多保留的关键词分组数
+ */
+const MAX_CLUSTERS = 15
+
+/**
+ * 好评属性、痛点各最多保留的项数
+ */
+const MAX_INSIGHTS = 6
+
+/**
+ * 每组（每项洞察）最多保留的评价片段数
+ */
+const MAX_SNIPPETS = 3
+
+/**
+ * 评价片段的最大长度，较长的评价截取关键词前后的内容
+ */
+const SNIPPET_MAX_LENGTH = 60
+
+/**
+ * 卖点与洞察属性的相似度达到该值（或卖点包含洞察的关键词）时视为有评价依据
+ */
+const LINK_THRESHOLD = 0.2
+
+/**
+ * 含有这些字的中文片段多为虚词搭配（如"的很"、"也是"），不作为关键词
+ */
+const FUNCTION_CHARS = /[的了是很也都我你他她它们和就在有着吗呢吧啊呀么还又挺蛮这那个给把被]/
+
+/**
+ * 与商品属性无关的常见词
+ */
+const STOPWORDS = new Set([
+  '非常',
+  '真的',
+  '感觉',
+  '而且',
+  '但是',
+  '因为',
+  '所以',
+  '可以',
+  '自己',
+  '东西',
+  '宝贝',
+  '商品',
+  '收到',
+  '购买',
+  '买来',
+  '好评',
+  '评价',
+  'the',
+  'and',
+  'for',
+  'with',
+  'this',
+  'that',
+  'very',
+  'was',
+  'are',
+  'but',
+  'not',
+  'have',
+  'has',
+  'its',
+  "it's",
+])
+
+/**
+ * 抱怨用语：模型不可用时，据此判断一组评价以抱怨为主
+ */
+const COMPLAINT =
+  /不好|不行|不能|不太|不够|不值|没有|差|慢|漏|坏|破损|退货|失望|一般般|问题|难[用拧开洗装]|太[紧松重贵小大]|就是|可惜|异味|掉色|poor|bad|broken|slow|leak|disappoint/i
+
+/**
+ * 关键词分组
+ *
+ * @property keyword - 关键词
+ * @property mentions - 提到该关键词的评价条数
+ * @property snippets - 提到该关键词的评价片段
+ */
+export interface ReviewCluster {
+  keyword: string
+  mentions: number
+  snippets: string[]
+}
+
+/**
+ * 评价挖掘结果
+ *
+ * @property insights - 好评属性与痛点
+ * @property provenance - 归纳所用模型调用的来源信息，没有调用模型时为null
+ */
+export interface MinedReviews {
+  insights: ReviewInsights
+  provenance: GenerationProvenance | null
+}
+
+/**
+ * 提取一条评价中的关键词：连续中文取2-4字的片段，英文取3个字母以上的单词
+ */
+function reviewKeywords(review: string): Set<string> {
+  const keywords = new Set<string>()
+  for (const run of review.match(/\p{Script=Han}+/gu) ?? []) {
+    const chars = Array.from(run)
+    for (let n = 2; n <= 4; n++) {
+      for (let i = 0; i + n <= chars.length; i++) {
+        const gram = chars.slice(i, i + n).join('')
+        if (!FUNCTION_CHARS.test(gram) && !STOPWORDS.has(gram)) keywords.add(gram)
+      }
+    }
+  }
+  for (const word of review.toLowerCase().match(/[a-z][a-z'-]{2,}/g) ?? []) {
+    if (!STOPWORDS.has(word)) keywords.add(word)
+  }
+  return keywords
+}
+
+/**
+ * 截取评价中关键词前后的内容作为片段
+ */
+function excerpt(review: string, keyword: string): string {
+  const chars = Array.from(review)
+  if (chars.length <= SNIPPET_MAX_LENGTH) return review
+  const index = Math.max(review.toLowerCase().indexOf(keyword), 0)
+  const at = Array.from(review.slice(0, index)).length
+  const start = Math.max(
+    0,
+    Math.min(at - SNIPPET_MAX_LENGTH / 2, chars.length - SNIPPET_MAX_LENGTH)
+  )
+  const text = chars.slice(start, start + SNIPPET_MAX_LENGTH).join('')
+  return `${start > 0 ? '…' : ''}${text}${start + SNIPPET_MAX_LENGTH < chars.length ? '…' : ''}`
+}
+
+/**
+ * 按关键词频次聚类评价
+ *
+ * 统计每个关键词被多少条评价提到，从高频到低频选取关键词；
+ * 与已选关键词互相包含的（如已选"保温"后的"保温效果"）视为同一组，不再单独成组；
+ * 只出现在某个已选分组的评价中、又与该组关键词有相同字的（如已选"盖子"后跨词的"子难"）同样跳过。
+ * 评价不少于5条时，只被1条评价提到的关键词不成组。
+ *
+ * @param reviews - 评价列表
+ * @returns 按提及次数从高到低排列的关键词分组
+ *
+ * @example
+ * ```typescript
+ * clusterReviews(['保温效果很好', '保温一整天', '颜值高'])
+ * // => [{ keyword: '保温', mentions: 2, snippets: ['保温效果很好', '保温一整天'] }, ...]
+ * ```
+ */
+export function clusterReviews(reviews: string[]): ReviewCluster[] {
+  const keywordsByReview = reviews.map(reviewKeywords)
+  const counts = new Map<string, number>()
+  for (const keywords of keywordsByReview) {
+    for (const keyword of keywords) counts.set(keyword, (counts.get(keyword) ?? 0) + 1)
+  }
+
+  const minMentions = reviews.length >= 5 ? 2 : 1
+  const ranked = [...counts.entries()]
+    .filter(([, count]) => count >= minMentions)
+    .sort((a, b) => b[1] - a[1] || b[0].length - a[0].length)
+
+  const clusters: ReviewCluster[] = []
+  const members: Set<number>[] = []
+  for (const [keyword, mentions] of ranked) {
+    if (clusters.some((c) => c.keyword.includes(keyword) || keyword.includes(c.keyword))) continue
+    const matched = reviews.flatMap((_, i) => (keywordsByReview[i].has(keyword) ? [i] : []))
+    const fragment = clusters.some(
+      (c, j) =>
+        matched.every((i) => members[j].has(i)) &&
+        Array.from(keyword).some((char) => c.keyword.includes(char))
+    )
+    if (fragment) continue
+    const snippets = matched.slice(0, MAX_SNIPPETS).map((i) => excerpt(reviews[i], keyword))
+    clusters.push({ keyword, mentions, snippets })
+    members.push(new Set(matched))
+    if (clusters.length >= MAX_CLUSTERS) break
+  }
+  return clusters
+}
+
+/**
+ * 构建归纳评价的消息列表
+ */
+function buildMiningMessages(clusters: ReviewCluster[], reviewCount: number): ChatMessage[] {
+  const lines = clusters.map(
+    (c) => `- ${c.keyword}（${c.mentions}条）：${c.snippets.map((s) => `「${s}」`).join('')}`
+  )
+  return [
+    {
+      role: 'system',
+      content: `你是电商运营分析师。用户会给出${reviewCount}条买家评价按关键词聚类的结果（关键词、提及条数、评价片段）。请归纳买家称赞的商品属性和抱怨的痛点，仅返回一个JSON对象：{"praises":Array<{attribute:string,keywords:string[]}>,"pain_points":Array<{attribute:string,keywords:string[]}>}。attribute为4-12字的属性描述，keywords只能取自给出的关键词；各最多${MAX_INSIGHTS}项，按提及条数从多到少排列，没有时返回空数组。`,
+    },
+    { role: 'user', content: lines.join('\n') },
+  ]
+}
+
+/**
+ * 由若干关键词分组合成一项洞察
+ */
+function toInsight(
+  kind: ReviewInsight['kind'],
+  attribute: string,
+  keywords: string[],
+  reviews: string[]
+): ReviewInsight {
+  const matched = reviews.filter((review) =>
+    keywords.some((keyword) => review.toLowerCase().includes(keyword))
+  )
+  return {
+    kind,
+    attribute,
+    keywords,
+    mentions: matched.length,
+    snippets: matched.slice(0, MAX_SNIPPETS).map((review) => {
+      const keyword = keywords.find((k) => review.toLowerCase().includes(k)) ?? ''
+      return excerpt(review, keyword)
+    }),
+  }
+}
+
+/**
+ * 解析模型归纳的洞察；keywords 中不属于任何分组的关键词被丢弃，没有关键词的项被忽略
+ */
+function parseMinedInsights(
+  text: string,
+  clusters: ReviewCluster[],
+  reviews: string[]
+): Omit<ReviewInsights, 'reviewCount'> | null {
+  const first = text.indexOf('{')
+  const last = text.lastIndexOf('}')
+  if (first < 0 || last <= first) return null
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text.slice(first, last + 1))
+  } catch {
+    return null
+  }
+  if (typeof parsed !== 'object' || parsed === null) return null
+
+  const known = new Set(clusters.map((c) => c.keyword))
+  const pick = (value: unknown, kind: ReviewInsight['kind']): ReviewInsight[] => {
+    if (!Array.isArray(value)) return []
+    const insights: ReviewInsight[] = []
+    for (const item of value) {
+      const { attribute, keywords } = (item ?? {}) as Record<string, unknown>
+      if (typeof attribute !== 'string' || !attribute.trim() || !Array.isArray(keywords)) continue
+      const valid = keywords.filter((k): k is string => typeof k === 'string' && known.has(k))
+      if (valid.length > 0) insights.push(toInsight(kind, attribute.trim(), valid, reviews))
+    }
+    return insights.slice(0, MAX_INSIGHTS)
+  }
+
+  const { praises, pain_points } = parsed as Record<string, unknown>
+  const result = { praises: pick(praises, 'praise'), painPoints: pick(pain_points, 'pain_point') }
+  return result.praises.length > 0 || result.painPoints.length > 0 ? result : null
+}
+
+/**
+ * 本地粗分：多数片段含抱怨用语的分组视为痛点，其余视为好评，关键词本身作为属性
+ */
+function classifyLocally(
+  clusters: ReviewCluster[],
+  reviews: string[]
+): Omit<ReviewInsights, 'reviewCount'> {
+  const insights = clusters.map((c) => {
+    const complaints = c.snippets.filter((snippet) => COMPLAINT.test(snippet)).length
+    const kind = complaints * 2 > c.snippets.length ? 'pain_point' : 'praise'
+    return toInsight(kind, c.keyword, [c.keyword], reviews)
+  })
+  return {
+    praises: insights.filter((i) => i.kind === 'praise').slice(0, MAX_INSIGHTS),
+    painPoints: insights.filter((i) => i.kind === 'pain_point').slice(0, MAX_INSIGHTS),
+  }
+}
+
+/**
+ * 挖掘买家评价
+ *
+ * 先在本地聚类，再调用模型归纳好评属性与痛点；结果来自模拟数据或无法解析时使用本地粗分的结果。
+ *
+ * @param reviews - 评价列表
+ * @returns 好评属性、痛点及模型调用的来源信息
+ *
+ * @example
+ * ```typescript
+ * const { insights } = await mineReviews(['保温效果很好，一整天都是热的', '盖子有点难拧', ...])
+ * console.log(insights.praises[0]) // => { kind: 'praise', attribute: '保温时间长', keywords: ['保温'], mentions: 12, snippets: [...] }
+ * ```
+ */
+export async function mineReviews(reviews: string[]): Promise<MinedReviews> {
+  const clusters = clusterReviews(reviews)
+  const empty = { reviewCount: reviews.length, praises: [], painPoints: [] }
+  if (clusters.length === 0) return { insights: empty, provenance: null }
+
+  const { text, provenance } = await volcanoGenerate(
+    buildMiningMessages(clusters, reviews.length),
+    undefined,
+    { task: 'summarize' }
+  )
+  const mined =
+    (provenance.provider !== 'mock' && parseMinedInsights(text, clusters, reviews)) ||
+    classifyLocally(clusters, reviews)
+  return { insights: { reviewCount: reviews.length, ...mined }, provenance }
+}
+
+/**
+ * 判断挖掘结果中是否有可用的洞察
+ */
+export function hasReviewInsights(insights: ReviewInsights | null | undefined): boolean {
+  return !!insights && insights.praises.length + insights.painPoints.length > 0
+}
+
+/**
+ * 构建评价洞察的提示词
+ *
+ * @param insights - 评价挖掘结果
+ * @returns 追加到系统提示词中的评价依据
+ */
+export function reviewInsightsPrompt(insights: ReviewInsights): string {
+  const format = (items: ReviewInsight[]) =>
+    items.map((i) => `${i.attribute}（${i.mentions}条评价提到，如「${i.snippets[0]}」）`).join('；')
+  const lines = [`买家评价洞察（来自${insights.reviewCount}条真实评价）：`]
+  if (insights.praises.length > 0) lines.push(`买家称赞：${format(insights.praises)}`)
+  if (insights.painPoints.length > 0) lines.push(`买家抱怨：${format(insights.painPoints)}`)
+  lines.push(
+    '卖点优先基于买家称赞的真实体验来写，可针对买家抱怨的痛点说明改进或解决方式，不要编造评价中没有的体验。'
+  )
+  return lines.join('\n')
+}
+
+/**
+ * 把每条卖点关联到支撑它的评价洞察
+ *
+ * 卖点包含洞察的关键词，或与洞察属性足够相似时视为有依据；同等程度时好评优先于痛点。
+ *
+ * @param assets - 素材数据
+ * @param insights - 评价挖掘结果
+ * @returns 有评价依据的卖点及其依据（没有依据的卖点省略）
+ *
+ * @example
+ * ```typescript
+ * linkEvidence({ ...assets, selling_points: ['12小时长效保温', '轻至280克'] }, insights)
+ * // => [{ path: 'selling_points[0]', kind: 'praise', attribute: '保温时间长', snippets: ['保温效果很好，一整天都是热的'] }]
+ * ```
+ */
+export function linkEvidence(assets: Assets, insights: ReviewInsights): ReviewEvidence[] {
+  const all = [...insights.praises, ...insights.painPoints]
+  const evidence: ReviewEvidence[] = []
+  assets.selling_points.forEach((point, i) => {
+    const text = point.toLowerCase()
+    let best: ReviewInsight | null = null
+    let bestScore = 0
+    for (const insight of all) {
+      const score = insight.keywords.some((keyword) => text.includes(keyword))
+        ? 1
+        : similarity(point, insight.attribute)
+      if (score > bestScore) {
+        best = insight
+        bestScore = score
+      }
+    }
+    if (best && bestScore >= LINK_THRESHOLD) {
+      evidence.push({
+        path: `selling_points[${i}]`,
+        kind: best.kind,
+        attribute: best.attribute,
+        snippets: best.snippets,
+      })
+    }
+  })
+  return evidence
+}
@@ -0,0 +1,193 @@
+/**
+ * 用量与费用统计模块
+ *
+ * 记录每次模型调用的用量（文本模型的输入/输出token数、图片模型的生成张数），
+ * 按价格表计算费用后保存到数据库，并按会话、客户端汇总。
+ *
+ * 价格表以数据文件的形式维护在 src/data/pricing.json：
+ * - text: 文本模型单价，按每百万token计价（input/output）
+ * - image: 图片模型单价，按每张计价
+ * 未列出的模型按0计价。费用在记录时按当时的单价计算，之后修改价格表不影响历史记录。
+ *
+ * 环境变量配置：
+ * - MODEL_PRICING: 可选的JSON字符串，结构与价格表相同，按模型覆盖或补充单价
+ */
+
+import type { GenerationProvenance, UsageSummary, UsageTotals } from '@/types'
+import { addUsageRecords, sumUsageByModel, type UsageGroup } from '@/lib/db'
+import pricing from '@/data/pricing.json'
+
+/**
+ * 价格表结构
+ */
+interface PriceTable {
+  currency: string
+  text: Record<string, { input: number; output: number }>
+  image: Record<string, number>
+}
+
+/**
+ * 读取价格表（数据文件 + 环境变量覆盖）
+ */
+function getPriceTable(): PriceTable {
+  const base = pricing as PriceTable
+  const raw = process.env.MODEL_PRICING
+  if (!raw) return base
+  try {
+    const override = JSON.parse(raw) as Partial<PriceTable>
+    return {
+      currency: override.currency ?? base.currency,
+      text: { ...base.text, ...override.text },
+      image: { ...base.image, ...override.image },
+    }
+  } catch (error) {
+    console.error('MODEL_PRICING 不是合法的JSON，已忽略:', error)
+    return base
+  }
+}
+
+function roundCost(cost: number): number {
+  return Math.round(cost * 1e6) / 1e6
+}
+
+/**
+ * 计算文本模型调用的费用
+ *
+ * @param model - 模型名称
+ * @param promptTokens - 输入token数
+ * @param completionTokens - 输出token数
+ * @returns 费用，模型不在价格表中时为0
+ *
+ * @example
+ * ```typescript
+ * textCost('doubao-seed-1-6-251015', 1000, 500) // => 0.0048
+ * ```
+ */
+export function textCost(model: string | null, promptTokens: number, completionTokens: number) {
+  const price = model ? getPriceTable().text[model] : undefined
+  if (!price) return 0
+  return roundCost((promptTokens * price.input + completionTokens * price.output) / 1_000_000)
+}
+
+/**
+ * 计算图片模型调用的费用
+ *
+ * @param model - 模型名称
+ * @param images - 生成的图片张数
+ * @returns 费用，模型不在价格表中时为0
+ */
+export function imageCost(model: string | null, images: number) {
+  const price = model ? getPriceTable().image[model] : undefined
+  return price ? roundCost(price * images) : 0
+}
+
+/**
+ * 记录一次素材生成的文本模型用量
+ *
+ * 来源信息中的每次模型调用（包含修复轮、各候选方案）各记一条。
+ * 记录失败只打印错误，不影响生成结果的返回。
+ *
+ * @param conversationId - 会话ID
+ * @param messageId - 素材消息ID
+ * @param provenance - 生成来源信息
+ */
+export async function recordTextUsage(
+  conversationId: string,
+  messageId: string | null,
+  provenance: GenerationProvenance | null | undefined
+): Promise<void> {
+  const usage = provenance?.usage ?? []
+  try {
+    await addUsageRecords(
+      usage.map((u) => ({
+        conversationId,
+        messageId,
+        kind: 'text',
+        provider: u.provider,
+        model: u.model,
+        promptTokens: u.promptTokens,
+        completionTokens: u.completionTokens,
+        cost: textCost(u.model, u.promptTokens, u.completionTokens),
+      }))
+    )
+  } catch (error) {
+    console.error('记录文本模型用量失败:', error)
+  }
+}
+
+/**
+ * 记录一次图片生成的用量
+ *
+ * 记录失败只打印错误，不影响生成结果的返回。
+ *
+ * @param conversationId - 会话ID
+ * @param messageId - 素材消息ID
+ * @param model - 图片模型名称
+ * @param images - 生成的图片张数（默认1）
+ */
+export async function recordImageUsage(
+  conversationId: string,
+  messageId: string | null,
+  model: string,
+  images = 1
+): Promise<void> {
+  try {
+    await addUsageRecords([
+      {
+        conversationId,
+        messageId,
+        kind: 'image',
+        provider: 'doubao',
+        model,
+        images,
+        cost: imageCost(model, images),
+      },
+    ])
+  } catch (error) {
+    console.error('记录图片生成用量失败:', error)
+  }
+}
+
+/**
+ * 合计多个分组的用量
+ */
+function sumTotals(groups: UsageGroup[]): UsageTotals {
+  return groups.reduce<UsageTotals>(
+    (acc, g) => ({
+      calls: acc.calls + g.calls,
+      promptTokens: acc.promptTokens + g.promptTokens,
+      completionTokens: acc.completionTokens + g.completionTokens,
+      images: acc.images + g.images,
+      cost: roundCost(acc.cost + g.cost),
+    }),
+    { calls: 0, promptTokens: 0, completionTokens: 0, images: 0, cost: 0 }
+  )
+}
+
+/**
+ * 汇总客户端与会话的用量
+ *
+ * @param clientId - 客户端ID（会话标题），为null时客户端合计为0
+ * @param conversationId - 可选的会话ID
+ * @returns 用量统计结果，按模型分组的明细按费用从高到低排列
+ *
+ * @example
+ * ```typescript
+ * const summary = await getUsageSummary(clientId, conversationId)
+ * console.log(`本会话 ${summary.conversation?.cost} ${summary.currency}`)
+ * ```
+ */
+export async function getUsageSummary(
+  clientId: string | null,
+  conversationId?: string
+): Promise<UsageSummary> {
+  const clientGroups = clientId ? await sumUsageByModel({ clientId }) : []
+  const conversationGroups = conversationId ? await sumUsageByModel({ conversationId }) : null
+
+  return {
+    currency: getPriceTable().currency,
+    conversation: conversationGroups && sumTotals(conversationGroups),
+    client: sumTotals(clientGroups),
+    models: [...clientGroups].sort((a, b) => b.cost - a.cost),
+  }
+}
@@ -18,7 +18,8 @@
  *   - 'text': 普通文本消息
  *   - 'image_upload': 图片上传消息
  *   - 'generated_assets': AI生成的素材数据消息
- * @property metaData - 可选的元数据，通常用于存储AI生成的素材数据（Assets类型）
+ * @property metaData - 可选的元数据：AI消息存储生成的素材数据（AssetsMeta类型），
+ *   图片上传消息存储 { images: ProductImage[] }（旧消息为 { imageUrl: string }）
  * @property createdAt - 消息创建时间戳（毫秒）
  */
 export type Message = {
@@ -31,6 +32,26 @@ export type Message = {
   createdAt?: number
 }
 
+/**
+ * 商品图片用途
+ *
+ * - 'main': 主图（商品正面/整体）
+ * - 'detail': 细节图（材质、做工等局部）
+ * - 'package': 包装图
+ */
+export type ProductImageRole = 'main' | 'detail' | 'package'
+
+/**
+ * 商品图片
+ *
+ * @property url - 图片URL
+ * @property role - 图片用途
+ */
+export type ProductImage = {
+  url: string
+  role: ProductImageRole
+}
+
 /**
  * 会话类型
  *
@@ -39,39 +60,508 @@ export type Message = {
  * @property id - 会话的唯一标识符（UUID格式）
  * @property createdAt - 会话创建时间戳（毫秒）
  * @property title - 会话标题，通常是商品名称，可选
+ * @property platform - 会话选择的目标电商平台，可选
+ * @property brandGuideId - 会话选用的品牌规范ID，可选
  */
 export type Conversation = {
   id: string
   createdAt: number
   title?: string | null
+  platform?: PlatformId | null
+  brandGuideId?: string | null
+}
+
+/**
+ * 商品档案
+ *
+ * 与会话一一对应的结构化商品信息，每轮生成时作为上下文发给模型，
+ * 避免品牌、价格、材质、人群等信息在多轮对话中丢失。各字段均可为空。
+ *
+ * @property name - 商品名称
+ * @property brand - 品牌
+ * @property category - 类目
+ * @property priceRange - 价格区间，如 '199-259元'
+ * @property specs - 规格参数，每项一条，如 '容量 500ml'
+ * @property audience - 目标人群
+ * @property differentiators - 核心差异点，每项一条
+ */
+export type ProductProfile = {
+  name: string
+  brand: string
+  category: string
+  priceRange: string
+  specs: string[]
+  audience: string
+  differentiators: string[]
+}
+
+/**
+ * 表情符号策略
+ *
+ * - 'allow': 不限制
+ * - 'sparing': 少量使用（整套文案不超过2个）
+ * - 'none': 禁止使用
+ */
+export type EmojiPolicy = 'allow' | 'sparing' | 'none'
+
+/**
+ * 品牌规范
+ *
+ * 按客户端保存的品牌语气与用语要求，会话选用后并入系统提示词，生成后检查是否遵守。
+ *
+ * @property id - 品牌规范ID
+ * @property name - 品牌名称
+ * @property tone - 语气风格描述
+ * @property examples - 示例文案
+ * @property requiredTerms - 必须出现的用语（标题、卖点或氛围词中至少出现一次）
+ * @property forbiddenTerms - 禁止使用的用语
+ * @property emojiPolicy - 表情符号策略
+ */
+export type BrandGuide = {
+  id: string
+  name: string
+  tone: string
+  examples: string[]
+  requiredTerms: string[]
+  forbiddenTerms: string[]
+  emojiPolicy: EmojiPolicy
+}
+
+/**
+ * 品牌规范问题
+ *
+ * @property path - 问题所在字段路径，如 'title'、'selling_points[2]'；整套素材层面的问题为 '$'
+ * @property kind - 问题类型：'forbidden_term' 使用了禁用语，'missing_term' 缺少必备用语，'emoji' 表情符号不符合策略
+ * @property span - 相关的用语或表情符号
+ * @property message - 问题说明
+ */
+export type BrandIssue = {
+  path: string
+  kind: 'forbidden_term' | 'missing_term' | 'emoji'
+  span: string
+  message: string
+}
+
+/**
+ * 竞品卖点
+ *
+ * 从用户粘贴的竞品标题/卖点中提取的宣传点。
+ *
+ * @property name - 竞品名称（按粘贴顺序为"竞品1"、"竞品2"……）
+ * @property claims - 提取出的宣传点
+ */
+export type CompetitorClaims = {
+  name: string
+  claims: string[]
+}
+
+/**
+ * 卖点对比表的一行
+ *
+ * 我方每条卖点一行，对应与之最相近的竞品卖点；没有被匹配到的竞品卖点各占一行（ours 为null）。
+ *
+ * @property path - 我方卖点的字段路径，如 'selling_points[0]'（仅竞品有的行为null）
+ * @property ours - 我方卖点
+ * @property theirs - 最相近的竞品卖点，没有相近卖点时为null
+ * @property competitor - 该竞品卖点所属的竞品名称
+ * @property similarity - 两者的相似度（0-1）
+ * @property overlap - 是否与竞品卖点重复
+ */
+export type ClaimComparison = {
+  path: string | null
+  ours: string | null
+  theirs: string | null
+  competitor: string | null
+  similarity: number
+  overlap: boolean
+}
+
+/**
+ * 营销活动：内置大促节点（618、双11等）或店铺自定义活动
+ *
+ * @property id - 内置活动为固定标识（如 '618'、'double11'），自定义活动为数据库ID
+ * @property name - 活动名称
+ * @property start - 开始日期 'YYYY-MM-DD'（含当天）
+ * @property end - 结束日期 'YYYY-MM-DD'（含当天）
+ * @property atmosphere - 推荐氛围词
+ * @property hooks - 标题钩子，如 '双11狂欢'
+ * @property tone - 语气提示
+ * @property visual - 主图视觉提示（色调、元素）
+ * @property custom - 是否为店铺自定义活动
+ */
+export type Campaign = {
+  id: string
+  name: string
+  start: string
+  end: string
+  atmosphere: string[]
+  hooks: string[]
+  tone: string
+  visual: string
+  custom?: boolean
+}
+
+/**
+ * 买家评价中的一项洞察
+ *
+ * 评价先在本地按关键词频次聚类，再由模型归纳为好评属性或痛点。
+ *
+ * @property kind - 'praise' 为买家称赞的属性，'pain_point' 为买家抱怨的痛点
+ * @property attribute - 归纳出的属性，如 '保温时间长'
+ * @property keywords - 支撑该属性的评价关键词，如 ['保温', '一整天']
+ * @property mentions - 提到这些关键词的评价条数
+ * @property snippets - 评价原文片段（证据）
+ */
+export type ReviewInsight = {
+  kind: 'praise' | 'pain_point'
+  attribute: string
+  keywords: string[]
+  mentions: number
+  snippets: string[]
+}
+
+/**
+ * 买家评价挖掘结果
+ *
+ * @property reviewCount - 参与挖掘的评价条数
+ * @property praises - 好评属性，按提及次数从高到低排列
+ * @property painPoints - 痛点，按提及次数从高到低排列
+ */
+export type ReviewInsights = {
+  reviewCount: number
+  praises: ReviewInsight[]
+  painPoints: ReviewInsight[]
 }
 
 /**
- * 视频脚本片段
+ * 卖点的评价依据
  *
- * 表示短视频脚本中的一个时间片段。
+ * @property path - 卖点的字段路径，如 'selling_points[0]'
+ * @property kind - 依据的洞察类型：基于好评，或回应痛点
+ * @property attribute - 依据的洞察属性
+ * @property snippets - 支撑该卖点的评价原文片段
+ */
+export type ReviewEvidence = {
+  path: string
+  kind: ReviewInsight['kind']
+  attribute: string
+  snippets: string[]
+}
+
+/**
+ * 目标电商平台
  *
- * @property s - 片段开始时间（秒）
- * @property v - 片段描述内容
+ * - 'generic': 通用（不针对特定平台）
+ * - 'taobao': 淘宝/天猫
+ * - 'jd': 京东
+ * - 'douyin': 抖音电商
+ * - 'xiaohongshu': 小红书
+ * - 'pinduoduo': 拼多多
+ */
+export type PlatformId = 'generic' | 'taobao' | 'jd' | 'douyin' | 'xiaohongshu' | 'pinduoduo'
+
+/**
+ * 镜头景别/运镜方式
+ */
+export type ShotType = 'close_up' | 'medium' | 'wide' | 'pan' | 'tracking' | 'overhead'
+
+/**
+ * 镜头之间的转场方式
+ */
+export type ShotTransition = 'cut' | 'fade' | 'dissolve' | 'slide' | 'zoom'
+
+/**
+ * 视频脚本片段（分镜镜头）
+ *
+ * 表示短视频脚本中的一个镜头。早期数据只有 s 和 v，其余字段均为可选，
+ * 展示时用 toStoryboard（见 @/lib/storyboard）补齐时长。
+ *
+ * @property s - 镜头开始时间（秒）
+ * @property v - 画面描述
+ * @property duration - 镜头时长（秒），下一个镜头从 s + duration 开始
+ * @property shot - 景别/运镜方式
+ * @property caption - 屏幕字幕，没有字幕时为空字符串
+ * @property voiceover - 口播台词，没有口播时为空字符串
+ * @property bgm - 可选的配乐提示（如"节奏加快"、"音乐渐弱"）
+ * @property transition - 可选的转场方式，表示从本镜头切到下一镜头的方式
  */
 export type VideoScriptSegment = {
   s: number
   v: string
+  duration?: number
+  shot?: ShotType
+  caption?: string
+  voiceover?: string
+  bgm?: string
+  transition?: ShotTransition
+}
+
+/**
+ * 补齐时长后的分镜镜头
+ */
+export type StoryboardShot = VideoScriptSegment & { duration: number }
+
+/**
+ * 常见问答
+ *
+ * @property q - 问题
+ * @property a - 回答
+ */
+export type FaqItem = {
+  q: string
+  a: string
 }
 
 /**
  * AI生成的电商素材数据
  *
- * 包含AI为商品生成的所有营销素材信息。
+ * 包含AI为商品生成的所有营销素材信息。前四个字段始终存在，
+ * 扩展内容（搜索关键词、话题标签、详情页文案、常见问答）只在请求时生成。
  *
  * @property title - 商品标题（10-30字）
  * @property selling_points - 商品卖点列表（3-5条）
  * @property atmosphere - 营销氛围词（如"焕新季"、"限时特惠"等）
- * @property video_script - 短视频脚本，包含多个时间片段
+ * @property video_script - 短视频分镜脚本，按时间顺序排列的镜头
+ * @property seo_keywords - 可选的搜索关键词
+ * @property hashtags - 可选的社交平台话题标签（以 # 开头）
+ * @property detail_copy - 可选的详情页文案，每项一段
+ * @property faq - 可选的常见问答
  */
 export type Assets = {
   title: string
   selling_points: string[]
   atmosphere: string
   video_script: VideoScriptSegment[]
+  seo_keywords?: string[]
+  hashtags?: string[]
+  detail_copy?: string[]
+  faq?: FaqItem[]
+}
+
+/**
+ * 可选的扩展内容
+ */
+export type AssetSection = 'seo_keywords' | 'hashtags' | 'detail_copy' | 'faq'
+
+/**
+ * 素材字段
+ */
+export type AssetField = 'title' | 'selling_points' | 'atmosphere' | 'video_script' | AssetSection
+
+/**
+ * 单次模型调用的token用量
+ *
+ * @property provider - 提供方标识
+ * @property model - 实际使用的模型名称
+ * @property promptTokens - 输入token数
+ * @property completionTokens - 输出token数
+ */
+export type ModelUsage = {
+  provider: string
+  model: string | null
+  promptTokens: number
+  completionTokens: number
+}
+
+/**
+ * 生成来源信息
+ *
+ * 记录一次生成实际由哪个提供方/模型完成，以便区分真实模型结果与模拟数据。
+ *
+ * @property provider - 提供方标识：'doubao' | 'openai' | 'ollama' | 'mock'
+ * @property model - 实际使用的模型名称（模拟数据为null）
+ * @property fallbackReason - 未使用首选提供方时的原因（多个原因以"；"分隔），使用首选提供方时为null
+ * @property latencyMs - 生成总耗时（毫秒），包含回退和修复的时间
+ * @property usage - 本次生成各次模型调用的token用量（包含修复轮；模拟数据与缓存命中不产生用量）
+ * @property cachedAt - 结果来自模型输出缓存时为缓存写入时间戳（毫秒），此时 provider/model 为当初生成时的来源
+ */
+export type GenerationProvenance = {
+  provider: string
+  model: string | null
+  fallbackReason: string | null
+  latencyMs: number
+  usage?: ModelUsage[]
+  cachedAt?: number
+}
+
+/**
+ * 用量汇总
+ *
+ * @property calls - 模型调用次数
+ * @property promptTokens - 输入token总数
+ * @property completionTokens - 输出token总数
+ * @property images - 生成的图片张数
+ * @property cost - 费用（单位见 UsageSummary.currency）
+ */
+export type UsageTotals = {
+  calls: number
+  promptTokens: number
+  completionTokens: number
+  images: number
+  cost: number
+}
+
+/**
+ * 用量统计结果
+ *
+ * @property currency - 费用的货币单位，如 'CNY'
+ * @property conversation - 当前会话的用量（未指定会话时为null）
+ * @property client - 当前客户端所有会话的用量
+ * @property models - 当前客户端按模型分组的用量
+ */
+export type UsageSummary = {
+  currency: string
+  conversation: UsageTotals | null
+  client: UsageTotals
+  models: (UsageTotals & { kind: string; provider: string; model: string | null })[]
+}
+
+/**
+ * 素材质量评分
+ *
+ * 由确定性的启发式规则计算，各分项与总分均为0-100。
+ *
+ * @property total - 加权总分
+ * @property length - 长度合规度（标题字数、卖点条数、脚本时长）
+ * @property keywords - 关键词覆盖度（商品描述中的关键词出现在标题与卖点中的比例）
+ * @property uniqueness - 卖点去重度（卖点之间越不重复分数越高）
+ */
+export type AssetScore = {
+  total: number
+  length: number
+  keywords: number
+  uniqueness: number
+}
+
+/**
+ * 候选素材
+ *
+ * @property assets - 候选素材数据
+ * @property score - 质量评分
+ * @property compliance - 该方案的广告合规问题
+ * @property brand - 该方案的品牌规范问题（未选用品牌规范时省略）
+ * @property comparison - 该方案与竞品的卖点对比（未提供竞品时省略）
+ * @property evidence - 该方案卖点的评价依据（未提供评价时省略）
+ * @property provenance - 该方案的生成来源
+ */
+export type AssetCandidate = {
+  assets: Assets
+  score: AssetScore
+  compliance?: ComplianceIssue[]
+  brand?: BrandIssue[]
+  comparison?: ClaimComparison[]
+  evidence?: ReviewEvidence[]
+  provenance?: GenerationProvenance
+}
+
+/**
+ * 广告合规问题
+ *
+ * @property path - 问题所在字段路径，如 'title'、'selling_points[2]'
+ * @property start - 违规片段在字段文本中的起始位置
+ * @property end - 违规片段在字段文本中的结束位置（不含）
+ * @property span - 违规片段原文
+ * @property category - 违规类别，如 '绝对化用语'
+ * @property suggestion - 建议的替换用语
+ */
+export type ComplianceIssue = {
+  path: string
+  start: number
+  end: number
+  span: string
+  category: string
+  suggestion: string
+}
+
+/**
+ * 提示词模板名称（模板见 src/data/prompts.json）
+ *
+ * - assets: 素材生成的系统提示词
+ * - hero: 商品主图的生成提示词
+ */
+export type PromptName = 'assets' | 'hero'
+
+/**
+ * 生成时使用的提示词模板版本，键为模板名称
+ */
+export type PromptVersions = Partial<Record<PromptName, string>>
+
+/**
+ * 素材消息的元数据
+ *
+ * 'generated_assets' 消息的 metaData。顶层的素材字段始终是当前采用的方案，
+ * 因此只包含 Assets 字段的旧数据同样适用。
+ *
+ * @property schemaVersion - 素材结构版本（见 ASSETS_SCHEMA_VERSION），旧数据省略，视为1
+ * @property sections - 本次请求的扩展内容（未请求时省略）
+ * @property candidates - 按评分从高到低排列的全部候选方案（只生成一个方案时省略）
+ * @property selectedIndex - 当前采用的候选方案下标
+ * @property pinned - 是否由用户手动选定了采用方案
+ * @property revisions - 按字段重新生成的修订记录（从首次重新生成开始记录，第一条为原始版本）
+ * @property compliance - 当前采用方案中仍存在的广告合规问题
+ * @property brandGuide - 生成时选用的品牌规范（未选用时省略）
+ * @property brand - 当前采用方案中仍存在的品牌规范问题（未选用品牌规范时省略）
+ * @property competitors - 生成时用于差异化的竞品卖点（未提供竞品时省略）
+ * @property comparison - 当前采用方案与竞品的卖点对比（未提供竞品时省略）
+ * @property reviewInsights - 生成时依据的买家评价挖掘结果（未提供评价时省略）
+ * @property evidence - 当前采用方案卖点的评价依据（未提供评价时省略）
+ * @property launchDate - 请求的上新日期 'YYYY-MM-DD'（未指定时省略）
+ * @property campaign - 生成时生效的营销活动（没有活动时省略）
+ * @property prompts - 生成素材与主图时使用的提示词模板版本（用于按版本比较采纳情况，旧数据省略）
+ * @property provenance - 当前采用方案的生成来源
+ * @property history - 生成时对话历史被压缩的情况（历史未压缩时省略）
+ */
+export type AssetsMeta = Assets & {
+  schemaVersion?: number
+  sections?: AssetSection[]
+  candidates?: AssetCandidate[]
+  selectedIndex?: number
+  pinned?: boolean
+  revisions?: AssetRevision[]
+  compliance?: ComplianceIssue[]
+  brandGuide?: { id: string; name: string }
+  brand?: BrandIssue[]
+  competitors?: CompetitorClaims[]
+  comparison?: ClaimComparison[]
+  reviewInsights?: ReviewInsights
+  evidence?: ReviewEvidence[]
+  launchDate?: string
+  campaign?: Campaign
+  prompts?: PromptVersions
+  provenance?: GenerationProvenance
+  history?: HistoryCompaction
+}
+
+/**
+ * 对话历史压缩记录
+ *
+ * 发给模型的对话历史超出token预算或包含多条旧素材时会被压缩，压缩情况记录在素材消息上。
+ *
+ * @property totalMessages - 压缩前的历史消息数
+ * @property collapsedAssets - 折叠为摘要的旧素材消息数
+ * @property droppedMessages - 因超出预算而合并进摘要的较早消息数
+ * @property estimatedTokens - 压缩后历史的估算token数
+ * @property budgetTokens - 历史的token预算
+ */
+export type HistoryCompaction = {
+  totalMessages: number
+  collapsedAssets: number
+  droppedMessages: number
+  estimatedTokens: number
+  budgetTokens: number
+}
+
+/**
+ * 素材修订记录
+ *
+ * @property assets - 该版本的完整素材
+ * @property field - 该版本重新生成的字段（原始版本省略）
+ * @property createdAt - 生成时间戳（毫秒）
+ * @property provenance - 该版本的生成来源
+ */
+export type AssetRevision = {
+  assets: Assets
+  field?: AssetField
+  createdAt: number
+  provenance?: GenerationProvenance
 }